@@ -1,4 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getGenerationConfig, getLLMProvider } from "@/lib/llm"
+
+const llm = getLLMProvider()
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,10 +14,10 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    if (!process.env.GEMINI_API_KEY) {
+    if (!llm.isConfigured()) {
       return NextResponse.json({
         success: false,
-        error: "GEMINI_API_KEYが設定されていません。環境変数を確認してください。",
+        error: `${llm.configurationError()}。環境変数を確認してください。`,
       })
     }
 
@@ -32,98 +35,26 @@ export async function POST(request: NextRequest) {
       systemPrompt = "한국어로 간결하게 대답해 주세요."
     }
 
-    // Gemini Vision API呼び出し
-    const geminiResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `${prompt}\n\n${systemPrompt}`,
-                },
-                {
-                  inline_data: {
-                    mime_type: mimeType || "image/jpeg",
-                    data: image,
-                  },
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            topK: 32,
-            topP: 0.8,
-            maxOutputTokens: 1024,
-          },
-          safetySettings: [
-            {
-              category: "HARM_CATEGORY_HARASSMENT",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-            {
-              category: "HARM_CATEGORY_HATE_SPEECH",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-            {
-              category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-            {
-              category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-          ],
-        }),
-      },
-    )
-
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text()
-      console.error("Gemini API error:", errorText)
-
-      let errorMessage = "Gemini APIエラーが発生しました。"
-      try {
-        const errorData = JSON.parse(errorText)
-        if (errorData.error?.message) {
-          errorMessage = `Gemini API: ${errorData.error.message}`
-        }
-      } catch {
-        errorMessage = `Gemini API: HTTP ${geminiResponse.status}`
-      }
-
-      return NextResponse.json({
-        success: false,
-        error: errorMessage,
-      })
-    }
-
-    const geminiData = await geminiResponse.json()
-
-    if (!geminiData.candidates || geminiData.candidates.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: "Gemini APIから有効な応答が得られませんでした。",
-      })
-    }
-
-    const candidate = geminiData.candidates[0]
+    let analysis: string
+    try {
+      analysis =
+        (await llm.vision(
+          `${prompt}\n\n${systemPrompt}`,
+          { data: image, mimeType: mimeType || "image/jpeg" },
+          getGenerationConfig("analyze-image", "analyze"),
+        )) || "解析結果を取得できませんでした。"
+    } catch (llmError) {
+      console.error("LLM API error:", llmError)
 
-    if (candidate.finishReason === "SAFETY") {
+      const message = llmError instanceof Error ? llmError.message : "不明なエラー"
       return NextResponse.json({
         success: false,
-        error: "安全性フィルターにより応答がブロックされました。",
+        error: message.includes("safety")
+          ? "安全性フィルターにより応答がブロックされました。"
+          : `AI APIエラーが発生しました: ${message}`,
       })
     }
 
-    const analysis = candidate.content?.parts?.[0]?.text || "解析結果を取得できませんでした。"
-
     return NextResponse.json({
       success: true,
       analysis: analysis.trim(),
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server"
+import { listDocumentsNeedingReview } from "@/lib/answer-feedback"
+
+// Knowledge base entries whose answers keep failing, lowest score first
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, documents: await listDocumentsNeedingReview() })
+  } catch (error) {
+    console.error("Error fetching documents needing review:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch documents needing review",
+        documents: [],
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listSessionFeedback, saveAnswerFeedback } from "@/lib/answer-feedback"
+import { resolveOwnerId } from "@/lib/user-devices"
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
+
+// Feedback given in a session (?sessionId=...), keyed by answer id. Both handlers only see the
+// caller's own answers (signed-in user or anonymous owner id).
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const sessionId = request.nextUrl.searchParams.get("sessionId")
+    if (!sessionId) {
+      return NextResponse.json({ success: false, error: "sessionId is required" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, feedback: await listSessionFeedback(sessionId, ownerId) })
+  } catch (error) {
+    console.error("Error fetching answer feedback:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch answer feedback",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { answerId, sessionId, rating?: 1 | -1 | null, resolved?: boolean | null }. Omitted fields keep
+// their stored value, null clears them.
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { answerId, sessionId, rating, resolved } = await request.json()
+
+    if (!answerId || !sessionId) {
+      return NextResponse.json({ success: false, error: "answerId and sessionId are required" }, { status: 400 })
+    }
+    if (rating !== undefined && rating !== null && rating !== 1 && rating !== -1) {
+      return NextResponse.json({ success: false, error: "rating must be 1, -1 or null" }, { status: 400 })
+    }
+    if (resolved !== undefined && resolved !== null && typeof resolved !== "boolean") {
+      return NextResponse.json({ success: false, error: "resolved must be true, false or null" }, { status: 400 })
+    }
+
+    const feedback = await saveAnswerFeedback(answerId, sessionId, ownerId, { rating, resolved })
+    return NextResponse.json({ success: true, feedback })
+  } catch (error) {
+    console.error("Error saving answer feedback:", error)
+    const message = error instanceof Error ? error.message : "Failed to save answer feedback"
+    return NextResponse.json({ success: false, error: message }, { status: message === "Answer not found" ? 404 : 500 })
+  }
+}
@@ -1,8 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { GoogleGenerativeAI } from "@google/generative-ai"
-import { supabaseAdmin } from "@/lib/supabase"
+import { appendChatMessages, loadChatHistory } from "@/lib/chat-sessions"
+import { getGenerationConfig, getLLMProvider, type LLMPart } from "@/lib/llm"
+import { resolveOwnerId } from "@/lib/user-devices"
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+const llm = getLLMProvider()
 
 export async function POST(request: NextRequest) {
   try {
@@ -15,58 +16,16 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    if (!process.env.GEMINI_API_KEY) {
+    if (!llm.isConfigured()) {
       return NextResponse.json({
         success: false,
-        error: "GEMINI_API_KEYが設定されていません。",
+        error: `${llm.configurationError()}。`,
       })
     }
 
-    // Get or create chat session
-    let chatSession
-    if (sessionId) {
-      try {
-        // Check if the table exists first
-        const { data: tableExists, error: tableError } = await supabaseAdmin.from("chat_sessions").select("id").limit(1)
-
-        if (tableError && tableError.code === "42P01") {
-          // Table doesn't exist, continue without session history
-          console.warn("Chat sessions table does not exist. Continuing without session history.")
-          chatSession = null
-        } else {
-          const { data: existingSession } = await supabaseAdmin
-            .from("chat_sessions")
-            .select("*")
-            .eq("session_id", sessionId)
-            .single()
-
-          chatSession = existingSession
-        }
-      } catch (error) {
-        console.warn("Failed to fetch chat session, continuing without history:", error)
-        chatSession = null
-      }
-    }
-
-    if (!chatSession && sessionId) {
-      try {
-        const newSessionId = sessionId || `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-        const { data: newSession, error } = await supabaseAdmin
-          .from("chat_sessions")
-          .insert({
-            session_id: newSessionId,
-            messages: [],
-          })
-          .select()
-          .single()
-
-        if (!error) {
-          chatSession = newSession
-        }
-      } catch (error) {
-        console.warn("Failed to create chat session, continuing without history:", error)
-      }
-    }
+    // Recent turns of the conversation, when the client continues one of its own sessions
+    const ownerId = await resolveOwnerId(request)
+    const history = await loadChatHistory(sessionId, ownerId)
 
     // Get the language from headers or default to Japanese
     const language = request.headers.get("X-Language-Code") || "ja-JP"
@@ -89,40 +48,8 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Initialize the model
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-
-    // Start a chat with history
-    const chat = model.startChat({
-      history: chatSession?.messages || [],
-      generationConfig: {
-        temperature: 0.8,
-        topK: 40,
-        topP: 0.95,
-        maxOutputTokens: 2048,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-      ],
-    })
-
     // Prepare the message parts
-    const messageParts: any[] = [
+    const messageParts: LLMPart[] = [
       {
         text: `${finalSystemPrompt}\n\nUser: ${prompt}`,
       },
@@ -138,41 +65,35 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Send message and get response
-    const result = await chat.sendMessage(messageParts)
-    const response = await result.response
-    const responseText = response.text()
+    // Send message with the stored history and get response
+    const responseText = await llm.chat(
+      history,
+      messageParts,
+      getGenerationConfig("chat-with-history", "respond"),
+    )
 
     if (!responseText) {
       return NextResponse.json({
         success: false,
-        error: "Gemini APIから有効な応答が得られませんでした。",
+        error: "AIから有効な応答が得られませんでした。",
       })
     }
 
-    // Update chat session with new messages (if session exists)
-    if (chatSession) {
+    // Append the exchange to the session (created on first use)
+    if (sessionId && ownerId) {
       try {
-        const updatedMessages = [
-          ...(chatSession.messages || []),
-          {
-            role: "user",
-            parts: messageParts,
-          },
-          {
-            role: "model",
-            parts: [{ text: responseText }],
-          },
-        ]
-
-        // Save updated session to Supabase
-        await supabaseAdmin
-          .from("chat_sessions")
-          .update({
-            messages: updatedMessages,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", chatSession.id)
+        await appendChatMessages(
+          sessionId,
+          [
+            {
+              role: "user",
+              content: prompt,
+              imageData: image ? `data:${mimeType || "image/jpeg"};base64,${image}` : undefined,
+            },
+            { role: "model", content: responseText },
+          ],
+          ownerId,
+        )
       } catch (error) {
         console.warn("Failed to update chat session:", error)
       }
@@ -181,7 +102,7 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       response: responseText.trim(),
-      sessionId: chatSession?.session_id || sessionId,
+      sessionId,
     })
   } catch (error) {
     console.error("Chat with history error:", error)
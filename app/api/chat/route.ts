@@ -1,4 +1,7 @@
 import { type NextRequest, NextResponse } from "next/server"
+import { getGenerationConfig, getLLMProvider, type LLMPart } from "@/lib/llm"
+
+const llm = getLLMProvider()
 
 export async function POST(request: NextRequest) {
   try {
@@ -11,10 +14,10 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    if (!process.env.GEMINI_API_KEY) {
+    if (!llm.isConfigured()) {
       return NextResponse.json({
         success: false,
-        error: "GEMINI_API_KEYが設定されていません。",
+        error: `${llm.configurationError()}。`,
       })
     }
 
@@ -40,7 +43,7 @@ export async function POST(request: NextRequest) {
     }
 
     // リクエストボディを構築
-    const parts: any[] = [
+    const parts: LLMPart[] = [
       {
         text: `${prompt}\n\n${finalSystemPrompt}`,
       },
@@ -49,95 +52,28 @@ export async function POST(request: NextRequest) {
     // 画像が提供されている場合は追加
     if (image) {
       parts.push({
-        inline_data: {
-          mime_type: mimeType || "image/jpeg",
+        inlineData: {
+          mimeType: mimeType || "image/jpeg",
           data: image,
         },
       })
     }
 
-    // Gemini API呼び出し
-    const geminiResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${process.env.GEMINI_API_KEY}`,
-      {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts,
-            },
-          ],
-          generationConfig: {
-            temperature: 0.8,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 2048,
-          },
-          safetySettings: [
-            {
-              category: "HARM_CATEGORY_HARASSMENT",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-            {
-              category: "HARM_CATEGORY_HATE_SPEECH",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-            {
-              category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-            {
-              category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-              threshold: "BLOCK_MEDIUM_AND_ABOVE",
-            },
-          ],
-        }),
-      },
-    )
-
-    if (!geminiResponse.ok) {
-      const errorText = await geminiResponse.text()
-      console.error("Gemini API error:", errorText)
-
-      let errorMessage = "Gemini APIエラーが発生しました。"
-      try {
-        const errorData = JSON.parse(errorText)
-        if (errorData.error?.message) {
-          errorMessage = `Gemini API: ${errorData.error.message}`
-        }
-      } catch {
-        errorMessage = `Gemini API: HTTP ${geminiResponse.status}`
-      }
-
-      return NextResponse.json({
-        success: false,
-        error: errorMessage,
-      })
-    }
-
-    const geminiData = await geminiResponse.json()
-
-    if (!geminiData.candidates || geminiData.candidates.length === 0) {
-      return NextResponse.json({
-        success: false,
-        error: "Gemini APIから有効な応答が得られませんでした。",
-      })
-    }
-
-    const candidate = geminiData.candidates[0]
+    let response: string
+    try {
+      response = (await llm.generate(parts, getGenerationConfig("chat", "respond"))) || "応答を取得できませんでした。"
+    } catch (llmError) {
+      console.error("LLM API error:", llmError)
 
-    if (candidate.finishReason === "SAFETY") {
+      const message = llmError instanceof Error ? llmError.message : "不明なエラー"
       return NextResponse.json({
         success: false,
-        error: "安全性フィルターにより応答がブロックされました。",
+        error: message.includes("safety")
+          ? "安全性フィルターにより応答がブロックされました。"
+          : `AI APIエラーが発生しました: ${message}`,
       })
     }
 
-    const response = candidate.content?.parts?.[0]?.text || "応答を取得できませんでした。"
-
     return NextResponse.json({
       success: true,
       response: response.trim(),
@@ -1,26 +1,29 @@
 import { NextResponse } from "next/server"
+import { PROVIDER_API_KEY_ENV, getLLMProvider, getProviderName } from "@/lib/llm"
 
 export async function GET() {
   try {
     // Check for required environment variables
-    const geminiKey = process.env.GEMINI_API_KEY
+    const llm = getLLMProvider()
     const ttsKey = process.env.GOOGLE_TTS_API_KEY
 
-    const hasGemini = !!geminiKey
+    const hasLLM = llm.isConfigured()
     const hasTTS = !!ttsKey
 
     let message = ""
-    if (hasGemini && hasTTS) {
+    if (hasLLM && hasTTS) {
       message = "✅ すべてのAPI設定が完了しています。"
     } else {
       const missing = []
-      if (!hasGemini) missing.push("GEMINI_API_KEY")
+      if (!hasLLM) missing.push(PROVIDER_API_KEY_ENV[getProviderName()])
       if (!hasTTS) missing.push("GOOGLE_TTS_API_KEY")
       message = `⚠️ 以下の環境変数が設定されていません: ${missing.join(", ")}`
     }
 
     return NextResponse.json({
-      gemini: hasGemini,
+      gemini: llm.name === "gemini" && hasLLM,
+      llm: hasLLM,
+      llmProvider: llm.name,
       tts: hasTTS,
       message,
       timestamp: new Date().toISOString(),
@@ -30,6 +33,7 @@ export async function GET() {
     return NextResponse.json(
       {
         gemini: false,
+        llm: false,
         tts: false,
         message: "❌ API設定の確認中にエラーが発生しました。",
         error: error instanceof Error ? error.message : "Unknown error",
@@ -1,5 +1,6 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { supabaseAdmin } from "@/lib/supabase"
+import { getLLMProvider } from "@/lib/llm"
 
 export async function GET(request: NextRequest) {
   try {
@@ -78,7 +79,8 @@ export async function GET(request: NextRequest) {
         logs: recentLogs || [],
       },
       apiConfiguration: {
-        geminiConfigured: !!process.env.GEMINI_API_KEY,
+        llmProvider: getLLMProvider().name,
+        llmConfigured: getLLMProvider().isConfigured(),
         supabaseConfigured: !!(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY),
       },
     }
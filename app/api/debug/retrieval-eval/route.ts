@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { z } from "zod"
+import { getLLMProvider } from "@/lib/llm"
+import { DEFAULT_RECALL_KS, evalCaseSchema, evalVariantSchema, evaluateCase } from "@/lib/retrieval-eval"
+import { supabaseAdmin } from "@/lib/supabase"
+
+const requestSchema = z.object({
+  case: evalCaseSchema,
+  variants: z.array(evalVariantSchema).min(1).default([{ name: "baseline", tuning: {} }]),
+  ks: z.array(z.number().int().positive()).min(1).default(DEFAULT_RECALL_KS),
+})
+
+// Runs one golden case for scripts/evaluate-retrieval.mjs (lib/retrieval-eval.ts). Every case costs
+// model calls, so production servers only answer when RAG_EVAL_ENABLED=true.
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production" && process.env.RAG_EVAL_ENABLED !== "true") {
+    return NextResponse.json({ success: false, error: "Retrieval evaluation is disabled" }, { status: 404 })
+  }
+
+  try {
+    const parsed = requestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      return NextResponse.json(
+        { success: false, error: `Invalid request: ${issue?.path.join(".")} ${issue?.message}` },
+        { status: 400 },
+      )
+    }
+
+    const llm = getLLMProvider()
+    if (!llm.isConfigured()) {
+      return NextResponse.json({ success: false, error: `${llm.configurationError()}.` }, { status: 500 })
+    }
+
+    const { case: testCase, variants, ks } = parsed.data
+    const result = await evaluateCase(testCase, variants, { llm, db: supabaseAdmin }, ks)
+    return NextResponse.json({ success: true, result })
+  } catch (error) {
+    console.error("Retrieval evaluation error:", error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Retrieval evaluation failed" },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { identifyDevice } from "@/lib/device-identification"
+import { getLLMProvider } from "@/lib/llm"
+
+// Reads the brand, model number and serial number from a photo and matches the catalog, so pages
+// can preselect the product type at upload. Body: { imageBase64, mimeType }
+export async function POST(request: NextRequest) {
+  try {
+    const { imageBase64, mimeType } = await request.json()
+
+    if (!imageBase64) {
+      return NextResponse.json({ success: false, error: "Image data is required" }, { status: 400 })
+    }
+
+    const llm = getLLMProvider()
+    if (!llm.isConfigured()) {
+      console.error(llm.configurationError())
+      return NextResponse.json({ success: false, error: "LLM provider not configured" }, { status: 500 })
+    }
+
+    const device = await identifyDevice({ data: imageBase64, mimeType: mimeType || "image/jpeg" }, { llm })
+    return NextResponse.json({ success: true, device })
+  } catch (error) {
+    console.error("Device identification error:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to identify device",
+      },
+      { status: 500 },
+    )
+  }
+}
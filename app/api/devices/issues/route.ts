@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getUserDevice, listDeviceIssues, resolveDeviceIssue, resolveOwnerId } from "@/lib/user-devices"
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
+
+// Past issues of one of the caller's devices, newest first (?deviceId=...)
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const deviceId = new URL(request.url).searchParams.get("deviceId")
+    if (!deviceId) {
+      return NextResponse.json({ success: false, error: "deviceId is required" }, { status: 400 })
+    }
+
+    if (!(await getUserDevice(deviceId, ownerId))) {
+      return NextResponse.json({ success: false, error: "Device not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, issues: await listDeviceIssues(deviceId) })
+  } catch (error) {
+    console.error("Error fetching device issues:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch device issues",
+        issues: [],
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { issueId, resolution }; a null or empty resolution reopens the issue
+export async function PATCH(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { issueId, resolution = null } = await request.json()
+    if (!issueId) {
+      return NextResponse.json({ success: false, error: "issueId is required" }, { status: 400 })
+    }
+    if (resolution !== null && typeof resolution !== "string") {
+      return NextResponse.json({ success: false, error: "resolution must be a string or null" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, issue: await resolveDeviceIssue(issueId, ownerId, resolution) })
+  } catch (error) {
+    console.error("Error resolving device issue:", error)
+    const message = error instanceof Error ? error.message : "Failed to update device issue"
+    return NextResponse.json({ success: false, error: message }, { status: message === "Issue not found" ? 404 : 500 })
+  }
+}
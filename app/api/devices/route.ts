@@ -0,0 +1,102 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteUserDevice, listUserDevices, resolveOwnerId, saveUserDevice } from "@/lib/user-devices"
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
+
+// The caller's registered devices
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    return NextResponse.json({ success: true, devices: await listUserDevices(ownerId) })
+  } catch (error) {
+    console.error("Error fetching devices:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch devices",
+        devices: [],
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { id?, nickname, productModelId?, modelNumber?, serialNumber?, purchaseDate?, location?, photos? };
+// creates a device, or updates the caller's device with that id
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { id, nickname, productModelId, modelNumber, serialNumber, purchaseDate, location, photos } =
+      await request.json()
+
+    if (typeof nickname !== "string" || !nickname.trim()) {
+      return NextResponse.json({ success: false, error: "nickname is required" }, { status: 400 })
+    }
+    const [invalid] =
+      Object.entries({ productModelId, modelNumber, serialNumber, purchaseDate, location }).find(
+        ([, value]) => value != null && typeof value !== "string",
+      ) || []
+    if (invalid) {
+      return NextResponse.json({ success: false, error: `${invalid} must be a string` }, { status: 400 })
+    }
+    if (photos != null && !Array.isArray(photos)) {
+      return NextResponse.json({ success: false, error: "photos must be an array" }, { status: 400 })
+    }
+
+    const device = await saveUserDevice(
+      ownerId,
+      { nickname, productModelId, modelNumber, serialNumber, purchaseDate, location, photos },
+      id,
+    )
+    return NextResponse.json({ success: true, device })
+  } catch (error) {
+    console.error("Error saving device:", error)
+    const message = error instanceof Error ? error.message : "Failed to save device"
+    if (message === "Device not found") {
+      return NextResponse.json({ success: false, error: "登録機器が見つかりません" }, { status: 404 })
+    }
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: /^(At most|Invalid purchase date)/.test(message) ? 400 : 500 },
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ success: false, error: "ID is required" }, { status: 400 })
+    }
+
+    await deleteUserDevice(id, ownerId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting device:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete device",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { after, type NextRequest, NextResponse } from "next/server"
+import {
+  activateReembeddingJob,
+  cancelReembeddingJob,
+  getReembeddingFailures,
+  getReembeddingJob,
+  pauseReembeddingJob,
+  resumeReembeddingJob,
+  retryFailedDocuments,
+  runReembeddingJob,
+} from "@/lib/reembedding"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const [job, failures] = await Promise.all([getReembeddingJob(id), getReembeddingFailures(id)])
+    const done = job.processed_documents + job.failed_documents
+
+    return NextResponse.json({
+      success: true,
+      job,
+      failures,
+      progress: job.total_documents > 0 ? Math.min(done / job.total_documents, 1) : 1,
+    })
+  } catch (error) {
+    console.error("Error fetching re-embedding job:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch re-embedding job",
+      },
+      { status: 404 },
+    )
+  }
+}
+
+// action: "resume" | "pause" | "cancel" | "retry" | "activate"
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { action, allowPartial = false } = await request.json()
+
+    switch (action) {
+      case "resume":
+      case "retry": {
+        // Resuming also restarts jobs whose worker died with the server. A worker is only started
+        // when this request moved the job to running, so repeated clicks never run two at once.
+        const { job, started } = action === "retry" ? await retryFailedDocuments(id) : await resumeReembeddingJob(id)
+        if (started) {
+          after(async () => {
+            try {
+              await runReembeddingJob(id)
+            } catch (error) {
+              console.error(`[Re-embedding] Job ${id} stopped:`, error)
+            }
+          })
+        }
+        return NextResponse.json({ success: true, job, started })
+      }
+      case "pause":
+        return NextResponse.json({ success: true, job: await pauseReembeddingJob(id) })
+      case "cancel":
+        return NextResponse.json({ success: true, job: await cancelReembeddingJob(id) })
+      case "activate": {
+        const result = await activateReembeddingJob(id, allowPartial)
+        return NextResponse.json({ success: true, ...result })
+      }
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 })
+    }
+  } catch (error) {
+    console.error("Error updating re-embedding job:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update re-embedding job",
+      },
+      { status: 400 },
+    )
+  }
+}
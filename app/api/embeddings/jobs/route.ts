@@ -0,0 +1,51 @@
+import { after, type NextRequest, NextResponse } from "next/server"
+import { getActiveEmbeddingModel } from "@/lib/embeddings"
+import { createReembeddingJob, listReembeddingJobs, runReembeddingJob } from "@/lib/reembedding"
+
+export async function GET() {
+  try {
+    const [jobs, activeModel] = await Promise.all([listReembeddingJobs(), getActiveEmbeddingModel()])
+
+    return NextResponse.json({ success: true, activeModel, jobs })
+  } catch (error) {
+    console.error("Error fetching re-embedding jobs:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch re-embedding jobs",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Creates a job and keeps processing it in the background after the response is sent.
+// Progress is polled through GET /api/embeddings/jobs/[id].
+export async function POST(request: NextRequest) {
+  try {
+    const { targetModel, dryRun = false, textFallback = false, batchSize, maxRetries } = await request.json()
+
+    const job = await createReembeddingJob({ targetModel, dryRun, textFallback, batchSize, maxRetries })
+
+    if (!job.dry_run) {
+      after(async () => {
+        try {
+          await runReembeddingJob(job.id)
+        } catch (error) {
+          console.error(`[Re-embedding] Job ${job.id} stopped:`, error)
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, job })
+  } catch (error) {
+    console.error("Error creating re-embedding job:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to create re-embedding job",
+      },
+      { status: 400 },
+    )
+  }
+}
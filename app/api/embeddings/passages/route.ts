@@ -0,0 +1,22 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { indexMissingPassages } from "@/lib/passages"
+
+// Body: { limit? }; indexes documents that have no passages for the active embedding model yet.
+// Call repeatedly until indexed is 0 to backfill existing documents.
+export async function POST(request: NextRequest) {
+  try {
+    const { limit = 20 } = await request.json().catch(() => ({}))
+
+    const result = await indexMissingPassages(Math.min(Math.max(Number(limit) || 20, 1), 100))
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error indexing passages:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to index passages",
+      },
+      { status: 500 },
+    )
+  }
+}
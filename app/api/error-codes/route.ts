@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteErrorCode, listErrorCodes, saveErrorCode } from "@/lib/error-codes"
+
+// Registered error codes, optionally for one product type (?productType=coffee_maker)
+export async function GET(request: NextRequest) {
+  try {
+    const productType = new URL(request.url).searchParams.get("productType")
+    return NextResponse.json({ success: true, errorCodes: await listErrorCodes(productType) })
+  } catch (error) {
+    console.error("Error fetching error codes:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch error codes",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { code, documentId, productType?, description? }; replaces the entry for the same code and product type
+export async function POST(request: NextRequest) {
+  try {
+    const { code, documentId, productType, description } = await request.json()
+
+    if (!code || !documentId) {
+      return NextResponse.json({ success: false, error: "code and documentId are required" }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      errorCode: await saveErrorCode({ code, documentId, productType, description }),
+    })
+  } catch (error) {
+    console.error("Error saving error code:", error)
+    const message = error instanceof Error ? error.message : "Failed to save error code"
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message.startsWith("Not an error code") ? 400 : 500 },
+    )
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ success: false, error: "ID is required" }, { status: 400 })
+    }
+
+    await deleteErrorCode(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error deleting error code:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete error code",
+      },
+      { status: 500 },
+    )
+  }
+}
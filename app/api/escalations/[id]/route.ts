@@ -0,0 +1,63 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getSupportTicket, retryTicketHandoff } from "@/lib/escalation"
+import { resolveOwnerId } from "@/lib/user-devices"
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
+
+// Tickets of other owners are reported as not found
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { id } = await params
+    const ticket = await getSupportTicket(id, ownerId)
+
+    return NextResponse.json({ success: true, ticket })
+  } catch (error) {
+    console.error("Error fetching support ticket:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch support ticket",
+      },
+      { status: 404 },
+    )
+  }
+}
+
+// action: "retry" re-delivers a ticket whose handoff failed
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { id } = await params
+    const { action } = await request.json()
+
+    if (action !== "retry") {
+      return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 })
+    }
+
+    const ticket = await retryTicketHandoff(id, ownerId)
+    return NextResponse.json({ success: ticket.status !== "handoff_failed", ticket })
+  } catch (error) {
+    console.error("Error retrying support ticket handoff:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to retry support ticket handoff",
+      },
+      { status: 400 },
+    )
+  }
+}
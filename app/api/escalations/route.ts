@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createEscalation, handoffMessage, listSupportTickets } from "@/lib/escalation"
+import { extractedContextSchema } from "@/lib/rag"
+import type { EscalationReason } from "@/lib/tickets"
+import { resolveOwnerId } from "@/lib/user-devices"
+
+const REASONS: EscalationReason[] = ["no_documents", "critical_urgency", "user_request", "guided_flow_failed"]
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
+
+// The caller's tickets; ?sessionId=...&status=... narrows the list. Frames and handoff details come
+// from /api/escalations/[id]
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { searchParams } = new URL(request.url)
+    const tickets = await listSupportTickets(ownerId, {
+      sessionId: searchParams.get("sessionId") || undefined,
+      status: searchParams.get("status") || undefined,
+      limit: Number(searchParams.get("limit")) || undefined,
+    })
+
+    return NextResponse.json({ success: true, tickets })
+  } catch (error) {
+    console.error("Error fetching support tickets:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch support tickets",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Creates a ticket with a handoff summary of the session and hands it to the ticket system.
+// A failed handoff still answers 200 with status "handoff_failed"; the ticket can be retried.
+// Only the caller's own session is summarized into the ticket.
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { sessionId, reasons = [], note, frames = [], extractedContext, relevantDocuments } = await request.json()
+
+    if (
+      !Array.isArray(frames) ||
+      !Array.isArray(reasons) ||
+      (relevantDocuments != null && !Array.isArray(relevantDocuments)) ||
+      (note != null && typeof note !== "string")
+    ) {
+      return NextResponse.json(
+        { success: false, error: "frames、reasons、relevantDocuments は配列、note は文字列で指定してください" },
+        { status: 400 },
+      )
+    }
+
+    if (!sessionId && frames.length === 0 && !note) {
+      return NextResponse.json(
+        { success: false, error: "セッションID、画像、メモのいずれかが必要です" },
+        { status: 400 },
+      )
+    }
+
+    const ticket = await createEscalation({
+      ownerId,
+      sessionId,
+      reasons: reasons.filter((reason: string) => REASONS.includes(reason as EscalationReason)),
+      note,
+      frames: frames.filter((frame: unknown) => typeof frame === "string" && frame.startsWith("data:image/")),
+      // A context that does not match the analysis result shape is ignored; the session's last analysis is used instead
+      extractedContext: extractedContextSchema.safeParse(extractedContext).data,
+      relevantDocuments: relevantDocuments?.filter(
+        (doc: unknown) => typeof doc === "object" && doc !== null && typeof (doc as { id?: unknown }).id === "string",
+      ),
+    })
+
+    const { frames: _frames, ...ticketWithoutFrames } = ticket
+    return NextResponse.json({ success: true, ticket: ticketWithoutFrames, message: handoffMessage(ticket) })
+  } catch (error) {
+    console.error("Escalation error:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "サポートチケットの作成に失敗しました",
+      },
+      { status: 500 },
+    )
+  }
+}
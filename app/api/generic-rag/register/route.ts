@@ -1,12 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { GoogleGenerativeAI } from "@google/generative-ai"
 import { supabaseAdmin } from "@/lib/supabase"
+import { getLLMProvider } from "@/lib/llm"
+import { embedImage, toEmbeddingColumns, type EmbeddingResult } from "@/lib/embeddings"
+import type { ImageMetadata } from "@/lib/image-preprocessing"
+import { tryIndexDocumentPassages } from "@/lib/passages"
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+const llm = getLLMProvider()
 
 interface RegistrationEntry {
   image: string
   mimeType: string
+  // Original dimensions and size before client-side preprocessing
+  imageMetadata?: ImageMetadata
   iconName: string
   iconDescription: string
   content: string
@@ -52,7 +57,11 @@ async function logRegistrationEvent(
 }
 
 // Enhanced image embedding generation with retry logic
-async function generateImageEmbedding(imageBase64: string, mimeType: string, retries = 3): Promise<number[] | null> {
+async function generateImageEmbedding(
+  imageBase64: string,
+  mimeType: string,
+  retries = 3,
+): Promise<EmbeddingResult | null> {
   const startTime = Date.now()
 
   for (let attempt = 1; attempt <= retries; attempt++) {
@@ -68,46 +77,13 @@ async function generateImageEmbedding(imageBase64: string, mimeType: string, ret
         throw new Error(`Unsupported MIME type: ${mimeType}`)
       }
 
-      // Use Gemini's embedding model
-      const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-
-      const result = await model.embedContent({
-        content: {
-          parts: [{ inlineData: { data: imageBase64, mimeType } }],
-          role: "user",
-        },
-      })
-
-      let embedding = result.embedding.values
-
-      if (!embedding || embedding.length === 0) {
-        throw new Error("Empty embedding returned from API")
-      }
-
-      console.log(`[Embedding Generation] Original dimensions: ${embedding.length}`)
-
-      // Ensure exactly 1408 dimensions for pgvector compatibility
-      const targetDimensions = 1408
-      if (embedding.length !== targetDimensions) {
-        console.warn(`[Embedding Generation] Dimension mismatch: got ${embedding.length}, expected ${targetDimensions}`)
-
-        if (embedding.length < targetDimensions) {
-          // Pad with zeros
-          embedding = [...embedding, ...Array(targetDimensions - embedding.length).fill(0)]
-        } else {
-          // Truncate
-          embedding = embedding.slice(0, targetDimensions)
-        }
-      }
-
-      // Validate embedding values
-      const invalidValues = embedding.filter((val) => !Number.isFinite(val))
-      if (invalidValues.length > 0) {
-        throw new Error(`Invalid embedding values detected: ${invalidValues.length} non-finite values`)
-      }
+      // Dimension and value checks happen inside the embedding service; mismatches throw
+      const embedding = await embedImage(imageBase64, mimeType)
 
       const processingTime = Date.now() - startTime
-      console.log(`[Embedding Generation] Success in ${processingTime}ms, dimensions: ${embedding.length}`)
+      console.log(
+        `[Embedding Generation] Success in ${processingTime}ms, model: ${embedding.model}, dimensions: ${embedding.dimensions}`,
+      )
 
       return embedding
     } catch (error) {
@@ -119,6 +95,11 @@ async function generateImageEmbedding(imageBase64: string, mimeType: string, ret
         return null
       }
 
+      // A model returning the wrong size will not fix itself on retry
+      if (error instanceof Error && error.message.includes("dimension mismatch")) {
+        return null
+      }
+
       // Wait before retry (exponential backoff)
       const waitTime = Math.pow(2, attempt) * 1000
       console.log(`[Embedding Generation] Waiting ${waitTime}ms before retry...`)
@@ -132,7 +113,7 @@ async function generateImageEmbedding(imageBase64: string, mimeType: string, ret
 // Enhanced document registration with comprehensive validation
 async function registerDocument(
   entry: RegistrationEntry,
-  embedding: number[],
+  embedding: EmbeddingResult,
   sessionId: string,
 ): Promise<{ success: boolean; id?: string; error?: string }> {
   try {
@@ -145,7 +126,7 @@ async function registerDocument(
       throw new Error("Content is required")
     }
 
-    if (!embedding || embedding.length === 0) {
+    if (!embedding || embedding.vector.length !== embedding.dimensions) {
       throw new Error("Valid embedding is required")
     }
 
@@ -157,14 +138,16 @@ async function registerDocument(
       icon_description: entry.iconDescription?.trim() || entry.content.trim(),
       category: entry.category || "general",
       tags: Array.isArray(entry.tags) ? entry.tags.filter((tag) => tag.trim().length > 0) : [],
-      image_embedding: embedding,
+      ...toEmbeddingColumns(embedding),
       source: "manual_registration",
       is_active: true,
       metadata: {
         registration_session: sessionId,
         registration_timestamp: new Date().toISOString(),
         image_mime_type: entry.mimeType,
-        embedding_dimensions: embedding.length,
+        image_metadata: entry.imageMetadata || null,
+        embedding_dimensions: embedding.dimensions,
+        embedding_model: embedding.model,
         content_length: entry.content.length,
         tags_count: entry.tags?.length || 0,
       },
@@ -173,7 +156,8 @@ async function registerDocument(
     console.log(`[Document Registration] Inserting document:`, {
       title: documentData.title,
       category: documentData.category,
-      embedding_dimensions: embedding.length,
+      embedding_model: embedding.model,
+      embedding_dimensions: embedding.dimensions,
       tags_count: documentData.tags.length,
     })
 
@@ -189,6 +173,19 @@ async function registerDocument(
       throw new Error("No data returned from database insertion")
     }
 
+    // Keep the original image so the entry can be re-embedded when the embedding model changes
+    const { error: sourceError } = await supabaseAdmin.from("rag_document_sources").insert({
+      document_id: data.id,
+      image_data: entry.image,
+      mime_type: entry.mimeType,
+    })
+
+    if (sourceError) {
+      console.warn(`[Document Registration] Source image not stored for ${data.id}:`, sourceError.message)
+    }
+
+    await tryIndexDocumentPassages(data)
+
     console.log(`[Document Registration] Success: Document ${data.id} created`)
 
     return { success: true, id: data.id }
@@ -207,8 +204,8 @@ export async function POST(request: NextRequest) {
 
   try {
     // Validate API configuration
-    if (!process.env.GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY not configured")
+    if (!llm.isConfigured()) {
+      throw new Error(llm.configurationError() || "LLM provider not configured")
     }
 
     // Parse request
@@ -258,7 +255,8 @@ export async function POST(request: NextRequest) {
         await logRegistrationEvent(sessionId, "embedding_generated", {
           entry_index: i,
           icon_name: entry.iconName,
-          embedding_dimensions: embedding.length,
+          embedding_model: embedding.model,
+          embedding_dimensions: embedding.dimensions,
         })
 
         // Register document
@@ -276,7 +274,8 @@ export async function POST(request: NextRequest) {
           id: registrationResult.id,
           iconName: entry.iconName,
           processingTimeMs: entryProcessingTime,
-          embeddingDimensions: embedding.length,
+          embeddingModel: embedding.model,
+          embeddingDimensions: embedding.dimensions,
         })
 
         await logRegistrationEvent(
@@ -289,7 +288,7 @@ export async function POST(request: NextRequest) {
           },
           undefined,
           entryProcessingTime,
-          embedding.length,
+          embedding.dimensions,
         )
 
         console.log(`[RAG Registration] Entry ${i + 1} completed successfully in ${entryProcessingTime}ms`)
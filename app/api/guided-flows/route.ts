@@ -0,0 +1,83 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  answerGuidedStep,
+  exitGuidedFlow,
+  getGuidedFlowProgress,
+  startGuidedFlow,
+  type StepAnswer,
+} from "@/lib/guided-flows"
+import { resolveOwnerId } from "@/lib/user-devices"
+
+const ANSWERS: StepAnswer[] = ["done", "yes", "no"]
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
+
+// Current flow and progress of one of the caller's sessions (?sessionId=...); flow and state are null
+// when none is active
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const sessionId = new URL(request.url).searchParams.get("sessionId")
+    if (!sessionId) {
+      return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, ...(await getGuidedFlowProgress(sessionId, ownerId)) })
+  } catch (error) {
+    console.error("Error fetching guided flow:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch guided flow",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// action: "start" { documentId } | "answer" { stepId, answer: "done" | "yes" | "no" } | "exit"
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { sessionId, action, documentId, stepId, answer } = await request.json()
+
+    if (!sessionId) {
+      return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
+    }
+
+    switch (action) {
+      case "start":
+        if (!documentId) {
+          return NextResponse.json({ success: false, error: "Document ID is required" }, { status: 400 })
+        }
+        return NextResponse.json({ success: true, ...(await startGuidedFlow(sessionId, ownerId, documentId)) })
+      case "answer":
+        if (!stepId || !ANSWERS.includes(answer)) {
+          return NextResponse.json({ success: false, error: "stepId and a valid answer are required" }, { status: 400 })
+        }
+        return NextResponse.json({ success: true, ...(await answerGuidedStep(sessionId, ownerId, stepId, answer)) })
+      case "exit":
+        await exitGuidedFlow(sessionId, ownerId)
+        return NextResponse.json({ success: true, flow: null, state: null })
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 })
+    }
+  } catch (error) {
+    console.error("Error updating guided flow:", error)
+    const message = error instanceof Error ? error.message : "Failed to update guided flow"
+    return NextResponse.json({ success: false, error: message }, { status: message === "Chat session not found" ? 404 : 400 })
+  }
+}
@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  MAX_BURST_FRAMES,
+  MIN_BURST_FRAMES,
+  describeIndicatorStates,
+  detectIndicatorStates,
+  matchKnownIssues,
+  toIndicatorStateTags,
+  type BurstFrame,
+} from "@/lib/indicator-states"
+import { getLLMProvider } from "@/lib/llm"
+
+// Frames may be data URLs or bare base64 with a separate mimeType. capturedAt is required: the
+// blink rate is read from the real spacing of the frames, which the server cannot guess.
+function toBurstFrame(frame: any): BurstFrame | null {
+  if (!frame || typeof frame.data !== "string" || !Number.isFinite(frame.capturedAt)) {
+    return null
+  }
+
+  const match = frame.data.match(/^data:(image\/[\w.+-]+);base64,(.*)$/)
+  return {
+    data: match ? match[2] : frame.data,
+    mimeType: match ? match[1] : frame.mimeType || "image/jpeg",
+    capturedAt: frame.capturedAt,
+  }
+}
+
+// Classifies each indicator in a burst of frames as solid, slow_blink, fast_blink or off.
+// Body: { frames: [{ data, mimeType?, capturedAt }] } with capturedAt in ms since the first frame.
+export async function POST(request: NextRequest) {
+  try {
+    const { frames = [] } = await request.json()
+    const parsed = (Array.isArray(frames) ? frames : []).map(toBurstFrame)
+    const burst = parsed.filter((frame): frame is BurstFrame => frame !== null)
+
+    if (burst.length < parsed.length) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "各画像に data と capturedAt（ミリ秒）を指定してください",
+        },
+        { status: 400 },
+      )
+    }
+    if (burst.length < MIN_BURST_FRAMES || burst.length > MAX_BURST_FRAMES) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `${MIN_BURST_FRAMES}〜${MAX_BURST_FRAMES}枚の連続画像が必要です`,
+        },
+        { status: 400 },
+      )
+    }
+
+    const llm = getLLMProvider()
+    if (!llm.isConfigured()) {
+      console.error(llm.configurationError())
+      return NextResponse.json(
+        {
+          success: false,
+          error: "API設定エラーが発生しました",
+        },
+        { status: 500 },
+      )
+    }
+
+    const indicators = await detectIndicatorStates(burst, llm)
+
+    return NextResponse.json({
+      success: true,
+      indicators,
+      indicatorStates: toIndicatorStateTags(indicators),
+      summary: describeIndicatorStates(indicators),
+      knownIssues: matchKnownIssues(indicators),
+    })
+  } catch (error) {
+    console.error("Indicator state detection error:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: "点滅パターンの判定に失敗しました",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -1,35 +1,171 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { GoogleGenerativeAI } from "@google/generative-ai"
 import { createClient } from "@supabase/supabase-js"
+import { DEFAULT_HISTORY_TURNS, loadChatHistory } from "@/lib/chat-sessions"
+import { detectEscalationReasons, toEscalationSuggestion } from "@/lib/escalation"
+import { INDICATOR_STATES, toIndicatorStateTags, type IndicatorReading } from "@/lib/indicator-states"
+import { getLLMProvider } from "@/lib/llm"
+import {
+  PipelineError,
+  intelligentRagPipeline,
+  observedErrorCodes,
+  runRagPipeline,
+  toLLMHistory,
+  toRegionOfInterest,
+  type PipelineEvents,
+  type PipelineInput,
+  type PipelineState,
+  type RetrievedDocument,
+} from "@/lib/rag"
+import { createSSEResponse } from "@/lib/sse"
+import { loadRegisteredDevice, resolveOwnerId, type RegisteredDevice } from "@/lib/user-devices"
 
 // Use server-side environment variables (not exposed to client)
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+const llm = getLLMProvider()
 const supabase = createClient(process.env.SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
 
-interface ExtractedContext {
-  primaryCategory: string
-  detectedIssues: string[]
-  visualIndicators: string[]
-  urgencyLevel: "low" | "medium" | "high" | "critical"
-  keywords: string[]
-  deviceType?: string
-  problemType?: string
+function toClientDocument(doc: RetrievedDocument) {
+  return {
+    id: doc.id,
+    title: doc.title,
+    category: doc.category,
+    relevance_score: doc.relevance_score,
+    icon_name: doc.icon_name,
+    icon_description: doc.icon_description,
+    hasGuidedFlow: !!doc.has_guided_flow,
+    matchedErrorCode: doc.matched_error_code || null,
+    retrievalMethod: doc.retrieval_method,
+    // Vector and full-text scores and ranks behind relevance_score (hybrid search only)
+    hybridScores: doc.hybrid_scores || null,
+  }
+}
+
+// Readings from /api/indicator-states, passed back by the client with the frame of the burst
+function toIndicatorReadings(indicators: unknown): IndicatorReading[] {
+  return (Array.isArray(indicators) ? indicators : []).filter(
+    (reading): reading is IndicatorReading =>
+      typeof reading?.name === "string" && INDICATOR_STATES.includes(reading.state),
+  )
 }
 
-interface RAGDocument {
-  id: string
-  title: string
-  content: string
-  category: string
-  tags: string[]
-  relevance_score: number
-  icon_name?: string
-  icon_description?: string
+function toResponseBody(result: PipelineState) {
+  return {
+    success: true,
+    response: result.response,
+    // Documents behind the [n] markers in response (lib/citations.ts)
+    citations: result.metadata.citations || [],
+    // For feedback on this answer (/api/answer-feedback)
+    answerId: result.answerId,
+    extractedContext: result.context,
+    // Locations of visualIndicators as fractions of the full image, for overlays
+    indicatorBoxes: result.metadata.indicatorBoxes || [],
+    relevantDocuments: result.documents.map(toClientDocument),
+    processingTimeMs: result.metadata.processingTimeMs,
+    metadata: {
+      intelligentAnalysis: true,
+      documentsFound: result.documents.length,
+      sessionId: result.input.sessionId,
+      timestamp: new Date().toISOString(),
+      searchMethod: result.metadata.searchMethods[0] || "none",
+      searchKeywords: result.searchText,
+      errorCodes: observedErrorCodes(result),
+      // Product model read from the label or picked by the user (lib/device-identification.ts)
+      device: result.metadata.device || null,
+      // Device from the user's registry the session is about (lib/user-devices.ts)
+      registeredDeviceId: result.input.registeredDevice?.id || null,
+      imageQuality: result.metadata.imageQuality || null,
+      roi: result.input.roi?.region || null,
+      indicatorStates: toIndicatorStateTags(result.input.indicators || []),
+      embeddingModel: result.embedding?.model || null,
+      // Orderings before and after the rerank stage, when RAG_RERANKER enabled it
+      rerank: result.metadata.rerank || null,
+      timings: result.timings,
+      escalation: toEscalationSuggestion(
+        detectEscalationReasons({
+          context: result.context,
+          documentCount: result.documents.length,
+          userPrompt: result.input.userPrompt,
+        }),
+      ),
+    },
+  }
+}
+
+function toErrorMessage(error: unknown): string {
+  // Client errors (e.g. the quality gate) carry a message meant for the user
+  if (error instanceof PipelineError && error.status < 500) {
+    return error.message
+  }
+
+  let errorMessage = "インテリジェント分析中にエラーが発生しました"
+
+  if (error instanceof Error) {
+    if (error.message.includes("API_KEY")) {
+      errorMessage = "API認証エラーが発生しました"
+    } else if (error.message.includes("quota")) {
+      errorMessage = "API使用量の上限に達しました"
+    } else if (error.message.includes("safety")) {
+      errorMessage = "安全性フィルターにより応答がブロックされました"
+    } else if (error.message.includes("database") || error.message.includes("supabase")) {
+      errorMessage = "データベース接続エラーが発生しました"
+    }
+  }
+
+  return errorMessage
+}
+
+// Events, in order: context (after extraction), documents (after rerank), token (repeated),
+// then done with the same body as the JSON response, or error
+function streamAnalysis(input: PipelineInput, requestSignal: AbortSignal): Response {
+  return createSSEResponse(async (send, signal) => {
+    const events: PipelineEvents = {
+      stage: (stage, state) => {
+        if (stage === "extract") {
+          send("context", {
+            extractedContext: state.context,
+            indicatorBoxes: state.metadata.indicatorBoxes || [],
+            searchKeywords: state.searchText,
+          })
+        } else if (stage === "rerank") {
+          send("documents", {
+            relevantDocuments: state.documents.map(toClientDocument),
+            searchMethod: state.metadata.searchMethods[0] || "none",
+          })
+        }
+      },
+      token: (text) => send("token", { text }),
+    }
+
+    try {
+      const result = await runRagPipeline(intelligentRagPipeline, input, { llm, db: supabase, events, signal })
+      send("done", toResponseBody(result))
+    } catch (error) {
+      console.error("Intelligent RAG streaming error:", error)
+      send("error", {
+        success: false,
+        error: toErrorMessage(error),
+        ...(error instanceof PipelineError ? error.details : {}),
+      })
+    }
+  }, { signal: requestSignal })
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { imageBase64, mimeType, userPrompt, systemPrompt, chatHistory = [], sessionId } = await request.json()
+    const {
+      imageBase64,
+      mimeType,
+      imageMetadata,
+      roi,
+      userPrompt,
+      systemPrompt,
+      chatHistory,
+      sessionId,
+      indicators,
+      productModelId,
+      deviceId,
+      skipQualityCheck = false,
+      stream = false,
+    } = await request.json()
 
     if (!imageBase64) {
       return NextResponse.json(
@@ -42,8 +178,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate required environment variables
-    if (!process.env.GEMINI_API_KEY) {
-      console.error("GEMINI_API_KEY is not configured")
+    if (!llm.isConfigured()) {
+      console.error(llm.configurationError())
       return NextResponse.json(
         {
           success: false,
@@ -64,410 +200,59 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-    const startTime = Date.now()
-
-    console.log(`[Intelligent RAG] Starting analysis for session: ${sessionId}`)
-
-    // Step 1: Extract context from image
-    const contextExtractionPrompt = `
-この画像を詳細に分析して、以下の情報をJSON形式で抽出してください：
-
-{
-  "primaryCategory": "主要カテゴリ（coffee_maker, maintenance, troubleshooting, safety, cleaning, parts, indicators, water_system, brewing, electrical, mechanical, general のいずれか）",
-  "detectedIssues": ["検出された問題のリスト"],
-  "visualIndicators": ["視覚的インジケーター（ランプ、表示、アイコンなど）"],
-  "urgencyLevel": "緊急度（low, medium, high, critical のいずれか）",
-  "keywords": ["関連キーワードのリスト"],
-  "deviceType": "デバイスの種類",
-  "problemType": "問題の種類"
-}
-
-画像に表示されているアイコン、ランプ、表示、エラーメッセージなどを詳しく観察してください。
-特に以下の点に注目してください：
-- 点灯しているランプや表示
-- エラーアイコンや警告表示
-- デバイスの状態や設定
-- 異常な状況や問題の兆候
-
-${userPrompt ? `ユーザーからの追加情報: ${userPrompt}` : ""}
-`
-
-    let extractedContext: ExtractedContext
-    try {
-      const contextResult = await model.generateContent([
-        { text: contextExtractionPrompt },
-        {
-          inlineData: {
-            data: imageBase64,
-            mimeType: mimeType || "image/jpeg",
+    // The conversation and a registered device must belong to the caller (signed-in user or
+    // anonymous owner id)
+    const ownerId = await resolveOwnerId(request, supabase)
+    let registeredDevice: RegisteredDevice | undefined
+    if (deviceId) {
+      const device = ownerId ? await loadRegisteredDevice(deviceId, ownerId, supabase) : null
+      if (!device) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: "登録機器が見つかりません",
           },
-        },
-      ])
-
-      const contextText = contextResult.response.text()
-      console.log(`[Context Extraction] Raw response: ${contextText}`)
-
-      const jsonMatch = contextText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        extractedContext = JSON.parse(jsonMatch[0])
-        console.log(`[Context Extraction] Parsed context:`, extractedContext)
-      } else {
-        throw new Error("JSON not found in response")
-      }
-    } catch (parseError) {
-      console.error("Context parsing error:", parseError)
-      extractedContext = {
-        primaryCategory: "general",
-        detectedIssues: [],
-        visualIndicators: [],
-        urgencyLevel: "medium",
-        keywords: userPrompt ? userPrompt.split(" ").filter((word) => word.length > 2) : [],
-        deviceType: "unknown",
-        problemType: "unknown",
+          { status: 404 },
+        )
       }
+      registeredDevice = device
     }
 
-    // Step 2: Hybrid Search for relevant RAG documents
-    const searchKeywords = [
-      ...extractedContext.keywords,
-      ...extractedContext.detectedIssues,
-      ...extractedContext.visualIndicators,
-      extractedContext.deviceType,
-      extractedContext.problemType,
-    ]
-      .filter(Boolean)
-      .join(" ") // キーワードをスペース区切りのテキストに変換
-
-    let relevantDocuments: RAGDocument[] = []
-
-    console.log(`[Hybrid Search] Searching with text: "${searchKeywords}"`)
-
-    // 画像からベクトルを生成
-    const imageEmbedding = await generateImageEmbedding(imageBase64, mimeType)
-
-    if (imageEmbedding && imageEmbedding.length > 0) {
-      try {
-        // 新しく作成したハイブリッド検索関数を呼び出す
-        const { data: hybridResults, error: hybridError } = await supabase.rpc("search_hybrid_documents", {
-          query_embedding: imageEmbedding,
-          query_text: searchKeywords,
-          match_threshold: 0.3, // 閾値は調整の余地あり
-          match_count: 5,
-          vector_weight: 0.6, // 重み付けも調整可能
-          text_weight: 0.4,
-        })
-
-        if (hybridError) {
-          console.error("Hybrid search error:", hybridError)
-          // フォールバック: ベクトル検索のみ
-          const { data: vectorResults, error: vectorError } = await supabase.rpc("search_similar_documents", {
-            query_embedding: imageEmbedding,
-            match_threshold: 0.3,
-            match_count: 5,
-            filter_category: extractedContext.primaryCategory !== "general" ? extractedContext.primaryCategory : null,
-          })
-
-          if (!vectorError && vectorResults && vectorResults.length > 0) {
-            relevantDocuments = vectorResults.map((doc: any) => ({
-              ...doc,
-              relevance_score: doc.similarity || 0.5,
-            }))
-            console.log(`[Vector Search Fallback] Found ${relevantDocuments.length} documents`)
-          }
-        } else if (hybridResults && hybridResults.length > 0) {
-          relevantDocuments = hybridResults.map((doc: any) => ({
-            ...doc,
-            relevance_score: doc.combined_score, // 統合されたスコアを使用
-          }))
-          console.log(`[Hybrid Search] Found ${relevantDocuments.length} documents with combined scores`)
-        }
-      } catch (searchError) {
-        console.error("Search error:", searchError)
-      }
-    }
-
-    // Fallback: Text-based search if no results from hybrid search
-    if (relevantDocuments.length === 0 && searchKeywords.trim()) {
-      try {
-        const searchTerms = searchKeywords
-          .split(" ")
-          .filter((term) => term.length > 1)
-          .slice(0, 5)
-        const { data: textResults, error: textError } = await supabase
-          .from("rag_documents")
-          .select("*")
-          .or(searchTerms.map((keyword) => `title.ilike.%${keyword}%,content.ilike.%${keyword}%`).join(","))
-          .eq("is_active", true)
-          .limit(5)
-
-        if (!textError && textResults && textResults.length > 0) {
-          relevantDocuments = textResults.map((doc) => ({
-            ...doc,
-            relevance_score: 0.4, // Default relevance for text search
-          }))
-          console.log(`[Text Search Fallback] Found ${relevantDocuments.length} documents`)
-        }
-      } catch (textSearchError) {
-        console.error("Text search fallback error:", textSearchError)
-      }
+    const input: PipelineInput = {
+      image: { data: imageBase64, mimeType: mimeType || "image/jpeg" },
+      imageMetadata,
+      roi: toRegionOfInterest(roi),
+      sessionId,
+      // History is loaded from the session unless the client still sends it
+      chatHistory: chatHistory
+        ? toLLMHistory(chatHistory)
+        : await loadChatHistory(sessionId, ownerId, DEFAULT_HISTORY_TURNS, supabase),
+      userPrompt,
+      systemPrompt,
+      indicators: toIndicatorReadings(indicators),
+      productModelId: productModelId || undefined,
+      registeredDevice,
+      ownerId: ownerId || undefined,
+      skipQualityCheck,
     }
 
-    // Additional category-based search if still insufficient results
-    if (relevantDocuments.length < 3 && extractedContext.primaryCategory !== "general") {
-      try {
-        const { data: categoryResults, error: categoryError } = await supabase
-          .from("rag_documents")
-          .select("*")
-          .eq("category", extractedContext.primaryCategory)
-          .eq("is_active", true)
-          .limit(3)
-
-        if (!categoryError && categoryResults) {
-          for (const doc of categoryResults) {
-            if (!relevantDocuments.find((existing) => existing.id === doc.id)) {
-              relevantDocuments.push({
-                ...doc,
-                relevance_score: 0.3, // Lower relevance for category-only match
-              })
-            }
-          }
-          console.log(`[Category Search] Added ${categoryResults.length} additional documents`)
-        }
-      } catch (categorySearchError) {
-        console.error("Category search error:", categorySearchError)
-      }
+    // Streaming variant for the chat UI: Server-Sent Events instead of one JSON body
+    if (stream) {
+      return streamAnalysis(input, request.signal)
     }
 
-    // Sort by relevance score
-    relevantDocuments.sort((a, b) => b.relevance_score - a.relevance_score)
-    relevantDocuments = relevantDocuments.slice(0, 5) // Top 5 most relevant
-
-    // Step 3: Generate response using context and relevant documents
-    let responsePrompt = systemPrompt || `あなたは専門的なトラブルシューティングアシスタントです。`
-
-    responsePrompt += `
-
-画像分析結果：
-- デバイス: ${extractedContext.deviceType}
-- カテゴリ: ${extractedContext.primaryCategory}
-- 検出された問題: ${extractedContext.detectedIssues.join(", ") || "なし"}
-- 視覚的インジケーター: ${extractedContext.visualIndicators.join(", ") || "なし"}
-- 緊急度: ${extractedContext.urgencyLevel}
-- キーワード: ${extractedContext.keywords.join(", ") || "なし"}
-
-${userPrompt ? `ユーザーの質問: ${userPrompt}` : ""}
-`
-
-    if (relevantDocuments.length > 0) {
-      responsePrompt += `
-関連する知識ベース文書 (${relevantDocuments.length}件):
-${relevantDocuments
-  .map(
-    (doc, index) => `
-${index + 1}. ${doc.title} (関連度: ${(doc.relevance_score * 100).toFixed(1)}%)
-カテゴリ: ${doc.category}
-内容: ${doc.content}
-${doc.icon_name ? `視覚的指標: ${doc.icon_name} - ${doc.icon_description}` : ""}
-`,
-  )
-  .join("\n")}
-
-上記の知識ベース文書を参考にして、`
-    } else {
-      responsePrompt += `
-関連する知識ベース文書が見つかりませんでした。一般的な知識に基づいて、`
-    }
-
-    responsePrompt += `
-画像の内容と検出された問題に基づいて、具体的で実用的な回答を提供してください。
-
-回答の際は以下の点を考慮してください：
-1. 安全性を最優先に考慮する
-2. 段階的で分かりやすい手順を提供する
-3. 必要に応じて専門家への相談を推奨する
-4. 緊急度が高い場合は、それを明確に伝える
-5. 視覚的インジケーターの意味を説明する
-
-日本語で自然で親しみやすい口調で回答してください。
-`
-
-    // Build chat history
-    const history = chatHistory.map((msg: any) => ({
-      role: msg.role === "user" ? "user" : "model",
-      parts: [{ text: msg.parts?.[0]?.text || msg.content || "" }],
-    }))
-
-    const chat = model.startChat({
-      history,
-      generationConfig: {
-        maxOutputTokens: 1500,
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-      ],
-    })
-
-    const finalResult = await chat.sendMessage([
-      { text: responsePrompt },
-      {
-        inlineData: {
-          data: imageBase64,
-          mimeType: mimeType || "image/jpeg",
-        },
-      },
-    ])
-
-    const processingTime = Date.now() - startTime
-    const response = finalResult.response.text()
-
-    console.log(`[Intelligent RAG] Analysis completed in ${processingTime}ms`)
-
-    // Save chat session
-    try {
-      await supabase.from("chat_sessions").upsert({
-        session_id: sessionId,
-        messages: [
-          ...(chatHistory || []),
-          {
-            role: "user",
-            parts: [{ text: userPrompt }],
-            timestamp: new Date().toISOString(),
-            imageData: `data:${mimeType};base64,${imageBase64}`,
-          },
-          {
-            role: "model",
-            parts: [{ text: response }],
-            timestamp: new Date().toISOString(),
-            metadata: {
-              extractedContext,
-              relevantDocuments: relevantDocuments.length,
-              processingTime,
-              searchMethod: "hybrid",
-            },
-          },
-        ],
-        updated_at: new Date().toISOString(),
-      })
-    } catch (sessionError) {
-      console.error("Failed to save chat session:", sessionError)
-    }
-
-    return NextResponse.json({
-      success: true,
-      response,
-      extractedContext,
-      relevantDocuments: relevantDocuments.map((doc) => ({
-        id: doc.id,
-        title: doc.title,
-        category: doc.category,
-        relevance_score: doc.relevance_score,
-        icon_name: doc.icon_name,
-        icon_description: doc.icon_description,
-      })),
-      processingTimeMs: processingTime,
-      metadata: {
-        intelligentAnalysis: true,
-        documentsFound: relevantDocuments.length,
-        sessionId,
-        timestamp: new Date().toISOString(),
-        searchMethod: "hybrid",
-        searchKeywords,
-      },
-    })
+    const result = await runRagPipeline(intelligentRagPipeline, input, { llm, db: supabase })
+    return NextResponse.json(toResponseBody(result))
   } catch (error) {
     console.error("Intelligent RAG analysis error:", error)
 
-    let errorMessage = "インテリジェント分析中にエラーが発生しました"
-
-    if (error instanceof Error) {
-      if (error.message.includes("API_KEY")) {
-        errorMessage = "API認証エラーが発生しました"
-      } else if (error.message.includes("quota")) {
-        errorMessage = "API使用量の上限に達しました"
-      } else if (error.message.includes("safety")) {
-        errorMessage = "安全性フィルターにより応答がブロックされました"
-      } else if (error.message.includes("database") || error.message.includes("supabase")) {
-        errorMessage = "データベース接続エラーが発生しました"
-      }
-    }
-
     return NextResponse.json(
       {
         success: false,
-        error: errorMessage,
+        error: toErrorMessage(error),
+        ...(error instanceof PipelineError ? error.details : {}),
       },
-      { status: 500 },
+      { status: error instanceof PipelineError ? error.status : 500 },
     )
   }
 }
-
-async function generateImageEmbedding(imageBase64: string, mimeType: string): Promise<number[]> {
-  try {
-    const model = genAI.getGenerativeModel({ model: "text-embedding-004" })
-
-    // 画像から特徴を抽出するためのプロンプト
-    const imageAnalysisPrompt = `
-この画像の視覚的特徴を詳細に分析し、以下の要素を含む説明文を生成してください：
-- 表示されているアイコンやランプの種類と状態
-- 色彩情報（赤、緑、青、オレンジなどの色）
-- 形状や配置
-- テキストや数字
-- デバイスの種類や部品
-- 問題や異常の兆候
-
-この説明文は検索用のベクトル生成に使用されます。
-`
-
-    // まず画像を分析してテキスト記述を生成
-    const visionModel = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-    const analysisResult = await visionModel.generateContent([
-      { text: imageAnalysisPrompt },
-      {
-        inlineData: {
-          data: imageBase64,
-          mimeType: mimeType || "image/jpeg",
-        },
-      },
-    ])
-
-    const imageDescription = analysisResult.response.text()
-    console.log(`[Image Embedding] Generated description: ${imageDescription.substring(0, 200)}...`)
-
-    // 生成された説明文からベクトルを作成
-    const result = await model.embedContent(imageDescription)
-    return result.embedding.values || []
-  } catch (error) {
-    console.error("Image embedding generation error:", error)
-    return []
-  }
-}
-
-async function generateTextEmbedding(text: string): Promise<number[]> {
-  try {
-    const model = genAI.getGenerativeModel({ model: "text-embedding-004" })
-    const result = await model.embedContent(text)
-    return result.embedding.values || []
-  } catch (error) {
-    console.error("Text embedding generation error:", error)
-    return []
-  }
-}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getManualFile } from "@/lib/manual-ingestion"
+
+// The stored PDF, shown inline so reviewers can open a page with #page=N
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const file = await getManualFile(id)
+
+    return new NextResponse(new Uint8Array(file.data), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+        "Cache-Control": "private, max-age=3600",
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching manual file:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch manual file",
+      },
+      { status: 404 },
+    )
+  }
+}
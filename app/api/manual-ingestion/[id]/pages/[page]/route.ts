@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getManualPageImage } from "@/lib/manual-ingestion"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string; page: string }> }) {
+  try {
+    const { id, page } = await params
+    const image = await getManualPageImage(id, Number(page))
+
+    if (!image) {
+      return NextResponse.json({ success: false, error: "Page image not found" }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(Buffer.from(image, "base64")), {
+      headers: { "Content-Type": "image/jpeg", "Cache-Control": "private, max-age=3600" },
+    })
+  } catch (error) {
+    console.error("Error fetching manual page image:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch page image",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { after, type NextRequest, NextResponse } from "next/server"
+import {
+  getManualSource,
+  listManualPages,
+  listManualProposals,
+  retryManualIngestion,
+  runManualIngestion,
+} from "@/lib/manual-ingestion"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const [source, pages, proposals] = await Promise.all([
+      getManualSource(id),
+      listManualPages(id),
+      listManualProposals(id),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      source,
+      pages,
+      proposals,
+      progress: source.page_count ? Math.min(source.processed_pages / source.page_count, 1) : 0,
+    })
+  } catch (error) {
+    console.error("Error fetching manual:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch manual",
+      },
+      { status: 404 },
+    )
+  }
+}
+
+// action: "retry"
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { action } = await request.json()
+
+    if (action !== "retry") {
+      return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 })
+    }
+
+    const { source, started } = await retryManualIngestion(id)
+    if (started) {
+      after(async () => {
+        try {
+          await runManualIngestion(id)
+        } catch (error) {
+          console.error(`[Manual Ingestion] ${id} stopped:`, error)
+        }
+      })
+    }
+
+    return NextResponse.json({ success: true, source, started })
+  } catch (error) {
+    console.error("Error updating manual:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to update manual",
+      },
+      { status: 400 },
+    )
+  }
+}
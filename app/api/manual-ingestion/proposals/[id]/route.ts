@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { approveProposal, rejectProposal } from "@/lib/manual-ingestion"
+
+// action: "approve" | "reject"; approve takes the reviewer's edits in changes
+// ({ title?, iconName?, iconDescription?, steps?, severity?, tags? })
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const { action, changes } = await request.json()
+
+    switch (action) {
+      case "approve": {
+        const result = await approveProposal(id, changes || {})
+        return NextResponse.json({ success: true, ...result })
+      }
+      case "reject":
+        return NextResponse.json({ success: true, proposal: await rejectProposal(id) })
+      default:
+        return NextResponse.json({ success: false, error: `Unknown action: ${action}` }, { status: 400 })
+    }
+  } catch (error) {
+    console.error("Error reviewing proposal:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to review proposal",
+      },
+      { status: 400 },
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { after, type NextRequest, NextResponse } from "next/server"
+import { canRenderPdfPages, createManualSource, listManualSources, runManualIngestion } from "@/lib/manual-ingestion"
+
+export async function GET() {
+  try {
+    const sources = await listManualSources()
+
+    return NextResponse.json({ success: true, sources, pageImages: canRenderPdfPages() })
+  } catch (error) {
+    console.error("Error fetching manuals:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch manuals",
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { fileName, data (base64 PDF), category?, modelNumbers? }. The manual is processed in the
+// background after the response is sent; progress is polled through GET /api/manual-ingestion/[id].
+export async function POST(request: NextRequest) {
+  try {
+    const { fileName, data, category, modelNumbers } = await request.json()
+
+    const source = await createManualSource({
+      fileName,
+      data,
+      category,
+      modelNumbers: Array.isArray(modelNumbers) ? modelNumbers : [],
+    })
+
+    after(async () => {
+      try {
+        await runManualIngestion(source.id)
+      } catch (error) {
+        console.error(`[Manual Ingestion] ${source.id} stopped:`, error)
+      }
+    })
+
+    return NextResponse.json({ success: true, source })
+  } catch (error) {
+    console.error("Error uploading manual:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to upload manual",
+      },
+      { status: 400 },
+    )
+  }
+}
@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listProductModels, saveProductModel } from "@/lib/device-identification"
+
+// Catalog entries, optionally for one product type (?productType=coffee_maker)
+export async function GET(request: NextRequest) {
+  try {
+    const productType = new URL(request.url).searchParams.get("productType")
+    return NextResponse.json({ success: true, models: await listProductModels(productType) })
+  } catch (error) {
+    console.error("Error fetching product models:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to fetch product models",
+        models: [],
+      },
+      { status: 500 },
+    )
+  }
+}
+
+// Body: { brand, modelNumber, displayName?, productType?, aliases? }; replaces the entry for the same model number
+export async function POST(request: NextRequest) {
+  try {
+    const { brand, modelNumber, displayName, productType, aliases } = await request.json()
+
+    if (!brand || !modelNumber) {
+      return NextResponse.json({ success: false, error: "brand and modelNumber are required" }, { status: 400 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      model: await saveProductModel({
+        brand,
+        modelNumber,
+        displayName,
+        productType,
+        aliases: Array.isArray(aliases) ? aliases : [],
+      }),
+    })
+  } catch (error) {
+    console.error("Error saving product model:", error)
+    const message = error instanceof Error ? error.message : "Failed to save product model"
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: message.startsWith("Not a model number") ? 400 : 500 },
+    )
+  }
+}
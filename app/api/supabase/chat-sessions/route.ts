@@ -1,15 +1,26 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { supabaseAdmin } from "@/lib/supabase"
+import { deleteChatSession, getChatSession, listChatSessions, renameChatSession } from "@/lib/chat-sessions"
+import { resolveOwnerId } from "@/lib/user-devices"
+
+function ownerRequired() {
+  return NextResponse.json(
+    { success: false, error: "Sign in or send an anonymous owner id (x-owner-id)" },
+    { status: 401 },
+  )
+}
 
+// Every handler only sees the caller's own sessions (signed-in user or anonymous owner id)
 export async function GET(request: NextRequest) {
   try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
     const { searchParams } = new URL(request.url)
     const sessionId = searchParams.get("sessionId")
 
-    if (!sessionId) {
-      return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
-    }
-
     // Check if the table exists first
     const { data: tableExists, error: tableError } = await supabaseAdmin.from("chat_sessions").select("id").limit(1)
 
@@ -18,18 +29,20 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({
         success: true,
         session: null,
+        sessions: [],
         message: "Database tables not initialized. Please run the setup script.",
       })
     }
 
-    const { data, error } = await supabaseAdmin.from("chat_sessions").select("*").eq("session_id", sessionId).single()
-
-    if (error && error.code !== "PGRST116") {
-      console.error("Supabase error:", error)
-      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+    // Without a session id, list conversations for the session sidebar (newest first)
+    if (!sessionId) {
+      const limit = Number(searchParams.get("limit")) || 50
+      const sessions = await listChatSessions(ownerId, limit)
+      return NextResponse.json({ success: true, sessions })
     }
 
-    return NextResponse.json({ success: true, session: data })
+    const session = await getChatSession(sessionId, ownerId)
+    return NextResponse.json({ success: true, session })
   } catch (error) {
     console.error("Chat session fetch error:", error)
     return NextResponse.json({ success: false, error: "Failed to fetch chat session" }, { status: 500 })
@@ -38,6 +51,11 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
     const { sessionId, messages } = await request.json()
 
     if (!sessionId) {
@@ -57,23 +75,35 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Upsert the chat session
+    // Replace the messages of the caller's session, or create it under the caller
+    const values = { messages: messages || [], updated_at: new Date().toISOString() }
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from("chat_sessions")
+      .update(values)
+      .eq("session_id", sessionId)
+      .eq("owner_id", ownerId)
+      .select()
+      .maybeSingle()
+
+    if (updateError) {
+      console.error("Supabase error:", updateError)
+      return NextResponse.json({ success: false, error: updateError.message }, { status: 500 })
+    }
+    if (updated) {
+      return NextResponse.json({ success: true, session: updated })
+    }
+
     const { data, error } = await supabaseAdmin
       .from("chat_sessions")
-      .upsert(
-        {
-          session_id: sessionId,
-          messages: messages || [],
-          updated_at: new Date().toISOString(),
-        },
-        {
-          onConflict: "session_id",
-        },
-      )
+      .insert({ ...values, session_id: sessionId, owner_id: ownerId })
       .select()
       .single()
 
     if (error) {
+      // The id is taken by another owner's session
+      if (error.code === "23505") {
+        return NextResponse.json({ success: false, error: "Session ID is already in use" }, { status: 409 })
+      }
       console.error("Supabase error:", error)
       return NextResponse.json({ success: false, error: error.message }, { status: 500 })
     }
@@ -85,8 +115,39 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Renames a session: { sessionId, title }
+export async function PATCH(request: NextRequest) {
+  try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
+    const { sessionId, title } = await request.json()
+
+    if (!sessionId || typeof title !== "string") {
+      return NextResponse.json({ success: false, error: "Session ID and title are required" }, { status: 400 })
+    }
+
+    await renameChatSession(sessionId, ownerId, title)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Chat session rename error:", error)
+    const notFound = error instanceof Error && error.message === "Chat session not found"
+    return NextResponse.json(
+      { success: false, error: notFound ? error.message : "Failed to rename chat session" },
+      { status: notFound ? 404 : 500 },
+    )
+  }
+}
+
 export async function DELETE(request: NextRequest) {
   try {
+    const ownerId = await resolveOwnerId(request)
+    if (!ownerId) {
+      return ownerRequired()
+    }
+
     const { searchParams } = new URL(request.url)
     const sessionId = searchParams.get("sessionId")
 
@@ -94,16 +155,14 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Session ID is required" }, { status: 400 })
     }
 
-    const { error } = await supabaseAdmin.from("chat_sessions").delete().eq("session_id", sessionId)
-
-    if (error) {
-      console.error("Supabase error:", error)
-      return NextResponse.json({ success: false, error: error.message }, { status: 500 })
-    }
-
+    await deleteChatSession(sessionId, ownerId)
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error("Chat session deletion error:", error)
-    return NextResponse.json({ success: false, error: "Failed to delete chat session" }, { status: 500 })
+    const notFound = error instanceof Error && error.message === "Chat session not found"
+    return NextResponse.json(
+      { success: false, error: notFound ? error.message : "Failed to delete chat session" },
+      { status: notFound ? 404 : 500 },
+    )
   }
 }
@@ -1,8 +1,52 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { supabaseAdmin } from "@/lib/supabase"
+import { guidedFlowSchema } from "@/lib/guided-flows"
+import { tryIndexDocumentPassages } from "@/lib/passages"
 
-export async function GET() {
+// guidedFlow is optional: undefined keeps the stored flow, null removes it (format in lib/guided-flows.ts)
+function invalidGuidedFlow(guidedFlow: unknown): NextResponse | null {
+  if (guidedFlow === undefined || guidedFlow === null) {
+    return null
+  }
+
+  const parsed = guidedFlowSchema.safeParse(guidedFlow)
+  return parsed.success
+    ? null
+    : NextResponse.json({ success: false, error: `Invalid guided flow: ${parsed.error.issues[0]?.message}` }, { status: 400 })
+}
+
+async function saveGuidedFlow(documentId: string, guidedFlow: unknown) {
+  if (guidedFlow === undefined) return
+
+  const { error } = await supabaseAdmin.from("rag_documents").update({ guided_flow: guidedFlow }).eq("id", documentId)
+  if (error) {
+    console.error("Failed to save guided flow:", error.message)
+  }
+}
+
+// ?id= returns one document (without its embedding columns), e.g. for a citation in the chat
+async function getDocument(id: string) {
+  const { data, error } = await supabaseAdmin.from("rag_documents").select("*").eq("id", id).maybeSingle()
+
+  if (error) {
+    console.error("Supabase error:", error)
+    return NextResponse.json({ success: false, error: error.message }, { status: 500 })
+  }
+  if (!data) {
+    return NextResponse.json({ success: false, error: "Document not found" }, { status: 404 })
+  }
+
+  const document = Object.fromEntries(Object.entries(data).filter(([column]) => !column.includes("embedding")))
+  return NextResponse.json({ success: true, document })
+}
+
+export async function GET(request: NextRequest) {
   try {
+    const id = request.nextUrl.searchParams.get("id")
+    if (id) {
+      return await getDocument(id)
+    }
+
     // Check if the table exists first
     const { data: tableExists, error: tableError } = await supabaseAdmin.from("rag_documents").select("id").limit(1)
 
@@ -50,12 +94,18 @@ export async function GET() {
 
 export async function POST(request: NextRequest) {
   try {
-    const { title, content, category, tags, iconName, iconDescription, imageBase64, mimeType } = await request.json()
+    const { title, content, category, tags, iconName, iconDescription, imageBase64, mimeType, imageMetadata, guidedFlow } =
+      await request.json()
 
     if (!title || !content) {
       return NextResponse.json({ success: false, error: "Title and content are required" }, { status: 400 })
     }
 
+    const guidedFlowError = invalidGuidedFlow(guidedFlow)
+    if (guidedFlowError) {
+      return guidedFlowError
+    }
+
     // Check if the table exists first
     const { data: tableExists, error: tableError } = await supabaseAdmin.from("rag_documents").select("id").limit(1)
 
@@ -81,6 +131,7 @@ export async function POST(request: NextRequest) {
               {
                 image: imageBase64,
                 mimeType,
+                imageMetadata,
                 iconName: iconName || title,
                 iconDescription: iconDescription || content,
                 content,
@@ -93,6 +144,7 @@ export async function POST(request: NextRequest) {
 
         const embeddingResult = await embeddingResponse.json()
         if (embeddingResult.success && embeddingResult.results?.[0]?.success) {
+          await saveGuidedFlow(embeddingResult.results[0].id, guidedFlow)
           return NextResponse.json({
             success: true,
             document: { id: embeddingResult.results[0].id },
@@ -115,6 +167,7 @@ export async function POST(request: NextRequest) {
         tags: Array.isArray(tags) ? tags : [],
         icon_name: iconName,
         icon_description: iconDescription,
+        guided_flow: guidedFlow ?? null,
         source: "manual_entry",
         is_active: true,
         metadata: {
@@ -130,6 +183,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: error.message }, { status: 500 })
     }
 
+    await tryIndexDocumentPassages(data)
+
     return NextResponse.json({ success: true, document: data })
   } catch (error) {
     console.error("RAG document creation error:", error)
@@ -139,8 +194,19 @@ export async function POST(request: NextRequest) {
 
 export async function PUT(request: NextRequest) {
   try {
-    const { id, title, content, category, tags, iconName, iconDescription, imageBase64, mimeType } =
-      await request.json()
+    const {
+      id,
+      title,
+      content,
+      category,
+      tags,
+      iconName,
+      iconDescription,
+      imageBase64,
+      mimeType,
+      imageMetadata,
+      guidedFlow,
+    } = await request.json()
 
     if (!id) {
       return NextResponse.json({ success: false, error: "Document ID is required" }, { status: 400 })
@@ -150,6 +216,11 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Title and content are required" }, { status: 400 })
     }
 
+    const guidedFlowError = invalidGuidedFlow(guidedFlow)
+    if (guidedFlowError) {
+      return guidedFlowError
+    }
+
     // Check if the table exists first
     const { data: tableExists, error: tableError } = await supabaseAdmin.from("rag_documents").select("id").limit(1)
 
@@ -180,6 +251,7 @@ export async function PUT(request: NextRequest) {
                 {
                   image: imageBase64,
                   mimeType,
+                  imageMetadata,
                   iconName: iconName || title,
                   iconDescription: iconDescription || content,
                   content,
@@ -193,6 +265,7 @@ export async function PUT(request: NextRequest) {
 
         const embeddingResult = await embeddingResponse.json()
         if (embeddingResult.success && embeddingResult.results?.[0]?.success) {
+          await saveGuidedFlow(embeddingResult.results[0].id, guidedFlow)
           return NextResponse.json({
             success: true,
             document: { id: embeddingResult.results[0].id },
@@ -213,6 +286,7 @@ export async function PUT(request: NextRequest) {
       tags: Array.isArray(tags) ? tags : [],
       icon_name: iconName,
       icon_description: iconDescription,
+      ...(guidedFlow !== undefined ? { guided_flow: guidedFlow } : {}),
       updated_at: new Date().toISOString(),
       metadata: {
         lastModified: new Date().toISOString(),
@@ -231,6 +305,9 @@ export async function PUT(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Document not found or update failed" }, { status: 404 })
     }
 
+    // The content may have changed, so the passages are rebuilt
+    await tryIndexDocumentPassages(data)
+
     return NextResponse.json({
       success: true,
       document: data,
@@ -1,12 +1,15 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { GoogleGenerativeAI } from "@google/generative-ai"
+import { appendChatMessages, loadChatHistory } from "@/lib/chat-sessions"
+import { detectEscalationReasons, toEscalationSuggestion } from "@/lib/escalation"
+import { getGenerationConfig, getLLMProvider, type LLMMessage } from "@/lib/llm"
+import { resolveOwnerId } from "@/lib/user-devices"
 
 // Use server-side environment variable (not exposed to client)
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+const llm = getLLMProvider()
 
 export async function POST(request: NextRequest) {
   try {
-    const { prompt, chatHistory = [] } = await request.json()
+    const { prompt, chatHistory, sessionId } = await request.json()
 
     if (!prompt?.trim()) {
       return NextResponse.json(
@@ -19,8 +22,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate API key is available
-    if (!process.env.GEMINI_API_KEY) {
-      console.error("GEMINI_API_KEY is not configured")
+    if (!llm.isConfigured()) {
+      console.error(llm.configurationError())
       return NextResponse.json(
         {
           success: false,
@@ -30,47 +33,36 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
+    const generationConfig = getGenerationConfig("text-chat", "respond")
+    // Conversations are stored per owner; without one the exchange is answered but not saved
+    const ownerId = await resolveOwnerId(request)
 
-    // Build conversation history
-    const history = chatHistory.map((msg: any) => ({
-      role: msg.role === "user" ? "user" : "model",
-      parts: [{ text: msg.content }],
-    }))
-
-    const chat = model.startChat({
-      history,
-      generationConfig: {
-        maxOutputTokens: 1000,
-        temperature: 0.7,
-        topK: 40,
-        topP: 0.95,
-      },
-      safetySettings: [
-        {
-          category: "HARM_CATEGORY_HARASSMENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_HATE_SPEECH",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-        {
-          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-          threshold: "BLOCK_MEDIUM_AND_ABOVE",
-        },
-      ],
-    })
+    // Build conversation history; loaded from the session unless the client still sends it
+    const history: LLMMessage[] = chatHistory
+      ? chatHistory.map((msg: any) => ({
+          role: msg.role === "user" ? "user" : "model",
+          parts: [{ text: msg.content }],
+        }))
+      : await loadChatHistory(sessionId, ownerId)
 
     const startTime = Date.now()
-    const result = await chat.sendMessage(prompt)
+    const response = await llm.chat(history, [{ text: prompt }], generationConfig)
     const processingTime = Date.now() - startTime
 
-    const response = result.response.text()
+    if (sessionId && ownerId) {
+      try {
+        await appendChatMessages(
+          sessionId,
+          [
+            { role: "user", content: prompt, metadata: { textOnly: true } },
+            { role: "model", content: response, metadata: { textOnly: true, processingTime } },
+          ],
+          ownerId,
+        )
+      } catch (error) {
+        console.error("Failed to save chat session:", error)
+      }
+    }
 
     return NextResponse.json({
       success: true,
@@ -78,7 +70,8 @@ export async function POST(request: NextRequest) {
       processingTimeMs: processingTime,
       metadata: {
         textOnly: true,
-        model: "gemini-1.5-flash",
+        model: generationConfig.model,
+        escalation: toEscalationSuggestion(detectEscalationReasons({ userPrompt: prompt })),
         timestamp: new Date().toISOString(),
       },
     })
@@ -1,35 +1,14 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold } from "@google/generative-ai"
 import { supabaseAdmin } from "@/lib/supabase" // Assuming supabaseAdmin is configured with service_role
+import { embedImage, toSearchParams, type EmbeddingResult } from "@/lib/embeddings"
+import { getGenerationConfig, getLLMProvider } from "@/lib/llm"
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!)
+const llm = getLLMProvider()
 
-// Helper function to get image embedding from Google
-async function getImageEmbedding(imageBase64: string, mimeType: string): Promise<number[] | null> {
+// Helper function to get image embedding from the shared embedding service
+async function getImageEmbedding(imageBase64: string, mimeType: string): Promise<EmbeddingResult | null> {
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" }) // Or a specific embedding model if available
-    const result = await model.embedContent({
-      content: {
-        parts: [{ inlineData: { data: imageBase64, mimeType } }],
-        role: "user",
-      },
-      // taskType: "SEMANTIC_SIMILARITY", // Or appropriate task type
-      // outputDimensionality: 1408, // If the model supports this parameter
-    })
-    // Note: Check the actual output dimensionality of the model you use.
-    // If it's not 1408, adjust the DB schema and this function.
-    // For gemini-1.5-flash, the default embedding size might be different.
-    // This is a conceptual implementation based on the 1408 requirement.
-    // You might need a specific Vertex AI multimodal embedding endpoint for 1408.
-    const embedding = result.embedding.values
-    if (embedding.length !== 1408) {
-      console.warn(
-        `Warning: Embedding dimension is ${embedding.length}, not 1408. Please check your model and DB schema.`,
-      )
-      // For now, let's try to pad or truncate if necessary, though this is not ideal.
-      // Or, throw an error. For this example, I'll proceed but log a warning.
-    }
-    return embedding
+    return await embedImage(imageBase64, mimeType)
   } catch (error) {
     console.error("Error getting image embedding:", error)
     return null
@@ -44,8 +23,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: "Image data is required." }, { status: 400 })
     }
 
-    if (!process.env.GEMINI_API_KEY) {
-      return NextResponse.json({ success: false, error: "GEMINI_API_KEY is not configured." }, { status: 500 })
+    if (!llm.isConfigured()) {
+      return NextResponse.json({ success: false, error: `${llm.configurationError()}.` }, { status: 500 })
     }
     if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
       return NextResponse.json(
@@ -63,9 +42,9 @@ export async function POST(request: NextRequest) {
 
     // 2. Similarity Search in Supabase
     // Ensure the `match_coffee_maker_icons` function is created in your Supabase DB
-    // and that `image_embedding` column in `coffee_maker_rag_documents` is VECTOR(1408)
+    // Only rows embedded with the same model as the query are compared
     const { data: similarDocs, error: dbError } = await supabaseAdmin.rpc("match_coffee_maker_icons", {
-      query_embedding: imageEmbedding,
+      ...toSearchParams(imageEmbedding),
       match_threshold: 0.7, // Adjust as needed
       match_count: 1,
     })
@@ -86,18 +65,7 @@ export async function POST(request: NextRequest) {
     const matchedIssue = similarDocs[0]
     const troubleshootingContent = matchedIssue.content
 
-    // 3. Contextualized Response Generation with Gemini
-    const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash" })
-    const generationConfig = {
-      temperature: 0.7,
-      topK: 1,
-      topP: 1,
-      maxOutputTokens: 2048,
-    }
-    const safetySettings = [
-      { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-      // ... other safety settings
-    ]
+    // 3. Contextualized Response Generation
 
     const systemInstruction = `You are a helpful coffee maker troubleshooting assistant.
     A user has provided an image of their coffee maker's indicator lights.
@@ -110,23 +78,20 @@ export async function POST(request: NextRequest) {
     Consider the chat history for context. If the user has already tried something, acknowledge it if possible.
     Be friendly and helpful. Ask if they need further clarification.`
 
-    const chat = model.startChat({
-      generationConfig,
-      safetySettings,
-      history: [
-        ...(chatHistory || []),
-        { role: "user", parts: [{ text: "Here's an image of my coffee maker panel." }] },
-        { role: "model", parts: [{ text: systemInstruction }] }, // This primes the model with context
-      ],
-    })
+    const history = [
+      ...(chatHistory || []),
+      { role: "user" as const, parts: [{ text: "Here's an image of my coffee maker panel." }] },
+      { role: "model" as const, parts: [{ text: systemInstruction }] }, // This primes the model with context
+    ]
 
     // Send a follow-up prompt to trigger the actual response based on the context
-    const result = await chat.sendMessage(
-      "Please explain the issue and how to solve it based on the information I provided.",
+    const modelResponse = await llm.chat(
+      history,
+      [{ text: "Please explain the issue and how to solve it based on the information I provided." }],
+      getGenerationConfig("troubleshoot-coffee-maker", "respond"),
     )
-    const geminiResponse = result.response.text()
 
-    return NextResponse.json({ success: true, response: geminiResponse, matchedIssue })
+    return NextResponse.json({ success: true, response: modelResponse, matchedIssue })
   } catch (error) {
     console.error("Error in troubleshoot-coffee-maker API:", error)
     return NextResponse.json(
@@ -27,7 +27,22 @@ import {
   CheckCircle,
   Info,
   BarChart3,
+  Crop,
 } from "lucide-react"
+import {
+  preprocessImage,
+  validateImageInput,
+  type PreprocessedImage,
+  type RegionOfInterest,
+} from "@/lib/image-preprocessing"
+import { AnswerFeedback } from "@/components/answer-feedback"
+import { CitedAnswer } from "@/components/cited-answer"
+import { DeviceConfirmation, useDeviceIdentification } from "@/components/device-confirmation"
+import { ownerHeaders } from "@/components/device-registry"
+import { IndicatorOverlay } from "@/components/indicator-overlay"
+import { RegionSelector } from "@/components/region-selector"
+import type { Citation } from "@/lib/citations"
+import type { IndicatorBox } from "@/lib/rag"
 
 interface ChatMessage {
   id: string
@@ -38,9 +53,15 @@ interface ChatMessage {
     category?: string
     analysisType?: string
     similarIssues?: SimilarIssue[]
+    // Documents behind the [n] markers in content
+    citations?: Citation[]
+    // Identifies the answer for thumbs up/down and "fixed it" feedback
+    answerId?: string
     matchCount?: number
     processingTimeMs?: number
     sessionId?: string
+    // Where the indicators the answer mentions are in imagePreview
+    indicatorBoxes?: IndicatorBox[]
   }
 }
 
@@ -64,6 +85,8 @@ interface SimilarIssue {
   tags: string[]
   metadata: any
   similarity: number
+  // Set when the document was found through the error code registry
+  matched_error_code?: string
 }
 
 interface Category {
@@ -98,11 +121,26 @@ interface SystemStats {
   interactionTypes: Record<string, number>
 }
 
+// Retake guidance for the issue codes the quality gate returns
+const QUALITY_GUIDANCE: Record<string, string> = {
+  blurry: "The image is blurry. Hold the camera steady and wait for it to focus.",
+  too_dark: "The image is too dark. Turn on a light or move somewhere brighter.",
+  too_bright: "The image is overexposed. Avoid strong light shining directly on the device.",
+  glare: "There is glare on the device. Turn off the flash and shoot at a slight angle.",
+  subject_too_small: "The indicator panel is too small. Move closer so the lights and display fill most of the frame.",
+  low_resolution: "The image resolution is too low. Use a higher-resolution photo.",
+}
+
 export default function GenericRAGPage() {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [userInput, setUserInput] = useState("")
-  const [uploadedImage, setUploadedImage] = useState<File | null>(null)
+  const [uploadedImage, setUploadedImage] = useState<PreprocessedImage | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
+  // The picked file is kept so a selected region can be cropped from the full-resolution original
+  const [uploadedFile, setUploadedFile] = useState<File | null>(null)
+  const [roiRegion, setRoiRegion] = useState<RegionOfInterest | null>(null)
+  const [roiImage, setRoiImage] = useState<PreprocessedImage | null>(null)
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [selectedCategory, setSelectedCategory] = useState<string>("general")
@@ -113,6 +151,9 @@ export default function GenericRAGPage() {
   const [isStarted, setIsStarted] = useState(false)
   const [isMobile, setIsMobile] = useState(false)
   const [sessionId, setSessionId] = useState<string>("")
+  // The quality gate rejected the current image; it is kept so the user can analyze it anyway
+  const [qualityRejected, setQualityRejected] = useState(false)
+  const deviceIdentification = useDeviceIdentification()
 
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -168,28 +209,51 @@ export default function GenericRAGPage() {
     fetchData()
   }, [])
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
       // Validate file
-      const validTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp"]
-      if (!validTypes.includes(file.type)) {
-        setError("Please upload a valid image file (JPG, PNG, or WebP)")
+      const validation = validateImageInput(file)
+      if (!validation.valid) {
+        setError("Please upload a JPG, PNG, WebP or HEIC image under 30MB")
         return
       }
 
-      if (file.size > 10 * 1024 * 1024) {
-        setError("Image file size must be less than 10MB")
-        return
+      // Upright, downsized and re-encoded before it is previewed or sent
+      try {
+        const prepared = await preprocessImage(file)
+        setUploadedImage(prepared)
+        setImagePreview(prepared.dataUrl)
+        setUploadedFile(file)
+        clearRegion()
+        setQualityRejected(false)
+        setError(null)
+        // Runs alongside region selection; the model it finds is preselected for the analysis
+        deviceIdentification.identify(prepared)
+      } catch (e) {
+        console.error("Image preprocessing failed:", e)
+        setError("Could not read the image file.")
       }
+    }
+  }
 
-      setUploadedImage(file)
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string)
-      }
-      reader.readAsDataURL(file)
-      setError(null)
+  const clearRegion = () => {
+    setRoiRegion(null)
+    setRoiImage(null)
+    setIsSelectingRegion(false)
+  }
+
+  const handleRegionChange = async (region: RegionOfInterest | null) => {
+    setRoiRegion(region)
+    setRoiImage(null)
+    if (!region || !uploadedFile) return
+
+    try {
+      setRoiImage(await preprocessImage(uploadedFile, { region }))
+    } catch (e) {
+      console.error("Region crop failed:", e)
+      setRoiRegion(null)
+      setError("Could not crop the selected region.")
     }
   }
 
@@ -227,12 +291,16 @@ Upload an image of your product issue to get started!`,
     setChatMessages([])
     setUploadedImage(null)
     setImagePreview(null)
+    setUploadedFile(null)
+    clearRegion()
+    deviceIdentification.reset()
+    setQualityRejected(false)
     setUserInput("")
     setError(null)
     setSessionId(`session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`)
   }
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (skipQualityCheck = false) => {
     if (!uploadedImage) {
       setError("Please upload an image of the product issue for analysis.")
       return
@@ -240,107 +308,121 @@ Upload an image of your product issue to get started!`,
 
     setIsLoading(true)
     setError(null)
+    setQualityRejected(false)
 
     const userMessageContent = userInput.trim() || "Please analyze this image for troubleshooting."
     const categoryLabel = categories.find((cat) => cat.value === selectedCategory)?.label || "General"
     const analysisTypeLabel =
       analysisPrompts.find((prompt) => prompt.analysisType === analysisType)?.description || analysisType
+    const { selectedModel } = deviceIdentification
 
     addMessage(
       "user",
-      `${userMessageContent}\n\n📂 **Category**: ${categoryLabel}\n🔍 **Analysis**: ${analysisTypeLabel}`,
+      `${userMessageContent}\n\n📂 **Category**: ${categoryLabel}\n🔍 **Analysis**: ${analysisTypeLabel}${selectedModel ? `\n🏷️ **Model**: ${selectedModel.display_name}` : ""}`,
       imagePreview || undefined,
     )
     setUserInput("")
 
     try {
-      const reader = new FileReader()
-      reader.readAsDataURL(uploadedImage)
-      reader.onloadend = async () => {
-        const base64Image = (reader.result as string).split(",")[1]
-        const mimeType = uploadedImage.type
-
-        const historyForApi = chatMessages
-          .filter((msg) => msg.type === "user" || msg.type === "ai")
-          .map((msg) => ({
-            role: msg.type === "user" ? "user" : "model",
-            parts: [{ text: msg.content }],
-          }))
-
-        const response = await fetch("/api/generic-rag/analyze", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            imageBase64: base64Image,
-            mimeType,
-            category: selectedCategory,
-            analysisType,
-            chatHistory: historyForApi,
-            sessionId,
-            userAgent: navigator.userAgent,
-            ipAddress: null, // Will be determined server-side
-          }),
+      const { base64: base64Image, mimeType, metadata: imageMetadata } = uploadedImage
+
+      const historyForApi = chatMessages
+        .filter((msg) => msg.type === "user" || msg.type === "ai")
+        .map((msg) => ({
+          role: msg.type === "user" ? "user" : "model",
+          parts: [{ text: msg.content }],
+        }))
+
+      const response = await fetch("/api/generic-rag/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
+        body: JSON.stringify({
+          imageBase64: base64Image,
+          mimeType,
+          imageMetadata,
+          roi: roiImage && roiRegion ? { imageBase64: roiImage.base64, mimeType: roiImage.mimeType, region: roiRegion } : undefined,
+          category: selectedCategory,
+          productModelId: deviceIdentification.selectedModelId,
+          analysisType,
+          chatHistory: historyForApi,
+          sessionId,
+          skipQualityCheck,
+          userAgent: navigator.userAgent,
+          ipAddress: null, // Will be determined server-side
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        addMessage("ai", result.response, result.indicatorBoxes?.length ? imagePreview || undefined : undefined, {
+          category: result.category,
+          analysisType: result.analysisType,
+          similarIssues: result.similarIssues,
+          citations: result.citations,
+          answerId: result.answerId,
+          matchCount: result.matchCount,
+          processingTimeMs: result.processingTimeMs,
+          sessionId: result.sessionId,
+          indicatorBoxes: result.indicatorBoxes,
         })
 
-        const result = await response.json()
-
-        if (result.success) {
-          addMessage("ai", result.response, undefined, {
-            category: result.category,
-            analysisType: result.analysisType,
-            similarIssues: result.similarIssues,
-            matchCount: result.matchCount,
-            processingTimeMs: result.processingTimeMs,
-            sessionId: result.sessionId,
-          })
-
-          // Show knowledge base match information
-          if (result.matchCount > 0) {
-            const criticalIssues = result.similarIssues.filter(
-              (issue: SimilarIssue) => issue.severity_level === "critical",
-            )
-            const highIssues = result.similarIssues.filter((issue: SimilarIssue) => issue.severity_level === "high")
+        // Show knowledge base match information
+        if (result.matchCount > 0) {
+          const criticalIssues = result.similarIssues.filter(
+            (issue: SimilarIssue) => issue.severity_level === "critical",
+          )
+          const highIssues = result.similarIssues.filter((issue: SimilarIssue) => issue.severity_level === "high")
 
-            let matchSummary = `🎯 **Knowledge Base Matches**: Found ${result.matchCount} similar issue(s)\n\n`
+          let matchSummary = `🎯 **Knowledge Base Matches**: Found ${result.matchCount} similar issue(s)\n\n`
 
-            if (criticalIssues.length > 0) {
-              matchSummary += `🚨 **Critical Issues**: ${criticalIssues.length} require immediate attention\n`
-            }
+          if (criticalIssues.length > 0) {
+            matchSummary += `🚨 **Critical Issues**: ${criticalIssues.length} require immediate attention\n`
+          }
 
-            if (highIssues.length > 0) {
-              matchSummary += `⚠️ **High Priority**: ${highIssues.length} high-priority issues detected\n`
-            }
+          if (highIssues.length > 0) {
+            matchSummary += `⚠️ **High Priority**: ${highIssues.length} high-priority issues detected\n`
+          }
 
-            matchSummary += `\n**Top Matches**:\n${result.similarIssues
-              .slice(0, 3)
-              .map(
-                (issue: SimilarIssue, index: number) =>
-                  `${index + 1}. ${issue.title} (${(issue.similarity * 100).toFixed(1)}% match)\n   Category: ${issue.category} | Severity: ${issue.severity_level}`,
-              )
-              .join("\n")}`
+          matchSummary += `\n**Top Matches**:\n${result.similarIssues
+            .slice(0, 3)
+            .map(
+              (issue: SimilarIssue, index: number) =>
+                `${index + 1}. ${issue.title} (${issue.matched_error_code ? `error code ${issue.matched_error_code}` : `${(issue.similarity * 100).toFixed(1)}% match`})\n   Category: ${issue.category} | Severity: ${issue.severity_level}`,
+            )
+            .join("\n")}`
 
-            matchSummary += `\n\n⏱️ **Processing Time**: ${result.processingTimeMs}ms`
+          matchSummary += `\n\n⏱️ **Processing Time**: ${result.processingTimeMs}ms`
 
-            addMessage("system", matchSummary)
-          } else {
-            addMessage(
-              "system",
-              `ℹ️ **No Similar Issues Found**\n\nNo matching issues found in the knowledge base for this specific problem. The analysis is based on visual inspection and general troubleshooting principles.\n\n⏱️ **Processing Time**: ${result.processingTimeMs}ms`,
-            )
-          }
+          addMessage("system", matchSummary)
         } else {
-          setError(result.error || "Analysis failed")
-          addMessage("ai", `❌ **Analysis Failed**: ${result.error || "Unknown error"}`)
+          addMessage(
+            "system",
+            `ℹ️ **No Similar Issues Found**\n\nNo matching issues found in the knowledge base for this specific problem. The analysis is based on visual inspection and general troubleshooting principles.\n\n⏱️ **Processing Time**: ${result.processingTimeMs}ms`,
+          )
         }
-
-        // Reset image after processing
-        setUploadedImage(null)
-        setImagePreview(null)
-        if (fileInputRef.current) fileInputRef.current.value = ""
-      }
-      reader.onerror = () => {
-        throw new Error("Failed to read image file.")
+      } else if (result.imageQuality) {
+        // Rejected before any model call: ask for a better photo and keep this one for "Analyze Anyway"
+        addMessage(
+          "ai",
+          `📷 **Please Retake the Photo**\n\n${result.imageQuality.issues
+            .map((issue: { code: string }) => `- ${QUALITY_GUIDANCE[issue.code] || issue.code}`)
+            .join("\n")}`,
+        )
+        setQualityRejected(true)
+        return
+      } else {
+        setError(result.error || "Analysis failed")
+        addMessage("ai", `❌ **Analysis Failed**: ${result.error || "Unknown error"}`)
       }
+
+      // Reset image after processing
+      setUploadedImage(null)
+      setImagePreview(null)
+      setUploadedFile(null)
+      clearRegion()
+      deviceIdentification.reset()
+      if (fileInputRef.current) fileInputRef.current.value = ""
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : "An unexpected error occurred."
       setError(errorMessage)
@@ -469,7 +551,16 @@ Upload an image of your product issue to get started!`,
             </div>
             <div className={getUploadAreaClasses()} onClick={() => fileInputRef.current?.click()}>
               {uploadedImage ? (
-                <img src={imagePreview || "/placeholder.svg"} alt="Uploaded Image" className="max-w-full max-h-full" />
+                // While selecting a region, clicks on the image draw instead of opening the file picker
+                <div className="relative max-w-full max-h-full" onClick={(e) => isSelectingRegion && e.stopPropagation()}>
+                  <img src={imagePreview || "/placeholder.svg"} alt="Uploaded Image" className="block max-w-full max-h-full" />
+                  <RegionSelector
+                    active={isSelectingRegion}
+                    region={roiRegion}
+                    mediaSize={{ width: uploadedImage.metadata.width, height: uploadedImage.metadata.height }}
+                    onChange={handleRegionChange}
+                  />
+                </div>
               ) : (
                 <div className="flex flex-col items-center justify-center space-y-2">
                   <Upload className="w-10 h-10" />
@@ -478,12 +569,45 @@ Upload an image of your product issue to get started!`,
               )}
               <input
                 type="file"
-                accept="image/jpeg, image/jpg, image/png, image/webp"
+                accept="image/jpeg, image/jpg, image/png, image/webp, image/heic, image/heif, .heic, .heif"
                 ref={fileInputRef}
                 className="hidden"
                 onChange={handleImageUpload}
               />
             </div>
+            {uploadedImage && (
+              <div className="flex items-center gap-2">
+                <Button
+                  variant={isSelectingRegion ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setIsSelectingRegion((selecting) => !selecting)}
+                >
+                  <Crop className="w-4 h-4 mr-2" />
+                  {isSelectingRegion ? "Done" : "Select Indicator Region"}
+                </Button>
+                {roiRegion && (
+                  <Button variant="ghost" size="sm" onClick={clearRegion}>
+                    Clear Region
+                  </Button>
+                )}
+                <span className="text-xs text-gray-500">
+                  {isSelectingRegion
+                    ? "Drag around the indicator panel"
+                    : roiImage
+                      ? `Region selected (${roiImage.metadata.width}×${roiImage.metadata.height}px)`
+                      : ""}
+                </span>
+              </div>
+            )}
+            {uploadedImage && (
+              <DeviceConfirmation
+                device={deviceIdentification.device}
+                isIdentifying={deviceIdentification.isIdentifying}
+                models={deviceIdentification.models}
+                selectedModelId={deviceIdentification.selectedModelId}
+                onSelect={deviceIdentification.setSelectedModelId}
+              />
+            )}
             {error && (
               <Alert variant="destructive">
                 <AlertCircle className="h-4 w-4" />
@@ -496,9 +620,14 @@ Upload an image of your product issue to get started!`,
               placeholder="Enter additional details or instructions..."
               className="resize-none"
             />
-            <Button onClick={handleSubmit} disabled={!isStarted || isLoading}>
+            <Button onClick={() => handleSubmit()} disabled={!isStarted || isLoading}>
               {isLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : "Analyze"}
             </Button>
+            {qualityRejected && (
+              <Button variant="outline" onClick={() => handleSubmit(true)} disabled={!isStarted || isLoading}>
+                Analyze Anyway
+              </Button>
+            )}
             <ScrollArea className="flex-grow mt-4">
               {chatMessages.map((message) => (
                 <div
@@ -515,14 +644,26 @@ Upload an image of your product issue to get started!`,
                     )}
                     <div className="max-w-lg">
                       {message.imagePreview && (
-                        <img
-                          src={message.imagePreview || "/placeholder.svg"}
-                          alt="Chat Image"
-                          className="w-full h-auto rounded-lg mb-2"
-                        />
+                        <div className="relative mb-2">
+                          <img
+                            src={message.imagePreview || "/placeholder.svg"}
+                            alt="Chat Image"
+                            className="block w-full h-auto rounded-lg"
+                          />
+                          {message.metadata?.indicatorBoxes && message.metadata.indicatorBoxes.length > 0 && (
+                            <IndicatorOverlay boxes={message.metadata.indicatorBoxes} mediaSize={null} />
+                          )}
+                        </div>
                       )}
                       <div className="bg-white p-4 rounded-lg shadow-md w-full">
-                        <p>{message.content}</p>
+                        <CitedAnswer text={message.content} citations={message.metadata?.citations} />
+                        {message.metadata?.answerId && message.metadata.sessionId && (
+                          <AnswerFeedback
+                            answerId={message.metadata.answerId}
+                            sessionId={message.metadata.sessionId}
+                            lang="en"
+                          />
+                        )}
                         {message.metadata && (
                           <div className="mt-4">
                             <Badge variant={getSeverityColor(message.metadata.severity_level)}>
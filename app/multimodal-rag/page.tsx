@@ -28,6 +28,10 @@ import {
   Shield,
   Settings,
 } from "lucide-react"
+import { AnswerFeedback } from "@/components/answer-feedback"
+import { DeviceConfirmation, useDeviceIdentification } from "@/components/device-confirmation"
+import { ownerHeaders } from "@/components/device-registry"
+import { preprocessImage, validateImageInput, type PreprocessedImage } from "@/lib/image-preprocessing"
 
 interface ChatMessage {
   id: string
@@ -39,6 +43,9 @@ interface ChatMessage {
     analysisType?: string
     similarIssues?: any[]
     matchCount?: number
+    // Identifies the answer for thumbs up/down and "fixed it" feedback
+    answerId?: string
+    sessionId?: string
   }
 }
 
@@ -58,7 +65,7 @@ interface AnalysisPrompt {
 export default function MultimodalRAGPage() {
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [userInput, setUserInput] = useState("")
-  const [uploadedImage, setUploadedImage] = useState<File | null>(null)
+  const [uploadedImage, setUploadedImage] = useState<PreprocessedImage | null>(null)
   const [imagePreview, setImagePreview] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -68,6 +75,7 @@ export default function MultimodalRAGPage() {
   const [analysisPrompts, setAnalysisPrompts] = useState<AnalysisPrompt[]>([])
   const [isStarted, setIsStarted] = useState(false)
   const [isMobile, setIsMobile] = useState(false)
+  const deviceIdentification = useDeviceIdentification()
 
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -111,22 +119,44 @@ export default function MultimodalRAGPage() {
     fetchData()
   }, [])
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
-      // Check file size (limit to 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        setError("Image file size must be less than 10MB")
+      const validation = validateImageInput(file)
+      if (!validation.valid) {
+        setError("Please upload a JPG, PNG, WebP or HEIC image under 30MB")
         return
       }
 
-      setUploadedImage(file)
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string)
+      // Upright, downsized and re-encoded before it is previewed or sent
+      try {
+        const prepared = await preprocessImage(file)
+        setUploadedImage(prepared)
+        setImagePreview(prepared.dataUrl)
+        setError(null)
+        const device = await deviceIdentification.identify(prepared)
+        if (device?.model) {
+          selectProductTypeOf(device.model.product_type)
+        }
+      } catch (e) {
+        console.error("Image preprocessing failed:", e)
+        setError("Could not read the image file.")
       }
-      reader.readAsDataURL(file)
-      setError(null)
+    }
+  }
+
+  // The identified or picked model decides the product type, when that type has documents
+  const selectProductTypeOf = (productType: string) => {
+    if (productTypes.some((type) => type.value === productType)) {
+      setSelectedProductType(productType)
+    }
+  }
+
+  const handleModelSelect = (modelId: string | null) => {
+    deviceIdentification.setSelectedModelId(modelId)
+    const model = deviceIdentification.models.find((candidate) => candidate.id === modelId)
+    if (model) {
+      selectProductTypeOf(model.product_type)
     }
   }
 
@@ -156,6 +186,7 @@ export default function MultimodalRAGPage() {
     setChatMessages([])
     setUploadedImage(null)
     setImagePreview(null)
+    deviceIdentification.reset()
     setUserInput("")
     setError(null)
   }
@@ -173,79 +204,77 @@ export default function MultimodalRAGPage() {
     const productTypeLabel = productTypes.find((type) => type.value === selectedProductType)?.label || "General"
     const analysisTypeLabel =
       analysisPrompts.find((prompt) => prompt.analysis_type === analysisType)?.description || analysisType
+    const { selectedModel } = deviceIdentification
 
     addMessage(
       "user",
-      `${userMessageContent}\n\n📋 Product: ${productTypeLabel}\n🔍 Analysis: ${analysisTypeLabel}`,
+      `${userMessageContent}\n\n📋 Product: ${productTypeLabel}${selectedModel ? ` (${selectedModel.display_name})` : ""}\n🔍 Analysis: ${analysisTypeLabel}`,
       imagePreview || undefined,
     )
     setUserInput("")
 
     try {
-      const reader = new FileReader()
-      reader.readAsDataURL(uploadedImage)
-      reader.onloadend = async () => {
-        const base64Image = (reader.result as string).split(",")[1]
-        const mimeType = uploadedImage.type
-
-        const historyForApi = chatMessages
-          .filter((msg) => msg.type === "user" || msg.type === "ai")
-          .map((msg) => ({
-            role: msg.type === "user" ? "user" : "model",
-            parts: [{ text: msg.content }],
-          }))
-
-        const response = await fetch("/api/multimodal-rag/analyze", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            imageBase64: base64Image,
-            mimeType,
-            productType: selectedProductType,
-            analysisType,
-            chatHistory: historyForApi,
-          }),
+      const { base64: base64Image, mimeType, metadata: imageMetadata } = uploadedImage
+
+      const historyForApi = chatMessages
+        .filter((msg) => msg.type === "user" || msg.type === "ai")
+        .map((msg) => ({
+          role: msg.type === "user" ? "user" : "model",
+          parts: [{ text: msg.content }],
+        }))
+
+      const response = await fetch("/api/multimodal-rag/analyze", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
+        body: JSON.stringify({
+          imageBase64: base64Image,
+          mimeType,
+          imageMetadata,
+          productType: selectedProductType,
+          productModelId: deviceIdentification.selectedModelId,
+          analysisType,
+          chatHistory: historyForApi,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        addMessage("ai", result.response, undefined, {
+          productType: result.productType,
+          analysisType: result.analysisType,
+          similarIssues: result.similarIssues,
+          matchCount: result.matchCount,
+          answerId: result.answerId,
+          sessionId: result.sessionId,
         })
 
-        const result = await response.json()
-
-        if (result.success) {
-          addMessage("ai", result.response, undefined, {
-            productType: result.productType,
-            analysisType: result.analysisType,
-            similarIssues: result.similarIssues,
-            matchCount: result.matchCount,
-          })
-
-          // Show database match information
-          if (result.matchCount > 0) {
-            const matchSummary = `🎯 Found ${result.matchCount} similar issue(s) in knowledge base:\n${result.similarIssues
-              .slice(0, 3)
-              .map(
-                (issue: any, index: number) =>
-                  `${index + 1}. ${issue.icon_name || issue.title} (${(issue.similarity * 100).toFixed(1)}% match)`,
-              )
-              .join("\n")}`
-            addMessage("system", matchSummary)
-          } else {
-            addMessage(
-              "system",
-              "ℹ️ No similar issues found in knowledge base. Analysis based on visual inspection only.",
+        // Show database match information
+        if (result.matchCount > 0) {
+          const matchSummary = `🎯 Found ${result.matchCount} similar issue(s) in knowledge base:\n${result.similarIssues
+            .slice(0, 3)
+            .map(
+              (issue: any, index: number) =>
+                `${index + 1}. ${issue.icon_name || issue.title} (${(issue.similarity * 100).toFixed(1)}% match)`,
             )
-          }
+            .join("\n")}`
+          addMessage("system", matchSummary)
         } else {
-          setError(result.error || "Analysis failed")
-          addMessage("ai", `❌ Analysis failed: ${result.error || "Unknown error"}`)
+          addMessage(
+            "system",
+            "ℹ️ No similar issues found in knowledge base. Analysis based on visual inspection only.",
+          )
         }
-
-        // Reset image after processing
-        setUploadedImage(null)
-        setImagePreview(null)
-        if (fileInputRef.current) fileInputRef.current.value = ""
-      }
-      reader.onerror = () => {
-        throw new Error("Failed to read image file.")
+      } else {
+        setError(result.error || "Analysis failed")
+        addMessage("ai", `❌ Analysis failed: ${result.error || "Unknown error"}`)
       }
+
+      // Reset image after processing
+      setUploadedImage(null)
+      setImagePreview(null)
+      deviceIdentification.reset()
+      if (fileInputRef.current) fileInputRef.current.value = ""
     } catch (e) {
       const errorMessage = e instanceof Error ? e.message : "An unexpected error occurred."
       setError(errorMessage)
@@ -336,7 +365,7 @@ export default function MultimodalRAGPage() {
                 <div className="text-center p-6 border rounded-lg hover:shadow-md transition-shadow">
                   <Search className="w-10 h-10 mx-auto mb-3 text-green-500" />
                   <h3 className="font-semibold mb-2">Vector Search</h3>
-                  <p className="text-sm text-gray-600">Finds similar issues using 1408-dimension embeddings</p>
+                  <p className="text-sm text-gray-600">Finds similar issues using model-tagged embeddings</p>
                 </div>
                 <div className="text-center p-6 border rounded-lg hover:shadow-md transition-shadow">
                   <Bot className="w-10 h-10 mx-auto mb-3 text-purple-500" />
@@ -427,7 +456,7 @@ export default function MultimodalRAGPage() {
                 <div className={getUploadAreaClasses()} onClick={() => fileInputRef.current?.click()}>
                   <input
                     type="file"
-                    accept="image/*"
+                    accept="image/*,.heic,.heif"
                     ref={fileInputRef}
                     onChange={handleImageUpload}
                     className="hidden"
@@ -464,6 +493,16 @@ export default function MultimodalRAGPage() {
                   )}
                 </div>
 
+                {uploadedImage && (
+                  <DeviceConfirmation
+                    device={deviceIdentification.device}
+                    isIdentifying={deviceIdentification.isIdentifying}
+                    models={deviceIdentification.models}
+                    selectedModelId={deviceIdentification.selectedModelId}
+                    onSelect={handleModelSelect}
+                  />
+                )}
+
                 {/* Additional Context Input */}
                 <Textarea
                   value={userInput}
@@ -537,6 +576,10 @@ export default function MultimodalRAGPage() {
                               </div>
                             </div>
                           )}
+
+                          {msg.metadata?.answerId && msg.metadata.sessionId && (
+                            <AnswerFeedback answerId={msg.metadata.answerId} sessionId={msg.metadata.sessionId} lang="en" />
+                          )}
                         </div>
 
                         {msg.type === "user" && <User className="w-8 h-8 flex-shrink-0 text-gray-500 mt-1" />}
@@ -40,7 +40,46 @@ import {
   Brain,
   Zap,
   Search,
+  History,
+  MessageSquare,
+  LifeBuoy,
+  ListChecks,
+  Circle,
+  X,
+  Activity,
+  Crop,
+  ScanLine,
+  Package,
 } from "lucide-react"
+import type { ChatSessionSummary, StoredChatMessage } from "@/lib/chat-sessions"
+import type { DeviceIdentification, ProductModel } from "@/lib/device-identification"
+import {
+  SIGNATURE_HEIGHT,
+  SIGNATURE_WIDTH,
+  compareFrames,
+  computeFrameSignature,
+  type ChangeSensitivity,
+  type FrameChange,
+  type FrameSignature,
+} from "@/lib/frame-change"
+import type { GuidedFlow, GuidedFlowState, StepAnswer } from "@/lib/guided-flows"
+import {
+  preprocessImage,
+  preprocessVideoFrame,
+  validateImageInput,
+  type ImageMetadata,
+  type RegionOfInterest,
+} from "@/lib/image-preprocessing"
+import type { IndicatorReading } from "@/lib/indicator-states"
+import { readSSE } from "@/lib/sse"
+import { AnswerFeedback } from "@/components/answer-feedback"
+import { CitedAnswer } from "@/components/cited-answer"
+import { DeviceRegistrySheet, ownerHeaders, useUserDevices } from "@/components/device-registry"
+import { IndicatorOverlay } from "@/components/indicator-overlay"
+import { RegionSelector } from "@/components/region-selector"
+import type { DocumentNeedingReview, AnswerFeedback as StoredAnswerFeedback } from "@/lib/answer-feedback"
+import type { Citation } from "@/lib/citations"
+import type { HybridScores, IndicatorBox } from "@/lib/rag"
 
 interface ChatMessage {
   id: string
@@ -52,8 +91,25 @@ interface ChatMessage {
   metadata?: {
     extractedContext?: any
     relevantDocuments?: any[]
+    // Documents behind the [n] markers in content
+    citations?: Citation[]
+    // Identifies the answer for thumbs up/down and "fixed it" feedback
+    answerId?: string
     processingTime?: number
     intelligentAnalysis?: boolean
+    // Set while the response is still streaming in
+    isStreaming?: boolean
+    // The AI suggests a human handoff (no documents, critical urgency or the user asked)
+    escalation?: { suggested: boolean; reasons: string[] }
+    supportTicketId?: string
+    // Blink states classified from a burst capture, e.g. "水タンクランプ: ゆっくり点滅"
+    indicatorStates?: string[]
+    // Where the indicators the answer mentions are in imageData, drawn as labeled boxes
+    indicatorBoxes?: IndicatorBox[]
+    // Product model read from the label or chosen in the settings
+    device?: DeviceIdentification | null
+    // The quality gate rejected the image; kept so the user can analyze it anyway
+    imageQuality?: { issues: { code: string; guidance: string }[]; imageData: string; roi?: RoiCrop }
   }
 }
 
@@ -313,6 +369,8 @@ const useTextToSpeech = () => {
   const [isSupported, setIsSupported] = useState(false)
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null)
+  const queueRef = useRef<Promise<void>>(Promise.resolve())
+  const queueIdRef = useRef(0)
 
   useEffect(() => {
     // Check if browser supports SpeechSynthesis
@@ -439,12 +497,7 @@ const useTextToSpeech = () => {
     })
   }
 
-  const speak = async (text: string) => {
-    if (isSpeaking) {
-      console.log("Already speaking, ignoring new request")
-      return
-    }
-
+  const speakNow = async (text: string) => {
     console.log("Starting TTS for text:", text.substring(0, 50) + "...")
 
     try {
@@ -483,9 +536,36 @@ const useTextToSpeech = () => {
     }
   }
 
+  const speak = async (text: string) => {
+    if (isSpeaking) {
+      console.log("Already speaking, ignoring new request")
+      return
+    }
+
+    await speakNow(text)
+  }
+
+  // Plays texts one after another, e.g. sentences of a streaming response as they complete.
+  // stop() drops everything still queued.
+  const enqueue = (text: string) => {
+    const queueId = queueIdRef.current
+    queueRef.current = queueRef.current.then(async () => {
+      if (queueId !== queueIdRef.current) return
+      try {
+        await speakNow(text)
+      } catch (error) {
+        console.error("Queued TTS error:", error)
+      }
+    })
+  }
+
   const stop = () => {
     console.log("Stopping TTS")
 
+    // Paused audio never settles, so start a fresh queue instead of waiting on the old one
+    queueIdRef.current += 1
+    queueRef.current = Promise.resolve()
+
     // Stop Cloud API audio
     if (audioRef.current) {
       audioRef.current.pause()
@@ -506,12 +586,94 @@ const useTextToSpeech = () => {
 
   return {
     speak,
+    enqueue,
     stop,
     isSpeaking,
     isSupported,
   }
 }
 
+// Splits streamed text into finished sentences and the unfinished remainder
+const splitCompleteSentences = (text: string) => {
+  const sentences = text.match(/[^。！？!?\n]+[。！？!?\n]+/g) || []
+  const rest = text.slice(sentences.join("").length)
+  return { sentences: sentences.map((sentence) => sentence.trim()).filter(Boolean), rest }
+}
+
+const SESSION_STORAGE_KEY = "vision-chat-session-id"
+
+// Burst capture for blink detection: 21 frames 100ms apart (10fps over 2 seconds) sample a 4Hz blink
+// at least twice per on/off phase and still cover two cycles of a slow ~1Hz blink
+const BURST_FRAME_COUNT = 21
+const BURST_INTERVAL_MS = 100
+
+// How long the latest indicator boxes stay over the live video; the camera may have moved since
+const LIVE_INDICATOR_OVERLAY_MS = 15000
+
+// The selected region cropped from the full-resolution frame, sent as roi to the analyze API
+interface RoiCrop {
+  imageBase64: string
+  mimeType: string
+  region: RegionOfInterest
+}
+
+// An image to analyze instead of the current frame: the last frame of a burst with its
+// /api/indicator-states result, or an image the quality gate rejected that the user sends anyway
+interface AnalyzeOptions {
+  imageData?: string
+  // Crop matching imageData; without imageData the crop is taken from the current frame
+  roi?: RoiCrop
+  indicators?: IndicatorReading[]
+  indicatorSummary?: string[]
+  skipQualityCheck?: boolean
+}
+
+const createChatSessionId = () => `session_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`
+
+// Feedback behind a review flag, e.g. "解決 1件・未解決 3件・役に立たなかった 2件"
+const describeFeedback = (stats: DocumentNeedingReview) =>
+  (
+    [
+      ["解決", stats.resolved],
+      ["未解決", stats.unresolved],
+      ["役に立った", stats.helpful],
+      ["役に立たなかった", stats.unhelpful],
+    ] as [string, number][]
+  )
+    .filter(([, count]) => count > 0)
+    .map(([label, count]) => `${label} ${count}件`)
+    .join("・")
+
+const toChatMessages = (sessionId: string, messages: StoredChatMessage[]): ChatMessage[] =>
+  messages.map((msg, index) => ({
+    id: `${sessionId}_${index}`,
+    type: msg.role === "user" ? "user" : msg.role === "system" ? "system" : "ai",
+    content: msg.content,
+    imageData: msg.imageData,
+    timestamp: new Date(msg.timestamp),
+    metadata: msg.metadata,
+  }))
+
+const RETRIEVAL_METHOD_LABELS: Record<string, string> = {
+  error_code: "エラーコード一致",
+  indicator_states: "ランプ状態一致",
+  vector: "画像の類似度",
+  passages: "本文の一致箇所",
+  keyword: "キーワード一致",
+  category: "同じカテゴリ",
+}
+
+// Why a referenced document was chosen: ranks in each hybrid search source, or the search that found it
+const explainRetrieval = (doc: { retrievalMethod?: string; hybridScores?: HybridScores | null }): string => {
+  const scores = doc.hybridScores
+  if (!scores) {
+    return (doc.retrievalMethod && RETRIEVAL_METHOD_LABELS[doc.retrievalMethod]) || ""
+  }
+
+  const sources = [scores.vector && `画像 ${scores.vector.rank}位`, scores.text && `全文 ${scores.text.rank}位`]
+  return `${sources.filter(Boolean).join("・")}（${scores.strategy === "rrf" ? "順位融合" : "正規化スコア"}）`
+}
+
 const CATEGORIES = [
   { value: "general", label: "一般" },
   { value: "coffee_maker", label: "コーヒーメーカー" },
@@ -530,6 +692,9 @@ const CATEGORIES = [
 export default function AIVisionChatPage() {
   // Core state
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
+  const [sessionId, setSessionId] = useState("")
+  // Stored feedback of the resumed conversation, by answer id
+  const [answerFeedback, setAnswerFeedback] = useState<Record<string, StoredAnswerFeedback>>({})
   const [userInput, setUserInput] = useState("")
   const [isLoading, setIsLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -543,10 +708,23 @@ export default function AIVisionChatPage() {
   const [analysisFrequency, setAnalysisFrequency] = useState<number>(10)
   const [isVoiceEnabled, setIsVoiceEnabled] = useState(true)
   const [isAutoAnalysis, setIsAutoAnalysis] = useState(false)
+  const [changeSensitivity, setChangeSensitivity] = useState<ChangeSensitivity>("medium")
+  // Last automatic analysis decision, shown over the video
+  const [frameChangeStatus, setFrameChangeStatus] = useState<{
+    stable: boolean
+    skipped: number
+    reason: FrameChange["reason"]
+  } | null>(null)
 
   // Prompt selection state
   const [selectedSystemPrompt, setSelectedSystemPrompt] = useState<string>("default")
   const [selectedAnalysisPrompt, setSelectedAnalysisPrompt] = useState<string>("default")
+  // "auto" identifies the model from the label in each frame; otherwise the product_models id to use
+  const [selectedProductModel, setSelectedProductModel] = useState<string>("auto")
+  const [productModels, setProductModels] = useState<ProductModel[]>([])
+  // The user's registered device the conversation is about; it takes precedence over the model above
+  const userDevices = useUserDevices()
+  const [isDeviceRegistryOpen, setIsDeviceRegistryOpen] = useState(false)
   const [visualAnalysisPrompts, setVisualAnalysisPrompts] = useState<any[]>([])
 
   // Enhanced voice state
@@ -563,13 +741,21 @@ export default function AIVisionChatPage() {
   } = useUniversalSpeechRecognition()
 
   // Enhanced TTS state
-  const { speak: speakText, stop: stopSpeaking, isSpeaking, isSupported: isTTSSupported } = useTextToSpeech()
+  const {
+    speak: speakText,
+    enqueue: enqueueSpeech,
+    stop: stopSpeaking,
+    isSpeaking,
+    isSupported: isTTSSupported,
+  } = useTextToSpeech()
 
   // Mobile detection
   const [isMobile, setIsMobile] = useState(false)
 
   // RAG state
   const [ragDocuments, setRAGDocuments] = useState<RAGDocument[]>([])
+  // Documents whose answers keep failing, by document id
+  const [documentsNeedingReview, setDocumentsNeedingReview] = useState<Record<string, DocumentNeedingReview>>({})
   const [systemPrompts, setSystemPrompts] = useState<SystemPrompt[]>([])
   const [editingRAGEntry, setEditingRAGEntry] = useState<RAGDocument | null>(null)
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
@@ -583,6 +769,24 @@ export default function AIVisionChatPage() {
     image: null as File | null,
   })
 
+  // Session state
+  const [chatSessions, setChatSessions] = useState<ChatSessionSummary[]>([])
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null)
+  const [editingSessionTitle, setEditingSessionTitle] = useState("")
+  const [isEscalating, setIsEscalating] = useState(false)
+  const [isCapturingBurst, setIsCapturingBurst] = useState(false)
+  // Region of interest over the video (e.g. the indicator panel), cropped at full resolution
+  const [roiRegion, setRoiRegion] = useState<RegionOfInterest | null>(null)
+  const [isSelectingRoi, setIsSelectingRoi] = useState(false)
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null)
+  // Indicator boxes of the latest analysis, drawn over the live video
+  const [liveIndicatorBoxes, setLiveIndicatorBoxes] = useState<IndicatorBox[]>([])
+
+  // Guided flow state (one flow per session, progress kept on the server)
+  const [guidedFlow, setGuidedFlow] = useState<{ flow: GuidedFlow; state: GuidedFlowState } | null>(null)
+  const [isGuidedFlowBusy, setIsGuidedFlowBusy] = useState(false)
+
   // UI state
   const [isSettingsOpen, setIsSettingsOpen] = useState(false)
 
@@ -591,6 +795,14 @@ export default function AIVisionChatPage() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const ragImageInputRef = useRef<HTMLInputElement>(null)
   const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  // Frame-change detection: signature of the last analyzed frame, read by the analysis interval
+  const lastAnalyzedSignatureRef = useRef<FrameSignature | null>(null)
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const roiCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const changeSensitivityRef = useRef<ChangeSensitivity>(changeSensitivity)
+  const skippedAnalysesRef = useRef(0)
+  // Original and uploaded size of the last captured frame (lib/image-preprocessing.ts)
+  const frameMetadataRef = useRef<ImageMetadata | null>(null)
 
   // Mobile detection
   useEffect(() => {
@@ -612,8 +824,36 @@ export default function AIVisionChatPage() {
     loadRAGDocuments()
     loadSystemPrompts()
     loadVisualAnalysisPrompts()
+    loadProductModels()
   }, [])
 
+  // Resume the conversation from the last visit, or start a new one
+  useEffect(() => {
+    const storedSessionId = localStorage.getItem(SESSION_STORAGE_KEY)
+    if (storedSessionId) {
+      resumeSession(storedSessionId)
+    } else {
+      startNewSession()
+    }
+  }, [])
+
+  useEffect(() => {
+    if (isHistoryOpen) {
+      loadChatSessions()
+    }
+  }, [isHistoryOpen])
+
+  // The analysis interval outlives renders, so it reads the sensitivity through a ref
+  useEffect(() => {
+    changeSensitivityRef.current = changeSensitivity
+  }, [changeSensitivity])
+
+  useEffect(() => {
+    if (liveIndicatorBoxes.length === 0) return
+    const timeout = setTimeout(() => setLiveIndicatorBoxes([]), LIVE_INDICATOR_OVERLAY_MS)
+    return () => clearTimeout(timeout)
+  }, [liveIndicatorBoxes])
+
   // Enhanced voice command processing
   useEffect(() => {
     if (transcript && transcript.trim()) {
@@ -675,6 +915,18 @@ export default function AIVisionChatPage() {
     } catch (error) {
       console.error("Failed to load RAG documents:", error)
     }
+
+    try {
+      const response = await fetch("/api/answer-feedback/review")
+      const result = await response.json()
+      if (result.success) {
+        setDocumentsNeedingReview(
+          Object.fromEntries(result.documents.map((doc: DocumentNeedingReview) => [doc.document_id, doc])),
+        )
+      }
+    } catch (error) {
+      console.error("Failed to load documents needing review:", error)
+    }
   }
 
   const loadSystemPrompts = async () => {
@@ -705,6 +957,20 @@ export default function AIVisionChatPage() {
     }
   }
 
+  const loadProductModels = async () => {
+    try {
+      const response = await fetch("/api/product-models")
+      if (response.ok) {
+        const result = await response.json()
+        if (result.success) {
+          setProductModels(result.models || [])
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load product models:", error)
+    }
+  }
+
   // Camera functions
   const startCamera = async () => {
     try {
@@ -770,6 +1036,9 @@ export default function AIVisionChatPage() {
     }
     setIsStarted(false)
     stopPeriodicAnalysis()
+    setRoiRegion(null)
+    setIsSelectingRoi(false)
+    setLiveIndicatorBoxes([])
 
     // Stop continuous listening when camera stops
     if (isContinuous) {
@@ -789,13 +1058,6 @@ export default function AIVisionChatPage() {
       }
 
       const video = videoRef.current
-      const canvas = canvasRef.current
-      const ctx = canvas.getContext("2d")
-
-      if (!ctx) {
-        console.error("Canvas context not available")
-        return null
-      }
 
       if (video.videoWidth === 0 || video.videoHeight === 0) {
         console.error("Video not ready or has no dimensions")
@@ -807,33 +1069,107 @@ export default function AIVisionChatPage() {
         return null
       }
 
-      canvas.width = video.videoWidth
-      canvas.height = video.videoHeight
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height)
+      // Downsized to the shared max edge; the original resolution is reported with the request
+      const frame = preprocessVideoFrame(video, canvasRef.current)
 
-      const dataURL = canvas.toDataURL("image/jpeg", 0.8)
-
-      if (dataURL === "data:,") {
+      if (!frame) {
         console.error("Canvas is empty - no image captured")
         return null
       }
 
-      return dataURL
+      frameMetadataRef.current = frame.metadata
+      return frame.dataUrl
     } catch (error) {
       console.error("Error capturing frame:", error)
       return null
     }
   }
 
+  // The selected region of the current frame, cropped from the video's native resolution
+  const captureRoi = (): RoiCrop | undefined => {
+    const video = videoRef.current
+    if (!roiRegion || !video) {
+      return undefined
+    }
+
+    if (!roiCanvasRef.current) {
+      roiCanvasRef.current = document.createElement("canvas")
+    }
+
+    const crop = preprocessVideoFrame(video, roiCanvasRef.current, { region: roiRegion })
+    if (!crop) {
+      return undefined
+    }
+
+    return { imageBase64: crop.dataUrl.split(",")[1], mimeType: crop.metadata.mimeType, region: roiRegion }
+  }
+
+  // Several frames over a couple of seconds, each with its offset from the first frame. Frames are
+  // scheduled from the start of the burst so encoding time does not stretch the interval. The region
+  // of interest is cropped together with the last frame, so both show the same moment.
+  const captureBurst = async (): Promise<{ frames: Array<{ data: string; capturedAt: number }>; roi?: RoiCrop }> => {
+    const frames: Array<{ data: string; capturedAt: number }> = []
+    let roi: RoiCrop | undefined
+    const startedAt = performance.now()
+
+    for (let index = 0; index < BURST_FRAME_COUNT; index++) {
+      const wait = startedAt + index * BURST_INTERVAL_MS - performance.now()
+      if (wait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, wait))
+      }
+      const data = captureFrame()
+      if (data) {
+        frames.push({ data, capturedAt: Math.round(performance.now() - startedAt) })
+        if (index === BURST_FRAME_COUNT - 1) {
+          roi = captureRoi()
+        }
+      }
+    }
+
+    return { frames, roi }
+  }
+
+  // Downscaled grayscale signature of the current frame for change detection (lib/frame-change.ts)
+  const captureSignature = (): FrameSignature | null => {
+    const video = videoRef.current
+    if (!video || video.videoWidth === 0 || video.paused || video.ended) {
+      return null
+    }
+
+    if (!signatureCanvasRef.current) {
+      signatureCanvasRef.current = document.createElement("canvas")
+      signatureCanvasRef.current.width = SIGNATURE_WIDTH
+      signatureCanvasRef.current.height = SIGNATURE_HEIGHT
+    }
+
+    const ctx = signatureCanvasRef.current.getContext("2d", { willReadFrequently: true })
+    if (!ctx) {
+      return null
+    }
+
+    ctx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT)
+    return computeFrameSignature(ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT))
+  }
+
+  // Automatic analysis only runs when the view changed since the last analyzed frame
   const startPeriodicAnalysis = () => {
     if (intervalRef.current) clearInterval(intervalRef.current)
 
     intervalRef.current = setInterval(() => {
-      if (!isLoading) {
-        handleIntelligentAnalyze(true)
+      if (isLoading) return
+
+      const signature = captureSignature()
+      const previous = lastAnalyzedSignatureRef.current
+      const change = signature && previous ? compareFrames(previous, signature, changeSensitivityRef.current) : null
+
+      if (change && !change.changed) {
+        skippedAnalysesRef.current++
+        setFrameChangeStatus({ stable: true, skipped: skippedAnalysesRef.current, reason: null })
+        return
       }
+
+      setFrameChangeStatus({ stable: false, skipped: 0, reason: change?.reason || "scene" })
+      handleIntelligentAnalyze(true)
     }, analysisFrequency * 1000)
   }
 
@@ -842,36 +1178,132 @@ export default function AIVisionChatPage() {
       clearInterval(intervalRef.current)
       intervalRef.current = null
     }
+    lastAnalyzedSignatureRef.current = null
+    skippedAnalysesRef.current = 0
+    setFrameChangeStatus(null)
   }
 
-  // Message functions
-  const saveChatSession = async (sessionId: string, newMessage: ChatMessage) => {
+  // Session functions
+  const loadChatSessions = async () => {
     try {
-      const updatedMessages = [...chatMessages, newMessage]
+      const response = await fetch("/api/supabase/chat-sessions", { headers: ownerHeaders() })
+      if (response.ok) {
+        const result = await response.json()
+        if (result.success) {
+          setChatSessions(result.sessions || [])
+        }
+      }
+    } catch (error) {
+      console.error("Failed to load chat sessions:", error)
+    }
+  }
 
+  const startNewSession = () => {
+    const newSessionId = createChatSessionId()
+    localStorage.setItem(SESSION_STORAGE_KEY, newSessionId)
+    setSessionId(newSessionId)
+    setChatMessages([])
+    setAnswerFeedback({})
+    setGuidedFlow(null)
+    setError(null)
+  }
+
+  // Unknown ids (e.g. a conversation that never got a reply) simply start empty under that id
+  const resumeSession = async (targetSessionId: string) => {
+    localStorage.setItem(SESSION_STORAGE_KEY, targetSessionId)
+    setSessionId(targetSessionId)
+    setChatMessages([])
+    setAnswerFeedback({})
+    setGuidedFlow(null)
+    setError(null)
+
+    try {
+      const response = await fetch(`/api/supabase/chat-sessions?sessionId=${encodeURIComponent(targetSessionId)}`, {
+        headers: ownerHeaders(),
+      })
+      const result = await response.json()
+      if (result.success && result.session) {
+        setChatMessages(toChatMessages(targetSessionId, result.session.messages || []))
+      }
+    } catch (error) {
+      console.error("Failed to load chat session:", error)
+      setError("会話履歴の読み込みに失敗しました。")
+    }
+
+    try {
+      const response = await fetch(`/api/answer-feedback?sessionId=${encodeURIComponent(targetSessionId)}`, {
+        headers: ownerHeaders(),
+      })
+      const result = await response.json()
+      if (result.success) {
+        setAnswerFeedback(result.feedback)
+      }
+    } catch (error) {
+      console.error("Failed to load answer feedback:", error)
+    }
+
+    try {
+      const response = await fetch(`/api/guided-flows?sessionId=${encodeURIComponent(targetSessionId)}`, {
+        headers: ownerHeaders(),
+      })
+      const result = await response.json()
+      if (result.success && result.flow && result.state) {
+        setGuidedFlow({ flow: result.flow, state: result.state })
+      }
+    } catch (error) {
+      console.error("Failed to load guided flow:", error)
+    }
+  }
+
+  const renameSession = async (targetSessionId: string, title: string) => {
+    setEditingSessionId(null)
+
+    try {
       const response = await fetch("/api/supabase/chat-sessions", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          sessionId,
-          messages: updatedMessages.map((msg) => ({
-            role: msg.type === "user" ? "user" : msg.type === "ai" ? "model" : "system",
-            content: msg.content,
-            timestamp: msg.timestamp.toISOString(),
-            imageData: msg.imageData,
-            metadata: msg.metadata,
-          })),
-        }),
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
+        body: JSON.stringify({ sessionId: targetSessionId, title }),
       })
+      const result = await response.json()
+      if (result.success) {
+        setChatSessions((prev) =>
+          prev.map((session) =>
+            session.session_id === targetSessionId ? { ...session, title: title.trim() || null } : session,
+          ),
+        )
+      } else {
+        setError(result.error || "会話名の変更に失敗しました。")
+      }
+    } catch (error) {
+      console.error("Failed to rename chat session:", error)
+      setError("会話名の変更に失敗しました。")
+    }
+  }
+
+  const deleteSession = async (targetSessionId: string) => {
+    if (!confirm("この会話を削除しますか？")) return
 
-      if (!response.ok) {
-        console.error("Failed to save chat session")
+    try {
+      const response = await fetch(`/api/supabase/chat-sessions?sessionId=${encodeURIComponent(targetSessionId)}`, {
+        method: "DELETE",
+        headers: ownerHeaders(),
+      })
+      const result = await response.json()
+      if (result.success) {
+        setChatSessions((prev) => prev.filter((session) => session.session_id !== targetSessionId))
+        if (targetSessionId === sessionId) {
+          startNewSession()
+        }
+      } else {
+        setError(result.error || "会話の削除に失敗しました。")
       }
     } catch (error) {
-      console.error("Error saving chat session:", error)
+      console.error("Failed to delete chat session:", error)
+      setError("会話の削除に失敗しました。")
     }
   }
 
+  // Message functions
   const addMessage = (
     type: "user" | "ai" | "system",
     content: string,
@@ -889,20 +1321,16 @@ export default function AIVisionChatPage() {
       metadata,
     }
 
+    // The server appends user and AI messages to the session when it answers
     setChatMessages((prev) => [...prev, message])
 
-    // Save to chat session if it's a user or AI message
-    if (type === "user" || type === "ai") {
-      const sessionId = `session_${Date.now()}`
-      saveChatSession(sessionId, message)
-    }
-
     // Remove automatic TTS playback - only manual TTS via button
   }
 
   // Enhanced Intelligent Analysis function
-  const handleIntelligentAnalyze = async (isAutomatic = false) => {
-    const imageData = captureFrame()
+  const handleIntelligentAnalyze = async (isAutomatic = false, options: AnalyzeOptions = {}) => {
+    const imageData = options.imageData || captureFrame()
+    const roi = options.imageData ? options.roi : captureRoi()
     if (!imageData) {
       const errorMsg = "画像をキャプチャできませんでした。"
       if (!isAutomatic) {
@@ -911,17 +1339,30 @@ export default function AIVisionChatPage() {
       return
     }
 
+    // Manual analyses count too: the next automatic one waits for the view to change
+    lastAnalyzedSignatureRef.current = captureSignature()
+    skippedAnalysesRef.current = 0
+
     setIsLoading(true)
     setError(null)
 
     const prompt = userInput.trim() || "この画像を分析して、問題があれば解決方法を教えてください。"
 
     if (!isAutomatic) {
-      addMessage("user", prompt, imageData, { intelligentAnalysis: true })
+      addMessage("user", prompt, imageData, { intelligentAnalysis: true, indicatorStates: options.indicatorSummary })
       setUserInput("")
       resetTranscript()
     }
 
+    // Retake guidance instead of an answer; automatic analyses just wait for a better frame
+    const showQualityGuidance = (issues: { code: string; guidance: string }[]) => {
+      if (isAutomatic) return
+      addMessage("ai", `画像の品質が分析に十分ではありません。撮り直してください。\n\n${issues.map((issue) => `・${issue.guidance}`).join("\n")}`, undefined, {
+        intelligentAnalysis: true,
+        imageQuality: { issues, imageData, roi },
+      })
+    }
+
     try {
       const base64Image = imageData.split(",")[1]
 
@@ -939,37 +1380,124 @@ export default function AIVisionChatPage() {
 
       const response = await fetch("/api/intelligent-rag/analyze", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
         body: JSON.stringify({
           imageBase64: base64Image,
           mimeType: "image/jpeg",
+          imageMetadata: frameMetadataRef.current,
+          roi,
           userPrompt: analysisPromptText,
           systemPrompt: systemPrompt,
-          chatHistory: chatMessages
-            .filter((msg) => msg.type === "user" || msg.type === "ai")
-            .slice(-10)
-            .map((msg) => ({
-              role: msg.type === "user" ? "user" : "model",
-              parts: [{ text: msg.content }],
-            })),
-          sessionId: `session_${Date.now()}`,
+          sessionId,
+          indicators: options.indicators,
+          productModelId: selectedProductModel !== "auto" ? selectedProductModel : undefined,
+          deviceId: userDevices.selectedDeviceId || undefined,
+          skipQualityCheck: options.skipQualityCheck,
+          stream: true,
         }),
       })
 
-      const result = await response.json()
+      // Errors raised before streaming starts still come back as a JSON body
+      if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+        const result = await response.json()
 
-      if (result.success) {
-        addMessage("ai", result.response, undefined, {
-          extractedContext: result.extractedContext,
-          relevantDocuments: result.relevantDocuments,
-          processingTime: result.processingTimeMs,
-          intelligentAnalysis: true,
-        })
-      } else {
-        if (!isAutomatic) {
+        if (result.success) {
+          addMessage("ai", result.response, result.indicatorBoxes?.length ? imageData : undefined, {
+            extractedContext: result.extractedContext,
+            relevantDocuments: result.relevantDocuments,
+            citations: result.citations,
+            answerId: result.answerId,
+            processingTime: result.processingTimeMs,
+            intelligentAnalysis: true,
+            escalation: result.metadata?.escalation,
+            indicatorBoxes: result.indicatorBoxes,
+            device: result.metadata?.device,
+          })
+          setLiveIndicatorBoxes(result.indicatorBoxes || [])
+        } else if (result.imageQuality) {
+          showQualityGuidance(result.imageQuality.issues)
+        } else if (!isAutomatic) {
           setError(result.error || "分析に失敗しました。")
         }
+        return
       }
+
+      // Render the answer progressively: placeholder message first, then context, documents and tokens
+      const messageId = Date.now().toString()
+      const updateStreamingMessage = (update: (message: ChatMessage) => ChatMessage) => {
+        setChatMessages((prev) => prev.map((msg) => (msg.id === messageId ? update(msg) : msg)))
+      }
+
+      setChatMessages((prev) => [
+        ...prev,
+        {
+          id: messageId,
+          type: "ai",
+          content: "",
+          timestamp: new Date(),
+          metadata: { intelligentAnalysis: true, isStreaming: true },
+        },
+      ])
+
+      // In continuous voice mode, read each sentence aloud as soon as it is complete
+      const speakSentences = isContinuous && isTTSSupported
+      let pendingSpeech = ""
+
+      await readSSE(response, (event, data) => {
+        if (event === "context") {
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            imageData: data.indicatorBoxes?.length ? imageData : undefined,
+            metadata: { ...msg.metadata, extractedContext: data.extractedContext, indicatorBoxes: data.indicatorBoxes },
+          }))
+          setLiveIndicatorBoxes(data.indicatorBoxes || [])
+        } else if (event === "documents") {
+          updateStreamingMessage((msg) => ({
+            ...msg,
+            metadata: { ...msg.metadata, relevantDocuments: data.relevantDocuments },
+          }))
+        } else if (event === "token") {
+          updateStreamingMessage((msg) => ({ ...msg, content: msg.content + data.text }))
+
+          if (speakSentences) {
+            const { sentences, rest } = splitCompleteSentences(pendingSpeech + data.text)
+            sentences.forEach(enqueueSpeech)
+            pendingSpeech = rest
+          }
+        } else if (event === "done") {
+          const message: ChatMessage = {
+            id: messageId,
+            type: "ai",
+            content: data.response,
+            imageData: data.indicatorBoxes?.length ? imageData : undefined,
+            timestamp: new Date(),
+            metadata: {
+              extractedContext: data.extractedContext,
+              indicatorBoxes: data.indicatorBoxes,
+              relevantDocuments: data.relevantDocuments,
+              citations: data.citations,
+              answerId: data.answerId,
+              processingTime: data.processingTimeMs,
+              intelligentAnalysis: true,
+              escalation: data.metadata?.escalation,
+              device: data.metadata?.device,
+            },
+          }
+          updateStreamingMessage(() => message)
+
+          if (speakSentences && pendingSpeech.trim()) {
+            enqueueSpeech(pendingSpeech.trim())
+          }
+        } else if (event === "error") {
+          setChatMessages((prev) => prev.filter((msg) => msg.id !== messageId || msg.content))
+          updateStreamingMessage((msg) => ({ ...msg, metadata: { ...msg.metadata, isStreaming: false } }))
+          if (data.imageQuality) {
+            showQualityGuidance(data.imageQuality.issues)
+          } else if (!isAutomatic) {
+            setError(data.error || "分析に失敗しました。")
+          }
+        }
+      })
     } catch (error) {
       if (!isAutomatic) {
         console.error("Intelligent analysis error:", error)
@@ -981,6 +1509,47 @@ export default function AIVisionChatPage() {
     }
   }
 
+  // Blink detection: capture a burst, classify each indicator, then analyze with those states
+  const handleBurstAnalyze = async () => {
+    if (isCapturingBurst || isLoading) return
+
+    setIsCapturingBurst(true)
+    setError(null)
+
+    try {
+      const { frames, roi } = await captureBurst()
+      if (frames.length < 3) {
+        setError("連続画像をキャプチャできませんでした。")
+        return
+      }
+
+      const response = await fetch("/api/indicator-states", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ frames }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || "点滅パターンの判定に失敗しました。")
+        return
+      }
+
+      setIsCapturingBurst(false)
+      await handleIntelligentAnalyze(false, {
+        imageData: frames[frames.length - 1].data,
+        roi,
+        indicators: result.indicators,
+        indicatorSummary: result.summary,
+      })
+    } catch (error) {
+      console.error("Burst analysis error:", error)
+      setError("点滅パターンの判定中にエラーが発生しました。")
+    } finally {
+      setIsCapturingBurst(false)
+    }
+  }
+
   const handleSendMessage = async () => {
     if (!userInput.trim() || isLoading) return
 
@@ -999,16 +1568,10 @@ export default function AIVisionChatPage() {
       try {
         const response = await fetch("/api/text-chat", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: { "Content-Type": "application/json", ...ownerHeaders() },
           body: JSON.stringify({
             prompt: messageText,
-            chatHistory: chatMessages
-              .filter((msg) => msg.type === "user" || msg.type === "ai")
-              .slice(-10)
-              .map((msg) => ({
-                role: msg.type === "user" ? "user" : "model",
-                content: msg.content,
-              })),
+            sessionId,
           }),
         })
 
@@ -1018,6 +1581,7 @@ export default function AIVisionChatPage() {
           addMessage("ai", result.response, undefined, {
             textOnly: true,
             processingTime: result.processingTimeMs,
+            escalation: result.metadata?.escalation,
           })
         } else {
           setError(result.error || "チャット処理に失敗しました。")
@@ -1031,6 +1595,92 @@ export default function AIVisionChatPage() {
     }
   }
 
+  // Hand the conversation over to a human agent with the current frame and the last analysis
+  const handleEscalate = async (reasons: string[] = ["user_request"]) => {
+    if (isEscalating) return
+
+    setIsEscalating(true)
+    setError(null)
+
+    try {
+      const frame = isStarted ? captureFrame() : null
+      const lastAnalysis = chatMessages.filter((msg) => msg.metadata?.extractedContext).slice(-1)[0]?.metadata
+
+      const response = await fetch("/api/escalations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
+        body: JSON.stringify({
+          sessionId,
+          reasons,
+          note: userInput.trim() || undefined,
+          frames: frame ? [frame] : [],
+          extractedContext: lastAnalysis?.extractedContext,
+          relevantDocuments: lastAnalysis?.relevantDocuments,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (result.success) {
+        addMessage("ai", result.message, undefined, { supportTicketId: result.ticket.id })
+        setUserInput("")
+      } else {
+        setError(result.error || "サポートへの引き継ぎに失敗しました。")
+      }
+    } catch (error) {
+      console.error("Escalation error:", error)
+      setError("サポートへの引き継ぎに失敗しました。")
+    } finally {
+      setIsEscalating(false)
+    }
+  }
+
+  // Guided flow functions
+  const speakGuidedStep = (flow: GuidedFlow, state: GuidedFlowState) => {
+    const step = flow.steps.find((candidate) => candidate.id === state.currentStepId)
+    if (step && isContinuous && isTTSSupported) {
+      enqueueSpeech([step.instruction, step.check].filter(Boolean).join("。"))
+    }
+  }
+
+  const updateGuidedFlow = async (body: Record<string, unknown>) => {
+    setIsGuidedFlowBusy(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/guided-flows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
+        body: JSON.stringify({ sessionId, ...body }),
+      })
+      const result = await response.json()
+
+      if (!result.success) {
+        setError(result.error || "ガイドの更新に失敗しました。")
+        return
+      }
+
+      setGuidedFlow(result.flow && result.state ? { flow: result.flow, state: result.state } : null)
+      if (result.message) {
+        addMessage("ai", result.message, undefined, { guidedFlow: true, supportTicketId: result.ticket?.id })
+      }
+      if (result.flow && result.state?.status === "active") {
+        speakGuidedStep(result.flow, result.state)
+      }
+    } catch (error) {
+      console.error("Guided flow error:", error)
+      setError("ガイドの更新に失敗しました。")
+    } finally {
+      setIsGuidedFlowBusy(false)
+    }
+  }
+
+  const handleStartGuidedFlow = (documentId: string) => updateGuidedFlow({ action: "start", documentId })
+
+  const handleGuidedAnswer = (stepId: string, answer: StepAnswer) => updateGuidedFlow({ action: "answer", stepId, answer })
+
+  const handleExitGuidedFlow = () => updateGuidedFlow({ action: "exit" })
+
   // Enhanced voice control functions
   const handleVoiceToggle = async () => {
     console.log("Voice toggle clicked, current state:", { isListening, isSpeechSupported, isInitialized })
@@ -1086,14 +1736,9 @@ export default function AIVisionChatPage() {
   const handleRAGImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (file) {
-      const validTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp"]
-      if (!validTypes.includes(file.type)) {
-        setError("サポートされていない画像形式です。")
-        return
-      }
-
-      if (file.size > 10 * 1024 * 1024) {
-        setError("画像ファイルサイズは10MB以下にしてください。")
+      const validation = validateImageInput(file)
+      if (!validation.valid) {
+        setError(validation.error || "サポートされていない画像形式です。")
         return
       }
 
@@ -1119,19 +1764,13 @@ export default function AIVisionChatPage() {
     try {
       let imageBase64 = null
       let mimeType = null
+      let imageMetadata = null
 
       if (entry.image) {
-        const base64 = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader()
-          reader.onloadend = () => {
-            const result = reader.result as string
-            resolve(result.split(",")[1])
-          }
-          reader.onerror = reject
-          reader.readAsDataURL(entry.image!)
-        })
-        imageBase64 = base64
-        mimeType = entry.image.type
+        const prepared = await preprocessImage(entry.image)
+        imageBase64 = prepared.base64
+        mimeType = prepared.mimeType
+        imageMetadata = prepared.metadata
       }
 
       const tags = entry.tags
@@ -1148,6 +1787,7 @@ export default function AIVisionChatPage() {
         iconDescription: entry.iconDescription || entry.content,
         imageBase64,
         mimeType,
+        imageMetadata,
       }
 
       let response
@@ -1275,16 +1915,40 @@ export default function AIVisionChatPage() {
               </Badge>
             </div>
 
-            {/* Settings Button - Fixed */}
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setIsSettingsOpen(true)}
-              className="flex items-center gap-2"
-            >
-              <Settings className="w-4 h-4" />
-              <span className="hidden sm:inline">設定</span>
-            </Button>
+            <div className="flex items-center gap-2">
+              {/* Conversation History Button */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsHistoryOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <History className="w-4 h-4" />
+                <span className="hidden sm:inline">履歴</span>
+              </Button>
+
+              {/* Device Registry Button */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsDeviceRegistryOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <Package className="w-4 h-4" />
+                <span className="hidden sm:inline">{userDevices.selectedDevice?.nickname || "機器"}</span>
+              </Button>
+
+              {/* Settings Button - Fixed */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSettingsOpen(true)}
+                className="flex items-center gap-2"
+              >
+                <Settings className="w-4 h-4" />
+                <span className="hidden sm:inline">設定</span>
+              </Button>
+            </div>
           </CardTitle>
         </CardHeader>
 
@@ -1322,18 +1986,78 @@ export default function AIVisionChatPage() {
                     開始
                   </Button>
                 ) : (
-                  <Button onClick={handleStop} size="sm" variant="destructive">
-                    <Square className="w-4 h-4 mr-2" />
-                    停止
-                  </Button>
+                  <>
+                    <Button
+                      onClick={handleBurstAnalyze}
+                      size="sm"
+                      variant="outline"
+                      disabled={isCapturingBurst || isLoading}
+                      title="約2秒間連続撮影して、ランプの点灯・点滅を判定します"
+                    >
+                      {isCapturingBurst ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Activity className="w-4 h-4 mr-2" />
+                      )}
+                      点滅を確認
+                    </Button>
+                    <Button
+                      onClick={() => (roiRegion ? setRoiRegion(null) : setIsSelectingRoi((selecting) => !selecting))}
+                      size="sm"
+                      variant={isSelectingRoi ? "default" : "outline"}
+                      title="映像上をドラッグしてランプや表示パネルの範囲を選ぶと、その部分を高解像度で分析します"
+                    >
+                      {roiRegion ? <X className="w-4 h-4 mr-2" /> : <Crop className="w-4 h-4 mr-2" />}
+                      {roiRegion ? "範囲を解除" : "範囲を選択"}
+                    </Button>
+                    <Button onClick={handleStop} size="sm" variant="destructive">
+                      <Square className="w-4 h-4 mr-2" />
+                      停止
+                    </Button>
+                  </>
                 )}
               </div>
             </div>
 
             {/* Video Area - Fixed */}
-            <div className={`${getVideoAreaClasses()} flex-shrink-0`}>
+            <div className={`${getVideoAreaClasses()} flex-shrink-0 relative`}>
+              {isStarted && frameChangeStatus && (
+                <Badge variant="secondary" className="absolute bottom-2 left-2 z-10 text-xs bg-black/60 text-white">
+                  {frameChangeStatus.stable
+                    ? `シーンに変化なし・自動分析をスキップ（${frameChangeStatus.skipped}回）`
+                    : frameChangeStatus.reason === "indicator"
+                      ? "ランプの変化を検出・分析中"
+                      : "シーンの変化を検出・分析中"}
+                </Badge>
+              )}
               {isStarted ? (
-                <video ref={videoRef} className="w-full h-full object-cover" playsInline muted />
+                <>
+                  <video
+                    ref={videoRef}
+                    className="w-full h-full object-cover"
+                    playsInline
+                    muted
+                    onLoadedMetadata={(event) =>
+                      setVideoSize({ width: event.currentTarget.videoWidth, height: event.currentTarget.videoHeight })
+                    }
+                  />
+                  <IndicatorOverlay boxes={liveIndicatorBoxes} mediaSize={videoSize} fit="cover" />
+                  <RegionSelector
+                    active={isSelectingRoi}
+                    region={roiRegion}
+                    mediaSize={videoSize}
+                    fit="cover"
+                    onChange={(region) => {
+                      setRoiRegion(region)
+                      setIsSelectingRoi(false)
+                    }}
+                  />
+                  {isSelectingRoi && (
+                    <Badge variant="secondary" className="absolute top-2 left-2 z-10 text-xs bg-black/60 text-white">
+                      ランプや表示パネルを囲むようにドラッグしてください
+                    </Badge>
+                  )}
+                </>
               ) : (
                 <div className="text-gray-500 text-center p-4">
                   <div className="mb-2">
@@ -1359,6 +2083,86 @@ export default function AIVisionChatPage() {
               </Alert>
             )}
 
+            {/* Guided Flow Checklist */}
+            {guidedFlow && (
+              <div className="flex-shrink-0 border border-green-200 bg-green-50 rounded-lg p-3 max-h-64 overflow-y-auto">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex items-center gap-2 font-medium text-sm">
+                    <ListChecks className="w-4 h-4" />
+                    ガイド: {guidedFlow.flow.title}
+                    <Badge variant="outline" className="text-xs">
+                      {guidedFlow.state.status === "active"
+                        ? `${guidedFlow.state.completedStepIds.length}/${guidedFlow.flow.steps.length}`
+                        : guidedFlow.state.status === "resolved"
+                          ? "解決"
+                          : "担当者へ引き継ぎ"}
+                    </Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={handleExitGuidedFlow} disabled={isGuidedFlowBusy}>
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                <ol className="space-y-2">
+                  {guidedFlow.flow.steps.map((step) => {
+                    const isCurrent = step.id === guidedFlow.state.currentStepId
+                    const isDone = guidedFlow.state.completedStepIds.includes(step.id)
+
+                    return (
+                      <li key={step.id} className={`flex gap-2 text-sm ${isCurrent ? "" : "opacity-70"}`}>
+                        {isDone ? (
+                          <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 flex-shrink-0" />
+                        ) : (
+                          <Circle className={`w-4 h-4 mt-0.5 flex-shrink-0 ${isCurrent ? "text-blue-600" : ""}`} />
+                        )}
+                        <div className="flex-grow">
+                          <p className={isCurrent ? "font-medium" : ""}>{step.instruction}</p>
+                          {isCurrent && step.detail && <p className="text-xs text-gray-600 mt-1">{step.detail}</p>}
+                          {isCurrent && (
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                              {step.check ? (
+                                <>
+                                  <span className="text-xs">{step.check}</span>
+                                  <Button
+                                    size="sm"
+                                    disabled={isGuidedFlowBusy}
+                                    onClick={() => handleGuidedAnswer(step.id, "yes")}
+                                  >
+                                    はい
+                                  </Button>
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    disabled={isGuidedFlowBusy}
+                                    onClick={() => handleGuidedAnswer(step.id, "no")}
+                                  >
+                                    いいえ
+                                  </Button>
+                                </>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  disabled={isGuidedFlowBusy}
+                                  onClick={() => handleGuidedAnswer(step.id, "done")}
+                                >
+                                  {isGuidedFlowBusy ? (
+                                    <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                                  ) : (
+                                    <CheckCircle className="w-3 h-3 mr-1" />
+                                  )}
+                                  完了
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      </li>
+                    )
+                  })}
+                </ol>
+              </div>
+            )}
+
             {/* Chat Messages - Scrollable */}
             <ScrollArea className="flex-grow border rounded-lg p-2 sm:p-4 min-h-0">
               <div className="space-y-4">
@@ -1386,16 +2190,161 @@ export default function AIVisionChatPage() {
                           )}
                         </div>
                         {message.imageData && (
-                          <img
-                            src={message.imageData || "/placeholder.svg"}
-                            alt="Captured frame"
-                            className="w-full max-w-xs rounded mb-2"
-                          />
+                          <div className="relative w-full max-w-xs mb-2">
+                            <img
+                              src={message.imageData || "/placeholder.svg"}
+                              alt="Captured frame"
+                              className="block w-full rounded"
+                            />
+                            {message.metadata?.indicatorBoxes && message.metadata.indicatorBoxes.length > 0 && (
+                              <IndicatorOverlay boxes={message.metadata.indicatorBoxes} mediaSize={null} />
+                            )}
+                          </div>
+                        )}
+                        {message.metadata?.isStreaming && !message.content && (
+                          <div className="flex items-center gap-2 text-xs opacity-70">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            {message.metadata.relevantDocuments
+                              ? `関連文書 ${message.metadata.relevantDocuments.length}件をもとに回答を生成中...`
+                              : message.metadata.extractedContext
+                                ? "関連文書を検索中..."
+                                : "画像を分析中..."}
+                          </div>
+                        )}
+                        <CitedAnswer
+                          text={message.content}
+                          citations={message.metadata?.citations}
+                          className="text-sm whitespace-pre-wrap"
+                        />
+                        {message.metadata?.indicatorStates && message.metadata.indicatorStates.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {message.metadata.indicatorStates.map((line) => (
+                              <Badge key={line} variant="secondary" className="text-xs">
+                                <Activity className="w-3 h-3 mr-1" />
+                                {line}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {(message.metadata?.device?.model || message.metadata?.device?.label.modelNumber) && (
+                          <div className="flex flex-wrap items-center gap-1 mt-2">
+                            <Badge variant="secondary" className="text-xs">
+                              <ScanLine className="w-3 h-3 mr-1" />
+                              {message.metadata.device.model
+                                ? `機種: ${message.metadata.device.model.display_name}${
+                                    message.metadata.device.match === "selected"
+                                      ? "（手動選択）"
+                                      : message.metadata.device.match === "registered"
+                                        ? "（登録機器）"
+                                        : ""
+                                  }`
+                                : `型番 ${message.metadata.device.label.modelNumber}（未登録）`}
+                            </Badge>
+                            {message.metadata.device.model &&
+                              message.metadata.device.match !== "registered" &&
+                              selectedProductModel === "auto" && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => setSelectedProductModel(message.metadata!.device!.model!.id)}
+                                >
+                                  この機種に固定
+                                </Button>
+                              )}
+                          </div>
+                        )}
+                        {message.metadata?.relevantDocuments?.some((doc) => doc.matchedErrorCode) && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {message.metadata.relevantDocuments
+                              .filter((doc) => doc.matchedErrorCode)
+                              .map((doc) => (
+                                <Badge key={doc.id} variant="secondary" className="text-xs">
+                                  エラーコード {doc.matchedErrorCode}: {doc.title}
+                                </Badge>
+                              ))}
+                          </div>
+                        )}
+                        {!!message.metadata?.relevantDocuments?.length && !message.metadata.isStreaming && (
+                          <details className="text-xs mt-2">
+                            <summary className="cursor-pointer opacity-70">
+                              参照した文書 {message.metadata.relevantDocuments.length}件
+                            </summary>
+                            <ul className="mt-1 space-y-1">
+                              {message.metadata.relevantDocuments.map((doc) => (
+                                <li key={doc.id}>
+                                  <span className="font-medium">{doc.title}</span>
+                                  <span className="opacity-70">
+                                    {" "}
+                                    {(doc.relevance_score * 100).toFixed(0)}%
+                                    {explainRetrieval(doc) && `・${explainRetrieval(doc)}`}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          </details>
                         )}
-                        <p className="text-sm whitespace-pre-wrap">{message.content}</p>
                         {message.metadata?.processingTime && (
                           <div className="text-xs opacity-70 mt-1">処理時間: {message.metadata.processingTime}ms</div>
                         )}
+                        {message.metadata?.answerId && !message.metadata.isStreaming && (
+                          <AnswerFeedback
+                            answerId={message.metadata.answerId}
+                            sessionId={sessionId}
+                            initial={answerFeedback[message.metadata.answerId]}
+                          />
+                        )}
+                        {message.metadata?.relevantDocuments
+                          ?.filter((doc) => doc.hasGuidedFlow)
+                          .slice(0, 2)
+                          .map((doc) => (
+                            <Button
+                              key={doc.id}
+                              variant="outline"
+                              size="sm"
+                              className="mt-2 mr-2 bg-white"
+                              disabled={isGuidedFlowBusy || guidedFlow?.state.status === "active"}
+                              onClick={() => handleStartGuidedFlow(doc.id)}
+                            >
+                              <ListChecks className="w-3 h-3 mr-1" />
+                              「{doc.title}」を手順ごとに案内
+                            </Button>
+                          ))}
+                        {message.metadata?.imageQuality && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="mt-2 mr-2 bg-white"
+                            disabled={isLoading}
+                            onClick={() =>
+                              handleIntelligentAnalyze(false, {
+                                imageData: message.metadata?.imageQuality?.imageData,
+                                roi: message.metadata?.imageQuality?.roi,
+                                skipQualityCheck: true,
+                              })
+                            }
+                          >
+                            <Brain className="w-3 h-3 mr-1" />
+                            このまま分析する
+                          </Button>
+                        )}
+                        {message.metadata?.escalation?.suggested &&
+                          !chatMessages.some((msg) => msg.metadata?.supportTicketId) && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="mt-2 bg-white"
+                              disabled={isEscalating}
+                              onClick={() => handleEscalate(message.metadata?.escalation?.reasons)}
+                            >
+                              {isEscalating ? (
+                                <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+                              ) : (
+                                <LifeBuoy className="w-3 h-3 mr-1" />
+                              )}
+                              サポート担当者に引き継ぐ
+                            </Button>
+                          )}
                       </div>
                     </div>
                   ))}
@@ -1473,6 +2422,16 @@ export default function AIVisionChatPage() {
                 >
                   {isSpeaking ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
                 </Button>
+
+                {/* Human Handoff Button */}
+                <Button
+                  onClick={() => handleEscalate()}
+                  variant="outline"
+                  disabled={isEscalating || chatMessages.length === 0}
+                  title="サポート担当者に引き継ぐ（入力欄の内容はメモとして送信されます）"
+                >
+                  {isEscalating ? <Loader2 className="w-4 h-4 animate-spin" /> : <LifeBuoy className="w-4 h-4" />}
+                </Button>
               </div>
             </div>
           </div>
@@ -1519,6 +2478,96 @@ export default function AIVisionChatPage() {
       {/* Hidden canvas for image capture */}
       <canvas ref={canvasRef} className="hidden" />
 
+      {/* Conversation History Sidebar */}
+      <Sheet open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+        <SheetContent side="left" className="w-[320px] sm:w-[400px] overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>会話履歴</SheetTitle>
+            <SheetDescription>過去の会話を選択して続きから再開できます</SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-4 space-y-2">
+            <Button
+              className="w-full"
+              onClick={() => {
+                startNewSession()
+                setIsHistoryOpen(false)
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              新しい会話
+            </Button>
+
+            {chatSessions.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-4">保存された会話はありません</p>
+            )}
+
+            {chatSessions.map((session) => (
+              <div
+                key={session.session_id}
+                className={`border rounded-lg p-3 ${
+                  session.session_id === sessionId ? "border-blue-300 bg-blue-50" : "hover:bg-gray-50"
+                }`}
+              >
+                {editingSessionId === session.session_id ? (
+                  <Input
+                    autoFocus
+                    value={editingSessionTitle}
+                    onChange={(e) => setEditingSessionTitle(e.target.value)}
+                    onBlur={() => renameSession(session.session_id, editingSessionTitle)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") renameSession(session.session_id, editingSessionTitle)
+                      if (e.key === "Escape") setEditingSessionId(null)
+                    }}
+                  />
+                ) : (
+                  <div className="flex items-start gap-2">
+                    <button
+                      className="flex-grow text-left min-w-0"
+                      onClick={() => {
+                        resumeSession(session.session_id)
+                        setIsHistoryOpen(false)
+                      }}
+                    >
+                      <div className="flex items-center gap-2 font-medium text-sm">
+                        <MessageSquare className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate">{session.title || "無題の会話"}</span>
+                      </div>
+                      {session.last_message && (
+                        <p className="text-xs text-gray-500 truncate mt-1">{session.last_message}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">
+                        {new Date(session.updated_at).toLocaleString()}・{session.message_count}件
+                      </p>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingSessionId(session.session_id)
+                        setEditingSessionTitle(session.title || "")
+                      }}
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteSession(session.session_id)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <DeviceRegistrySheet
+        open={isDeviceRegistryOpen}
+        onOpenChange={setIsDeviceRegistryOpen}
+        registry={userDevices}
+        models={productModels}
+      />
+
       {/* Settings Panel - Fixed */}
       <Sheet open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
         <SheetContent className="w-[400px] sm:w-[540px] overflow-y-auto">
@@ -1585,6 +2634,47 @@ export default function AIVisionChatPage() {
                   </Select>
                 </div>
 
+                <div>
+                  <Label>登録機器</Label>
+                  <Select
+                    value={userDevices.selectedDeviceId || "none"}
+                    onValueChange={(value) => userDevices.setSelectedDeviceId(value === "none" ? null : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="機器を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">指定しない</SelectItem>
+                      {userDevices.devices.map((device) => (
+                        <SelectItem key={device.id} value={device.id}>
+                          {device.nickname}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label>機種</Label>
+                  <Select
+                    value={selectedProductModel}
+                    onValueChange={setSelectedProductModel}
+                    disabled={!!userDevices.selectedDevice}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="機種を選択" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">自動認識（銘板・型番から判定）</SelectItem>
+                      {productModels.map((model) => (
+                        <SelectItem key={model.id} value={model.id}>
+                          {model.display_name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
                 <div>
                   <Label>分析頻度 (秒)</Label>
                   <Select
@@ -1604,6 +2694,24 @@ export default function AIVisionChatPage() {
                   </Select>
                 </div>
 
+                <div>
+                  <Label>変化検出の感度</Label>
+                  <Select
+                    value={changeSensitivity}
+                    onValueChange={(value: ChangeSensitivity) => setChangeSensitivity(value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="high">高（小さなランプの変化でも分析）</SelectItem>
+                      <SelectItem value="medium">中</SelectItem>
+                      <SelectItem value="low">低（大きな変化のみ分析）</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-gray-500 mt-1">自動分析は画面に変化があったときだけ実行されます</p>
+                </div>
+
                 <div className="space-y-3">
                   <div className="flex items-center space-x-2">
                     <input
@@ -1714,7 +2822,7 @@ export default function AIVisionChatPage() {
                     <input
                       ref={ragImageInputRef}
                       type="file"
-                      accept="image/jpeg,image/jpg,image/png,image/webp"
+                      accept="image/jpeg,image/jpg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
                       onChange={handleRAGImageUpload}
                       className="hidden"
                     />
@@ -1744,6 +2852,15 @@ export default function AIVisionChatPage() {
                             <Badge variant="outline" className="text-xs">
                               {doc.category}
                             </Badge>
+                            {documentsNeedingReview[doc.id] && (
+                              <Badge
+                                variant="destructive"
+                                className="text-xs"
+                                title={describeFeedback(documentsNeedingReview[doc.id])}
+                              >
+                                要見直し
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-xs text-gray-600 mt-1">{doc.content.substring(0, 80)}...</p>
                         </div>
@@ -26,12 +26,17 @@ import {
   Copy,
   Download,
   UploadIcon,
+  BookOpen,
 } from "lucide-react"
+import { ManualIngestionPanel } from "@/components/manual-ingestion"
+import { preprocessImage, validateImageInput, type PreprocessedImage } from "@/lib/image-preprocessing"
 
 interface TroubleshootingEntry {
   id: string
   image: File | null
   imagePreview: string | null
+  // Upright, downsized copy of image that is actually uploaded
+  preparedImage?: PreprocessedImage
   iconName: string
   iconDescription: string
   content: string
@@ -207,28 +212,25 @@ export default function RegisterEntriesPage() {
     return errors
   }
 
-  const handleImageUpload = (entryId: string, file: File) => {
+  const handleImageUpload = async (entryId: string, file: File) => {
     // Validate file
-    const validTypes = ["image/jpeg", "image/jpg", "image/png", "image/webp"]
-    if (!validTypes.includes(file.type)) {
-      updateEntry(entryId, { errors: ["Invalid image format. Supported: JPG, PNG, WebP"] })
+    if (!validateImageInput(file).valid) {
+      updateEntry(entryId, { errors: ["Invalid image. Supported: JPG, PNG, WebP, HEIC up to 30MB"] })
       return
     }
 
-    if (file.size > 10 * 1024 * 1024) {
-      updateEntry(entryId, { errors: ["Image file size must be less than 10MB"] })
-      return
-    }
-
-    // Create preview
-    const reader = new FileReader()
-    reader.onloadend = () => {
+    // Preprocess once; the preview shows exactly what will be registered
+    try {
+      const prepared = await preprocessImage(file)
       updateEntry(entryId, {
         image: file,
-        imagePreview: reader.result as string,
+        imagePreview: prepared.dataUrl,
+        preparedImage: prepared,
       })
+    } catch (error) {
+      console.error("Image preprocessing failed:", error)
+      updateEntry(entryId, { errors: ["Could not read the image file"] })
     }
-    reader.readAsDataURL(file)
   }
 
   const handleArrayFieldUpdate = (entryId: string, field: keyof TroubleshootingEntry, value: string) => {
@@ -256,20 +258,12 @@ export default function RegisterEntriesPage() {
         validEntries.map(async (entry) => {
           if (!entry.image) throw new Error("Image is required")
 
-          // Convert image to base64
-          const base64 = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader()
-            reader.onloadend = () => {
-              const result = reader.result as string
-              resolve(result.split(",")[1]) // Remove data:image/...;base64, prefix
-            }
-            reader.onerror = reject
-            reader.readAsDataURL(entry.image)
-          })
+          const prepared = entry.preparedImage || (await preprocessImage(entry.image))
 
           return {
-            image: base64,
-            mimeType: entry.image.type,
+            image: prepared.base64,
+            mimeType: prepared.mimeType,
+            imageMetadata: prepared.metadata,
             iconName: entry.iconName,
             iconDescription: entry.iconDescription,
             content: entry.content,
@@ -436,7 +430,7 @@ export default function RegisterEntriesPage() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="form" className="flex items-center gap-2">
             <FileText className="w-4 h-4" />
             Entry Form ({totalEntryCount})
@@ -449,6 +443,10 @@ export default function RegisterEntriesPage() {
             <Eye className="w-4 h-4" />
             Examples
           </TabsTrigger>
+          <TabsTrigger value="manuals" className="flex items-center gap-2">
+            <BookOpen className="w-4 h-4" />
+            Manual Import
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="form" className="space-y-6">
@@ -558,7 +556,7 @@ export default function RegisterEntriesPage() {
                       <input
                         id={`image-${entry.id}`}
                         type="file"
-                        accept="image/jpeg,image/jpg,image/png,image/webp"
+                        accept="image/jpeg,image/jpg,image/png,image/webp,image/heic,image/heif,.heic,.heif"
                         onChange={(e) => {
                           const file = e.target.files?.[0]
                           if (file) handleImageUpload(entry.id, file)
@@ -924,6 +922,10 @@ export default function RegisterEntriesPage() {
             </Button>
           </div>
         </TabsContent>
+
+        <TabsContent value="manuals" className="space-y-4">
+          <ManualIngestionPanel categories={categories} />
+        </TabsContent>
       </Tabs>
     </div>
   )
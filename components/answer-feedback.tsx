@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import { CheckCircle, ThumbsDown, ThumbsUp, XCircle } from "lucide-react"
+import { ownerHeaders } from "@/components/device-registry"
+import type { AnswerFeedback as StoredAnswerFeedback, AnswerRating } from "@/lib/answer-feedback"
+
+const LABELS = {
+  ja: {
+    helpful: "役に立った",
+    unhelpful: "役に立たなかった",
+    resolved: "解決した",
+    unresolved: "解決しなかった",
+    failed: "フィードバックを保存できませんでした",
+  },
+  en: {
+    helpful: "Helpful",
+    unhelpful: "Not helpful",
+    resolved: "This fixed it",
+    unresolved: "Didn't fix it",
+    failed: "Could not save your feedback",
+  },
+}
+
+type Feedback = { rating: AnswerRating | null; resolved: boolean | null }
+
+function ToggleButton({
+  active,
+  activeClassName,
+  label,
+  showLabel = false,
+  disabled,
+  onClick,
+  children,
+}: {
+  active: boolean
+  activeClassName: string
+  label: string
+  showLabel?: boolean
+  disabled: boolean
+  onClick: () => void
+  children: ReactNode
+}) {
+  return (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      aria-pressed={active}
+      disabled={disabled}
+      onClick={onClick}
+      className={`inline-flex items-center gap-1 rounded px-1.5 py-0.5 text-xs disabled:opacity-50 ${
+        active ? activeClassName : "text-gray-500 hover:bg-gray-100"
+      }`}
+    >
+      {children}
+      {showLabel && label}
+    </button>
+  )
+}
+
+// Thumbs up/down and "fixed it / didn't fix it" under an answer (lib/answer-feedback.ts). Clicking
+// the selected button again clears it. initial is the stored feedback of a resumed conversation.
+export function AnswerFeedback({
+  answerId,
+  sessionId,
+  initial,
+  lang = "ja",
+}: {
+  answerId: string
+  sessionId: string
+  initial?: StoredAnswerFeedback
+  lang?: keyof typeof LABELS
+}) {
+  const labels = LABELS[lang]
+  const [feedback, setFeedback] = useState<Feedback>({ rating: null, resolved: null })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState(false)
+
+  useEffect(() => {
+    if (initial) {
+      setFeedback({ rating: initial.rating, resolved: initial.resolved })
+    }
+  }, [initial])
+
+  const save = async (changes: Partial<Feedback>) => {
+    const previous = feedback
+    setFeedback({ ...feedback, ...changes })
+    setSaving(true)
+    setError(false)
+    try {
+      const response = await fetch("/api/answer-feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...ownerHeaders() },
+        body: JSON.stringify({ answerId, sessionId, ...changes }),
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error)
+      }
+    } catch (saveError) {
+      console.error("Failed to save answer feedback:", saveError)
+      setFeedback(previous)
+      setError(true)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const rate = (rating: AnswerRating) => save({ rating: feedback.rating === rating ? null : rating })
+  const resolve = (resolved: boolean) => save({ resolved: feedback.resolved === resolved ? null : resolved })
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2">
+      <ToggleButton
+        active={feedback.rating === 1}
+        activeClassName="bg-blue-100 text-blue-700"
+        label={labels.helpful}
+        disabled={saving}
+        onClick={() => rate(1)}
+      >
+        <ThumbsUp className="w-3 h-3" />
+      </ToggleButton>
+      <ToggleButton
+        active={feedback.rating === -1}
+        activeClassName="bg-gray-200 text-gray-800"
+        label={labels.unhelpful}
+        disabled={saving}
+        onClick={() => rate(-1)}
+      >
+        <ThumbsDown className="w-3 h-3" />
+      </ToggleButton>
+      <span className="mx-1 h-3 w-px bg-gray-300" />
+      <ToggleButton
+        active={feedback.resolved === true}
+        activeClassName="bg-green-100 text-green-700"
+        label={labels.resolved}
+        showLabel
+        disabled={saving}
+        onClick={() => resolve(true)}
+      >
+        <CheckCircle className="w-3 h-3" />
+      </ToggleButton>
+      <ToggleButton
+        active={feedback.resolved === false}
+        activeClassName="bg-red-100 text-red-700"
+        label={labels.unresolved}
+        showLabel
+        disabled={saving}
+        onClick={() => resolve(false)}
+      >
+        <XCircle className="w-3 h-3" />
+      </ToggleButton>
+      {error && <span className="text-xs text-red-600">{labels.failed}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,166 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ExternalLink, FileText, Loader2 } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import {
+  citationSourceUrl,
+  describeCitationSource,
+  splitCitations,
+  type Citation,
+  type CitationSource,
+} from "@/lib/citations"
+
+interface CitedDocument {
+  title: string
+  content: string
+  category?: string
+  tags?: string[]
+}
+
+function SourceLink({ source }: { source: CitationSource }) {
+  return (
+    <a
+      href={citationSourceUrl(source)}
+      target="_blank"
+      rel="noreferrer"
+      className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+    >
+      <FileText className="w-3 h-3" />
+      {describeCitationSource(source)}
+      <ExternalLink className="w-3 h-3" />
+    </a>
+  )
+}
+
+// The cited knowledge base entry, loaded when the dialog opens
+function CitationDialog({ citation, onClose }: { citation: Citation | null; onClose: () => void }) {
+  const [entry, setEntry] = useState<CitedDocument | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const documentId = citation?.documentId
+
+  useEffect(() => {
+    setEntry(null)
+    setError(null)
+    if (!documentId) return
+
+    let cancelled = false
+    fetch(`/api/supabase/rag-documents?id=${encodeURIComponent(documentId)}`)
+      .then((response) => response.json())
+      .then((result) => {
+        if (cancelled) return
+        if (result.success) {
+          setEntry(result.document)
+        } else {
+          setError(result.error || "Failed to load the document")
+        }
+      })
+      .catch((fetchError) => {
+        if (!cancelled) setError(fetchError instanceof Error ? fetchError.message : String(fetchError))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  return (
+    <Dialog open={!!citation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            [{citation?.index}] {entry?.title || citation?.title}
+          </DialogTitle>
+          {citation?.source && (
+            <DialogDescription asChild>
+              <div>
+                <SourceLink source={citation.source} />
+              </div>
+            </DialogDescription>
+          )}
+        </DialogHeader>
+        {entry ? (
+          <div className="space-y-2">
+            {(entry.category || !!entry.tags?.length) && (
+              <div className="flex flex-wrap gap-1">
+                {entry.category && <Badge variant="secondary">{entry.category}</Badge>}
+                {entry.tags?.map((tag) => (
+                  <Badge key={tag} variant="outline">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-sm whitespace-pre-wrap max-h-96 overflow-y-auto">{entry.content}</p>
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// An answer with its [n] markers shown as chips that open the cited entry, followed by the list of
+// cited entries. Markers without a citation (e.g. while the answer is still streaming) stay as text.
+export function CitedAnswer({
+  text,
+  citations = [],
+  className,
+}: {
+  text: string
+  citations?: Citation[]
+  className?: string
+}) {
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null)
+  const byIndex = new Map(citations.map((citation) => [citation.index, citation]))
+
+  return (
+    <>
+      <p className={className}>
+        {splitCitations(text).map((segment, position) =>
+          "text" in segment ? (
+            segment.text
+          ) : segment.citations.every((index) => byIndex.has(index)) ? (
+            segment.citations.map((index) => (
+              <button
+                key={`${position}-${index}`}
+                type="button"
+                title={byIndex.get(index)!.title}
+                onClick={() => setOpenCitation(byIndex.get(index)!)}
+                className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-blue-100 px-1 align-super text-[10px] font-medium text-blue-700 hover:bg-blue-200"
+              >
+                {index}
+              </button>
+            ))
+          ) : (
+            `[${segment.citations.join(", ")}]`
+          ),
+        )}
+      </p>
+      {citations.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {citations.map((citation) => (
+            <button
+              key={citation.index}
+              type="button"
+              onClick={() => setOpenCitation(citation)}
+              className="inline-flex max-w-full items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-50"
+            >
+              <span className="font-medium text-blue-700">[{citation.index}]</span>
+              <span className="truncate">{citation.title}</span>
+              {citation.source && (
+                <span className="shrink-0 text-gray-500">· {describeCitationSource(citation.source)}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+      <CitationDialog citation={openCitation} onClose={() => setOpenCitation(null)} />
+    </>
+  )
+}
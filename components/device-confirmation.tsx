@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, ScanLine } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { DeviceIdentification, ProductModel } from "@/lib/device-identification"
+
+// Select value for "no model", since SelectItem values cannot be empty
+const NO_MODEL = "none"
+
+// Identifies the device in each uploaded image and tracks the model the user settled on.
+// The detected model is selected automatically; the user can pick another one or none.
+export function useDeviceIdentification() {
+  const [models, setModels] = useState<ProductModel[]>([])
+  const [device, setDevice] = useState<DeviceIdentification | null>(null)
+  const [selectedModelId, setSelectedModelId] = useState<string | null>(null)
+  const [isIdentifying, setIsIdentifying] = useState(false)
+  // Answers for an image that has since been replaced are ignored
+  const requestRef = useRef(0)
+
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        const response = await fetch("/api/product-models")
+        const result = await response.json()
+        if (result.success) {
+          setModels(result.models)
+        }
+      } catch (error) {
+        console.error("Failed to fetch product models:", error)
+      }
+    }
+
+    fetchModels()
+  }, [])
+
+  // Resolves to the identification, or null when it failed or a newer image was identified meanwhile
+  const identify = async (image: { base64: string; mimeType: string }): Promise<DeviceIdentification | null> => {
+    const request = ++requestRef.current
+    setIsIdentifying(true)
+    setDevice(null)
+    setSelectedModelId(null)
+
+    try {
+      const response = await fetch("/api/device-identification", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ imageBase64: image.base64, mimeType: image.mimeType }),
+      })
+      const result = await response.json()
+      if (request !== requestRef.current || !result.success) {
+        return null
+      }
+
+      setDevice(result.device)
+      setSelectedModelId(result.device.model?.id || null)
+      return result.device
+    } catch (error) {
+      console.error("Device identification failed:", error)
+      return null
+    } finally {
+      if (request === requestRef.current) {
+        setIsIdentifying(false)
+      }
+    }
+  }
+
+  const reset = () => {
+    requestRef.current++
+    setDevice(null)
+    setSelectedModelId(null)
+    setIsIdentifying(false)
+  }
+
+  const selectedModel =
+    models.find((model) => model.id === selectedModelId) ||
+    (device?.model && device.model.id === selectedModelId ? device.model : null)
+
+  return { models, device, selectedModelId, selectedModel, setSelectedModelId, isIdentifying, identify, reset }
+}
+
+interface DeviceConfirmationProps {
+  device: DeviceIdentification | null
+  isIdentifying: boolean
+  models: ProductModel[]
+  selectedModelId: string | null
+  onSelect: (modelId: string | null) => void
+}
+
+// What was read from the label, with a model picker to confirm or correct it
+export function DeviceConfirmation({ device, isIdentifying, models, selectedModelId, onSelect }: DeviceConfirmationProps) {
+  // The detected model may be missing from the list if the catalog changed after it was fetched
+  const detected = device?.model
+  const options = detected && !models.some((model) => model.id === detected.id) ? [detected, ...models] : models
+
+  let status = "No model label found. Pick the model if you know it."
+  if (isIdentifying) {
+    status = "Reading the model label..."
+  } else if (device?.model && selectedModelId === device.model.id) {
+    status = `Detected ${device.model.display_name}. Change it below if this is wrong.`
+  } else if (selectedModelId) {
+    status = "Model selected manually."
+  } else if (device?.label.modelNumber && !device.model) {
+    status = `Model ${device.label.modelNumber} is not in the catalog. Pick it below if it is listed under another name.`
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {isIdentifying ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanLine className="w-4 h-4" />}
+      <span className="text-gray-600">{status}</span>
+      <Select
+        value={selectedModelId || NO_MODEL}
+        onValueChange={(value) => onSelect(value === NO_MODEL ? null : value)}
+        disabled={isIdentifying}
+      >
+        <SelectTrigger className="w-[220px]">
+          <SelectValue placeholder="Select model" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_MODEL}>Not specified</SelectItem>
+          {options.map((model) => (
+            <SelectItem key={model.id} value={model.id}>
+              {model.display_name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {device?.label.serialNumber && <span className="text-xs text-gray-500">S/N {device.label.serialNumber}</span>}
+    </div>
+  )
+}
@@ -0,0 +1,486 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { CheckCircle, Edit, ImagePlus, Loader2, Plus, RotateCcw, Trash2, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import type { ProductModel } from "@/lib/device-identification"
+import { preprocessImage } from "@/lib/image-preprocessing"
+import type { DeviceIssue, UserDevice } from "@/lib/user-devices"
+
+// lib/user-devices.ts is server-only (it imports the admin client), so its limits are repeated here;
+// the API enforces them again
+const OWNER_HEADER = "x-owner-id"
+const MAX_DEVICE_PHOTOS = 4
+
+const OWNER_ID_KEY = "vision-chat-owner-id"
+const SELECTED_DEVICE_KEY = "vision-chat-device-id"
+
+// Select value for "no model", since SelectItem values cannot be empty
+const NO_MODEL = "none"
+
+// Device photos only need to be recognizable, not analyzable
+const PHOTO_MAX_EDGE = 640
+
+// Anonymous owner id for the device registry, generated once per browser
+function getOwnerId(): string {
+  let ownerId = localStorage.getItem(OWNER_ID_KEY)
+  if (!ownerId) {
+    const alphabet = "abcdefghijklmnopqrstuvwxyz0123456789"
+    const random = crypto.getRandomValues(new Uint8Array(24))
+    ownerId = `anon_${Array.from(random, (byte) => alphabet[byte % alphabet.length]).join("")}`
+    localStorage.setItem(OWNER_ID_KEY, ownerId)
+  }
+  return ownerId
+}
+
+// Headers identifying the caller to /api/devices and the analyze endpoint
+export function ownerHeaders(): Record<string, string> {
+  return { [OWNER_HEADER]: getOwnerId() }
+}
+
+export interface DeviceForm {
+  nickname: string
+  productModelId: string | null
+  modelNumber: string
+  serialNumber: string
+  purchaseDate: string
+  location: string
+  photos: string[]
+}
+
+const EMPTY_FORM: DeviceForm = {
+  nickname: "",
+  productModelId: null,
+  modelNumber: "",
+  serialNumber: "",
+  purchaseDate: "",
+  location: "",
+  photos: [],
+}
+
+function toForm(device: UserDevice): DeviceForm {
+  return {
+    nickname: device.nickname,
+    productModelId: device.product_model_id,
+    modelNumber: device.model_number || "",
+    serialNumber: device.serial_number || "",
+    purchaseDate: device.purchase_date || "",
+    location: device.location || "",
+    photos: device.photos || [],
+  }
+}
+
+// The caller's registered devices and the one the conversation is about (kept across reloads)
+export function useUserDevices() {
+  const [devices, setDevices] = useState<UserDevice[]>([])
+  const [selectedDeviceId, setSelectedDeviceIdState] = useState<string | null>(null)
+
+  const refresh = async () => {
+    try {
+      const response = await fetch("/api/devices", { headers: ownerHeaders() })
+      const result = await response.json()
+      if (result.success) {
+        setDevices(result.devices)
+        // Forget a selection whose device was deleted elsewhere
+        setSelectedDeviceIdState((current) =>
+          current && result.devices.some((device: UserDevice) => device.id === current) ? current : null,
+        )
+      }
+    } catch (error) {
+      console.error("Failed to fetch devices:", error)
+    }
+  }
+
+  useEffect(() => {
+    setSelectedDeviceIdState(localStorage.getItem(SELECTED_DEVICE_KEY))
+    refresh()
+  }, [])
+
+  const setSelectedDeviceId = (id: string | null) => {
+    setSelectedDeviceIdState(id)
+    if (id) {
+      localStorage.setItem(SELECTED_DEVICE_KEY, id)
+    } else {
+      localStorage.removeItem(SELECTED_DEVICE_KEY)
+    }
+  }
+
+  // Resolves to the saved device; throws with the server's message
+  const save = async (form: DeviceForm, id?: string): Promise<UserDevice> => {
+    const response = await fetch("/api/devices", {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...ownerHeaders() },
+      body: JSON.stringify({ id, ...form, purchaseDate: form.purchaseDate || null }),
+    })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+
+    await refresh()
+    return result.device
+  }
+
+  const remove = async (id: string) => {
+    const response = await fetch(`/api/devices?id=${id}`, { method: "DELETE", headers: ownerHeaders() })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+
+    if (selectedDeviceId === id) {
+      setSelectedDeviceId(null)
+    }
+    await refresh()
+  }
+
+  const loadIssues = async (deviceId: string): Promise<DeviceIssue[]> => {
+    const response = await fetch(`/api/devices/issues?deviceId=${deviceId}`, { headers: ownerHeaders() })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+    return result.issues
+  }
+
+  const resolveIssue = async (issueId: string, resolution: string | null): Promise<DeviceIssue> => {
+    const response = await fetch("/api/devices/issues", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json", ...ownerHeaders() },
+      body: JSON.stringify({ issueId, resolution }),
+    })
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error)
+    }
+    return result.issue
+  }
+
+  const selectedDevice = devices.find((device) => device.id === selectedDeviceId) || null
+
+  return {
+    devices,
+    selectedDeviceId: selectedDevice?.id || null,
+    selectedDevice,
+    setSelectedDeviceId,
+    refresh,
+    save,
+    remove,
+    loadIssues,
+    resolveIssue,
+  }
+}
+
+type UserDevicesState = ReturnType<typeof useUserDevices>
+
+interface DeviceRegistrySheetProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  registry: UserDevicesState
+  models: ProductModel[]
+}
+
+// Device list, add/edit form and the issue history of the device being viewed
+export function DeviceRegistrySheet({ open, onOpenChange, registry, models }: DeviceRegistrySheetProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<DeviceForm | null>(null)
+  const [historyDeviceId, setHistoryDeviceId] = useState<string | null>(null)
+  const [issues, setIssues] = useState<DeviceIssue[]>([])
+  const [resolutionDrafts, setResolutionDrafts] = useState<Record<string, string>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!historyDeviceId) {
+      setIssues([])
+      return
+    }
+
+    registry
+      .loadIssues(historyDeviceId)
+      .then(setIssues)
+      .catch((error) => setError(error instanceof Error ? error.message : "履歴の取得に失敗しました"))
+  }, [historyDeviceId])
+
+  const startEditing = (device: UserDevice | null) => {
+    setEditingId(device?.id || null)
+    setForm(device ? toForm(device) : EMPTY_FORM)
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    if (!form?.nickname.trim()) {
+      setError("名前を入力してください")
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const device = await registry.save(form, editingId || undefined)
+      if (!editingId) {
+        registry.setSelectedDeviceId(device.id)
+      }
+      setForm(null)
+      setEditingId(null)
+      setError(null)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "保存に失敗しました")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (device: UserDevice) => {
+    if (!confirm(`「${device.nickname}」と問題の履歴を削除しますか？`)) {
+      return
+    }
+
+    try {
+      await registry.remove(device.id)
+      if (historyDeviceId === device.id) {
+        setHistoryDeviceId(null)
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "削除に失敗しました")
+    }
+  }
+
+  const handlePhotos = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || [])
+    event.target.value = ""
+    if (!form) {
+      return
+    }
+
+    try {
+      const photos = await Promise.all(
+        files
+          .slice(0, MAX_DEVICE_PHOTOS - form.photos.length)
+          .map(async (file) => (await preprocessImage(file, { maxEdge: PHOTO_MAX_EDGE })).dataUrl),
+      )
+      setForm({ ...form, photos: [...form.photos, ...photos] })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "写真を読み込めませんでした")
+    }
+  }
+
+  const handleResolve = async (issue: DeviceIssue, resolution: string | null) => {
+    try {
+      const updated = await registry.resolveIssue(issue.id, resolution)
+      setIssues((current) => current.map((item) => (item.id === updated.id ? updated : item)))
+      setResolutionDrafts(({ [issue.id]: _, ...rest }) => rest)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "更新に失敗しました")
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-[320px] sm:w-[440px] overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>登録機器</SheetTitle>
+          <SheetDescription>選択した機器の情報と過去の問題が分析に使われます</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-3">
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {form ? (
+            <div className="space-y-3 border rounded-lg p-3">
+              <div>
+                <Label>名前</Label>
+                <Input
+                  value={form.nickname}
+                  placeholder="例: キッチンのコーヒーメーカー"
+                  onChange={(e) => setForm({ ...form, nickname: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>機種</Label>
+                <Select
+                  value={form.productModelId || NO_MODEL}
+                  onValueChange={(value) => setForm({ ...form, productModelId: value === NO_MODEL ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="機種を選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_MODEL}>一覧にない</SelectItem>
+                    {models.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.display_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>型番</Label>
+                  <Input value={form.modelNumber} onChange={(e) => setForm({ ...form, modelNumber: e.target.value })} />
+                </div>
+                <div>
+                  <Label>製造番号</Label>
+                  <Input
+                    value={form.serialNumber}
+                    onChange={(e) => setForm({ ...form, serialNumber: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>購入日</Label>
+                  <Input
+                    type="date"
+                    value={form.purchaseDate}
+                    onChange={(e) => setForm({ ...form, purchaseDate: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>設置場所</Label>
+                  <Input value={form.location} onChange={(e) => setForm({ ...form, location: e.target.value })} />
+                </div>
+              </div>
+              <div>
+                <Label>写真（{MAX_DEVICE_PHOTOS}枚まで）</Label>
+                <div className="flex flex-wrap gap-2 mt-1">
+                  {form.photos.map((photo, index) => (
+                    <div key={index} className="relative">
+                      <img src={photo} alt="" className="w-16 h-16 object-cover rounded border" />
+                      <button
+                        className="absolute -top-1 -right-1 bg-white rounded-full border"
+                        onClick={() => setForm({ ...form, photos: form.photos.filter((_, i) => i !== index) })}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {form.photos.length < MAX_DEVICE_PHOTOS && (
+                    <label className="w-16 h-16 flex items-center justify-center border border-dashed rounded cursor-pointer hover:bg-gray-50">
+                      <ImagePlus className="w-5 h-5 text-gray-400" />
+                      <input type="file" accept="image/*" multiple className="hidden" onChange={handlePhotos} />
+                    </label>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={handleSave} disabled={isSaving} className="flex-grow">
+                  {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  保存
+                </Button>
+                <Button variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                  キャンセル
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <Button className="w-full" onClick={() => startEditing(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              機器を登録
+            </Button>
+          )}
+
+          {registry.devices.length === 0 && !form && (
+            <p className="text-sm text-gray-500 text-center py-4">登録された機器はありません</p>
+          )}
+
+          {registry.devices.map((device) => (
+            <div
+              key={device.id}
+              className={`border rounded-lg p-3 ${
+                device.id === registry.selectedDeviceId ? "border-blue-300 bg-blue-50" : "hover:bg-gray-50"
+              }`}
+            >
+              <div className="flex items-start gap-2">
+                <button
+                  className="flex-grow text-left min-w-0"
+                  onClick={() =>
+                    registry.setSelectedDeviceId(device.id === registry.selectedDeviceId ? null : device.id)
+                  }
+                >
+                  <div className="font-medium text-sm truncate">{device.nickname}</div>
+                  <p className="text-xs text-gray-500 truncate mt-1">
+                    {[device.product_model?.display_name || device.model_number, device.location]
+                      .filter(Boolean)
+                      .join("・") || "機種未設定"}
+                  </p>
+                </button>
+                <Button variant="ghost" size="sm" onClick={() => startEditing(device)}>
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(device)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <Button
+                variant="link"
+                size="sm"
+                className="h-6 px-0 text-xs"
+                onClick={() => setHistoryDeviceId(historyDeviceId === device.id ? null : device.id)}
+              >
+                {historyDeviceId === device.id ? "履歴を閉じる" : "問題の履歴"}
+              </Button>
+
+              {historyDeviceId === device.id && (
+                <div className="space-y-2 mt-1">
+                  {issues.length === 0 && <p className="text-xs text-gray-500">記録された問題はありません</p>}
+                  {issues.map((issue) => (
+                    <div key={issue.id} className="text-xs border-t pt-2">
+                      <div className="flex items-center gap-1">
+                        <span className="text-gray-400">{new Date(issue.created_at).toLocaleDateString()}</span>
+                        {issue.error_codes.map((code) => (
+                          <Badge key={code} variant="outline" className="text-xs">
+                            {code}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="mt-1">{issue.issue}</p>
+                      {issue.document_title && <p className="text-gray-500">参照: {issue.document_title}</p>}
+                      {issue.resolution ? (
+                        <div className="flex items-center gap-1 mt-1 text-green-700">
+                          <CheckCircle className="w-3 h-3" />
+                          <span className="flex-grow">{issue.resolution}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-6 px-1"
+                            title="未解決に戻す"
+                            onClick={() => handleResolve(issue, null)}
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-1 mt-1">
+                          <Input
+                            className="h-7 text-xs"
+                            placeholder="解決した方法"
+                            value={resolutionDrafts[issue.id] || ""}
+                            onChange={(e) => setResolutionDrafts({ ...resolutionDrafts, [issue.id]: e.target.value })}
+                          />
+                          <Button
+                            size="sm"
+                            className="h-7 text-xs"
+                            disabled={!resolutionDrafts[issue.id]?.trim()}
+                            onClick={() => handleResolve(issue, resolutionDrafts[issue.id])}
+                          >
+                            解決済み
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,41 @@
+"use client"
+
+import type { IndicatorBox } from "@/lib/rag"
+import { useMediaBox } from "@/components/region-selector"
+
+interface IndicatorOverlayProps {
+  boxes: IndicatorBox[]
+  // Intrinsic size of the image or video under the overlay; null when the overlay matches the media exactly
+  mediaSize: { width: number; height: number } | null
+  // object-fit of that image or video
+  fit?: "cover" | "contain"
+}
+
+// Labeled boxes over an image or video in a relative container, e.g. where the lights the answer
+// talks about are. Boxes are fractions (0-1) of the media, as returned by the analyze APIs.
+export function IndicatorOverlay({ boxes, mediaSize, fit = "contain" }: IndicatorOverlayProps) {
+  const { overlayRef, box } = useMediaBox(mediaSize, fit)
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+      {boxes.map((indicator, index) => (
+        <div
+          key={`${indicator.label}-${index}`}
+          className="absolute border-2 border-red-500 rounded-sm"
+          style={{
+            left: box.left + indicator.x * box.width,
+            top: box.top + indicator.y * box.height,
+            width: indicator.width * box.width,
+            height: indicator.height * box.height,
+          }}
+        >
+          <span
+            className={`absolute left-0 ${indicator.y < 0.1 ? "top-full mt-0.5" : "bottom-full mb-0.5"} max-w-[12rem] truncate rounded bg-red-500 px-1 text-[10px] leading-4 text-white`}
+          >
+            {index + 1}. {indicator.label}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,492 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { AlertCircle, CheckCircle, ExternalLink, FileUp, Loader2, RotateCcw, X } from "lucide-react"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import type {
+  ManualEntryProposal,
+  ManualPage,
+  ManualSource,
+  ProposalChanges,
+  SeverityLevel,
+} from "@/lib/manual-ingestion"
+
+// lib/manual-ingestion.ts is server-only (it imports sharp and the admin client), so its limits are
+// repeated here; the API enforces them again
+const MAX_MANUAL_BYTES = 14 * 1024 * 1024
+const SEVERITY_LEVELS: SeverityLevel[] = ["critical", "high", "medium", "low"]
+
+const POLL_INTERVAL_MS = 3000
+
+const STATUS_LABELS: Record<ManualSource["status"], string> = {
+  pending: "Queued",
+  processing: "Processing",
+  ready: "Ready for review",
+  failed: "Failed",
+}
+
+interface ManualDetail {
+  source: ManualSource
+  pages: ManualPage[]
+  proposals: ManualEntryProposal[]
+  progress: number
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^;]+;base64,/, ""))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+function splitList(value: string, separator: RegExp): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean)
+}
+
+function ProposalCard({
+  proposal,
+  source,
+  pages,
+  onReviewed,
+}: {
+  proposal: ManualEntryProposal
+  source: ManualSource
+  pages: ManualPage[]
+  onReviewed: (proposal: ManualEntryProposal) => void
+}) {
+  const [title, setTitle] = useState(proposal.title)
+  const [iconName, setIconName] = useState(proposal.icon_name)
+  const [iconDescription, setIconDescription] = useState(proposal.icon_description)
+  const [steps, setSteps] = useState(proposal.steps.join("\n"))
+  const [severity, setSeverity] = useState<SeverityLevel>(proposal.severity_level)
+  const [tags, setTags] = useState(proposal.tags.join(", "))
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const reviewed = proposal.status !== "pending"
+  const proposalPages = pages.filter((page) => proposal.pages.includes(page.page_number))
+
+  const review = async (action: "approve" | "reject") => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      const changes: ProposalChanges = {
+        title,
+        iconName,
+        iconDescription,
+        steps: splitList(steps, /\n/),
+        severity,
+        tags: splitList(tags, /[,、]/),
+      }
+      const response = await fetch(`/api/manual-ingestion/proposals/${proposal.id}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(action === "approve" ? { action, changes } : { action }),
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || "Review failed")
+      }
+      onReviewed(result.proposal)
+    } catch (reviewError) {
+      setError(reviewError instanceof Error ? reviewError.message : "Review failed")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card className={proposal.status === "approved" ? "border-green-200" : reviewed ? "opacity-60" : ""}>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">{proposal.title}</CardTitle>
+          <div className="flex items-center gap-1 flex-wrap justify-end">
+            {proposal.pages.map((page) => {
+              const printed = pages.find((p) => p.page_number === page)?.printed_page
+              return (
+                <a
+                  key={page}
+                  href={`/api/manual-ingestion/${source.id}/file#page=${page}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+                >
+                  p.{page}
+                  {printed && printed !== String(page) ? ` (${printed})` : ""}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )
+            })}
+            <Badge variant={proposal.status === "approved" ? "default" : "outline"}>{proposal.status}</Badge>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {proposalPages.some((page) => page.has_image) && (
+          <div className="flex gap-2 overflow-x-auto">
+            {proposalPages
+              .filter((page) => page.has_image)
+              .map((page) => (
+                <img
+                  key={page.page_number}
+                  src={`/api/manual-ingestion/${source.id}/pages/${page.page_number}`}
+                  alt={`Page ${page.page_number}`}
+                  className="h-40 border rounded"
+                />
+              ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Title</Label>
+            <Input value={title} onChange={(e) => setTitle(e.target.value)} disabled={reviewed} />
+          </div>
+          <div className="space-y-1">
+            <Label>Icon Name</Label>
+            <Input value={iconName} onChange={(e) => setIconName(e.target.value)} disabled={reviewed} />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Description</Label>
+          <Textarea
+            value={iconDescription}
+            onChange={(e) => setIconDescription(e.target.value)}
+            rows={2}
+            disabled={reviewed}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Steps (one per line)</Label>
+          <Textarea value={steps} onChange={(e) => setSteps(e.target.value)} rows={4} disabled={reviewed} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label>Severity</Label>
+            <Select value={severity} onValueChange={(value) => setSeverity(value as SeverityLevel)} disabled={reviewed}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SEVERITY_LEVELS.map((level) => (
+                  <SelectItem key={level} value={level}>
+                    {level}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Tags (comma separated)</Label>
+            <Input value={tags} onChange={(e) => setTags(e.target.value)} disabled={reviewed} />
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {proposal.status !== "approved" && (
+          <div className="flex justify-end gap-2">
+            {proposal.status === "pending" && (
+              <Button variant="outline" size="sm" onClick={() => review("reject")} disabled={isSaving}>
+                <X className="w-4 h-4 mr-2" />
+                Reject
+              </Button>
+            )}
+            <Button size="sm" onClick={() => review("approve")} disabled={isSaving || !title.trim()}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <CheckCircle className="w-4 h-4 mr-2" />}
+              {proposal.status === "rejected" ? "Approve Anyway" : "Approve"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+// Upload a manual PDF and review the entries proposed from its troubleshooting tables
+export function ManualIngestionPanel({ categories }: { categories: { value: string; label: string }[] }) {
+  const [sources, setSources] = useState<ManualSource[]>([])
+  const [pageImages, setPageImages] = useState(true)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detail, setDetail] = useState<ManualDetail | null>(null)
+  const [category, setCategory] = useState("general")
+  const [modelNumbers, setModelNumbers] = useState("")
+  const [showReviewed, setShowReviewed] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadSources = async () => {
+    try {
+      const response = await fetch("/api/manual-ingestion")
+      const result = await response.json()
+      if (result.success) {
+        setSources(result.sources)
+        setPageImages(result.pageImages)
+      }
+    } catch (loadError) {
+      console.error("Failed to fetch manuals:", loadError)
+    }
+  }
+
+  const loadDetail = async (id: string) => {
+    try {
+      const response = await fetch(`/api/manual-ingestion/${id}`)
+      const result = await response.json()
+      if (result.success) {
+        setDetail(result)
+      }
+    } catch (loadError) {
+      console.error("Failed to fetch manual:", loadError)
+    }
+  }
+
+  useEffect(() => {
+    loadSources()
+  }, [])
+
+  useEffect(() => {
+    setDetail(null)
+    if (selectedId) {
+      loadDetail(selectedId)
+    }
+  }, [selectedId])
+
+  // Proposals appear batch by batch while the manual is processed
+  const isProcessing = detail?.source.status === "pending" || detail?.source.status === "processing"
+  useEffect(() => {
+    if (!selectedId || !isProcessing) return
+
+    const timer = setInterval(() => {
+      loadDetail(selectedId)
+      loadSources()
+    }, POLL_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [selectedId, isProcessing])
+
+  const uploadManual = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    if (file.type !== "application/pdf") {
+      setError("Please choose a PDF file")
+      return
+    }
+    if (file.size > MAX_MANUAL_BYTES) {
+      setError(`The PDF is larger than ${MAX_MANUAL_BYTES / 1024 / 1024}MB`)
+      return
+    }
+
+    setIsUploading(true)
+    setError(null)
+    try {
+      const response = await fetch("/api/manual-ingestion", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          fileName: file.name,
+          data: await readAsBase64(file),
+          category,
+          modelNumbers: splitList(modelNumbers, /[,、\s]+/),
+        }),
+      })
+      const result = await response.json()
+      if (!result.success) {
+        throw new Error(result.error || "Upload failed")
+      }
+      await loadSources()
+      setSelectedId(result.source.id)
+    } catch (uploadError) {
+      setError(uploadError instanceof Error ? uploadError.message : "Upload failed")
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  const retry = async (id: string) => {
+    const response = await fetch(`/api/manual-ingestion/${id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "retry" }),
+    })
+    const result = await response.json()
+    if (!result.success) {
+      setError(result.error || "Retry failed")
+      return
+    }
+    await Promise.all([loadSources(), loadDetail(id)])
+  }
+
+  const updateProposal = (proposal: ManualEntryProposal) => {
+    setDetail((current) =>
+      current
+        ? { ...current, proposals: current.proposals.map((p) => (p.id === proposal.id ? proposal : p)) }
+        : current,
+    )
+  }
+
+  const proposals = (detail?.proposals || []).filter((proposal) => showReviewed || proposal.status === "pending")
+  const pendingCount = detail?.proposals.filter((proposal) => proposal.status === "pending").length || 0
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Import a Manual</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a product manual PDF. Each row of its troubleshooting tables is proposed as an entry; approved
+            entries keep the file name and page numbers they came from.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-1">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={setCategory}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="general">General</SelectItem>
+                  {categories
+                    .filter((item) => item.value !== "general")
+                    .map((item) => (
+                      <SelectItem key={item.value} value={item.value}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Model Numbers (optional)</Label>
+              <Input value={modelNumbers} onChange={(e) => setModelNumbers(e.target.value)} placeholder="CM-200, CM-200W" />
+            </div>
+            <label className="cursor-pointer">
+              <Button className="w-full" disabled={isUploading} asChild>
+                <span>
+                  {isUploading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <FileUp className="w-4 h-4 mr-2" />}
+                  Upload PDF
+                </span>
+              </Button>
+              <input
+                type="file"
+                accept="application/pdf"
+                onChange={uploadManual}
+                className="hidden"
+                disabled={isUploading}
+              />
+            </label>
+          </div>
+          {!pageImages && (
+            <p className="text-xs text-gray-500">
+              Page images are not available on this server (sharp was built without PDF support); open the page links
+              to see the source pages.
+            </p>
+          )}
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {sources.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {sources.map((source) => (
+            <Card
+              key={source.id}
+              className={`cursor-pointer ${source.id === selectedId ? "border-blue-400" : ""}`}
+              onClick={() => setSelectedId(source.id)}
+            >
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium truncate">{source.file_name}</p>
+                  <Badge variant={source.status === "failed" ? "destructive" : "secondary"}>
+                    {STATUS_LABELS[source.status]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {source.category} · {source.processed_pages}/{source.page_count ?? "?"} pages
+                  {source.model_numbers.length > 0 && ` · ${source.model_numbers.join(", ")}`}
+                </p>
+                {source.status === "failed" && (
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-xs text-red-600 truncate">{source.last_error}</p>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        retry(source.id)
+                      }}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Retry
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {selectedId && !detail && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+        </div>
+      )}
+
+      {detail && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-bold">{detail.source.file_name}</h2>
+              <p className="text-sm text-gray-600">
+                {pendingCount} of {detail.proposals.length} proposals waiting for review
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowReviewed((value) => !value)}>
+              {showReviewed ? "Hide Reviewed" : "Show Reviewed"}
+            </Button>
+          </div>
+          {isProcessing && <Progress value={detail.progress * 100} />}
+          {proposals.map((proposal) => (
+            <ProposalCard
+              key={proposal.id}
+              proposal={proposal}
+              source={detail.source}
+              pages={detail.pages}
+              onReviewed={updateProposal}
+            />
+          ))}
+          {proposals.length === 0 && !isProcessing && (
+            <p className="text-sm text-gray-500 text-center py-6">No proposals to review</p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
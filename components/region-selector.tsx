@@ -0,0 +1,125 @@
+"use client"
+
+import { useEffect, useRef, useState, type PointerEvent } from "react"
+import type { RegionOfInterest } from "@/lib/image-preprocessing"
+
+interface RegionSelectorProps {
+  // Dragging selects a new region; when false the overlay only shows the current one
+  active: boolean
+  region: RegionOfInterest | null
+  onChange: (region: RegionOfInterest | null) => void
+  // Intrinsic size of the image or video under the overlay
+  mediaSize: { width: number; height: number } | null
+  // object-fit of that image or video
+  fit?: "cover" | "contain"
+}
+
+// Selections smaller than this fraction of either side are treated as a tap and clear the region
+const MIN_REGION_SIZE = 0.03
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1)
+
+// Tracks an overlay element's size and where the media under it is drawn, given object-fit.
+// Also used by IndicatorOverlay.
+export function useMediaBox(mediaSize: { width: number; height: number } | null, fit: "cover" | "contain") {
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const [overlaySize, setOverlaySize] = useState({ width: 0, height: 0 })
+
+  useEffect(() => {
+    const overlay = overlayRef.current
+    if (!overlay) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setOverlaySize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(overlay)
+    return () => observer.disconnect()
+  }, [])
+
+  let box = { left: 0, top: 0, width: overlaySize.width, height: overlaySize.height }
+  if (mediaSize && mediaSize.width > 0 && mediaSize.height > 0) {
+    const scale = (fit === "cover" ? Math.max : Math.min)(
+      overlaySize.width / mediaSize.width,
+      overlaySize.height / mediaSize.height,
+    )
+    const width = mediaSize.width * scale
+    const height = mediaSize.height * scale
+    box = { left: (overlaySize.width - width) / 2, top: (overlaySize.height - height) / 2, width, height }
+  }
+
+  return { overlayRef, box }
+}
+
+// Overlay for a relative container holding an image or video: drag to select a region, reported
+// in fractions of the media itself so it can be cropped from the full-resolution source.
+export function RegionSelector({ active, region, onChange, mediaSize, fit = "contain" }: RegionSelectorProps) {
+  const { overlayRef, box } = useMediaBox(mediaSize, fit)
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null)
+  const [draft, setDraft] = useState<RegionOfInterest | null>(null)
+
+  const toMediaPoint = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    return {
+      x: clamp((event.clientX - bounds.left - box.left) / box.width),
+      y: clamp((event.clientY - bounds.top - box.top) / box.height),
+    }
+  }
+
+  const toRegion = (start: { x: number; y: number }, end: { x: number; y: number }): RegionOfInterest => ({
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x),
+    height: Math.abs(end.y - start.y),
+  })
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (!active) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const point = toMediaPoint(event)
+    setDragStart(point)
+    setDraft(toRegion(point, point))
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return
+    setDraft(toRegion(dragStart, toMediaPoint(event)))
+  }
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return
+    const selected = toRegion(dragStart, toMediaPoint(event))
+    setDragStart(null)
+    setDraft(null)
+    onChange(selected.width < MIN_REGION_SIZE || selected.height < MIN_REGION_SIZE ? null : selected)
+  }
+
+  const shown = draft || region
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 overflow-hidden ${active ? "cursor-crosshair touch-none" : "pointer-events-none"}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => {
+        setDragStart(null)
+        setDraft(null)
+      }}
+    >
+      {shown && (
+        <div
+          className="absolute border-2 border-yellow-400 rounded-sm"
+          style={{
+            left: box.left + shown.x * box.width,
+            top: box.top + shown.y * box.height,
+            width: shown.width * box.width,
+            height: shown.height * box.height,
+            // Dims everything outside the selection
+            boxShadow: "0 0 0 9999px rgba(0, 0, 0, 0.45)",
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+// Answer feedback: thumbs up/down and "fixed it / didn't fix it" on chat answers, aggregated per
+// knowledge base document (scripts/create-answer-feedback.sql).
+//
+// The answerLogger (lib/rag/log.ts) records which documents each answer was given; feedback refers to
+// the answer, so the documents it counts for are never taken from the client. The applyAnswerFeedback
+// rerank stage moves documents up or down by their score, and documents that keep failing are flagged
+// for review in the knowledge base settings. Answers are recorded under the caller's owner id, and
+// feedback is only read and written by that owner.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export type AnswerRating = 1 | -1
+
+export interface AnswerFeedback {
+  answer_id: string
+  session_id: string
+  rating: AnswerRating | null
+  resolved: boolean | null
+  created_at?: string
+  updated_at?: string
+}
+
+// One row of document_feedback_stats
+export interface DocumentFeedbackStats {
+  document_id: string
+  answers: number
+  resolved: number
+  unresolved: number
+  // Ratings of answers without a reported outcome
+  helpful: number
+  unhelpful: number
+  resolution_rate: number | null
+  last_feedback_at: string | null
+}
+
+export interface DocumentNeedingReview extends DocumentFeedbackStats {
+  title: string | null
+  category: string | null
+  score: number
+}
+
+// A thumbs up or down says less than a reported outcome
+const RATING_WEIGHT = 0.5
+
+// Every document starts from PRIOR_SCORE as if it had PRIOR_WEIGHT outcomes, so a single report
+// does not swing it to either end
+const PRIOR_SCORE = 0.5
+const PRIOR_WEIGHT = 4
+
+// Flagged once it has at least this much feedback (outcomes, ratings at RATING_WEIGHT) and scores below
+export const REVIEW_MIN_EVIDENCE = 3
+export const REVIEW_MAX_SCORE = 0.4
+
+function evidence(stats: DocumentFeedbackStats): number {
+  return stats.resolved + stats.unresolved + RATING_WEIGHT * (stats.helpful + stats.unhelpful)
+}
+
+// How often the document's answers helped, 0..1, pulled towards PRIOR_SCORE while there is little feedback
+export function feedbackScore(stats: DocumentFeedbackStats): number {
+  const successes = stats.resolved + RATING_WEIGHT * stats.helpful
+  return (successes + PRIOR_SCORE * PRIOR_WEIGHT) / (evidence(stats) + PRIOR_WEIGHT)
+}
+
+// -weight..+weight, 0 for a document without feedback
+export function feedbackAdjustment(stats: DocumentFeedbackStats | undefined, weight: number): number {
+  return stats ? weight * 2 * (feedbackScore(stats) - PRIOR_SCORE) : 0
+}
+
+export function needsReview(stats: DocumentFeedbackStats): boolean {
+  return evidence(stats) >= REVIEW_MIN_EVIDENCE && feedbackScore(stats) < REVIEW_MAX_SCORE
+}
+
+// Records the documents behind an answer; called once per completed analysis
+export async function recordAnswer(
+  entry: {
+    answerId: string
+    sessionId: string
+    ownerId: string | null
+    pipeline: string
+    documentIds: string[]
+    citedDocumentIds: string[]
+  },
+  db: SupabaseClient = supabaseAdmin,
+): Promise<void> {
+  const { error } = await db.from("rag_answers").insert({
+    id: entry.answerId,
+    session_id: entry.sessionId,
+    owner_id: entry.ownerId,
+    pipeline: entry.pipeline,
+    document_ids: entry.documentIds,
+    cited_document_ids: entry.citedDocumentIds,
+  })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Saves the rating and/or outcome of the owner's answer from the given session. Fields left undefined
+// keep their stored value; null clears them.
+export async function saveAnswerFeedback(
+  answerId: string,
+  sessionId: string,
+  ownerId: string,
+  feedback: { rating?: AnswerRating | null; resolved?: boolean | null },
+  db: SupabaseClient = supabaseAdmin,
+): Promise<AnswerFeedback> {
+  const { data: answer, error: lookupError } = await db
+    .from("rag_answers")
+    .select("id")
+    .eq("id", answerId)
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+    .maybeSingle()
+
+  if (lookupError) {
+    throw new Error(lookupError.message)
+  }
+  if (!answer) {
+    throw new Error("Answer not found")
+  }
+
+  const { data, error } = await db
+    .from("answer_feedback")
+    .upsert(
+      {
+        answer_id: answerId,
+        session_id: sessionId,
+        ...(feedback.rating !== undefined ? { rating: feedback.rating } : {}),
+        ...(feedback.resolved !== undefined ? { resolved: feedback.resolved } : {}),
+      },
+      { onConflict: "answer_id" },
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
+
+// Feedback on the owner's answers in a session, keyed by answer id, so a resumed conversation shows
+// it again
+export async function listSessionFeedback(
+  sessionId: string,
+  ownerId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<Record<string, AnswerFeedback>> {
+  const { data: answers, error: answersError } = await db
+    .from("rag_answers")
+    .select("id")
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+
+  if (answersError) {
+    throw new Error(answersError.message)
+  }
+  if (!answers || answers.length === 0) {
+    return {}
+  }
+
+  const { data, error } = await db
+    .from("answer_feedback")
+    .select("*")
+    .in(
+      "answer_id",
+      answers.map((answer) => answer.id),
+    )
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return Object.fromEntries((data || []).map((row) => [row.answer_id, row]))
+}
+
+export async function getDocumentFeedback(
+  documentIds: string[],
+  db: SupabaseClient = supabaseAdmin,
+): Promise<Map<string, DocumentFeedbackStats>> {
+  if (documentIds.length === 0) {
+    return new Map()
+  }
+
+  const { data, error } = await db.from("document_feedback_stats").select("*").in("document_id", documentIds)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return new Map((data || []).map((row) => [row.document_id, row]))
+}
+
+// Active documents whose answers keep failing, lowest score first
+export async function listDocumentsNeedingReview(db: SupabaseClient = supabaseAdmin): Promise<DocumentNeedingReview[]> {
+  const { data, error } = await db.from("document_feedback_stats").select("*")
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const flagged = ((data || []) as DocumentFeedbackStats[]).filter(needsReview)
+  if (flagged.length === 0) {
+    return []
+  }
+
+  const { data: documents, error: documentsError } = await db
+    .from("rag_documents")
+    .select("id, title, category")
+    .eq("is_active", true)
+    .in(
+      "id",
+      flagged.map((stats) => stats.document_id),
+    )
+
+  if (documentsError) {
+    throw new Error(documentsError.message)
+  }
+
+  const byId = new Map((documents || []).map((doc) => [doc.id, doc]))
+  return flagged
+    .filter((stats) => byId.has(stats.document_id))
+    .map((stats) => ({
+      ...stats,
+      title: byId.get(stats.document_id)!.title,
+      category: byId.get(stats.document_id)!.category,
+      score: feedbackScore(stats),
+    }))
+    .sort((a, b) => a.score - b.score)
+}
@@ -0,0 +1,198 @@
+// Chat sessions: one row per conversation in chat_sessions, messages appended by the server.
+//
+// The server owns the history: analyze and chat routes load the recent turns themselves from the
+// session id, so clients only send the new message (scripts/add-chat-session-lifecycle.sql).
+//
+// A session belongs to the owner that started it (resolveOwnerId in lib/user-devices.ts). Every read
+// and write takes the caller's owner id and only ever sees that owner's sessions.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { LLMMessage } from "@/lib/llm"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export interface StoredChatMessage {
+  role: "user" | "model" | "system"
+  content: string
+  timestamp: string
+  imageData?: string
+  metadata?: Record<string, any>
+}
+
+export interface ChatSession {
+  session_id: string
+  title: string | null
+  messages: StoredChatMessage[]
+  created_at: string
+  updated_at: string
+}
+
+export interface ChatSessionSummary {
+  session_id: string
+  title: string | null
+  message_count: number
+  last_message: string
+  created_at: string
+  updated_at: string
+}
+
+// Turns of history sent to the model with each new message
+export const DEFAULT_HISTORY_TURNS = 10
+
+const TITLE_LENGTH = 40
+
+// Older rows store { role, parts } (Gemini format) instead of { role, content }
+function normalizeMessage(message: any): StoredChatMessage {
+  const content =
+    typeof message.content === "string"
+      ? message.content
+      : Array.isArray(message.parts)
+        ? message.parts.map((part: any) => part?.text || "").join("\n")
+        : ""
+
+  return {
+    role: message.role === "user" ? "user" : message.role === "system" ? "system" : "model",
+    content,
+    timestamp: message.timestamp || new Date(0).toISOString(),
+    imageData: message.imageData,
+    metadata: message.metadata,
+  }
+}
+
+export function titleFromMessage(content: string): string {
+  const title = content.replace(/\s+/g, " ").trim()
+  return title.length > TITLE_LENGTH ? `${title.slice(0, TITLE_LENGTH)}…` : title
+}
+
+export async function listChatSessions(
+  ownerId: string,
+  limit = 50,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ChatSessionSummary[]> {
+  const { data, error } = await db
+    .from("chat_session_summaries")
+    .select("session_id, title, message_count, last_message, created_at, updated_at")
+    .eq("owner_id", ownerId)
+    .order("updated_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load chat sessions: ${error.message}`)
+  }
+
+  return (data || []) as ChatSessionSummary[]
+}
+
+// Returns null for unknown ids, and for other owners' sessions, so a new conversation can start
+// under a client-generated id
+export async function getChatSession(
+  sessionId: string,
+  ownerId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ChatSession | null> {
+  const { data, error } = await db
+    .from("chat_sessions")
+    .select("session_id, title, messages, created_at, updated_at")
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load chat session ${sessionId}: ${error.message}`)
+  }
+  if (!data) {
+    return null
+  }
+
+  return { ...data, messages: (data.messages || []).map(normalizeMessage) } as ChatSession
+}
+
+// Recent text-only turns in the format LLMProvider.chat expects; images are not resent. Callers
+// without an owner id have no stored history.
+export async function loadChatHistory(
+  sessionId: string | undefined,
+  ownerId: string | null,
+  turns = DEFAULT_HISTORY_TURNS,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<LLMMessage[]> {
+  if (!sessionId || !ownerId) {
+    return []
+  }
+
+  try {
+    const session = await getChatSession(sessionId, ownerId, db)
+    return (session?.messages || [])
+      .filter((message) => message.role !== "system" && message.content)
+      .slice(-turns)
+      .map((message) => ({
+        role: message.role === "user" ? "user" : "model",
+        parts: [{ text: message.content }],
+      }))
+  } catch (error) {
+    console.warn("Failed to load chat history, continuing without it:", error)
+    return []
+  }
+}
+
+// The first user message becomes the title of a new session, and ownerId its owner. Fails when the
+// session belongs to another owner.
+export async function appendChatMessages(
+  sessionId: string,
+  messages: Omit<StoredChatMessage, "timestamp">[],
+  ownerId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<void> {
+  const timestamp = new Date().toISOString()
+  const firstUserMessage = messages.find((message) => message.role === "user" && message.content)
+
+  const { error } = await db.rpc("append_chat_messages", {
+    p_session_id: sessionId,
+    p_messages: messages.map((message) => ({ ...message, timestamp })),
+    p_title: firstUserMessage ? titleFromMessage(firstUserMessage.content) : null,
+    p_owner_id: ownerId,
+  })
+
+  if (error) {
+    throw new Error(`Failed to append to chat session ${sessionId}: ${error.message}`)
+  }
+}
+
+export async function renameChatSession(
+  sessionId: string,
+  ownerId: string,
+  title: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<void> {
+  const { data, error } = await db
+    .from("chat_sessions")
+    .update({ title: title.trim() || null })
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+    .select("session_id")
+
+  if (error) {
+    throw new Error(`Failed to rename chat session ${sessionId}: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new Error("Chat session not found")
+  }
+}
+
+export async function deleteChatSession(
+  sessionId: string,
+  ownerId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<void> {
+  const { data, error } = await db
+    .from("chat_sessions")
+    .delete()
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+    .select("session_id")
+
+  if (error) {
+    throw new Error(`Failed to delete chat session ${sessionId}: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new Error("Chat session not found")
+  }
+}
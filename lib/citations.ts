@@ -0,0 +1,82 @@
+// Numbered citations in generated answers.
+//
+// The generate prompts number the knowledge base documents and ask the model to mark statements with
+// the number of the document behind them ("[1]", "[1][2]"). The citeDocuments stage (lib/rag/generate.ts)
+// turns the markers into Citations returned next to the answer; the chat renders each marker as a chip
+// that opens the document, and the manual page when the document was imported from one
+// (lib/manual-ingestion.ts). Kept free of server imports so pages can use the parser.
+
+// The manual an entry was imported from
+export interface CitationSource {
+  // manual_sources id
+  fileId: string
+  fileName: string | null
+  // PDF pages, and the page numbers printed on them where known (same order)
+  pages: number[]
+  printedPages: (string | null)[]
+}
+
+export interface Citation {
+  // The number used in the answer
+  index: number
+  documentId: string
+  title: string
+  source: CitationSource | null
+}
+
+export type CitedSegment = { text: string } | { citations: number[] }
+
+// "[1]", "[1, 2]", "[1、2]" and the full-width "［1］" models write in Japanese text
+const CITATION_PATTERN = /[[［]\s*(\d{1,2}(?:\s*[,、，]\s*\d{1,2})*)\s*[\]］]/g
+
+function markerNumbers(marker: string): number[] {
+  return (marker.match(/\d+/g) || []).map(Number)
+}
+
+// Cited numbers in order of first appearance
+export function citedNumbers(text: string): number[] {
+  const numbers = new Set<number>()
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    markerNumbers(match[1]).forEach((number) => numbers.add(number))
+  }
+  return [...numbers]
+}
+
+// Drops the numbers valid() rejects from each marker, and markers left empty
+export function removeInvalidCitations(text: string, valid: (index: number) => boolean): string {
+  return text.replace(CITATION_PATTERN, (marker, numbers: string) => {
+    const kept = markerNumbers(numbers).filter(valid)
+    if (kept.length === markerNumbers(numbers).length) {
+      return marker
+    }
+    return kept.length > 0 ? `[${kept.join("][")}]` : ""
+  })
+}
+
+// Text and markers in order, for rendering markers as chips
+export function splitCitations(text: string): CitedSegment[] {
+  const segments: CitedSegment[] = []
+  let position = 0
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    if (match.index! > position) {
+      segments.push({ text: text.slice(position, match.index) })
+    }
+    segments.push({ citations: markerNumbers(match[1]) })
+    position = match.index! + match[0].length
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position) })
+  }
+  return segments
+}
+
+// "manual.pdf 23ページ", with the printed page numbers where known
+export function describeCitationSource(source: CitationSource): string {
+  const pages = [...new Set(source.pages.map((page, i) => source.printedPages[i] || String(page)))]
+  return `${source.fileName || "取扱説明書"}${pages.length > 0 ? ` ${pages.join("・")}ページ` : ""}`
+}
+
+// The stored PDF opened at the first cited page
+export function citationSourceUrl(source: CitationSource): string {
+  return `/api/manual-ingestion/${source.fileId}/file${source.pages.length > 0 ? `#page=${source.pages[0]}` : ""}`
+}
@@ -0,0 +1,195 @@
+// Device identification: read the brand, model number and serial number off the rating label or
+// front panel, and match the model number against the product_models catalog.
+//
+// A matched model gives the product type, so pages no longer need the user to pick it, and scopes
+// retrieval to documents for that model (rag_documents.model_numbers). Model numbers are compared in
+// normalized form like error codes; a label that carries a colour or region suffix ("CM-200W") still
+// matches the catalog entry it starts with ("CM200").
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { z } from "zod"
+import { getGenerationConfig, getLLMProvider, type ImageInput, type JSONSchema, type LLMProvider } from "@/lib/llm"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export interface ProductModel {
+  id: string
+  brand: string
+  model_number: string
+  display_name: string
+  product_type: string
+  aliases: string[]
+  is_active: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+// What could be read from the image; null when not visible
+export interface DeviceLabel {
+  brand: string | null
+  modelNumber: string | null
+  serialNumber: string | null
+}
+
+export interface DeviceIdentification {
+  label: DeviceLabel
+  model: ProductModel | null
+  // How the model was found: "selected" when the user picked it, "registered" when it came from the
+  // user's device registry (lib/user-devices.ts), null when nothing matched
+  match: "exact" | "prefix" | "selected" | "registered" | null
+}
+
+// Shorter catalog numbers match too many labels by prefix
+const MIN_PREFIX_LENGTH = 4
+
+const deviceLabelSchema = z.object({
+  brand: z.string().nullable().optional(),
+  modelNumber: z.string().nullable().optional(),
+  serialNumber: z.string().nullable().optional(),
+})
+
+const DEVICE_LABEL_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    brand: { type: "string" },
+    modelNumber: { type: "string" },
+    serialNumber: { type: "string" },
+  },
+}
+
+const DEVICE_LABEL_PROMPT = `画像に写っている機器の銘板（定格ラベル）、本体の型番表示、ロゴを読み取ってください。
+
+- brand: メーカー名またはブランド名
+- modelNumber: 型番・品番（例: CM-200）。「型番」「品番」「MODEL」「TYPE」などの表示の後に書かれていることが多いです
+- serialNumber: 製造番号・シリアル番号（「製造番号」「S/N」「SERIAL」などの表示の後）
+
+読み取れない項目は推測せず、省略してください。`
+
+export function normalizeModelNumber(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toUpperCase()
+    .replace(/[\s\-_./]/g, "")
+}
+
+function toLabelValue(value: string | null | undefined): string | null {
+  const trimmed = value?.trim()
+  return trimmed ? trimmed : null
+}
+
+// Asks the model for the label text in JSON mode; throws when the answer cannot be parsed
+export async function readDeviceLabel(image: ImageInput, llm: LLMProvider = getLLMProvider()): Promise<DeviceLabel> {
+  const text = await llm.vision(DEVICE_LABEL_PROMPT, image, {
+    ...getGenerationConfig("device-identification", "read"),
+    responseSchema: DEVICE_LABEL_JSON_SCHEMA,
+  })
+
+  let label: z.infer<typeof deviceLabelSchema>
+  try {
+    label = deviceLabelSchema.parse(JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] || text))
+  } catch (error) {
+    throw new Error(`Failed to parse device label: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return {
+    brand: toLabelValue(label.brand),
+    modelNumber: toLabelValue(label.modelNumber),
+    serialNumber: toLabelValue(label.serialNumber),
+  }
+}
+
+export async function listProductModels(
+  productType?: string | null,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ProductModel[]> {
+  let query = db.from("product_models").select("*").eq("is_active", true).order("brand").order("model_number")
+  if (productType) {
+    query = query.eq("product_type", productType)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data || []
+}
+
+export async function getProductModel(id: string, db: SupabaseClient = supabaseAdmin): Promise<ProductModel | null> {
+  const { data, error } = await db.from("product_models").select("*").eq("id", id).eq("is_active", true).maybeSingle()
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
+
+// Exact model number or alias first, then the longest catalog number the label starts with.
+// When both sides name a brand, a prefix match must agree on it.
+export async function matchProductModel(
+  label: Pick<DeviceLabel, "brand" | "modelNumber">,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<Pick<DeviceIdentification, "model" | "match">> {
+  const modelNumber = label.modelNumber ? normalizeModelNumber(label.modelNumber) : ""
+  if (!modelNumber) {
+    return { model: null, match: null }
+  }
+
+  const models = await listProductModels(null, db)
+  const exact = models.find(
+    (model) => model.model_number === modelNumber || (model.aliases || []).includes(modelNumber),
+  )
+  if (exact) {
+    return { model: exact, match: "exact" }
+  }
+
+  const brand = label.brand ? normalizeModelNumber(label.brand) : null
+  const prefix = models
+    .filter((model) => !brand || normalizeModelNumber(model.brand) === brand)
+    .flatMap((model) =>
+      [model.model_number, ...(model.aliases || [])]
+        .filter((number) => number.length >= MIN_PREFIX_LENGTH && modelNumber.startsWith(number))
+        .map((number) => ({ model, length: number.length })),
+    )
+    .sort((a, b) => b.length - a.length)[0]
+
+  return prefix ? { model: prefix.model, match: "prefix" } : { model: null, match: null }
+}
+
+// Reads the label and matches it; a label without a catalog entry is still returned for display
+export async function identifyDevice(
+  image: ImageInput,
+  env: { llm?: LLMProvider; db?: SupabaseClient } = {},
+): Promise<DeviceIdentification> {
+  const label = await readDeviceLabel(image, env.llm)
+  return { label, ...(await matchProductModel(label, env.db)) }
+}
+
+// Adds or replaces the catalog entry for the model number
+export async function saveProductModel(
+  entry: { brand: string; modelNumber: string; displayName?: string; productType?: string; aliases?: string[] },
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ProductModel> {
+  const modelNumber = normalizeModelNumber(entry.modelNumber)
+  if (!modelNumber) {
+    throw new Error(`Not a model number: ${entry.modelNumber}`)
+  }
+
+  const { data, error } = await db
+    .from("product_models")
+    .upsert(
+      {
+        brand: entry.brand,
+        model_number: modelNumber,
+        display_name: entry.displayName || `${entry.brand} ${entry.modelNumber}`,
+        product_type: entry.productType || "general",
+        aliases: Array.from(new Set((entry.aliases || []).map(normalizeModelNumber).filter(Boolean))),
+        is_active: true,
+      },
+      { onConflict: "model_number" },
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
@@ -0,0 +1,168 @@
+// Embedding service shared by registration, search and maintenance jobs.
+//
+// Every vector written to rag_documents is tagged with the model that produced it and its true
+// dimensionality. Vectors are never padded or truncated: a vector whose length does not match the
+// declared dimensions of its model is rejected, and search functions only compare vectors that
+// share the same embedding_model.
+
+import { DEFAULT_MODELS, getGenerationConfig, getLLMProvider, getProviderName } from "@/lib/llm"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export interface EmbeddingModelSpec {
+  // Stored in rag_documents.embedding_model
+  id: string
+  // Model name passed to the provider
+  model: string
+  dimensions: number
+}
+
+export interface EmbeddingResult {
+  vector: number[]
+  model: string
+  dimensions: number
+}
+
+export interface ImageEmbeddingResult extends EmbeddingResult {
+  // Text the vector was computed from
+  description: string
+}
+
+export const EMBEDDING_MODELS: Record<string, EmbeddingModelSpec> = {
+  "text-embedding-004": { id: "text-embedding-004", model: "text-embedding-004", dimensions: 768 },
+  "text-embedding-3-small": { id: "text-embedding-3-small", model: "text-embedding-3-small", dimensions: 1536 },
+  "text-embedding-3-large": { id: "text-embedding-3-large", model: "text-embedding-3-large", dimensions: 3072 },
+  "fixture-embedding": { id: "fixture-embedding", model: "fixture-embedding", dimensions: 768 },
+}
+
+// Prompt used to turn an image into searchable text before embedding it
+export const IMAGE_DESCRIPTION_PROMPT = `
+この画像の視覚的特徴を詳細に分析し、以下の要素を含む説明文を生成してください：
+- 表示されているアイコンやランプの種類と状態
+- 色彩情報（赤、緑、青、オレンジなどの色）
+- 形状や配置
+- テキストや数字
+- デバイスの種類や部品
+- 問題や異常の兆候
+
+この説明文は検索用のベクトル生成に使用されます。
+`
+
+// Resolves the active model from LLM_EMBEDDING_MODEL or the provider default.
+// Models outside EMBEDDING_MODELS must declare their size with LLM_EMBEDDING_DIMENSIONS.
+export function getEmbeddingModel(id?: string): EmbeddingModelSpec {
+  const modelId = id || process.env.LLM_EMBEDDING_MODEL || DEFAULT_MODELS[getProviderName()].embedding
+  const known = EMBEDDING_MODELS[modelId]
+  if (known) {
+    return known
+  }
+
+  const dimensions = Number.parseInt(process.env.LLM_EMBEDDING_DIMENSIONS || "", 10)
+  if (!Number.isInteger(dimensions) || dimensions <= 0) {
+    throw new Error(`Unknown embedding model "${modelId}": set LLM_EMBEDDING_DIMENSIONS to declare its dimensionality`)
+  }
+
+  return { id: modelId, model: modelId, dimensions }
+}
+
+// The model search and registration should use right now. Once a re-embedding job has been
+// activated its target model wins over LLM_EMBEDDING_MODEL, so the switch happens with the data.
+// Read from the database on every call rather than cached per server instance: an activation on
+// one instance must not leave the others embedding queries with the old model, whose vectors are gone.
+export async function getActiveEmbeddingModel(): Promise<EmbeddingModelSpec> {
+  let spec: EmbeddingModelSpec | null = null
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("embedding_migration_jobs")
+      .select("target_model, target_dim")
+      .eq("status", "activated")
+      .order("activated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      // 42P01: migration tables not installed yet
+      if (error.code !== "42P01") {
+        console.warn("[Embedding] Failed to load active embedding model:", error.message)
+      }
+    } else if (data) {
+      spec = EMBEDDING_MODELS[data.target_model] || {
+        id: data.target_model,
+        model: data.target_model,
+        dimensions: data.target_dim,
+      }
+    }
+  } catch (error) {
+    console.warn("[Embedding] Failed to load active embedding model:", error)
+  }
+
+  return spec || getEmbeddingModel()
+}
+
+export function validateEmbedding(vector: number[], spec: EmbeddingModelSpec): void {
+  if (!Array.isArray(vector) || vector.length === 0) {
+    throw new Error(`Empty embedding returned by ${spec.id}`)
+  }
+
+  if (vector.length !== spec.dimensions) {
+    throw new Error(
+      `Embedding dimension mismatch for ${spec.id}: got ${vector.length}, expected ${spec.dimensions}`,
+    )
+  }
+
+  const invalidValues = vector.filter((value) => !Number.isFinite(value)).length
+  if (invalidValues > 0) {
+    throw new Error(`Invalid embedding values detected: ${invalidValues} non-finite values`)
+  }
+}
+
+export async function embedText(text: string, spec?: EmbeddingModelSpec): Promise<EmbeddingResult> {
+  if (!text.trim()) {
+    throw new Error("Cannot embed empty text")
+  }
+
+  spec = spec || (await getActiveEmbeddingModel())
+
+  const vector = await getLLMProvider().embed(text, { model: spec.model, dimensions: spec.dimensions })
+  validateEmbedding(vector, spec)
+
+  return { vector, model: spec.id, dimensions: spec.dimensions }
+}
+
+// Images are embedded through a vision-generated description so that the same text embedding
+// model can be used for every row, whatever the provider.
+export async function embedImage(
+  imageBase64: string,
+  mimeType: string,
+  spec?: EmbeddingModelSpec,
+): Promise<ImageEmbeddingResult> {
+  if (!imageBase64) {
+    throw new Error("Empty image data provided")
+  }
+
+  const description = await getLLMProvider().vision(
+    IMAGE_DESCRIPTION_PROMPT,
+    { data: imageBase64, mimeType: mimeType || "image/jpeg" },
+    getGenerationConfig("embeddings", "describe"),
+  )
+  console.log(`[Embedding] Generated description: ${description.substring(0, 200)}...`)
+
+  const result = await embedText(description, spec)
+  return { ...result, description }
+}
+
+// Column values for inserting or updating a rag_documents row
+export function toEmbeddingColumns(result: EmbeddingResult) {
+  return {
+    image_embedding: result.vector,
+    embedding_model: result.model,
+    embedding_dim: result.dimensions,
+  }
+}
+
+// Parameters shared by every vector search RPC
+export function toSearchParams(result: EmbeddingResult) {
+  return {
+    query_embedding: result.vector,
+    query_embedding_model: result.model,
+  }
+}
@@ -0,0 +1,150 @@
+// Error code registry: codes shown on device displays ("E01", "H3") mapped to the rag_documents entry
+// that explains them, per product type.
+//
+// Codes are compared in normalized form (half-width, upper case, no separators), so "e-01", "Ｅ０１"
+// and "E 01" all find the "E01" entry. A registered code is an exact answer, unlike text search.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export interface ErrorCodeEntry {
+  id: string
+  code: string
+  product_type: string
+  document_id: string
+  description: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+// Product type for codes that mean the same on every product
+export const GENERAL_PRODUCT_TYPE = "general"
+
+// One or two letters followed by up to three digits, the form appliance displays use
+const ERROR_CODE_SHAPE = /^[A-Z]{1,2}\d{1,3}$/
+
+// A code mentioned in free text, e.g. "the display shows E-01" or "エラーコード「H3」が表示"
+const ERROR_CODE_IN_TEXT =
+  /(?:error|code|display(?:s|ed)?|shows?|showing|reads?|エラー|コード|表示)[^A-Za-z0-9]{0,20}(?<![A-Za-z])([A-Za-z]{1,2}[-\s]?\d{1,3})(?![A-Za-z0-9])/gi
+
+export function normalizeErrorCode(value: string): string {
+  return value
+    .normalize("NFKC")
+    .toUpperCase()
+    .replace(/[\s\-_]/g, "")
+}
+
+// Normalized codes out of what the model read from the display, dropping anything not code-shaped
+export function toErrorCodes(values: string[]): string[] {
+  return Array.from(new Set(values.map(normalizeErrorCode).filter((code) => ERROR_CODE_SHAPE.test(code))))
+}
+
+// Codes mentioned in a free-text analysis, for pipelines without structured context
+export function extractErrorCodes(text: string): string[] {
+  return toErrorCodes(Array.from(text.normalize("NFKC").matchAll(ERROR_CODE_IN_TEXT), (match) => match[1]))
+}
+
+export interface ErrorCodeMatch {
+  code: string
+  productType: string
+  description: string | null
+  // The rag_documents row
+  document: { id: string; content: string; [column: string]: any }
+  // True when the entry is for the device's product type or for all products ("general"); entries
+  // registered only for other products are returned as hints with exact false
+  exact: boolean
+}
+
+// Registry entries for the codes, with their active documents. Entries for productType win over
+// "general" ones; when neither exists the other products' entries are returned, marked as not exact.
+export async function lookupErrorCodes(
+  codes: string[],
+  productType: string | null,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ErrorCodeMatch[]> {
+  const normalized = toErrorCodes(codes)
+  if (normalized.length === 0) {
+    return []
+  }
+
+  const { data, error } = await db
+    .from("error_codes")
+    .select("code, product_type, description, document:rag_documents(*)")
+    .in("code", normalized)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const rows = ((data || []) as any[]).filter((row) => row.document && row.document.is_active !== false)
+
+  return normalized.flatMap((code) => {
+    const entries = rows.filter((row) => row.code === code)
+    const forProduct = productType ? entries.filter((row) => row.product_type === productType) : []
+    const preferred =
+      forProduct.length > 0 ? forProduct : entries.filter((row) => row.product_type === GENERAL_PRODUCT_TYPE)
+    const chosen = preferred.length > 0 ? preferred : entries
+    const exact = preferred.length > 0
+
+    return chosen.map((row) => ({
+      code,
+      productType: row.product_type,
+      description: row.description,
+      document: row.document,
+      exact,
+    }))
+  })
+}
+
+export async function listErrorCodes(
+  productType?: string | null,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ErrorCodeEntry[]> {
+  let query = db.from("error_codes").select("*").order("product_type").order("code")
+  if (productType) {
+    query = query.eq("product_type", productType)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data || []
+}
+
+// Adds or replaces the entry for (code, product type)
+export async function saveErrorCode(
+  entry: { code: string; productType?: string; documentId: string; description?: string | null },
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ErrorCodeEntry> {
+  const code = normalizeErrorCode(entry.code)
+  if (!ERROR_CODE_SHAPE.test(code)) {
+    throw new Error(`Not an error code: ${entry.code}`)
+  }
+
+  const { data, error } = await db
+    .from("error_codes")
+    .upsert(
+      {
+        code,
+        product_type: entry.productType || GENERAL_PRODUCT_TYPE,
+        document_id: entry.documentId,
+        description: entry.description ?? null,
+      },
+      { onConflict: "code,product_type" },
+    )
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
+
+export async function deleteErrorCode(id: string, db: SupabaseClient = supabaseAdmin): Promise<void> {
+  const { error } = await db.from("error_codes").delete().eq("id", id)
+  if (error) {
+    throw new Error(error.message)
+  }
+}
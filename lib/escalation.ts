@@ -0,0 +1,321 @@
+// Human escalation: turn a chat session into a support ticket with a handoff summary.
+//
+// The ticket is always recorded in support_tickets first, then delivered through the configured
+// ticket adapter (lib/tickets). A failed delivery leaves the ticket in handoff_failed so it can be
+// retried without losing what the user already went through (scripts/create-support-tickets.sql).
+
+import { appendChatMessages, getChatSession } from "@/lib/chat-sessions"
+import { getGenerationConfig, getLLMProvider, type JSONSchema } from "@/lib/llm"
+import type { ExtractedContext } from "@/lib/rag"
+import { supabaseAdmin } from "@/lib/supabase"
+import {
+  getTicketAdapter,
+  type EscalationReason,
+  type HandoffDetails,
+  type HandoffDocument,
+  type SupportTicket,
+} from "@/lib/tickets"
+
+export interface EscalationInput {
+  // The caller (resolveOwnerId); only their own session is summarized, and the ticket is theirs
+  ownerId: string
+  sessionId?: string
+  reasons?: EscalationReason[]
+  // Anything the user wants the agent to know, in their own words
+  note?: string
+  // Frames captured when escalating, as data URLs
+  frames?: string[]
+  extractedContext?: ExtractedContext | null
+  relevantDocuments?: HandoffDocument[]
+}
+
+// Columns returned by listings; frames and the full handoff are only loaded per ticket
+const TICKET_SUMMARY_COLUMNS =
+  "id, session_id, owner_id, status, reasons, urgency_level, device_type, summary, adapter, external_id, external_url, last_error, created_at, updated_at"
+
+const MAX_FRAMES = 4
+const TRANSCRIPT_MESSAGES = 20
+
+// Phrases users type or say when they want a person instead of the AI
+const USER_REQUEST_PATTERN =
+  /担当者|オペレーター|人間と|人と話|サポートに(連絡|つな)|問い合わせ|修理を依頼|escalate|human|agent|support ticket/i
+
+const HANDOFF_SUMMARY_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    stepsTried: { type: "array", items: { type: "string" } },
+    recommendedActions: { type: "array", items: { type: "string" } },
+  },
+  required: ["summary", "stepsTried", "recommendedActions"],
+}
+
+// Why the AI should offer a handoff for this answer; empty when it looks resolvable
+export function detectEscalationReasons(result: {
+  context?: ExtractedContext | null
+  documentCount?: number
+  userPrompt?: string
+}): EscalationReason[] {
+  const reasons: EscalationReason[] = []
+  if (result.documentCount === 0) {
+    reasons.push("no_documents")
+  }
+  if (result.context?.urgencyLevel === "critical") {
+    reasons.push("critical_urgency")
+  }
+  if (result.userPrompt && USER_REQUEST_PATTERN.test(result.userPrompt)) {
+    reasons.push("user_request")
+  }
+  return reasons
+}
+
+// Shape sent to the chat UI with every answer
+export function toEscalationSuggestion(reasons: EscalationReason[]) {
+  return { suggested: reasons.length > 0, reasons }
+}
+
+// Only the owner's tickets are found
+export async function getSupportTicket(ticketId: string, ownerId: string): Promise<SupportTicket> {
+  const { data, error } = await supabaseAdmin
+    .from("support_tickets")
+    .select("*")
+    .eq("id", ticketId)
+    .eq("owner_id", ownerId)
+    .maybeSingle()
+
+  if (error || !data) {
+    throw new Error(`Support ticket ${ticketId} not found${error ? `: ${error.message}` : ""}`)
+  }
+
+  return data as SupportTicket
+}
+
+export async function listSupportTickets(
+  ownerId: string,
+  options: { sessionId?: string; status?: string; limit?: number } = {},
+): Promise<Omit<SupportTicket, "handoff" | "frames">[]> {
+  let query = supabaseAdmin
+    .from("support_tickets")
+    .select(TICKET_SUMMARY_COLUMNS)
+    .eq("owner_id", ownerId)
+    .order("created_at", { ascending: false })
+    .limit(options.limit || 50)
+
+  if (options.sessionId) query = query.eq("session_id", options.sessionId)
+  if (options.status) query = query.eq("status", options.status)
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load support tickets: ${error.message}`)
+  }
+
+  return (data || []) as Omit<SupportTicket, "handoff" | "frames">[]
+}
+
+// Records the ticket, hands it to the ticket system and notes the handoff in the conversation
+export async function createEscalation(input: EscalationInput): Promise<SupportTicket> {
+  const session = input.sessionId ? await getChatSession(input.sessionId, input.ownerId).catch(() => null) : null
+  const messages = session?.messages || []
+
+  // Fall back to what the last analysis in the session found
+  const lastAnalysis = [...messages].reverse().find((message) => message.metadata?.extractedContext)?.metadata
+  const extractedContext: ExtractedContext | null = input.extractedContext || lastAnalysis?.extractedContext || null
+  const relevantDocuments: HandoffDocument[] = (
+    input.relevantDocuments || (Array.isArray(lastAnalysis?.relevantDocuments) ? lastAnalysis.relevantDocuments : [])
+  ).map(({ id, title, category, relevance_score }: HandoffDocument) => ({ id, title, category, relevance_score }))
+
+  const reasons = Array.from(
+    new Set([
+      ...(input.reasons || []),
+      ...detectEscalationReasons({
+        context: extractedContext,
+        documentCount: input.relevantDocuments || lastAnalysis ? relevantDocuments.length : undefined,
+      }),
+    ]),
+  )
+
+  const transcript = messages
+    .filter((message) => message.role !== "system" && message.content)
+    .slice(-TRANSCRIPT_MESSAGES)
+    .map(({ role, content, timestamp }) => ({ role: role as "user" | "model", content, timestamp }))
+
+  const frames = Array.from(
+    new Set([
+      ...(input.frames || []),
+      ...messages
+        .filter((message) => message.role === "user" && message.imageData)
+        .map((message) => message.imageData!)
+        .reverse(),
+    ]),
+  ).slice(0, MAX_FRAMES)
+
+  const generated = await summarizeHandoff({ reasons, extractedContext, relevantDocuments, transcript, note: input.note })
+
+  const handoff: HandoffDetails = {
+    deviceType: extractedContext?.deviceType || null,
+    extractedContext,
+    relevantDocuments,
+    stepsTried: generated.stepsTried,
+    recommendedActions: generated.recommendedActions,
+    userNote: input.note || null,
+    transcript,
+  }
+
+  const adapter = getTicketAdapter()
+  const { data, error } = await supabaseAdmin
+    .from("support_tickets")
+    .insert({
+      session_id: input.sessionId || null,
+      owner_id: input.ownerId,
+      status: "open",
+      reasons,
+      urgency_level: extractedContext?.urgencyLevel || null,
+      device_type: handoff.deviceType,
+      summary: generated.summary,
+      handoff,
+      frames,
+      adapter: adapter.name,
+    })
+    .select("*")
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create support ticket: ${error?.message || "no row returned"}`)
+  }
+
+  const ticket = await handOff(data as SupportTicket)
+
+  if (input.sessionId) {
+    try {
+      await appendChatMessages(
+        input.sessionId,
+        [{ role: "model", content: handoffMessage(ticket), metadata: { supportTicketId: ticket.id, escalation: true } }],
+        input.ownerId,
+      )
+    } catch (error) {
+      console.error("Failed to note the escalation in the chat session:", error)
+    }
+  }
+
+  return ticket
+}
+
+// Delivers (or re-delivers) a recorded ticket through the configured adapter
+export async function handOff(ticket: SupportTicket): Promise<SupportTicket> {
+  const adapter = getTicketAdapter()
+  let update: Partial<SupportTicket>
+
+  try {
+    if (!adapter.isConfigured()) {
+      throw new Error(adapter.configurationError() || `Ticket adapter ${adapter.name} is not configured`)
+    }
+
+    const result = await adapter.submit(ticket)
+    update = {
+      status: "open",
+      adapter: adapter.name,
+      external_id: result.externalId,
+      external_url: result.externalUrl || null,
+      last_error: null,
+    }
+  } catch (error) {
+    console.error(`[Escalation] Handoff of ticket ${ticket.id} via ${adapter.name} failed:`, error)
+    update = {
+      status: "handoff_failed",
+      adapter: adapter.name,
+      last_error: error instanceof Error ? error.message : String(error),
+    }
+  }
+
+  const { data, error } = await supabaseAdmin.from("support_tickets").update(update).eq("id", ticket.id).select("*").single()
+  if (error || !data) {
+    throw new Error(`Failed to update support ticket ${ticket.id}: ${error?.message || "no row returned"}`)
+  }
+
+  return data as SupportTicket
+}
+
+// Only tickets whose delivery failed are re-sent, so a retry never creates a duplicate upstream
+export async function retryTicketHandoff(ticketId: string, ownerId: string): Promise<SupportTicket> {
+  const ticket = await getSupportTicket(ticketId, ownerId)
+  if (ticket.status !== "handoff_failed") {
+    throw new Error(`Support ticket ${ticketId} was already handed off (status ${ticket.status})`)
+  }
+  return handOff(ticket)
+}
+
+export function handoffMessage(ticket: SupportTicket): string {
+  if (ticket.status === "handoff_failed") {
+    return `サポート窓口への引き継ぎに失敗しましたが、内容は記録しました（受付番号: ${ticket.id.slice(0, 8)}）。時間をおいて再度お試しください。`
+  }
+  return `サポート担当者に引き継ぎました（受付番号: ${ticket.external_id?.slice(0, 8) || ticket.id.slice(0, 8)}）。これまでの会話と画像は担当者に共有されています。`
+}
+
+const REASON_LABELS: Record<EscalationReason, string> = {
+  no_documents: "知識ベースに該当する文書がない",
+  critical_urgency: "緊急度が critical と判定された",
+  user_request: "ユーザーが担当者への引き継ぎを希望",
+  guided_flow_failed: "ガイド付き手順で解決しなかった",
+}
+
+async function summarizeHandoff(details: {
+  reasons: EscalationReason[]
+  extractedContext: ExtractedContext | null
+  relevantDocuments: HandoffDocument[]
+  transcript: HandoffDetails["transcript"]
+  note?: string
+}): Promise<{ summary: string; stepsTried: string[]; recommendedActions: string[] }> {
+  const { reasons, extractedContext, relevantDocuments, transcript, note } = details
+
+  const prompt = `あなたはサポート窓口への引き継ぎ担当です。以下のAIチャットの内容を、担当者がユーザーに質問し直さずに対応を始められるよう要約してください。
+
+引き継ぎ理由: ${reasons.map((reason) => REASON_LABELS[reason]).join("、") || "ユーザーからの依頼"}
+${extractedContext ? `画像分析結果: ${JSON.stringify(extractedContext)}` : "画像分析結果: なし"}
+参照した知識ベース文書: ${relevantDocuments.map((doc) => doc.title).filter(Boolean).join("、") || "なし"}
+${note ? `ユーザーからのメモ: ${note}` : ""}
+
+会話:
+${transcript.map((message) => `${message.role === "user" ? "ユーザー" : "AI"}: ${message.content}`).join("\n") || "(会話なし)"}
+
+summary には機器・症状・緊急度を含む数行の要約を、stepsTried にはユーザーが既に試した手順を、
+recommendedActions には担当者が次に行うべき対応を日本語で記載してください。`
+
+  try {
+    const text = await getLLMProvider().generate([{ text: prompt }], {
+      ...getGenerationConfig("escalation", "summarize"),
+      responseSchema: HANDOFF_SUMMARY_SCHEMA,
+    })
+    const parsed = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] || text)
+    if (typeof parsed.summary === "string" && parsed.summary.trim()) {
+      return {
+        summary: parsed.summary.trim(),
+        stepsTried: Array.isArray(parsed.stepsTried) ? parsed.stepsTried.map(String) : [],
+        recommendedActions: Array.isArray(parsed.recommendedActions) ? parsed.recommendedActions.map(String) : [],
+      }
+    }
+    throw new Error("summary missing from response")
+  } catch (error) {
+    console.warn("[Escalation] Handoff summary generation failed, using a plain summary:", error)
+    return fallbackSummary(details)
+  }
+}
+
+// Used when the model is unavailable; steps tried are then left to the transcript
+function fallbackSummary(details: { reasons: EscalationReason[]; extractedContext: ExtractedContext | null; note?: string }) {
+  const { reasons, extractedContext, note } = details
+  const lines = [
+    `機器: ${extractedContext?.deviceType || "不明"}`,
+    `症状: ${extractedContext?.detectedIssues.join("、") || "不明"}`,
+    `緊急度: ${extractedContext?.urgencyLevel || "不明"}`,
+    `引き継ぎ理由: ${reasons.map((reason) => REASON_LABELS[reason]).join("、") || "ユーザーからの依頼"}`,
+  ]
+  if (note) {
+    lines.push(`ユーザーからのメモ: ${note}`)
+  }
+
+  return {
+    summary: lines.join("\n"),
+    stepsTried: [],
+    recommendedActions: [],
+  }
+}
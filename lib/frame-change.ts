@@ -0,0 +1,97 @@
+// Frame-change detection for automatic analysis: only send a frame when the view actually changed.
+//
+// A frame is reduced to a small grayscale grid. The grid gives a difference hash (dHash) that
+// tolerates noise and small camera movement but flips bits when the scene changes, and per-cell
+// brightness that catches a single indicator light turning on or off. Pure functions over ImageData,
+// so they run in the browser without sending anything to the server.
+
+export type ChangeSensitivity = "low" | "medium" | "high"
+
+// Pixels of the grid the frame is downscaled to before hashing
+export const SIGNATURE_WIDTH = 32
+export const SIGNATURE_HEIGHT = 24
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+export interface FrameSignature {
+  // 64 bits of dHash as "0"/"1" characters
+  hash: string
+  // Grayscale 0-255, row by row, SIGNATURE_WIDTH x SIGNATURE_HEIGHT
+  luma: number[]
+}
+
+export interface FrameChange {
+  changed: boolean
+  reason: "scene" | "indicator" | null
+  // Differing dHash bits out of 64
+  hashDistance: number
+  // Grid cells whose brightness changed beyond the threshold, after removing exposure drift
+  changedCells: number
+}
+
+// Lower thresholds react to smaller changes
+const THRESHOLDS: Record<ChangeSensitivity, { hashDistance: number; cellDelta: number; minCells: number }> = {
+  high: { hashDistance: 4, cellDelta: 18, minCells: 1 },
+  medium: { hashDistance: 8, cellDelta: 28, minCells: 2 },
+  low: { hashDistance: 14, cellDelta: 40, minCells: 4 },
+}
+
+// Expects ImageData of a frame drawn at SIGNATURE_WIDTH x SIGNATURE_HEIGHT
+export function computeFrameSignature(image: { data: Uint8ClampedArray; width: number; height: number }): FrameSignature {
+  const luma: number[] = []
+  for (let index = 0; index < image.width * image.height; index++) {
+    const offset = index * 4
+    luma.push(0.299 * image.data[offset] + 0.587 * image.data[offset + 1] + 0.114 * image.data[offset + 2])
+  }
+
+  // Box-average the grid down to 9x8 and compare horizontal neighbours
+  const blocks: number[] = []
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH; x++) {
+      const x0 = Math.floor((x * image.width) / HASH_WIDTH)
+      const x1 = Math.max(Math.floor(((x + 1) * image.width) / HASH_WIDTH), x0 + 1)
+      const y0 = Math.floor((y * image.height) / HASH_HEIGHT)
+      const y1 = Math.max(Math.floor(((y + 1) * image.height) / HASH_HEIGHT), y0 + 1)
+      let sum = 0
+      for (let row = y0; row < y1; row++) {
+        for (let column = x0; column < x1; column++) {
+          sum += luma[row * image.width + column]
+        }
+      }
+      blocks.push(sum / ((x1 - x0) * (y1 - y0)))
+    }
+  }
+
+  let hash = ""
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      hash += blocks[y * HASH_WIDTH + x] < blocks[y * HASH_WIDTH + x + 1] ? "1" : "0"
+    }
+  }
+
+  return { hash, luma }
+}
+
+export function compareFrames(
+  previous: FrameSignature,
+  current: FrameSignature,
+  sensitivity: ChangeSensitivity = "medium",
+): FrameChange {
+  const thresholds = THRESHOLDS[sensitivity]
+
+  let hashDistance = 0
+  for (let index = 0; index < current.hash.length; index++) {
+    if (current.hash[index] !== previous.hash[index]) hashDistance++
+  }
+
+  // Auto exposure shifts every cell by about the same amount; only count what changes locally
+  const deltas = current.luma.map((value, index) => value - (previous.luma[index] ?? value))
+  const drift = deltas.reduce((sum, delta) => sum + delta, 0) / Math.max(deltas.length, 1)
+  const changedCells = deltas.filter((delta) => Math.abs(delta - drift) > thresholds.cellDelta).length
+
+  const reason =
+    hashDistance > thresholds.hashDistance ? "scene" : changedCells >= thresholds.minCells ? "indicator" : null
+
+  return { changed: reason !== null, reason, hashDistance, changedCells }
+}
@@ -0,0 +1,261 @@
+// Guided troubleshooting: walk the user through a document's solution one step at a time.
+//
+// A flow is an ordered list of steps; a step may ask a yes/no check whose answer jumps to another
+// step, finishes the flow, switches to another document's flow or escalates to a human. Progress
+// is kept per conversation in chat_sessions.guided_flow_state (scripts/add-guided-flows.sql), and only
+// in a conversation of the caller's (owner_id, lib/chat-sessions.ts).
+
+import { z } from "zod"
+import { appendChatMessages } from "@/lib/chat-sessions"
+import { createEscalation, handoffMessage } from "@/lib/escalation"
+import { supabaseAdmin } from "@/lib/supabase"
+import type { SupportTicket } from "@/lib/tickets"
+
+const stepTargetSchema = z.union([
+  z.object({ step: z.string() }),
+  z.object({ complete: z.literal(true) }),
+  z.object({ escalate: z.literal(true) }),
+  z.object({ document: z.string() }),
+])
+
+const guidedStepSchema = z.object({
+  id: z.string().min(1),
+  instruction: z.string().min(1),
+  detail: z.string().optional(),
+  // Yes/no question asked after the step; without it the step is simply marked done
+  check: z.string().optional(),
+  onYes: stepTargetSchema.optional(),
+  onNo: stepTargetSchema.optional(),
+})
+
+export const guidedFlowSchema = z.object({
+  steps: z.array(guidedStepSchema).min(1),
+})
+
+export type StepTarget = z.infer<typeof stepTargetSchema>
+export type GuidedStep = z.infer<typeof guidedStepSchema>
+export type GuidedFlow = z.infer<typeof guidedFlowSchema> & { documentId: string; title: string }
+
+export type StepAnswer = "done" | "yes" | "no"
+
+export interface GuidedFlowState {
+  documentId: string
+  title: string
+  status: "active" | "resolved" | "escalated"
+  currentStepId: string | null
+  completedStepIds: string[]
+  answers: Array<{ documentId: string; stepId: string; answer: StepAnswer; at: string }>
+  // Documents already walked through in this session; a branch never loops back to them
+  visitedDocumentIds: string[]
+  supportTicketId?: string
+  startedAt: string
+  updatedAt: string
+}
+
+export interface GuidedFlowProgress {
+  flow: GuidedFlow | null
+  state: GuidedFlowState | null
+  // Set when the last answer escalated to a human
+  ticket?: Omit<SupportTicket, "frames">
+  message?: string
+}
+
+const RESOLUTION_CHECK = "問題は解決しましたか？"
+
+// "1. ...", "2) ...", "３．..." lines of free-text content
+const NUMBERED_LINE = /^\s*[0-9０-９]+\s*[.)．）、]\s*(.+)$/
+
+// Numbered solutions become linear flows that end with a resolution check
+export function flowFromContent(content: string): z.infer<typeof guidedFlowSchema> | null {
+  const instructions = content
+    .split("\n")
+    .map((line) => line.match(NUMBERED_LINE)?.[1]?.trim())
+    .filter((line): line is string => !!line)
+
+  if (instructions.length < 2) {
+    return null
+  }
+
+  return {
+    steps: instructions.map((instruction, index) => ({
+      id: String(index + 1),
+      instruction,
+      ...(index === instructions.length - 1
+        ? { check: RESOLUTION_CHECK, onYes: { complete: true as const }, onNo: { escalate: true as const } }
+        : {}),
+    })),
+  }
+}
+
+export function hasGuidedFlow(document: { guided_flow?: unknown; content?: string | null }): boolean {
+  return guidedFlowSchema.safeParse(document.guided_flow).success || !!flowFromContent(document.content || "")
+}
+
+export async function getGuidedFlow(documentId: string): Promise<GuidedFlow | null> {
+  const { data, error } = await supabaseAdmin
+    .from("rag_documents")
+    .select("id, title, content, guided_flow")
+    .eq("id", documentId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load document ${documentId}: ${error.message}`)
+  }
+  if (!data) {
+    return null
+  }
+
+  const stored = guidedFlowSchema.safeParse(data.guided_flow)
+  const definition = stored.success ? stored.data : flowFromContent(data.content || "")
+  return definition ? { ...definition, documentId: data.id, title: data.title } : null
+}
+
+async function loadState(sessionId: string, ownerId: string): Promise<GuidedFlowState | null> {
+  const { data, error } = await supabaseAdmin
+    .from("chat_sessions")
+    .select("guided_flow_state")
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load guided flow for session ${sessionId}: ${error.message}`)
+  }
+
+  return (data?.guided_flow_state as GuidedFlowState) || null
+}
+
+// Only updates an existing session of the owner; session rows are created by appendChatMessages,
+// which sets their owner
+async function saveState(sessionId: string, ownerId: string, state: GuidedFlowState | null): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("chat_sessions")
+    .update({ guided_flow_state: state })
+    .eq("session_id", sessionId)
+    .eq("owner_id", ownerId)
+    .select("session_id")
+
+  if (error) {
+    throw new Error(`Failed to save guided flow for session ${sessionId}: ${error.message}`)
+  }
+  if (!data || data.length === 0) {
+    throw new Error("Chat session not found")
+  }
+}
+
+export async function getGuidedFlowProgress(sessionId: string, ownerId: string): Promise<GuidedFlowProgress> {
+  const state = await loadState(sessionId, ownerId)
+  const flow = state ? await getGuidedFlow(state.documentId) : null
+  return { flow, state: flow ? state : null }
+}
+
+export async function startGuidedFlow(
+  sessionId: string,
+  ownerId: string,
+  documentId: string,
+  visitedDocumentIds: string[] = [],
+): Promise<GuidedFlowProgress> {
+  const flow = await getGuidedFlow(documentId)
+  if (!flow) {
+    throw new Error(`Document ${documentId} has no guided flow`)
+  }
+
+  const now = new Date().toISOString()
+  const state: GuidedFlowState = {
+    documentId,
+    title: flow.title,
+    status: "active",
+    currentStepId: flow.steps[0].id,
+    completedStepIds: [],
+    answers: [],
+    visitedDocumentIds: [...visitedDocumentIds, documentId],
+    startedAt: now,
+    updatedAt: now,
+  }
+
+  await saveState(sessionId, ownerId, state)
+  return { flow, state }
+}
+
+export async function exitGuidedFlow(sessionId: string, ownerId: string): Promise<void> {
+  await saveState(sessionId, ownerId, null)
+}
+
+// Applies the answer to the current step and follows the branch it leads to
+export async function answerGuidedStep(
+  sessionId: string,
+  ownerId: string,
+  stepId: string,
+  answer: StepAnswer,
+): Promise<GuidedFlowProgress> {
+  const { flow, state } = await getGuidedFlowProgress(sessionId, ownerId)
+  if (!flow || !state || state.status !== "active") {
+    throw new Error("No guided flow is active in this session")
+  }
+  if (state.currentStepId !== stepId) {
+    throw new Error(`Step ${stepId} is not the current step`)
+  }
+
+  const index = flow.steps.findIndex((step) => step.id === stepId)
+  const step = flow.steps[index]
+  const now = new Date().toISOString()
+  const next: GuidedFlowState = {
+    ...state,
+    completedStepIds: Array.from(new Set([...state.completedStepIds, stepId])),
+    answers: [...state.answers, { documentId: flow.documentId, stepId, answer, at: now }],
+    updatedAt: now,
+  }
+
+  const following = flow.steps[index + 1]
+  const fallthrough: StepTarget = following ? { step: following.id } : { complete: true }
+  const target: StepTarget =
+    answer === "no" ? step.onNo || { escalate: true } : answer === "yes" ? step.onYes || fallthrough : fallthrough
+
+  if ("step" in target && flow.steps.some((candidate) => candidate.id === target.step)) {
+    await saveState(sessionId, ownerId, { ...next, currentStepId: target.step })
+    return { flow, state: { ...next, currentStepId: target.step } }
+  }
+
+  if ("complete" in target) {
+    const resolved: GuidedFlowState = { ...next, status: "resolved", currentStepId: null }
+    const message = `「${flow.title}」の手順をすべて完了し、問題が解決しました。`
+    await saveState(sessionId, ownerId, resolved)
+    await noteInSession(sessionId, ownerId, message)
+    return { flow, state: resolved, message }
+  }
+
+  if ("document" in target && !state.visitedDocumentIds.includes(target.document)) {
+    const nextFlow = await getGuidedFlow(target.document)
+    if (nextFlow) {
+      const switched = await startGuidedFlow(sessionId, ownerId, target.document, state.visitedDocumentIds)
+      const carried: GuidedFlowState = { ...switched.state!, answers: next.answers }
+      await saveState(sessionId, ownerId, carried)
+      return {
+        flow: switched.flow,
+        state: carried,
+        message: `「${flow.title}」では解決しなかったため、「${nextFlow.title}」の手順に進みます。`,
+      }
+    }
+  }
+
+  // Explicit escalation, or a branch that leads nowhere usable
+  const ticket = await createEscalation({
+    ownerId,
+    sessionId,
+    reasons: ["guided_flow_failed"],
+    note: `ガイド「${flow.title}」の手順「${step.instruction}」${step.check ? `（${step.check}）` : ""}で解決しませんでした。`,
+  })
+  const escalated: GuidedFlowState = { ...next, status: "escalated", currentStepId: null, supportTicketId: ticket.id }
+  await saveState(sessionId, ownerId, escalated)
+
+  const { frames: _frames, ...ticketWithoutFrames } = ticket
+  return { flow, state: escalated, ticket: ticketWithoutFrames, message: handoffMessage(ticket) }
+}
+
+async function noteInSession(sessionId: string, ownerId: string, content: string) {
+  try {
+    await appendChatMessages(sessionId, [{ role: "model", content, metadata: { guidedFlow: true } }], ownerId)
+  } catch (error) {
+    console.error("Failed to note guided flow progress in the chat session:", error)
+  }
+}
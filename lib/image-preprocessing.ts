@@ -0,0 +1,268 @@
+// Client-side image preprocessing shared by every page that uploads or captures images.
+//
+// Photos are decoded with their EXIF orientation applied, downsized to a maximum edge and
+// re-encoded, so the server and the model always receive upright images of a bounded size.
+// HEIC/HEIF photos (iPhone default) are decoded natively where the browser can, otherwise converted
+// with heic2any, which is loaded only when such a file is picked. A region of interest (e.g. the
+// indicator panel) is cropped from the original before downsizing, so the crop keeps its detail.
+// Browser-only: uses canvas and FileReader.
+
+// Fractions (0-1) of the upright full image
+export interface RegionOfInterest {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface PreprocessOptions {
+  // Longest side after resizing, in pixels
+  maxEdge?: number
+  // Encoder quality between 0 and 1
+  quality?: number
+  mimeType?: "image/jpeg" | "image/webp"
+  // Crop to this region of the source before resizing
+  region?: RegionOfInterest
+}
+
+// Sent with analyze and registration requests as imageMetadata
+export interface ImageMetadata {
+  originalWidth: number
+  originalHeight: number
+  // Bytes of the file as picked; null for camera frames
+  originalSize: number | null
+  originalType: string
+  width: number
+  height: number
+  size: number
+  mimeType: string
+  // EXIF orientation of the original (1 = upright), when it had one
+  orientation: number | null
+  convertedFromHeic: boolean
+  // Set when the image is a crop; width and height are then those of the crop
+  region?: RegionOfInterest
+}
+
+export interface PreprocessedImage {
+  // Base64 without the data URL prefix, as the analyze endpoints expect
+  base64: string
+  dataUrl: string
+  mimeType: string
+  metadata: ImageMetadata
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: Required<Omit<PreprocessOptions, "region">> = {
+  maxEdge: 1600,
+  quality: 0.85,
+  mimeType: "image/jpeg",
+}
+
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/jpg", "image/png", "image/webp", "image/heic", "image/heif"]
+
+// Inputs are downsized before upload, so larger originals than the old 10MB limit are fine
+export const MAX_INPUT_BYTES = 30 * 1024 * 1024
+
+// Some browsers report an empty type for HEIC files, so the extension is checked too
+export function isHeic(file: File | Blob): boolean {
+  return /image\/hei[cf]/.test(file.type) || ("name" in file && /\.hei[cf]$/i.test(file.name))
+}
+
+export function validateImageInput(file: File): { valid: boolean; error?: string } {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type) && !isHeic(file)) {
+    return { valid: false, error: "対応していない画像形式です（JPG、PNG、WebP、HEIC）" }
+  }
+  if (file.size > MAX_INPUT_BYTES) {
+    return { valid: false, error: `画像サイズは${MAX_INPUT_BYTES / 1024 / 1024}MB以下にしてください` }
+  }
+  return { valid: true }
+}
+
+// EXIF orientation tag (0x0112) of a JPEG, or null when there is none
+export async function readExifOrientation(blob: Blob): Promise<number | null> {
+  const view = new DataView(await blob.slice(0, 128 * 1024).arrayBuffer())
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) {
+    return null
+  }
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset)
+    const length = view.getUint16(offset + 2)
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10
+      const littleEndian = view.getUint16(tiff) === 0x4949
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian)
+      const entries = view.getUint16(ifd, littleEndian)
+
+      for (let index = 0; index < entries; index++) {
+        const entry = ifd + 2 + index * 12
+        if (entry + 10 > view.byteLength) break
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          return view.getUint16(entry + 8, littleEndian)
+        }
+      }
+      return null
+    }
+
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+      break
+    }
+    offset += 2 + length
+  }
+
+  return null
+}
+
+// createImageBitmap applies the EXIF orientation while decoding; drawing it bakes the rotation in
+async function decode(blob: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(blob, { imageOrientation: "from-image" })
+}
+
+async function convertHeic(blob: Blob): Promise<Blob> {
+  const { default: heic2any } = await import("heic2any")
+  const converted = await heic2any({ blob, toType: "image/jpeg", quality: 0.92 })
+  return Array.isArray(converted) ? converted[0] : converted
+}
+
+// Source rectangle in pixels, at least 1px in each direction
+function sourceRect(width: number, height: number, region?: RegionOfInterest) {
+  if (!region) {
+    return { sx: 0, sy: 0, sw: width, sh: height }
+  }
+  const sx = Math.round(Math.min(Math.max(region.x, 0), 1) * width)
+  const sy = Math.round(Math.min(Math.max(region.y, 0), 1) * height)
+  return {
+    sx,
+    sy,
+    sw: Math.max(1, Math.min(Math.round(region.width * width), width - sx)),
+    sh: Math.max(1, Math.min(Math.round(region.height * height), height - sy)),
+  }
+}
+
+function scaledSize(width: number, height: number, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), mimeType, quality)
+  })
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onloadend = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+// Fixes orientation, converts HEIC, downsizes and re-encodes a picked file
+export async function preprocessImage(file: File | Blob, options: PreprocessOptions = {}): Promise<PreprocessedImage> {
+  const { maxEdge, quality, mimeType } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options }
+  const orientation = await readExifOrientation(file).catch(() => null)
+
+  let source: Blob = file
+  let convertedFromHeic = false
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await decode(source)
+  } catch (error) {
+    if (!isHeic(file)) {
+      throw new Error(`Failed to decode image: ${error instanceof Error ? error.message : String(error)}`)
+    }
+    source = await convertHeic(file)
+    convertedFromHeic = true
+    bitmap = await decode(source)
+  }
+
+  const { sx, sy, sw, sh } = sourceRect(bitmap.width, bitmap.height, options.region)
+  const { width, height } = scaledSize(sw, sh, maxEdge)
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    bitmap.close()
+    throw new Error("Canvas context not available")
+  }
+  ctx.drawImage(bitmap, sx, sy, sw, sh, 0, 0, width, height)
+
+  const encoded = await canvasToBlob(canvas, mimeType, quality)
+
+  // Re-encoding a small, upright JPEG/PNG/WebP can make it larger; keep the original bytes then
+  const keepOriginal =
+    !options.region &&
+    !convertedFromHeic &&
+    (orientation === null || orientation === 1) &&
+    width === bitmap.width &&
+    encoded.size >= file.size &&
+    ACCEPTED_IMAGE_TYPES.includes(file.type)
+  const output = keepOriginal ? file : encoded
+  const outputType = keepOriginal ? file.type : mimeType
+
+  const metadata: ImageMetadata = {
+    originalWidth: bitmap.width,
+    originalHeight: bitmap.height,
+    originalSize: file.size,
+    originalType: file.type || (convertedFromHeic ? "image/heic" : "unknown"),
+    width,
+    height,
+    size: output.size,
+    mimeType: outputType,
+    orientation,
+    convertedFromHeic,
+    region: options.region,
+  }
+  bitmap.close()
+
+  const dataUrl = await blobToDataUrl(output)
+  return { base64: dataUrl.split(",")[1], dataUrl, mimeType: outputType, metadata }
+}
+
+// Draws the current video frame (or a region of it) downsized onto the canvas; camera frames carry no EXIF
+export function preprocessVideoFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  options: PreprocessOptions = {},
+): { dataUrl: string; metadata: ImageMetadata } | null {
+  const { maxEdge, quality, mimeType } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options }
+  const ctx = canvas.getContext("2d")
+  if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) {
+    return null
+  }
+
+  const { sx, sy, sw, sh } = sourceRect(video.videoWidth, video.videoHeight, options.region)
+  const { width, height } = scaledSize(sw, sh, maxEdge)
+  canvas.width = width
+  canvas.height = height
+  ctx.clearRect(0, 0, width, height)
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, width, height)
+
+  const dataUrl = canvas.toDataURL(mimeType, quality)
+  if (dataUrl === "data:,") {
+    return null
+  }
+
+  return {
+    dataUrl,
+    metadata: {
+      originalWidth: video.videoWidth,
+      originalHeight: video.videoHeight,
+      originalSize: null,
+      originalType: "video",
+      width,
+      height,
+      // Decoded size of the base64 payload
+      size: Math.floor(((dataUrl.length - dataUrl.indexOf(",") - 1) * 3) / 4),
+      mimeType,
+      orientation: null,
+      convertedFromHeic: false,
+      region: options.region,
+    },
+  }
+}
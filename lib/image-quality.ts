@@ -0,0 +1,151 @@
+// Image quality gate: reject photos the model cannot use before spending a model call on them.
+//
+// The image is decoded server-side with sharp and reduced to a small grayscale copy. From it we
+// measure sharpness (variance of the Laplacian), brightness, glare (clipped highlights) and how much
+// of the frame the detailed subject fills, and turn each failed check into retake guidance.
+
+import sharp from "sharp"
+
+export type QualityIssueCode = "blurry" | "too_dark" | "too_bright" | "glare" | "subject_too_small" | "low_resolution"
+
+export interface QualityIssue {
+  code: QualityIssueCode
+  // What the user should do differently, shown in the chat
+  guidance: string
+}
+
+export interface QualityScores {
+  // Variance of the Laplacian; low means blurry
+  sharpness: number
+  // Mean luma, 0-255
+  brightness: number
+  // Share of pixels clipped to white
+  glareRatio: number
+  // Share of the frame covered by the area with visible detail (edges)
+  subjectAreaRatio: number
+  width: number
+  height: number
+}
+
+export interface QualityAssessment {
+  passed: boolean
+  scores: QualityScores
+  issues: QualityIssue[]
+}
+
+// Measured on the ANALYSIS_EDGE copy, not the original resolution
+export const QUALITY_THRESHOLDS = {
+  minSharpness: 40,
+  minBrightness: 45,
+  maxBrightness: 225,
+  maxGlareRatio: 0.12,
+  minSubjectAreaRatio: 0.12,
+  minEdge: 320,
+}
+
+const ANALYSIS_EDGE = 512
+const CLIPPED_LUMA = 250
+const EDGE_GRADIENT = 40
+
+const GUIDANCE: Record<QualityIssueCode, string> = {
+  blurry: "画像がぼやけています。カメラを固定し、ピントが合ってから撮影してください。",
+  too_dark: "画像が暗すぎます。照明をつけるか、明るい場所で撮影してください。",
+  too_bright: "画像が明るすぎます。強い光が直接当たらない位置から撮影してください。",
+  glare: "光の反射（グレア）があります。フラッシュをオフにし、斜めの角度から撮影してください。",
+  subject_too_small: "表示パネルが小さく写っています。もっと近づいて、ランプや表示が画面の大部分を占めるように撮影してください。",
+  low_resolution: "画像の解像度が低すぎます。より高い解像度で撮影してください。",
+}
+
+function computeScores(pixels: Buffer, width: number, height: number): Omit<QualityScores, "width" | "height"> {
+  let sum = 0
+  let clipped = 0
+  for (let index = 0; index < pixels.length; index++) {
+    sum += pixels[index]
+    if (pixels[index] >= CLIPPED_LUMA) clipped++
+  }
+
+  // Laplacian variance and the bounding box of strong gradients, skipping the 1px border
+  let laplacianSum = 0
+  let laplacianSquares = 0
+  let count = 0
+  const edgeXs: number[] = []
+  const edgeYs: number[] = []
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x
+      const center = pixels[index]
+      const laplacian = pixels[index - 1] + pixels[index + 1] + pixels[index - width] + pixels[index + width] - 4 * center
+      laplacianSum += laplacian
+      laplacianSquares += laplacian * laplacian
+      count++
+
+      const gradient = Math.abs(pixels[index + 1] - pixels[index - 1]) + Math.abs(pixels[index + width] - pixels[index - width])
+      if (gradient > EDGE_GRADIENT) {
+        edgeXs.push(x)
+        edgeYs.push(y)
+      }
+    }
+  }
+
+  const mean = laplacianSum / Math.max(count, 1)
+  const sharpness = laplacianSquares / Math.max(count, 1) - mean * mean
+
+  // 5th-95th percentile of edge positions, so a few stray edges do not stretch the box
+  let subjectAreaRatio = 0
+  if (edgeXs.length > 0) {
+    const percentile = (values: number[], p: number) => values[Math.min(values.length - 1, Math.floor(values.length * p))]
+    edgeXs.sort((a, b) => a - b)
+    edgeYs.sort((a, b) => a - b)
+    const boxWidth = percentile(edgeXs, 0.95) - percentile(edgeXs, 0.05)
+    const boxHeight = percentile(edgeYs, 0.95) - percentile(edgeYs, 0.05)
+    subjectAreaRatio = (boxWidth * boxHeight) / (width * height)
+  }
+
+  return {
+    sharpness: Math.round(sharpness * 10) / 10,
+    brightness: Math.round((sum / pixels.length) * 10) / 10,
+    glareRatio: Math.round((clipped / pixels.length) * 1000) / 1000,
+    subjectAreaRatio: Math.round(subjectAreaRatio * 1000) / 1000,
+  }
+}
+
+// fullImageBase64 marks imageBase64 as a region the user selected in it. Blur, exposure and glare are
+// still measured on the crop, but resolution is checked on the full image: a small indicator panel
+// crop is expected to be a few hundred pixels. Subject size is not checked, the user framed the subject.
+export async function assessImageQuality(
+  imageBase64: string,
+  options: { fullImageBase64?: string } = {},
+): Promise<QualityAssessment> {
+  const image = sharp(Buffer.from(imageBase64, "base64")).rotate()
+  const { width = 0, height = 0 } = await image.metadata()
+  const isCrop = !!options.fullImageBase64
+  const fullImage = isCrop ? await sharp(Buffer.from(options.fullImageBase64!, "base64")).metadata() : { width, height }
+
+  const { data, info } = await image
+    .clone()
+    .resize(ANALYSIS_EDGE, ANALYSIS_EDGE, { fit: "inside", withoutEnlargement: true })
+    .greyscale()
+    .raw()
+    .toBuffer({ resolveWithObject: true })
+
+  const scores: QualityScores = { ...computeScores(data, info.width, info.height), width, height }
+  const thresholds = QUALITY_THRESHOLDS
+  const codes: QualityIssueCode[] = []
+
+  if (Math.max(fullImage.width || 0, fullImage.height || 0) < thresholds.minEdge) codes.push("low_resolution")
+  if (scores.brightness < thresholds.minBrightness) codes.push("too_dark")
+  if (scores.brightness > thresholds.maxBrightness) codes.push("too_bright")
+  if (scores.glareRatio > thresholds.maxGlareRatio && scores.brightness <= thresholds.maxBrightness) codes.push("glare")
+  // A dark or washed-out image has no edges either; report that cause, not blur or size
+  if (!codes.includes("too_dark") && !codes.includes("too_bright")) {
+    if (scores.sharpness < thresholds.minSharpness) codes.push("blurry")
+    else if (!isCrop && scores.subjectAreaRatio < thresholds.minSubjectAreaRatio) codes.push("subject_too_small")
+  }
+
+  return {
+    passed: codes.length === 0,
+    scores,
+    issues: codes.map((code) => ({ code, guidance: GUIDANCE[code] })),
+  }
+}
@@ -0,0 +1,189 @@
+// Blink-pattern detection: classify each indicator light as solid, slow blink, fast blink or off
+// from a short burst of camera frames.
+//
+// The model only reports whether each indicator is lit in each frame; the state is derived here from
+// that on/off sequence and the capture timestamps, so timing never depends on the model's judgement.
+// States are matched against rag_documents.indicator_states and the COFFEE_MAKER_ISSUES light patterns.
+
+import { z } from "zod"
+import { COFFEE_MAKER_ISSUES, type CoffeeMakerIssue } from "@/lib/coffee-maker-knowledge"
+import { getGenerationConfig, getLLMProvider, type JSONSchema, type LLMPart, type LLMProvider } from "@/lib/llm"
+
+export const INDICATOR_STATES = ["solid", "slow_blink", "fast_blink", "off"] as const
+export type IndicatorState = (typeof INDICATOR_STATES)[number]
+
+export interface BurstFrame {
+  // Base64 without the data URL prefix
+  data: string
+  mimeType: string
+  // Milliseconds since the first frame of the burst
+  capturedAt: number
+}
+
+export interface IndicatorReading {
+  // snake_case name, e.g. "water_drop" for the lightPattern "water_drop_blinking"
+  name: string
+  label: string
+  color: string | null
+  state: IndicatorState
+  // Lit or not in each frame, in capture order
+  lit: boolean[]
+  blinkHz: number | null
+}
+
+export const MIN_BURST_FRAMES = 3
+export const MAX_BURST_FRAMES = 24
+
+// Blinking at this rate or faster is a fast blink; most appliances blink at ~1Hz (slow) or 2-4Hz (fast).
+// Telling blink rates apart needs at least two frames per on/off phase: the chat page captures a frame
+// every 100ms (10fps), which resolves blinking up to ~5Hz.
+const FAST_BLINK_HZ = 1.5
+
+// Tags written for each state; indicator_states uses both plain ("blinking") and named ("cup_tray_blinking") forms
+const STATE_TAGS: Record<IndicatorState, string[]> = {
+  solid: ["solid", "on"],
+  slow_blink: ["slow_blink", "blinking"],
+  fast_blink: ["fast_blink", "blinking"],
+  off: ["off"],
+}
+
+const STATE_LABELS: Record<IndicatorState, string> = {
+  solid: "点灯",
+  slow_blink: "ゆっくり点滅",
+  fast_blink: "速く点滅",
+  off: "消灯",
+}
+
+// Indicator names the coffee maker manual uses, so the model reports them under the same names
+const KNOWN_INDICATOR_NAMES = Array.from(
+  new Set(COFFEE_MAKER_ISSUES.map((issue) => issue.lightPattern.replace(/_(blinking|solid|on|off|warning)$/, ""))),
+)
+
+const burstObservationSchema = z.object({
+  indicators: z.array(
+    z.object({
+      name: z.string().min(1),
+      label: z.string().default(""),
+      color: z.string().nullable().optional(),
+      lit: z.array(z.boolean()),
+    }),
+  ),
+})
+
+const BURST_OBSERVATION_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    indicators: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          label: { type: "string" },
+          color: { type: "string" },
+          lit: { type: "array", items: { type: "boolean" } },
+        },
+        required: ["name", "label", "lit"],
+      },
+    },
+  },
+  required: ["indicators"],
+}
+
+// Counts on/off transitions over the burst; one full blink cycle is two transitions
+export function classifyIndicator(lit: boolean[], timestamps: number[]): { state: IndicatorState; blinkHz: number | null } {
+  const litCount = lit.filter(Boolean).length
+  if (litCount === 0) {
+    return { state: "off", blinkHz: null }
+  }
+  if (litCount === lit.length) {
+    return { state: "solid", blinkHz: null }
+  }
+
+  const transitions = lit.slice(1).filter((value, index) => value !== lit[index]).length
+  const durationSeconds = Math.max((timestamps[timestamps.length - 1] - timestamps[0]) / 1000, 0.001)
+  const blinkHz = Math.round((transitions / 2 / durationSeconds) * 10) / 10
+
+  return { state: blinkHz >= FAST_BLINK_HZ ? "fast_blink" : "slow_blink", blinkHz }
+}
+
+function buildObservationPrompt(frames: BurstFrame[]): string {
+  return `以下は同じ機器を約${((frames[frames.length - 1].capturedAt - frames[0].capturedAt) / 1000).toFixed(1)}秒間に連続撮影した${frames.length}枚の画像です。
+画像に写っているインジケーター（ランプ、LED、表示灯）をすべて挙げ、各画像でそのインジケーターが点灯しているかどうかを判定してください。
+
+- name: インジケーターの英語 snake_case 名。次の名前に該当する場合は必ずこれを使用してください: ${KNOWN_INDICATOR_NAMES.join(", ")}
+- label: インジケーターの日本語名（例: 水タンクランプ）
+- color: 点灯時の色（分かる場合）
+- lit: 画像の順番どおりに、点灯していれば true、消えていれば false を並べた配列（必ず${frames.length}個）
+
+点滅しているかどうかは判断せず、各画像で見えている状態だけを答えてください。`
+}
+
+// Asks the model which indicators are lit in each frame and classifies their states
+export async function detectIndicatorStates(frames: BurstFrame[], llm: LLMProvider = getLLMProvider()): Promise<IndicatorReading[]> {
+  if (frames.length < MIN_BURST_FRAMES) {
+    throw new Error(`At least ${MIN_BURST_FRAMES} frames are needed to detect blinking, got ${frames.length}`)
+  }
+
+  const ordered = [...frames].sort((a, b) => a.capturedAt - b.capturedAt).slice(0, MAX_BURST_FRAMES)
+  const parts: LLMPart[] = [{ text: buildObservationPrompt(ordered) }]
+  ordered.forEach((frame, index) => {
+    parts.push({ text: `画像 ${index + 1} (${frame.capturedAt}ms)` })
+    parts.push({ inlineData: { data: frame.data, mimeType: frame.mimeType } })
+  })
+
+  const text = await llm.generate(parts, {
+    ...getGenerationConfig("indicator-states", "detect"),
+    responseSchema: BURST_OBSERVATION_JSON_SCHEMA,
+  })
+
+  let observation: z.infer<typeof burstObservationSchema>
+  try {
+    observation = burstObservationSchema.parse(JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] || text))
+  } catch (error) {
+    throw new Error(`Failed to parse indicator observation: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const timestamps = ordered.map((frame) => frame.capturedAt)
+  return observation.indicators
+    .filter((indicator) => {
+      if (indicator.lit.length !== ordered.length) {
+        console.warn(`[Indicator States] Skipping ${indicator.name}: ${indicator.lit.length} readings for ${ordered.length} frames`)
+        return false
+      }
+      return true
+    })
+    .map((indicator) => ({
+      name: indicator.name.trim().toLowerCase().replace(/[\s-]+/g, "_"),
+      label: indicator.label || indicator.name,
+      color: indicator.color || null,
+      lit: indicator.lit,
+      ...classifyIndicator(indicator.lit, timestamps),
+    }))
+}
+
+// Values to match against rag_documents.indicator_states; plain states only for lit indicators,
+// since "off" alone matches nearly every document
+export function toIndicatorStateTags(readings: IndicatorReading[]): string[] {
+  return Array.from(
+    new Set(
+      readings.flatMap((reading) => [
+        ...(reading.state === "off" ? [] : STATE_TAGS[reading.state]),
+        ...STATE_TAGS[reading.state].map((tag) => `${reading.name}_${tag}`),
+      ]),
+    ),
+  )
+}
+
+// "水タンクランプ: ゆっくり点滅 (約1Hz)" lines for prompts and chat messages
+export function describeIndicatorStates(readings: IndicatorReading[]): string[] {
+  return readings.map(
+    (reading) => `${reading.label}: ${STATE_LABELS[reading.state]}${reading.blinkHz ? ` (約${reading.blinkHz}Hz)` : ""}`,
+  )
+}
+
+// Manual entries whose light pattern is exactly one of the observed states
+export function matchKnownIssues(readings: IndicatorReading[]): CoffeeMakerIssue[] {
+  const tags = toIndicatorStateTags(readings)
+  return COFFEE_MAKER_ISSUES.filter((issue) => tags.includes(issue.lightPattern))
+}
@@ -0,0 +1,112 @@
+import type { GenerationOptions, SafetySetting } from "./types"
+
+export type LLMProviderName = "gemini" | "openai" | "fixture"
+
+export const DEFAULT_MODELS: Record<LLMProviderName, { text: string; embedding: string }> = {
+  gemini: { text: "gemini-1.5-flash", embedding: "text-embedding-004" },
+  openai: { text: "gpt-4o-mini", embedding: "text-embedding-3-small" },
+  fixture: { text: "fixture-text", embedding: "fixture-embedding" },
+}
+
+// Environment variable each provider needs before it can be used
+export const PROVIDER_API_KEY_ENV: Record<LLMProviderName, string | null> = {
+  gemini: "GEMINI_API_KEY",
+  openai: "OPENAI_API_KEY",
+  fixture: null,
+}
+
+export const DEFAULT_SAFETY_SETTINGS: SafetySetting[] = [
+  { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+  { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" },
+]
+
+// Model is optional here; it falls back to LLM_MODEL_<ROUTE>, LLM_MODEL, then the provider default
+type TaskConfig = Omit<GenerationOptions, "model"> & { model?: string }
+
+// Generation settings per route and per step within the route
+export const LLM_ROUTE_CONFIG = {
+  embeddings: {
+    describe: { temperature: 0.2 },
+  },
+  "intelligent-rag": {
+    extract: {},
+    rerank: { temperature: 0, maxOutputTokens: 512 },
+    respond: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 1500, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  "generic-rag": {
+    analyze: { temperature: 0.3, topK: 32, topP: 0.8, maxOutputTokens: 1024 },
+    locate: { temperature: 0.1, maxOutputTokens: 1024 },
+    respond: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 2048, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  "multimodal-rag": {
+    analyze: { temperature: 0.3, topK: 32, topP: 0.8, maxOutputTokens: 1024 },
+    respond: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 2048, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  "multimodal-troubleshoot": {
+    analyze: {},
+    respond: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 2048, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  "troubleshoot-coffee-maker": {
+    respond: {
+      temperature: 0.7,
+      topK: 1,
+      topP: 1,
+      maxOutputTokens: 2048,
+      safetySettings: [{ category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_MEDIUM_AND_ABOVE" }],
+    },
+  },
+  "chat-with-history": {
+    respond: { temperature: 0.8, topK: 40, topP: 0.95, maxOutputTokens: 2048, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  chat: {
+    respond: { temperature: 0.8, topK: 40, topP: 0.95, maxOutputTokens: 2048, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  "text-chat": {
+    respond: { temperature: 0.7, topK: 40, topP: 0.95, maxOutputTokens: 1000, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+  escalation: {
+    summarize: { temperature: 0.2, maxOutputTokens: 1024 },
+  },
+  "indicator-states": {
+    detect: { temperature: 0.1, maxOutputTokens: 1024 },
+  },
+  "device-identification": {
+    read: { temperature: 0.1, maxOutputTokens: 256 },
+  },
+  "manual-ingestion": {
+    transcribe: { temperature: 0, maxOutputTokens: 8192 },
+    propose: { temperature: 0.2, maxOutputTokens: 4096 },
+  },
+  "analyze-image": {
+    analyze: { temperature: 0.7, topK: 32, topP: 0.8, maxOutputTokens: 1024, safetySettings: DEFAULT_SAFETY_SETTINGS },
+  },
+} satisfies Record<string, Record<string, TaskConfig>>
+
+export type LLMRoute = keyof typeof LLM_ROUTE_CONFIG
+export type LLMTask<R extends LLMRoute> = keyof (typeof LLM_ROUTE_CONFIG)[R]
+
+export function getProviderName(): LLMProviderName {
+  const name = (process.env.LLM_PROVIDER || "gemini").toLowerCase()
+  if (name === "openai" || name === "fixture") {
+    return name
+  }
+  return "gemini"
+}
+
+// "intelligent-rag" -> "INTELLIGENT_RAG"
+function envSuffix(route: string): string {
+  return route.toUpperCase().replace(/[^A-Z0-9]+/g, "_")
+}
+
+export function getGenerationConfig<R extends LLMRoute>(route: R, task: LLMTask<R>): GenerationOptions {
+  const taskConfig = LLM_ROUTE_CONFIG[route][task] as TaskConfig
+  const model =
+    taskConfig.model ||
+    process.env[`LLM_MODEL_${envSuffix(route)}`] ||
+    process.env.LLM_MODEL ||
+    DEFAULT_MODELS[getProviderName()].text
+
+  return { ...taskConfig, model }
+}
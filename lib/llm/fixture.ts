@@ -0,0 +1,170 @@
+import type { EmbeddingOptions, GenerationOptions, ImageInput, LLMMessage, LLMPart, LLMProvider } from "./types"
+
+export interface FixtureRule {
+  // Matched against the concatenated text parts of the request
+  match: RegExp
+  response: string
+}
+
+const DEFAULT_EMBEDDING_DIMENSIONS = 768
+
+// JSON mode prompts get a stable, parseable object of the shape they ask for
+const DEFAULT_RULES: FixtureRule[] = [
+  {
+    match: /primaryCategory/,
+    response: JSON.stringify({
+      primaryCategory: "coffee_maker",
+      detectedIssues: ["カス受けがいっぱい"],
+      visualIndicators: ["オレンジ色のランプが点灯"],
+      indicatorLocations: [{ label: "オレンジ色のランプが点灯", box2d: [420, 610, 480, 660] }],
+      errorCodes: [],
+      urgencyLevel: "medium",
+      keywords: ["カス受け", "ランプ", "コーヒーメーカー"],
+      deviceType: "coffee_maker",
+      brand: "Acme",
+      modelNumber: "CM-200",
+      problemType: "maintenance",
+    }),
+  },
+  // Indicator locations for a free-text analysis (lib/rag/extract.ts locateVisualIndicators)
+  {
+    match: /indicatorLocations/,
+    response: JSON.stringify({ indicatorLocations: [{ label: "Indicator light", box2d: [420, 610, 480, 660] }] }),
+  },
+  // Rating label (lib/device-identification.ts); the extraction prompt above also names modelNumber
+  {
+    match: /modelNumber/,
+    response: JSON.stringify({ brand: "Acme", modelNumber: "CM-200", serialNumber: "SN2024-000123" }),
+  },
+  // Relevance scores for the candidates of the rerank stage (lib/rag/rerank.ts); unscored ones fall back
+  {
+    match: /関連度を0〜10で採点/,
+    response: JSON.stringify({ scores: [{ index: 1, score: 9 }, { index: 2, score: 6 }, { index: 3, score: 1 }] }),
+  },
+  // Manual ingestion (lib/manual-ingestion.ts): a one-page manual with a troubleshooting table
+  {
+    match: /ページごとに書き起こして/,
+    response: JSON.stringify({
+      pageCount: 1,
+      pages: [
+        {
+          page: 1,
+          printedPage: "23",
+          text: "故障かな？と思ったら\nカス受けランプが点灯している | カス受けがいっぱいです | カス受けを取り出して中身を捨て、元の位置に戻してください",
+        },
+      ],
+    }),
+  },
+  {
+    match: /表の1行ごとに知識ベースの項目/,
+    response: JSON.stringify({
+      entries: [
+        {
+          title: "カス受けランプが点灯している",
+          iconName: "カス受けランプ",
+          iconDescription: "カス受けがいっぱいになるとオレンジ色のランプが点灯します。",
+          steps: ["カス受けを取り出す", "中身を捨てる", "カス受けを元の位置に戻す"],
+          severity: "low",
+          tags: ["カス受け", "ランプ", "お手入れ"],
+          pages: [1],
+        },
+      ],
+    }),
+  },
+  // Burst observations (lib/indicator-states.ts): no indicators, since the frame count varies
+  {
+    match: /連続撮影した/,
+    response: JSON.stringify({ indicators: [] }),
+  },
+]
+
+// Deterministic offline provider for local development and tests.
+// The same input always produces the same output and no network access is required.
+export class FixtureProvider implements LLMProvider {
+  readonly name = "fixture"
+
+  constructor(private rules: FixtureRule[] = DEFAULT_RULES) {}
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  configurationError(): string | null {
+    return null
+  }
+
+  async generate(parts: LLMPart[], options: GenerationOptions): Promise<string> {
+    return this.respond(parts, options)
+  }
+
+  async chat(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): Promise<string> {
+    return this.respond(message, options, history.length)
+  }
+
+  // Splits the fixed response after each sentence so streaming consumers see several chunks
+  async *chatStream(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): AsyncIterable<string> {
+    const response = this.respond(message, options, history.length)
+    for (const chunk of response.match(/[^。！？.!?]+[。！？.!?]?/g) || [response]) {
+      yield chunk
+    }
+  }
+
+  async embed(input: string | LLMPart[], options: EmbeddingOptions): Promise<number[]> {
+    const dimensions = options.dimensions || DEFAULT_EMBEDDING_DIMENSIONS
+    const vector = new Array<number>(dimensions).fill(0)
+    const parts: LLMPart[] = typeof input === "string" ? [{ text: input }] : input
+
+    // Feature hashing: inputs sharing tokens end up close in cosine space
+    for (const token of parts.flatMap(tokenize)) {
+      const hash = fnv1a(token)
+      vector[hash % dimensions] += hash & 0x80000000 ? -1 : 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+    return norm > 0 ? vector.map((value) => value / norm) : vector
+  }
+
+  vision(prompt: string, image: ImageInput, options: GenerationOptions): Promise<string> {
+    return this.generate([{ text: prompt }, { inlineData: image }], options)
+  }
+
+  private respond(parts: LLMPart[], options: GenerationOptions, turn = 0): string {
+    const text = parts.map((part) => ("text" in part ? part.text : "")).join("\n")
+    const rule = this.rules.find((candidate) => candidate.match.test(text))
+    if (rule) {
+      return rule.response
+    }
+
+    const imageCount = parts.filter((part) => "inlineData" in part).length
+    const digest = fnv1a(`${options.model}:${turn}:${text}`).toString(16).padStart(8, "0")
+    return `[fixture:${options.model}] ${imageCount > 0 ? `画像${imageCount}枚を確認しました。` : ""}これはオフライン用の固定応答です (${digest})。`
+  }
+}
+
+function tokenize(part: LLMPart): string[] {
+  if ("inlineData" in part) {
+    return [`image:${part.inlineData.data}`]
+  }
+
+  const tokens: string[] = []
+  for (const word of part.text.toLowerCase().split(/[\s、。,.!?:;()[\]{}"'「」・/]+/)) {
+    if (!word) continue
+    tokens.push(word)
+    // CJK text has no spaces; character bigrams give overlapping features
+    if (/[^\x00-\x7f]/.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) {
+        tokens.push(word.slice(i, i + 2))
+      }
+    }
+  }
+  return tokens
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,125 @@
+import {
+  GoogleGenerativeAI,
+  type GenerationConfig,
+  type HarmBlockThreshold,
+  type HarmCategory,
+  type ResponseSchema,
+} from "@google/generative-ai"
+import type {
+  EmbeddingOptions,
+  GenerationOptions,
+  ImageInput,
+  JSONSchema,
+  LLMMessage,
+  LLMPart,
+  LLMProvider,
+} from "./types"
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = "gemini"
+  private client: GoogleGenerativeAI | null = null
+
+  constructor(private apiKey: string | undefined = process.env.GEMINI_API_KEY) {}
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  configurationError(): string | null {
+    return this.apiKey ? null : "GEMINI_API_KEY is not configured"
+  }
+
+  private getClient(): GoogleGenerativeAI {
+    if (!this.apiKey) {
+      throw new Error("GEMINI_API_KEY is not configured")
+    }
+    if (!this.client) {
+      this.client = new GoogleGenerativeAI(this.apiKey)
+    }
+    return this.client
+  }
+
+  private getModel(options: GenerationOptions) {
+    const generationConfig: GenerationConfig = {
+      temperature: options.temperature,
+      topK: options.topK,
+      topP: options.topP,
+      maxOutputTokens: options.maxOutputTokens,
+      ...(options.responseSchema
+        ? { responseMimeType: "application/json", responseSchema: toResponseSchema(options.responseSchema) }
+        : {}),
+    }
+
+    return this.getClient().getGenerativeModel({
+      model: options.model,
+      generationConfig,
+      safetySettings: options.safetySettings?.map((setting) => ({
+        category: setting.category as HarmCategory,
+        threshold: setting.threshold as HarmBlockThreshold,
+      })),
+    })
+  }
+
+  async generate(parts: LLMPart[], options: GenerationOptions): Promise<string> {
+    const result = await this.getModel(options).generateContent({ contents: [{ role: "user", parts }] })
+    return readText(result.response)
+  }
+
+  async chat(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): Promise<string> {
+    const chat = this.getModel(options).startChat({ history })
+    const result = await chat.sendMessage(message)
+    return readText(result.response)
+  }
+
+  async *chatStream(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): AsyncIterable<string> {
+    const chat = this.getModel(options).startChat({ history })
+    const result = await chat.sendMessageStream(message)
+    for await (const chunk of result.stream) {
+      const text = readText(chunk)
+      if (text) {
+        yield text
+      }
+    }
+  }
+
+  async embed(input: string | LLMPart[], options: EmbeddingOptions): Promise<number[]> {
+    const model = this.getClient().getGenerativeModel({ model: options.model })
+    const result =
+      typeof input === "string"
+        ? await model.embedContent(input)
+        : await model.embedContent({ content: { role: "user", parts: input } })
+    return result.embedding.values || []
+  }
+
+  vision(prompt: string, image: ImageInput, options: GenerationOptions): Promise<string> {
+    return this.generate([{ text: prompt }, { inlineData: image }], options)
+  }
+}
+
+// response.text() throws on blocked candidates; normalize the message so routes can detect it
+function readText(response: { text(): string }): string {
+  try {
+    return response.text()
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("SAFETY")) {
+      throw new Error("Response blocked by safety filters")
+    }
+    throw error
+  }
+}
+
+// Gemini schemas are OpenAPI objects; string enums additionally need format "enum"
+function toResponseSchema(schema: JSONSchema): ResponseSchema {
+  return {
+    ...schema,
+    ...(schema.enum ? { format: "enum" } : {}),
+    ...(schema.items ? { items: toResponseSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toResponseSchema(value)]),
+          ),
+        }
+      : {}),
+  } as ResponseSchema
+}
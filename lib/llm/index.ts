@@ -0,0 +1,33 @@
+import { getProviderName } from "./config"
+import { FixtureProvider } from "./fixture"
+import { GeminiProvider } from "./gemini"
+import { OpenAICompatibleProvider } from "./openai-compatible"
+import type { LLMProvider } from "./types"
+
+export * from "./types"
+export {
+  DEFAULT_MODELS,
+  DEFAULT_SAFETY_SETTINGS,
+  PROVIDER_API_KEY_ENV,
+  getGenerationConfig,
+  getProviderName,
+} from "./config"
+export type { LLMProviderName, LLMRoute } from "./config"
+export { FixtureProvider, GeminiProvider, OpenAICompatibleProvider }
+
+let provider: LLMProvider | null = null
+
+// Selected with LLM_PROVIDER=gemini|openai|fixture (defaults to gemini)
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    const name = getProviderName()
+    provider =
+      name === "fixture" ? new FixtureProvider() : name === "openai" ? new OpenAICompatibleProvider() : new GeminiProvider()
+  }
+  return provider
+}
+
+// Allows tests and scripts to swap the provider
+export function setLLMProvider(next: LLMProvider | null) {
+  provider = next
+}
@@ -0,0 +1,203 @@
+import type { EmbeddingOptions, GenerationOptions, ImageInput, LLMMessage, LLMPart, LLMProvider } from "./types"
+
+type OpenAIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "file"; file: { filename: string; file_data: string } }
+
+type OpenAIContent = string | OpenAIContentPart[]
+
+interface OpenAIMessage {
+  role: "system" | "user" | "assistant"
+  content: OpenAIContent
+}
+
+// Works with any server exposing the OpenAI chat/completions and embeddings endpoints
+// (OpenAI, Azure-style proxies, vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = "openai"
+
+  constructor(
+    private apiKey: string | undefined = process.env.OPENAI_API_KEY,
+    private baseUrl: string = process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  ) {}
+
+  isConfigured(): boolean {
+    // Local OpenAI-compatible servers usually do not require a key
+    return !!this.apiKey || !!process.env.OPENAI_BASE_URL
+  }
+
+  configurationError(): string | null {
+    return this.isConfigured() ? null : "OPENAI_API_KEY is not configured"
+  }
+
+  private async request(path: string, body: unknown): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, "")}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      let message = `HTTP ${response.status}`
+      try {
+        const errorData = JSON.parse(errorText)
+        if (errorData.error?.message) {
+          message = errorData.error.message
+        }
+      } catch {
+        // keep the status-only message
+      }
+      throw new Error(`OpenAI-compatible API: ${message}`)
+    }
+
+    return response
+  }
+
+  private async post(path: string, body: unknown): Promise<any> {
+    const response = await this.request(path, body)
+    return response.json()
+  }
+
+  private async complete(messages: OpenAIMessage[], options: GenerationOptions): Promise<string> {
+    const data = await this.post("/chat/completions", {
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      top_p: options.topP,
+      max_tokens: options.maxOutputTokens,
+      ...toResponseFormat(options),
+    })
+
+    const choice = data.choices?.[0]
+    if (choice?.finish_reason === "content_filter") {
+      throw new Error("Response blocked by safety filters")
+    }
+
+    return choice?.message?.content || ""
+  }
+
+  // Reads the server-sent events of a streamed chat completion
+  private async *completeStream(messages: OpenAIMessage[], options: GenerationOptions): AsyncIterable<string> {
+    const response = await this.request("/chat/completions", {
+      model: options.model,
+      messages,
+      temperature: options.temperature,
+      top_p: options.topP,
+      max_tokens: options.maxOutputTokens,
+      ...toResponseFormat(options),
+      stream: true,
+    })
+
+    if (!response.body) {
+      throw new Error("OpenAI-compatible API: empty stream")
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ""
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+
+        buffer += decoder.decode(value, { stream: true })
+        const lines = buffer.split("\n")
+        buffer = lines.pop() || ""
+
+        for (const line of lines) {
+          const data = line.replace(/^data: ?/, "").trim()
+          if (!line.startsWith("data:") || !data || data === "[DONE]") continue
+
+          const choice = JSON.parse(data).choices?.[0]
+          if (choice?.finish_reason === "content_filter") {
+            throw new Error("Response blocked by safety filters")
+          }
+          if (choice?.delta?.content) {
+            yield choice.delta.content
+          }
+        }
+      }
+    } finally {
+      // Stops the upstream request when the consumer leaves early
+      await reader.cancel().catch(() => {})
+    }
+  }
+
+  generate(parts: LLMPart[], options: GenerationOptions): Promise<string> {
+    return this.complete([{ role: "user", content: toContent(parts) }], options)
+  }
+
+  chat(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): Promise<string> {
+    return this.complete(toMessages(history, message), options)
+  }
+
+  chatStream(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): AsyncIterable<string> {
+    return this.completeStream(toMessages(history, message), options)
+  }
+
+  async embed(input: string | LLMPart[], options: EmbeddingOptions): Promise<number[]> {
+    if (typeof input !== "string" && input.some((part) => "inlineData" in part)) {
+      throw new Error("OpenAI-compatible embeddings only accept text input")
+    }
+
+    const text = typeof input === "string" ? input : input.map((part) => ("text" in part ? part.text : "")).join("\n")
+    const data = await this.post("/embeddings", {
+      model: options.model,
+      input: text,
+      ...(options.dimensions ? { dimensions: options.dimensions } : {}),
+    })
+
+    return data.data?.[0]?.embedding || []
+  }
+
+  vision(prompt: string, image: ImageInput, options: GenerationOptions): Promise<string> {
+    return this.generate([{ text: prompt }, { inlineData: image }], options)
+  }
+}
+
+// Structured outputs; strict mode is off because it would require every property to be listed as required
+function toResponseFormat(options: GenerationOptions) {
+  if (!options.responseSchema) {
+    return {}
+  }
+
+  return {
+    response_format: {
+      type: "json_schema",
+      json_schema: { name: "response", schema: options.responseSchema, strict: false },
+    },
+  }
+}
+
+function toMessages(history: LLMMessage[], message: LLMPart[]): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = history.map((msg) => ({
+    role: msg.role === "user" ? "user" : "assistant",
+    content: toContent(msg.parts),
+  }))
+  messages.push({ role: "user", content: toContent(message) })
+  return messages
+}
+
+function toContent(parts: LLMPart[]): OpenAIContent {
+  if (parts.every((part) => "text" in part)) {
+    return parts.map((part) => (part as { text: string }).text).join("\n")
+  }
+
+  return parts.map((part): OpenAIContentPart => {
+    if ("text" in part) {
+      return { type: "text", text: part.text }
+    }
+
+    const url = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`
+    // PDFs (lib/manual-ingestion.ts) go in a file part; image_url only takes images
+    return part.inlineData.mimeType === "application/pdf"
+      ? { type: "file", file: { filename: "document.pdf", file_data: url } }
+      : { type: "image_url", image_url: { url } }
+  })
+}
@@ -0,0 +1,65 @@
+// Provider-neutral types for the LLM layer
+
+export type LLMPart = { text: string } | { inlineData: { data: string; mimeType: string } }
+
+export interface LLMMessage {
+  role: "user" | "model"
+  parts: LLMPart[]
+}
+
+export type SafetyCategory =
+  | "HARM_CATEGORY_HARASSMENT"
+  | "HARM_CATEGORY_HATE_SPEECH"
+  | "HARM_CATEGORY_SEXUALLY_EXPLICIT"
+  | "HARM_CATEGORY_DANGEROUS_CONTENT"
+
+export type SafetyThreshold = "BLOCK_NONE" | "BLOCK_ONLY_HIGH" | "BLOCK_MEDIUM_AND_ABOVE" | "BLOCK_LOW_AND_ABOVE"
+
+export interface SafetySetting {
+  category: SafetyCategory
+  threshold: SafetyThreshold
+}
+
+// Subset of JSON Schema that every provider's structured output mode understands
+export interface JSONSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean"
+  description?: string
+  enum?: string[]
+  items?: JSONSchema
+  properties?: Record<string, JSONSchema>
+  required?: string[]
+}
+
+export interface GenerationOptions {
+  model: string
+  temperature?: number
+  topK?: number
+  topP?: number
+  maxOutputTokens?: number
+  safetySettings?: SafetySetting[]
+  // JSON mode: the response is a JSON document matching this schema
+  responseSchema?: JSONSchema
+}
+
+export interface EmbeddingOptions {
+  model: string
+  dimensions?: number
+}
+
+export interface ImageInput {
+  data: string
+  mimeType: string
+}
+
+export interface LLMProvider {
+  readonly name: string
+  isConfigured(): boolean
+  // Human readable reason when isConfigured() is false
+  configurationError(): string | null
+  generate(parts: LLMPart[], options: GenerationOptions): Promise<string>
+  chat(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): Promise<string>
+  // Same as chat, yielding text chunks as they are generated
+  chatStream(history: LLMMessage[], message: LLMPart[], options: GenerationOptions): AsyncIterable<string>
+  embed(input: string | LLMPart[], options: EmbeddingOptions): Promise<number[]>
+  vision(prompt: string, image: ImageInput, options: GenerationOptions): Promise<string>
+}
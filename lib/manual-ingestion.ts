@@ -0,0 +1,727 @@
+// Manual ingestion: turn a product manual PDF into proposed knowledge base entries for admin review
+// (scripts/create-manual-ingestion.sql).
+//
+// An uploaded PDF is stored in manual_sources and processed a few pages at a time. The model reads the
+// pages straight from the PDF (Gemini and OpenAI both accept PDF input) and transcribes them into
+// manual_pages, then proposes one entry per row of each troubleshooting table in the transcription.
+// Page images are rendered with sharp when libvips was built with PDF support (poppler or PDFium); the
+// prebuilt sharp binaries are not, and the review screen then shows the page from the stored PDF.
+// Nothing reaches rag_documents until a proposal is approved. Approved entries keep the source file and
+// PDF pages (rag_documents.source_file_id, source_pages) and cite the printed page numbers in their text.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import sharp from "sharp"
+import { z } from "zod"
+import { normalizeModelNumber } from "@/lib/device-identification"
+import { embedImage, embedText, toEmbeddingColumns } from "@/lib/embeddings"
+import { getGenerationConfig, getLLMProvider, type JSONSchema, type LLMProvider } from "@/lib/llm"
+import { tryIndexDocumentPassages } from "@/lib/passages"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export type ManualSourceStatus = "pending" | "processing" | "ready" | "failed"
+
+export type ProposalStatus = "pending" | "approved" | "rejected"
+
+export type SeverityLevel = "critical" | "high" | "medium" | "low"
+
+export const SEVERITY_LEVELS: SeverityLevel[] = ["critical", "high", "medium", "low"]
+
+// manual_sources without file_data
+export interface ManualSource {
+  id: string
+  file_name: string
+  file_size: number
+  page_count: number | null
+  processed_pages: number
+  category: string
+  model_numbers: string[]
+  status: ManualSourceStatus
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ManualPage {
+  page_number: number
+  printed_page: string | null
+  text: string
+  has_image: boolean
+}
+
+export interface ManualEntryProposal {
+  id: string
+  source_id: string
+  title: string
+  icon_name: string
+  icon_description: string
+  steps: string[]
+  severity_level: SeverityLevel
+  tags: string[]
+  pages: number[]
+  status: ProposalStatus
+  document_id: string | null
+  reviewed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Reviewer edits applied before approving
+export interface ProposalChanges {
+  title?: string
+  iconName?: string
+  iconDescription?: string
+  steps?: string[]
+  severity?: SeverityLevel
+  tags?: string[]
+}
+
+// Base64 grows by a third and providers cap inline requests at about 20MB
+export const MAX_MANUAL_BYTES = 14 * 1024 * 1024
+
+export const MAX_MANUAL_PAGES = 300
+
+// Pages per model call; the transcription of a batch has to fit in maxOutputTokens
+const PAGES_PER_BATCH = 5
+
+// A processing source whose updated_at is older than this has lost its worker (e.g. the server
+// restarted) and may be retried. Longer than any batch, since every batch bumps updated_at.
+const STALE_WORKER_MS = 10 * 60 * 1000
+
+const PAGE_IMAGE_DENSITY = 110
+const PAGE_IMAGE_EDGE = 1600
+
+const SOURCE_COLUMNS =
+  "id, file_name, file_size, page_count, processed_pages, category, model_numbers, status, last_error, created_at, updated_at"
+
+const transcriptionSchema = z.object({
+  pageCount: z.coerce.number().int().positive().nullable().optional(),
+  pages: z.array(
+    z.object({
+      page: z.coerce.number().int(),
+      printedPage: z.string().nullable().optional(),
+      text: z.string().default(""),
+    }),
+  ),
+})
+
+const TRANSCRIPTION_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    pageCount: { type: "integer" },
+    pages: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          page: { type: "integer" },
+          printedPage: { type: "string" },
+          text: { type: "string" },
+        },
+        required: ["page", "text"],
+      },
+    },
+  },
+  required: ["pages"],
+}
+
+const proposalSchema = z.object({
+  entries: z.array(
+    z.object({
+      title: z.string().trim().min(1),
+      iconName: z.string().trim().default(""),
+      iconDescription: z.string().trim().default(""),
+      steps: z.array(z.string()).default([]),
+      severity: z.string().default("medium"),
+      tags: z.array(z.string()).default([]),
+      pages: z.array(z.coerce.number().int()).default([]),
+    }),
+  ),
+})
+
+const PROPOSAL_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    entries: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          iconName: { type: "string" },
+          iconDescription: { type: "string" },
+          steps: { type: "array", items: { type: "string" } },
+          severity: { type: "string", enum: SEVERITY_LEVELS },
+          tags: { type: "array", items: { type: "string" } },
+          pages: { type: "array", items: { type: "integer" } },
+        },
+        required: ["title", "iconName", "iconDescription", "steps", "severity", "pages"],
+      },
+    },
+  },
+  required: ["entries"],
+}
+
+function transcriptionPrompt(from: number, to: number): string {
+  return `添付のPDFは製品の取扱説明書です。${from}〜${to}ページの本文をページごとに書き起こしてください。
+
+- page: PDFの先頭から数えたページ番号（1から始まります）
+- printedPage: そのページに印刷されているページ番号。印刷されていなければ省略してください
+- text: ページの本文。表は1行ずつ「症状 | 原因 | 対処」のように列を | で区切って書き起こしてください
+- pageCount: PDFの総ページ数
+
+${from}〜${to}ページ以外は含めないでください。PDFが${from}ページより短い場合は pages を空にしてください。`
+}
+
+function proposalPrompt(pages: { page_number: number; text: string }[]): string {
+  return `以下は製品の取扱説明書の書き起こしです。
+「故障かな？と思ったら」「困ったときは」「エラー表示」などの表（症状・原因・対処の表）を探し、表の1行ごとに知識ベースの項目を1件提案してください。
+
+- title: 症状を短く（例: 「カス受けランプが点灯している」）
+- iconName: 関係するランプ・アイコン・表示の名前。なければ部位の名前
+- iconDescription: 症状と原因の説明
+- steps: 対処の手順。1手順1要素で、説明書の表現をそのまま使ってください
+- severity: critical（安全上の危険・使用を中止すべき）, high（使用できない）, medium（一部の機能に支障）, low（お手入れ・軽微な問題）のいずれか
+- tags: 検索用のキーワード（部位、症状、エラーコードなど）
+- pages: その行が書かれているページ（下の「--- ページ N ---」の N）
+
+表以外の説明文からは提案しないでください。該当する表がなければ entries を空にしてください。
+
+${pages.map((page) => `--- ページ ${page.page_number} ---\n${page.text}`).join("\n\n")}`
+}
+
+function parseJSON(text: string): unknown {
+  return JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] || text)
+}
+
+function toSeverity(value: string): SeverityLevel {
+  return SEVERITY_LEVELS.includes(value as SeverityLevel) ? (value as SeverityLevel) : "medium"
+}
+
+function cleanList(values: string[]): string[] {
+  return [...new Set(values.map((value) => value.trim()).filter(Boolean))]
+}
+
+// Whether sharp can rasterize PDF pages in this deployment
+export function canRenderPdfPages(): boolean {
+  return sharp.format.pdf?.input?.buffer === true
+}
+
+// Page objects in the PDF body; null when they are hidden in compressed object streams
+function countPdfPages(pdf: Buffer): number | null {
+  const count = pdf.toString("latin1").match(/\/Type\s*\/Page(?![a-zA-Z])/g)?.length || 0
+  return count > 0 ? count : null
+}
+
+async function readPageCount(pdf: Buffer): Promise<number | null> {
+  if (canRenderPdfPages()) {
+    try {
+      return (await sharp(pdf).metadata()).pages ?? countPdfPages(pdf)
+    } catch (error) {
+      console.warn("[Manual Ingestion] sharp could not read the PDF:", error instanceof Error ? error.message : error)
+    }
+  }
+  return countPdfPages(pdf)
+}
+
+// JPEG of one page (1-based), or null when it cannot be rendered
+async function renderPageImage(pdf: Buffer, page: number): Promise<string | null> {
+  try {
+    const image = await sharp(pdf, { page: page - 1, density: PAGE_IMAGE_DENSITY })
+      .resize(PAGE_IMAGE_EDGE, PAGE_IMAGE_EDGE, { fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: 80 })
+      .toBuffer()
+    return image.toString("base64")
+  } catch (error) {
+    console.warn(`[Manual Ingestion] Page ${page} not rendered:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+export async function createManualSource(
+  input: { fileName: string; data: string; category?: string; modelNumbers?: string[] },
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ManualSource> {
+  const fileName = input.fileName?.trim()
+  if (!fileName) {
+    throw new Error("File name is required")
+  }
+
+  const pdf = Buffer.from((input.data || "").replace(/^data:[^;]+;base64,/, ""), "base64")
+  if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new Error("The file is not a PDF")
+  }
+  if (pdf.length > MAX_MANUAL_BYTES) {
+    throw new Error(`The PDF is larger than ${MAX_MANUAL_BYTES / 1024 / 1024}MB`)
+  }
+
+  const pageCount = await readPageCount(pdf)
+  if (pageCount !== null && pageCount > MAX_MANUAL_PAGES) {
+    throw new Error(`The PDF has ${pageCount} pages (maximum ${MAX_MANUAL_PAGES})`)
+  }
+
+  const { data, error } = await db
+    .from("manual_sources")
+    .insert({
+      file_name: fileName,
+      file_size: pdf.length,
+      file_data: pdf.toString("base64"),
+      page_count: pageCount,
+      category: input.category?.trim() || "general",
+      // Stored normalized like product_models.model_number ("CM-200" -> "CM200"), which scopeToDevice compares against
+      model_numbers: cleanList((input.modelNumbers || []).map(normalizeModelNumber)),
+    })
+    .select(SOURCE_COLUMNS)
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to save the manual: ${error?.message || "no data returned"}`)
+  }
+
+  console.log(`[Manual Ingestion] Stored ${fileName} as ${data.id} (${pageCount ?? "unknown"} pages)`)
+  return data as ManualSource
+}
+
+export async function getManualSource(id: string, db: SupabaseClient = supabaseAdmin): Promise<ManualSource> {
+  const { data, error } = await db.from("manual_sources").select(SOURCE_COLUMNS).eq("id", id).single()
+
+  if (error || !data) {
+    throw new Error(`Manual ${id} not found${error ? `: ${error.message}` : ""}`)
+  }
+
+  return data as ManualSource
+}
+
+export async function listManualSources(limit = 50, db: SupabaseClient = supabaseAdmin): Promise<ManualSource[]> {
+  const { data, error } = await db
+    .from("manual_sources")
+    .select(SOURCE_COLUMNS)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load manuals: ${error.message}`)
+  }
+
+  return (data || []) as ManualSource[]
+}
+
+export async function getManualFile(
+  id: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<{ fileName: string; data: Buffer }> {
+  const { data, error } = await db.from("manual_sources").select("file_name, file_data").eq("id", id).single()
+
+  if (error || !data) {
+    throw new Error(`Manual ${id} not found${error ? `: ${error.message}` : ""}`)
+  }
+
+  return { fileName: data.file_name, data: Buffer.from(data.file_data, "base64") }
+}
+
+export async function listManualPages(sourceId: string, db: SupabaseClient = supabaseAdmin): Promise<ManualPage[]> {
+  const { data, error } = await db
+    .from("manual_pages")
+    .select("page_number, printed_page, text, image_data")
+    .eq("source_id", sourceId)
+    .order("page_number")
+
+  if (error) {
+    throw new Error(`Failed to load manual pages: ${error.message}`)
+  }
+
+  return (data || []).map(({ image_data, ...page }) => ({ ...page, has_image: !!image_data }))
+}
+
+// Base64 JPEG, or null when the page has no image
+export async function getManualPageImage(
+  sourceId: string,
+  page: number,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<string | null> {
+  const { data, error } = await db
+    .from("manual_pages")
+    .select("image_data")
+    .eq("source_id", sourceId)
+    .eq("page_number", page)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return data?.image_data || null
+}
+
+export async function listManualProposals(
+  sourceId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ManualEntryProposal[]> {
+  const { data, error } = await db
+    .from("manual_entry_proposals")
+    .select("*")
+    .eq("source_id", sourceId)
+    .order("pages")
+    .order("created_at")
+
+  if (error) {
+    throw new Error(`Failed to load proposals: ${error.message}`)
+  }
+
+  return (data || []) as ManualEntryProposal[]
+}
+
+// Pages outside [from, to] are dropped; the model sometimes runs past the requested range
+async function transcribePages(pdf: string, from: number, to: number, llm: LLMProvider) {
+  const text = await llm.generate(
+    [{ text: transcriptionPrompt(from, to) }, { inlineData: { data: pdf, mimeType: "application/pdf" } }],
+    { ...getGenerationConfig("manual-ingestion", "transcribe"), responseSchema: TRANSCRIPTION_JSON_SCHEMA },
+  )
+
+  let transcription: z.infer<typeof transcriptionSchema>
+  try {
+    transcription = transcriptionSchema.parse(parseJSON(text))
+  } catch (error) {
+    throw new Error(`Failed to parse pages ${from}-${to}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  return {
+    pageCount: transcription.pageCount ?? null,
+    pages: transcription.pages.filter((page) => page.page >= from && page.page <= to),
+  }
+}
+
+async function proposeEntries(pages: { page_number: number; text: string }[], llm: LLMProvider) {
+  const text = await llm.generate([{ text: proposalPrompt(pages) }], {
+    ...getGenerationConfig("manual-ingestion", "propose"),
+    responseSchema: PROPOSAL_JSON_SCHEMA,
+  })
+
+  let proposal: z.infer<typeof proposalSchema>
+  try {
+    proposal = proposalSchema.parse(parseJSON(text))
+  } catch (error) {
+    throw new Error(`Failed to parse proposed entries: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const pageNumbers = new Set(pages.map((page) => page.page_number))
+  return proposal.entries.map((entry) => {
+    const entryPages = [...new Set(entry.pages)].filter((page) => pageNumbers.has(page)).sort((a, b) => a - b)
+    return {
+      title: entry.title,
+      icon_name: entry.iconName || entry.title,
+      icon_description: entry.iconDescription,
+      steps: cleanList(entry.steps),
+      severity_level: toSeverity(entry.severity),
+      tags: cleanList(entry.tags),
+      // An entry the model could not place is attributed to the whole batch
+      pages: entryPages.length > 0 ? entryPages : [...pageNumbers].sort((a, b) => a - b),
+    }
+  })
+}
+
+async function updateSource(id: string, changes: Partial<ManualSource>, db: SupabaseClient) {
+  const { error } = await db.from("manual_sources").update(changes).eq("id", id)
+  if (error) {
+    throw new Error(`Failed to update manual ${id}: ${error.message}`)
+  }
+}
+
+// Moves the source to status and reports whether this caller did. The update only applies while the
+// source is still as it was read (same status and updated_at), so of concurrent callers exactly one
+// gets to run or retry it.
+async function claimSource(source: ManualSource, status: ManualSourceStatus, db: SupabaseClient): Promise<boolean> {
+  const { data, error } = await db
+    .from("manual_sources")
+    .update({ status, last_error: null })
+    .eq("id", source.id)
+    .eq("status", source.status)
+    .eq("updated_at", source.updated_at)
+    .select("id")
+
+  if (error) {
+    throw new Error(`Failed to update manual ${source.id}: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
+
+// Processes the remaining pages in batches. Progress is saved after each batch, so a failed source
+// continues where it stopped when it is run again. Only a pending or failed source is run, and only
+// by the caller that claims it.
+export async function runManualIngestion(
+  sourceId: string,
+  llm: LLMProvider = getLLMProvider(),
+  db: SupabaseClient = supabaseAdmin,
+): Promise<ManualSource> {
+  const source = await getManualSource(sourceId, db)
+  if (source.status === "ready" || source.status === "processing" || !(await claimSource(source, "processing", db))) {
+    return source
+  }
+
+  try {
+    const file = await getManualFile(sourceId, db)
+    const pdf = file.data.toString("base64")
+    const renderImages = canRenderPdfPages()
+
+    let pageCount = source.page_count
+    let from = source.processed_pages + 1
+
+    while (from <= Math.min(pageCount ?? MAX_MANUAL_PAGES, MAX_MANUAL_PAGES)) {
+      const to = Math.min(from + PAGES_PER_BATCH - 1, pageCount ?? MAX_MANUAL_PAGES, MAX_MANUAL_PAGES)
+      const transcription = await transcribePages(pdf, from, to, llm)
+
+      // Without a count from the PDF structure, trust the model's count, or stop at the first empty batch
+      if (pageCount === null) {
+        pageCount = transcription.pageCount ?? (transcription.pages.length === 0 ? from - 1 : null)
+      }
+
+      const rows = []
+      for (const page of transcription.pages) {
+        rows.push({
+          source_id: sourceId,
+          page_number: page.page,
+          printed_page: page.printedPage?.trim() || null,
+          text: page.text,
+          image_data: renderImages ? await renderPageImage(file.data, page.page) : null,
+        })
+      }
+
+      if (rows.length > 0) {
+        const { error: pageError } = await db.from("manual_pages").upsert(rows, { onConflict: "source_id,page_number" })
+        if (pageError) {
+          throw new Error(`Failed to save pages ${from}-${to}: ${pageError.message}`)
+        }
+      }
+
+      const pagesWithText = rows.filter((row) => row.text.trim())
+      const proposals = pagesWithText.length > 0 ? await proposeEntries(pagesWithText, llm) : []
+      if (proposals.length > 0) {
+        const { error: proposalError } = await db
+          .from("manual_entry_proposals")
+          .insert(proposals.map((proposal) => ({ ...proposal, source_id: sourceId })))
+        if (proposalError) {
+          throw new Error(`Failed to save proposals for pages ${from}-${to}: ${proposalError.message}`)
+        }
+      }
+
+      const processed = pageCount === null ? to : Math.min(to, pageCount)
+      await updateSource(sourceId, { processed_pages: processed, page_count: pageCount }, db)
+      console.log(
+        `[Manual Ingestion] ${source.file_name}: pages ${from}-${processed} of ${pageCount ?? "?"}, ${proposals.length} proposals`,
+      )
+
+      from = to + 1
+    }
+
+    await updateSource(sourceId, { status: "ready", page_count: pageCount ?? from - 1 }, db)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown ingestion error"
+    console.error(`[Manual Ingestion] ${sourceId} failed:`, message)
+    await updateSource(sourceId, { status: "failed", last_error: message }, db)
+  }
+
+  return getManualSource(sourceId, db)
+}
+
+// Back to pending, to continue from the last saved batch. Also restarts sources whose worker died with
+// the server while processing, once they have made no progress for STALE_WORKER_MS. started tells
+// the caller to run the source; it is false when a concurrent retry got there first.
+export async function retryManualIngestion(
+  sourceId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<{ source: ManualSource; started: boolean }> {
+  const source = await getManualSource(sourceId, db)
+  if (source.status !== "failed" && source.status !== "processing") {
+    throw new Error(`Manual ${sourceId} is ${source.status}`)
+  }
+  if (source.status === "processing" && Date.now() - Date.parse(source.updated_at) < STALE_WORKER_MS) {
+    throw new Error(`Manual ${sourceId} is still being processed`)
+  }
+
+  const started = await claimSource(source, "pending", db)
+  return { source: await getManualSource(sourceId, db), started }
+}
+
+// "（出典: manual.pdf 23・24ページ）", with the printed page numbers where the pages have them
+function citation(fileName: string, pages: number[], printedPages: Map<number, string | null>): string {
+  const labels = pages.map((page) => printedPages.get(page) || String(page))
+  return `（出典: ${fileName} ${[...new Set(labels)].join("・")}ページ）`
+}
+
+function entryContent(proposal: ManualEntryProposal, source: string): string {
+  const steps = proposal.steps.map((step, index) => `${index + 1}. ${step}`).join("\n")
+  return [proposal.icon_description, steps, source].filter(Boolean).join("\n\n")
+}
+
+function applyChanges(proposal: ManualEntryProposal, changes: ProposalChanges): ManualEntryProposal {
+  return {
+    ...proposal,
+    title: changes.title?.trim() || proposal.title,
+    icon_name: changes.iconName?.trim() || proposal.icon_name,
+    icon_description: changes.iconDescription?.trim() ?? proposal.icon_description,
+    steps: changes.steps ? cleanList(changes.steps) : proposal.steps,
+    severity_level: changes.severity ? toSeverity(changes.severity) : proposal.severity_level,
+    tags: changes.tags ? cleanList(changes.tags) : proposal.tags,
+  }
+}
+
+async function getProposal(id: string, db: SupabaseClient): Promise<ManualEntryProposal> {
+  const { data, error } = await db.from("manual_entry_proposals").select("*").eq("id", id).single()
+
+  if (error || !data) {
+    throw new Error(`Proposal ${id} not found${error ? `: ${error.message}` : ""}`)
+  }
+
+  return data as ManualEntryProposal
+}
+
+// Inserts the (edited) proposal into rag_documents. The first cited page with an image is embedded as
+// the entry's image; without one the entry text is embedded, as re-embedding jobs do for text-only rows.
+// The proposal is marked approved before the document is inserted, conditional on the status it was
+// read with, so approving twice never creates two documents. A failed insert puts the status back.
+export async function approveProposal(
+  id: string,
+  changes: ProposalChanges = {},
+  db: SupabaseClient = supabaseAdmin,
+): Promise<{ proposal: ManualEntryProposal; documentId: string }> {
+  const proposal = applyChanges(await getProposal(id, db), changes)
+  if (proposal.status === "approved") {
+    throw new Error(`Proposal ${id} is already approved`)
+  }
+
+  const { data: claimed, error: claimError } = await db
+    .from("manual_entry_proposals")
+    .update({ status: "approved", reviewed_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", proposal.status)
+    .select("id")
+
+  if (claimError) {
+    throw new Error(`Failed to approve proposal ${id}: ${claimError.message}`)
+  }
+  if (!claimed || claimed.length === 0) {
+    throw new Error(`Proposal ${id} is already approved`)
+  }
+
+  let document: { id: string }
+  try {
+    document = await insertProposalDocument(proposal, db)
+  } catch (error) {
+    await db.from("manual_entry_proposals").update({ status: proposal.status }).eq("id", id)
+    throw error
+  }
+
+  const { data: updated, error: updateError } = await db
+    .from("manual_entry_proposals")
+    .update({
+      title: proposal.title,
+      icon_name: proposal.icon_name,
+      icon_description: proposal.icon_description,
+      steps: proposal.steps,
+      severity_level: proposal.severity_level,
+      tags: proposal.tags,
+      status: "approved",
+      document_id: document.id,
+      reviewed_at: new Date().toISOString(),
+    })
+    .eq("id", id)
+    .select()
+    .single()
+
+  if (updateError || !updated) {
+    throw new Error(`Document ${document.id} created, but the proposal was not updated: ${updateError?.message}`)
+  }
+
+  console.log(`[Manual Ingestion] Proposal ${id} approved as document ${document.id}`)
+  return { proposal: updated as ManualEntryProposal, documentId: document.id }
+}
+
+// Embeds the proposal and inserts it into rag_documents, keeping the cited page image for re-embedding
+async function insertProposalDocument(proposal: ManualEntryProposal, db: SupabaseClient) {
+  const source = await getManualSource(proposal.source_id, db)
+  const { data: pages, error: pageError } = await db
+    .from("manual_pages")
+    .select("page_number, printed_page, image_data")
+    .eq("source_id", source.id)
+    .in("page_number", proposal.pages)
+    .order("page_number")
+
+  if (pageError) {
+    throw new Error(`Failed to load pages: ${pageError.message}`)
+  }
+
+  const printedPages = new Map((pages || []).map((page) => [page.page_number as number, page.printed_page]))
+  const content = entryContent(proposal, citation(source.file_name, proposal.pages, printedPages))
+  const pageImage = (pages || []).find((page) => page.image_data)
+
+  const embedding = pageImage
+    ? await embedImage(pageImage.image_data, "image/jpeg")
+    : await embedText([proposal.title, proposal.icon_description, content].filter(Boolean).join("\n"))
+
+  const { data: document, error } = await db
+    .from("rag_documents")
+    .insert({
+      title: proposal.title,
+      content,
+      icon_name: proposal.icon_name,
+      icon_description: proposal.icon_description || proposal.title,
+      category: source.category,
+      tags: proposal.tags,
+      severity_level: proposal.severity_level,
+      ...(source.model_numbers.length > 0 ? { model_numbers: cleanList(source.model_numbers.map(normalizeModelNumber)) } : {}),
+      ...toEmbeddingColumns(embedding),
+      source: "manual_import",
+      source_file_id: source.id,
+      source_pages: proposal.pages,
+      is_active: true,
+      metadata: {
+        source_file_name: source.file_name,
+        printed_pages: proposal.pages.map((page) => printedPages.get(page) || null),
+        proposal_id: proposal.id,
+        registration_timestamp: new Date().toISOString(),
+      },
+    })
+    .select()
+    .single()
+
+  if (error || !document) {
+    throw new Error(`Database insertion failed: ${error?.message || "no data returned"}`)
+  }
+
+  // Keep the page image so the entry can be re-embedded when the embedding model changes
+  if (pageImage) {
+    const { error: sourceError } = await db.from("rag_document_sources").insert({
+      document_id: document.id,
+      image_data: pageImage.image_data,
+      mime_type: "image/jpeg",
+    })
+    if (sourceError) {
+      console.warn(`[Manual Ingestion] Source image not stored for ${document.id}:`, sourceError.message)
+    }
+  }
+
+  await tryIndexDocumentPassages(document)
+  return document
+}
+
+export async function rejectProposal(id: string, db: SupabaseClient = supabaseAdmin): Promise<ManualEntryProposal> {
+  const proposal = await getProposal(id, db)
+  if (proposal.status === "approved") {
+    throw new Error(`Proposal ${id} is already approved`)
+  }
+
+  const { data, error } = await db
+    .from("manual_entry_proposals")
+    .update({ status: "rejected", reviewed_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", proposal.status)
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to reject proposal ${id}: ${error?.message || "no data returned"}`)
+  }
+
+  return data as ManualEntryProposal
+}
@@ -1,5 +1,7 @@
 // Utility functions for multimodal RAG system
 
+import { extractErrorCodes } from "@/lib/error-codes"
+
 export interface RAGDocument {
   id: string
   title: string
@@ -125,6 +127,9 @@ export function extractVisualIndicators(imageAnalysis: string): string[] {
     }
   })
 
+  // Codes on the display ("the display shows E01") as error_code_E01, matching the error_codes registry
+  indicators.push(...extractErrorCodes(imageAnalysis).map((code) => `error_code_${code}`))
+
   return [...new Set(indicators)] // Remove duplicates
 }
 
@@ -0,0 +1,163 @@
+// Passages: document content split into chunks with their own text embeddings
+// (rag_document_passages, scripts/create-document-passages.sql).
+//
+// Passages are cut at sentence ends and preferably at blank lines, so a step list or a table row is not
+// split in the middle. Each passage is embedded together with its document title, which tells a
+// passage like "3分待ってから再度お試しください" which device and issue it belongs to. Passages are
+// stored per embedding model; indexing a document replaces only the passages of that model.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { embedText, getActiveEmbeddingModel, type EmbeddingModelSpec } from "@/lib/embeddings"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export interface PassageChunk {
+  index: number
+  content: string
+  // Offsets into the document content
+  charStart: number
+  charEnd: number
+}
+
+// Large enough for a few steps of a procedure, small enough that several fit in the prompt
+export const PASSAGE_MAX_CHARS = 600
+
+// Sentences, with the newlines that follow them
+const SENTENCE_PATTERN = /[^。！？!?\n]*(?:[。！？!?]+[ \t]*\n*|\n+|$)/g
+
+function sentenceUnits(content: string, maxChars: number) {
+  const units: { start: number; end: number; paragraphEnd: boolean }[] = []
+  for (const match of content.matchAll(SENTENCE_PATTERN)) {
+    if (!match[0]) continue
+
+    const start = match.index!
+    const end = start + match[0].length
+    // Sentences longer than a passage are cut into passage-sized pieces
+    for (let pieceStart = start; pieceStart < end; pieceStart += maxChars) {
+      units.push({ start: pieceStart, end: Math.min(end, pieceStart + maxChars), paragraphEnd: false })
+    }
+    units[units.length - 1].paragraphEnd = /\n\s*\n\s*$/.test(match[0])
+  }
+  return units
+}
+
+export function splitIntoPassages(content: string, maxChars = PASSAGE_MAX_CHARS): PassageChunk[] {
+  const passages: PassageChunk[] = []
+  const push = (start: number, end: number) => {
+    const text = content.slice(start, end)
+    const trimmed = text.trim()
+    if (trimmed) {
+      const charStart = start + (text.length - text.trimStart().length)
+      passages.push({ index: passages.length, content: trimmed, charStart, charEnd: charStart + trimmed.length })
+    }
+  }
+
+  let start = -1
+  let end = -1
+  for (const unit of sentenceUnits(content, maxChars)) {
+    if (start >= 0 && unit.end - start > maxChars) {
+      push(start, end)
+      start = -1
+    }
+    if (start < 0) {
+      start = unit.start
+    }
+    end = unit.end
+
+    // A blank line ends the passage once it is reasonably full
+    if (unit.paragraphEnd && end - start >= maxChars / 2) {
+      push(start, end)
+      start = -1
+    }
+  }
+  if (start >= 0) {
+    push(start, end)
+  }
+
+  return passages
+}
+
+// Splits and embeds the document, then replaces its passages for the model. Returns the passage count.
+export async function indexDocumentPassages(
+  document: { id: string; title?: string | null; content: string | null },
+  spec?: EmbeddingModelSpec,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<number> {
+  spec = spec || (await getActiveEmbeddingModel())
+  const chunks = splitIntoPassages(document.content || "")
+
+  // One at a time: providers rate-limit embedding calls and manuals can have dozens of passages
+  const rows = []
+  for (const chunk of chunks) {
+    const embedding = await embedText([document.title, chunk.content].filter(Boolean).join("\n"), spec)
+    rows.push({
+      document_id: document.id,
+      passage_index: chunk.index,
+      content: chunk.content,
+      char_start: chunk.charStart,
+      char_end: chunk.charEnd,
+      embedding: embedding.vector,
+      embedding_model: embedding.model,
+      embedding_dim: embedding.dimensions,
+    })
+  }
+
+  const { error: deleteError } = await db
+    .from("rag_document_passages")
+    .delete()
+    .eq("document_id", document.id)
+    .eq("embedding_model", spec.id)
+  if (deleteError) {
+    throw new Error(`Failed to replace passages: ${deleteError.message}`)
+  }
+
+  if (rows.length > 0) {
+    const { error } = await db.from("rag_document_passages").insert(rows)
+    if (error) {
+      throw new Error(`Failed to save passages: ${error.message}`)
+    }
+  }
+
+  console.log(`[Passages] Indexed ${rows.length} passages of ${document.id} with ${spec.id}`)
+  return rows.length
+}
+
+// For registration routes: a document is usable without passages, so failures are only logged
+export async function tryIndexDocumentPassages(document: { id: string; title?: string | null; content: string | null }) {
+  try {
+    await indexDocumentPassages(document)
+  } catch (error) {
+    console.error(`[Passages] Failed to index ${document.id}:`, error instanceof Error ? error.message : error)
+  }
+}
+
+// Indexes up to limit documents that have no passages for the model yet (new rows, or all rows after
+// the embedding model changed)
+export async function indexMissingPassages(
+  limit = 20,
+  spec?: EmbeddingModelSpec,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<{ model: string; indexed: number; passages: number; failed: { id: string; error: string }[] }> {
+  spec = spec || (await getActiveEmbeddingModel())
+
+  const { data, error } = await db.rpc("documents_without_passages", {
+    p_embedding_model: spec.id,
+    p_limit: limit,
+  })
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  let indexed = 0
+  let passages = 0
+  const failed: { id: string; error: string }[] = []
+  for (const document of (data || []) as { id: string; title: string | null; content: string }[]) {
+    try {
+      passages += await indexDocumentPassages(document, spec, db)
+      indexed++
+    } catch (error) {
+      failed.push({ id: document.id, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  return { model: spec.id, indexed, passages, failed }
+}
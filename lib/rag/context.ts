@@ -0,0 +1,240 @@
+// Structured context extracted from the image: the schema the model must answer with,
+// plus the validation and repair applied to what it actually returns
+
+import { z } from "zod"
+import type { RegionOfInterest } from "@/lib/image-preprocessing"
+import type { JSONSchema } from "@/lib/llm"
+
+export const PRIMARY_CATEGORIES = [
+  "coffee_maker",
+  "maintenance",
+  "troubleshooting",
+  "safety",
+  "cleaning",
+  "parts",
+  "indicators",
+  "water_system",
+  "brewing",
+  "electrical",
+  "mechanical",
+  "general",
+] as const
+
+export const URGENCY_LEVELS = ["low", "medium", "high", "critical"] as const
+
+// Where an entry of visualIndicators is in the image. box2d is [ymin, xmin, ymax, xmax] scaled to
+// 0-1000, the convention vision models are trained to answer with.
+export const indicatorLocationSchema = z.object({
+  label: z.string(),
+  box2d: z.array(z.number().min(0).max(1000)).length(4),
+})
+
+export type IndicatorLocation = z.infer<typeof indicatorLocationSchema>
+
+export const extractedContextSchema = z.object({
+  primaryCategory: z.enum(PRIMARY_CATEGORIES),
+  detectedIssues: z.array(z.string()),
+  visualIndicators: z.array(z.string()),
+  indicatorLocations: z.array(indicatorLocationSchema).default([]),
+  // Codes read off the display as shown ("E01", "H3"), matched against the error_codes registry
+  errorCodes: z.array(z.string()).default([]),
+  urgencyLevel: z.enum(URGENCY_LEVELS),
+  keywords: z.array(z.string()),
+  deviceType: z.string().optional(),
+  // Read off the rating label or front panel when visible, matched against product_models
+  brand: z.string().optional(),
+  modelNumber: z.string().optional(),
+  problemType: z.string().optional(),
+})
+
+export type ExtractedContext = z.infer<typeof extractedContextSchema>
+
+const INDICATOR_LOCATION_LIST_SCHEMA: JSONSchema = {
+  type: "array",
+  items: {
+    type: "object",
+    properties: {
+      label: { type: "string" },
+      box2d: { type: "array", items: { type: "number" } },
+    },
+    required: ["label", "box2d"],
+  },
+}
+
+// Response schema when locations are asked for on their own (lib/rag/extract.ts locateVisualIndicators)
+export const INDICATOR_LOCATIONS_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: { indicatorLocations: INDICATOR_LOCATION_LIST_SCHEMA },
+  required: ["indicatorLocations"],
+}
+
+// Same shape as extractedContextSchema, sent to the model as its JSON-mode response schema
+export const EXTRACTED_CONTEXT_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    primaryCategory: { type: "string", enum: [...PRIMARY_CATEGORIES] },
+    detectedIssues: { type: "array", items: { type: "string" } },
+    visualIndicators: { type: "array", items: { type: "string" } },
+    indicatorLocations: INDICATOR_LOCATION_LIST_SCHEMA,
+    errorCodes: { type: "array", items: { type: "string" } },
+    urgencyLevel: { type: "string", enum: [...URGENCY_LEVELS] },
+    keywords: { type: "array", items: { type: "string" } },
+    deviceType: { type: "string" },
+    brand: { type: "string" },
+    modelNumber: { type: "string" },
+    problemType: { type: "string" },
+  },
+  required: ["primaryCategory", "detectedIssues", "visualIndicators", "urgencyLevel", "keywords"],
+}
+
+// Words models commonly use instead of the urgency enum values
+const URGENCY_ALIASES: Record<string, ExtractedContext["urgencyLevel"]> = {
+  低: "low",
+  minor: "low",
+  中: "medium",
+  moderate: "medium",
+  normal: "medium",
+  高: "high",
+  urgent: "high",
+  緊急: "critical",
+  severe: "critical",
+}
+
+export type ContextParseResult =
+  | { success: true; context: ExtractedContext; repaired: boolean }
+  | { success: false; error: string }
+
+// Pulls the JSON object out of a response that may be wrapped in prose or a code fence
+function parseJSONObject(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    const jsonMatch = text.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) {
+      throw new Error("JSON not found in response")
+    }
+    return JSON.parse(jsonMatch[0])
+  }
+}
+
+function toStringList(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value
+      .split(/[,、\n]/)
+      .map((item) => item.trim())
+      .filter(Boolean)
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item) => item !== null && item !== undefined).map(String)
+  }
+  return value ?? []
+}
+
+function toEnumValue(value: unknown, allowed: readonly string[], aliases: Record<string, string> = {}): unknown {
+  if (typeof value !== "string") {
+    return value
+  }
+  const normalized = value.trim().toLowerCase().replace(/[\s-]+/g, "_")
+  return allowed.includes(normalized) ? normalized : aliases[normalized] ?? value
+}
+
+// Keeps well-formed locations only, clamped to 0-1000 with min before max; a bad box should not
+// cost the whole context
+function toLocationList(value: unknown): IndicatorLocation[] {
+  if (!Array.isArray(value)) {
+    return []
+  }
+
+  return value.flatMap((item) => {
+    const box = Array.isArray(item?.box2d) ? item.box2d.map(Number) : []
+    if (typeof item?.label !== "string" || box.length !== 4 || !box.every(Number.isFinite)) {
+      return []
+    }
+    const [y0, x0, y1, x1] = box.map((value: number) => Math.min(Math.max(value, 0), 1000))
+    return [{ label: item.label, box2d: [Math.min(y0, y1), Math.min(x0, x1), Math.max(y0, y1), Math.max(x0, x1)] }]
+  })
+}
+
+// Fixes the mistakes models make most often: lists given as strings, enum values in the wrong case
+// or as synonyms, and categories outside the list (mapped to "general")
+function repairContext(value: unknown): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return value
+  }
+
+  const raw = value as Record<string, unknown>
+  const primaryCategory = toEnumValue(raw.primaryCategory, PRIMARY_CATEGORIES)
+
+  return {
+    ...raw,
+    primaryCategory:
+      typeof primaryCategory === "string" && !PRIMARY_CATEGORIES.includes(primaryCategory as any)
+        ? "general"
+        : primaryCategory,
+    detectedIssues: toStringList(raw.detectedIssues),
+    visualIndicators: toStringList(raw.visualIndicators),
+    indicatorLocations: toLocationList(raw.indicatorLocations),
+    errorCodes: toStringList(raw.errorCodes),
+    urgencyLevel: toEnumValue(raw.urgencyLevel, URGENCY_LEVELS, URGENCY_ALIASES),
+    keywords: toStringList(raw.keywords),
+    deviceType: raw.deviceType ?? undefined,
+    brand: raw.brand ?? undefined,
+    modelNumber: raw.modelNumber ?? undefined,
+    problemType: raw.problemType ?? undefined,
+  }
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`).join("; ")
+}
+
+// Validates a model response against the schema, repairing it once before giving up
+export function parseExtractedContext(text: string): ContextParseResult {
+  let value: unknown
+  try {
+    value = parseJSONObject(text)
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) }
+  }
+
+  const parsed = extractedContextSchema.safeParse(value)
+  if (parsed.success) {
+    return { success: true, context: parsed.data, repaired: false }
+  }
+
+  const repaired = extractedContextSchema.safeParse(repairContext(value))
+  if (repaired.success) {
+    return { success: true, context: repaired.data, repaired: true }
+  }
+
+  return { success: false, error: describeIssues(repaired.error) }
+}
+
+// Locations answered on their own (generic pipeline), as { indicatorLocations: [...] }
+export function parseIndicatorLocations(text: string): IndicatorLocation[] {
+  const value = parseJSONObject(text) as Record<string, unknown> | null
+  return toLocationList(value?.indicatorLocations)
+}
+
+// An indicator location as fractions (0-1) of the full image, for drawing overlays
+export interface IndicatorBox {
+  label: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Locations found on an ROI crop are mapped back onto the full image
+export function toIndicatorBoxes(locations: IndicatorLocation[], region?: RegionOfInterest): IndicatorBox[] {
+  const frame = region || { x: 0, y: 0, width: 1, height: 1 }
+  return locations
+    .filter(({ box2d: [ymin, xmin, ymax, xmax] }) => ymax > ymin && xmax > xmin)
+    .map(({ label, box2d: [ymin, xmin, ymax, xmax] }) => ({
+      label,
+      x: frame.x + (xmin / 1000) * frame.width,
+      y: frame.y + (ymin / 1000) * frame.height,
+      width: ((xmax - xmin) / 1000) * frame.width,
+      height: ((ymax - ymin) / 1000) * frame.height,
+    }))
+}
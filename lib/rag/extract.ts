@@ -0,0 +1,246 @@
+// Extract stages: turn the uploaded image into something retrieval and generation can use
+
+import { getProductModel, matchProductModel, type DeviceIdentification } from "@/lib/device-identification"
+import { assessImageQuality } from "@/lib/image-quality"
+import { describeIndicatorStates } from "@/lib/indicator-states"
+import type { GenerationOptions, LLMMessage } from "@/lib/llm"
+import {
+  EXTRACTED_CONTEXT_JSON_SCHEMA,
+  INDICATOR_LOCATIONS_JSON_SCHEMA,
+  parseExtractedContext,
+  parseIndicatorLocations,
+  toIndicatorBoxes,
+} from "./context"
+import { focusImage } from "./pipeline"
+import {
+  buildContextExtractionPrompt,
+  buildContextRepairPrompt,
+  buildIndicatorLocationPrompt,
+  type PromptLoader,
+} from "./prompts"
+import { PipelineError, type ExtractedContext, type PipelineStage, type PipelineState } from "./types"
+
+export function fallbackContext(userPrompt?: string): ExtractedContext {
+  return {
+    primaryCategory: "general",
+    detectedIssues: [],
+    visualIndicators: [],
+    indicatorLocations: [],
+    errorCodes: [],
+    urgencyLevel: "medium",
+    keywords: userPrompt ? userPrompt.split(" ").filter((word) => word.length > 2) : [],
+    deviceType: "unknown",
+    problemType: "unknown",
+  }
+}
+
+// Space separated terms for keyword and hybrid search
+export function buildSearchText(context: ExtractedContext): string {
+  return [
+    ...context.keywords,
+    ...context.detectedIssues,
+    ...context.visualIndicators,
+    context.deviceType,
+    context.problemType,
+  ]
+    .filter(Boolean)
+    .join(" ")
+}
+
+// Quality gate run before the first model call. A poor image fails with status 422 and the
+// assessment as details, so the client can show retake guidance; the scores are logged either way.
+// A selected region is assessed as a crop of the full image (see assessImageQuality).
+export function checkImageQuality(): PipelineStage {
+  return async (state) => {
+    let assessment
+    try {
+      const { image, roi } = state.input
+      assessment = roi
+        ? await assessImageQuality(roi.image.data, { fullImageBase64: image.data })
+        : await assessImageQuality(image.data)
+    } catch (error) {
+      // An image sharp cannot read is left to the model rather than rejected
+      console.warn("[Image Quality] Assessment failed, continuing without it:", error)
+      return
+    }
+
+    console.log(`[Image Quality] ${assessment.passed ? "passed" : "failed"}:`, assessment.scores)
+    const imageQuality = { ...assessment, skipped: !assessment.passed && !!state.input.skipQualityCheck }
+
+    if (!assessment.passed && !state.input.skipQualityCheck) {
+      throw new PipelineError(
+        assessment.issues.map((issue) => issue.guidance).join("\n"),
+        "extract",
+        422,
+        { imageQuality },
+      )
+    }
+
+    return { metadata: { ...state.metadata, imageQuality } }
+  }
+}
+
+// Asks the model for an ExtractedContext in JSON mode and validates it against the schema.
+// Invalid answers are repaired when possible, otherwise sent back to the model with the validation
+// error up to maxRetries times; only then does the stage fall back to a generic context.
+// The outcome is kept in metadata.contextExtraction so the logs record the failure rate.
+export function extractStructuredContext(options: { config: () => GenerationOptions; maxRetries?: number }): PipelineStage {
+  const maxRetries = options.maxRetries ?? 1
+
+  return async (state, { llm }) => {
+    const { userPrompt, indicators = [] } = state.input
+    const image = focusImage(state.input)
+    const config = { ...options.config(), responseSchema: EXTRACTED_CONTEXT_JSON_SCHEMA }
+    const prompt = buildContextExtractionPrompt(userPrompt, describeIndicatorStates(indicators))
+    const errors: string[] = []
+    let history: LLMMessage[] = []
+    let context: ExtractedContext | null = null
+    let repaired = false
+    let attempts = 0
+
+    while (!context && attempts <= maxRetries) {
+      attempts++
+
+      try {
+        const contextText =
+          history.length === 0
+            ? await llm.vision(prompt, image, config)
+            : await llm.chat(history, [{ text: buildContextRepairPrompt(errors[errors.length - 1]) }], config)
+        console.log(`[Context Extraction] Raw response (attempt ${attempts}): ${contextText}`)
+
+        const result = parseExtractedContext(contextText)
+        if (result.success) {
+          context = result.context
+          repaired = result.repaired
+        } else {
+          errors.push(result.error)
+          history = [
+            ...(history.length > 0 ? history : [{ role: "user" as const, parts: [{ text: prompt }, { inlineData: image }] }]),
+            { role: "model", parts: [{ text: contextText }] },
+          ]
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    const status = !context ? "fallback" : attempts > 1 ? "retried" : repaired ? "repaired" : "valid"
+    if (context) {
+      console.log(`[Context Extraction] Parsed context (${status}):`, context)
+    } else {
+      console.error(`[Context Extraction] No valid context after ${attempts} attempts:`, errors)
+      context = fallbackContext(userPrompt)
+    }
+
+    return {
+      context,
+      searchText: buildSearchText(context),
+      metadata: {
+        ...state.metadata,
+        contextExtraction: { status, attempts, errors },
+        indicatorBoxes: toIndicatorBoxes(context.indicatorLocations, state.input.roi?.region),
+      },
+    }
+  }
+}
+
+// Free-text analysis of the image with a prompt loaded from the database
+export function analyzeImage(options: {
+  prompt: PromptLoader
+  config: () => GenerationOptions
+  missingPromptError?: string
+}): PipelineStage {
+  return async (state, env) => {
+    const loaded = await options.prompt(state.input, env)
+    if (!loaded) {
+      throw new PipelineError(options.missingPromptError || "Could not retrieve analysis prompt from database.", "extract")
+    }
+
+    console.log(`[Analysis] Analyzing image with ${env.llm.name} (${loaded.source} prompt)`)
+    const analysis = await env.llm.vision(loaded.prompt, focusImage(state.input), options.config())
+
+    return { analysis, metadata: { ...state.metadata, configSource: loaded.source } }
+  }
+}
+
+// Bounding boxes for the indicators a free-text analysis mentions, in metadata.indicatorBoxes.
+// Only used to draw overlays, so a failure leaves the boxes out instead of failing the request.
+export function locateVisualIndicators(options: { config: () => GenerationOptions }): PipelineStage {
+  return async (state, { llm }) => {
+    if (!state.analysis) {
+      return
+    }
+
+    try {
+      const text = await llm.vision(buildIndicatorLocationPrompt(state.analysis), focusImage(state.input), {
+        ...options.config(),
+        responseSchema: INDICATOR_LOCATIONS_JSON_SCHEMA,
+      })
+      const locations = parseIndicatorLocations(text)
+      console.log(`[Indicator Locations] Located ${locations.length} indicators`)
+      return { metadata: { ...state.metadata, indicatorBoxes: toIndicatorBoxes(locations, state.input.roi?.region) } }
+    } catch (error) {
+      console.warn("[Indicator Locations] Failed, continuing without boxes:", error)
+    }
+  }
+}
+
+// The product model the request is about, in metadata.device: the user's registered device first,
+// then the model they confirmed or picked, else the catalog entry matching the brand and model number
+// read into the structured context. A registered device also replaces what was read into the context,
+// since the user knows their appliance better than a label read from a frame.
+// It only narrows retrieval, so a catalog error is logged and the request continues unscoped.
+export function resolveDevice(): PipelineStage {
+  return async (state, { db }) => {
+    const { registeredDevice, productModelId } = state.input
+    const label = registeredDevice
+      ? {
+          brand: registeredDevice.product_model?.brand || state.context?.brand || null,
+          modelNumber: registeredDevice.model_number || registeredDevice.product_model?.model_number || null,
+          serialNumber: registeredDevice.serial_number,
+        }
+      : { brand: state.context?.brand || null, modelNumber: state.context?.modelNumber || null, serialNumber: null }
+
+    try {
+      let device: DeviceIdentification | null = null
+      if (registeredDevice?.product_model) {
+        device = { label, model: registeredDevice.product_model, match: "registered" }
+      } else if (productModelId) {
+        const model = await getProductModel(productModelId, db)
+        device = { label, model, match: model ? "selected" : null }
+      } else if (label.modelNumber) {
+        device = { label, ...(await matchProductModel(label, db)) }
+      }
+
+      if (!device) {
+        return
+      }
+      console.log(
+        device.model
+          ? `[Device] ${device.model.display_name} (${device.match})`
+          : `[Device] No catalog entry for ${label.modelNumber || productModelId}`,
+      )
+
+      const metadata = { ...state.metadata, device }
+      if (!registeredDevice || !state.context) {
+        return { metadata }
+      }
+
+      const context: ExtractedContext = {
+        ...state.context,
+        brand: label.brand || undefined,
+        modelNumber: label.modelNumber || undefined,
+        deviceType: device.model?.product_type || state.context.deviceType,
+      }
+      return { context, searchText: buildSearchText(context), metadata }
+    } catch (error) {
+      console.warn("[Device] Identification failed, continuing without it:", error)
+    }
+  }
+}
+
+// Product type of the model resolveDevice found, if any
+export function identifiedProductType(state: PipelineState): string | null {
+  const productType = (state.metadata.device as DeviceIdentification | undefined)?.model?.product_type
+  return productType && productType !== "general" ? productType : null
+}
@@ -0,0 +1,106 @@
+// Score fusion for hybrid search: combines the vector and full-text rankings of the candidates
+// returned by search_hybrid_candidates (scripts/create-hybrid-search-candidates.sql).
+//
+// Cosine similarity and ts_rank live on different scales, so they are never added directly.
+// "rrf" (reciprocal rank fusion) only uses each source's rank; "minmax" rescales each source's scores
+// to 0..1 over the candidates before weighting them. Both produce a fused score in 0..1, so it can
+// stand in for relevance_score next to the other retrieval methods.
+
+export type FusionStrategy = "rrf" | "minmax"
+
+export const FUSION_STRATEGIES: FusionStrategy[] = ["rrf", "minmax"]
+
+// Constant from the original RRF paper; larger values flatten the difference between top ranks
+export const DEFAULT_RRF_K = 60
+
+export interface HybridCandidate {
+  id: string
+  vector_score: number | null
+  vector_rank: number | null
+  text_score: number | null
+  text_rank: number | null
+  [column: string]: any
+}
+
+// A source's raw score and 1-based rank for one document, or null when the source did not find it
+export interface SourceScore {
+  score: number
+  rank: number
+}
+
+// Why a document was chosen, kept on the document as hybrid_scores
+export interface HybridScores {
+  strategy: FusionStrategy
+  vector: SourceScore | null
+  text: SourceScore | null
+  fused: number
+}
+
+export interface FusionOptions {
+  strategy: FusionStrategy
+  vectorWeight: number
+  textWeight: number
+  rrfK?: number
+}
+
+function sourceScore(score: number | null, rank: number | null): SourceScore | null {
+  return score === null || rank === null ? null : { score, rank }
+}
+
+function rrfScore(source: SourceScore | null, k: number): number {
+  return source ? 1 / (k + source.rank) : 0
+}
+
+// Rescales to 0..1 over the candidates of one source; a source whose scores are all equal counts as 1
+function minMaxScaler(values: number[]): (value: number) => number {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  return (value) => (max > min ? (value - min) / (max - min) : 1)
+}
+
+// Falls back to "rrf" for unknown names, e.g. a mistyped RAG_HYBRID_FUSION
+export function toFusionStrategy(value: string | null | undefined): FusionStrategy {
+  return FUSION_STRATEGIES.includes(value as FusionStrategy) ? (value as FusionStrategy) : "rrf"
+}
+
+// Scores every candidate and returns them best first (ties keep the candidate order)
+export function fuseCandidates<T extends HybridCandidate>(
+  candidates: T[],
+  options: FusionOptions,
+): (T & { hybrid_scores: HybridScores })[] {
+  const totalWeight = options.vectorWeight + options.textWeight
+  if (candidates.length === 0 || totalWeight <= 0) {
+    return []
+  }
+
+  const k = options.rrfK ?? DEFAULT_RRF_K
+  const scaleVector = minMaxScaler(candidates.flatMap((c) => (c.vector_score === null ? [] : [c.vector_score])))
+  const scaleText = minMaxScaler(candidates.flatMap((c) => (c.text_score === null ? [] : [c.text_score])))
+
+  return candidates
+    .map((candidate) => {
+      const vector = sourceScore(candidate.vector_score, candidate.vector_rank)
+      const text = sourceScore(candidate.text_score, candidate.text_rank)
+
+      // RRF is divided by its maximum (rank 1 in both sources) to land in 0..1
+      const fused =
+        options.strategy === "rrf"
+          ? (options.vectorWeight * rrfScore(vector, k) + options.textWeight * rrfScore(text, k)) /
+            (totalWeight / (k + 1))
+          : (options.vectorWeight * (vector ? scaleVector(vector.score) : 0) +
+              options.textWeight * (text ? scaleText(text.score) : 0)) /
+            totalWeight
+
+      return { ...candidate, hybrid_scores: { strategy: options.strategy, vector, text, fused } }
+    })
+    .sort((a, b) => b.hybrid_scores.fused - a.hybrid_scores.fused)
+}
+
+// "vector #2 (0.81), text #1 (0.12)" for logs and tooltips
+export function describeHybridScores(scores: HybridScores): string {
+  const sources = [
+    scores.vector ? `vector #${scores.vector.rank} (${scores.vector.score.toFixed(3)})` : "vector -",
+    scores.text ? `text #${scores.text.rank} (${scores.text.score.toFixed(3)})` : "text -",
+  ]
+  return `${scores.strategy} ${scores.fused.toFixed(3)}: ${sources.join(", ")}`
+}
@@ -0,0 +1,85 @@
+// Generate stage: build the final prompt, ask the model for the answer and resolve its citations
+
+import { citedNumbers, removeInvalidCitations, type Citation, type CitationSource } from "@/lib/citations"
+import type { GenerationOptions, LLMPart } from "@/lib/llm"
+import { throwIfAborted } from "./pipeline"
+import type { PipelineEnv, PipelineStage, PipelineState } from "./types"
+
+export type PromptBuilder = (state: PipelineState, env: PipelineEnv) => Promise<string> | string
+
+export function generateResponse(options: {
+  prompt: PromptBuilder
+  config: () => GenerationOptions
+  // Send the image again alongside the prompt, plus the ROI crop when there is one
+  includeImage?: boolean
+}): PipelineStage {
+  return async (state, env) => {
+    const parts: LLMPart[] = [{ text: await options.prompt(state, env) }]
+    const { image, roi } = state.input
+    // Extraction only saw the crop, so the full image is sent whenever there is one
+    if (options.includeImage || roi) {
+      parts.push({ inlineData: image })
+    }
+    if (options.includeImage && roi) {
+      parts.push({ text: "ユーザーが選択した部分の拡大画像：" }, { inlineData: roi.image })
+    }
+
+    const { llm, events } = env
+    if (!events?.token) {
+      return { response: await llm.chat(state.input.chatHistory, parts, options.config()) }
+    }
+
+    // Leaving the loop early ends the model's stream, so nothing more is generated for a gone client
+    let response = ""
+    for await (const chunk of llm.chatStream(state.input.chatHistory, parts, options.config())) {
+      throwIfAborted(env, "generate")
+      response += chunk
+      await events.token(chunk)
+    }
+    return { response }
+  }
+}
+
+// Turns the [n] markers in the response into citations of the first `limit` documents, numbered as in
+// the prompt (lib/citations.ts). Markers pointing past them are removed from the response. Search RPCs
+// do not return where an entry was imported from, so source_file_id and source_pages are looked up.
+export function citeDocuments(options: { limit: number }): PipelineStage {
+  return async (state, { db }) => {
+    const documents = state.documents.slice(0, options.limit)
+    const valid = (index: number) => index >= 1 && index <= documents.length
+    const response = removeInvalidCitations(state.response, valid)
+    const cited = citedNumbers(response).filter(valid)
+
+    const sources = new Map<string, CitationSource>()
+    const ids = cited.map((index) => documents[index - 1].id)
+    if (ids.length > 0) {
+      const { data, error } = await db
+        .from("rag_documents")
+        .select("id, source_file_id, source_pages, metadata")
+        .in("id", ids)
+        .not("source_file_id", "is", null)
+
+      // The columns only exist once scripts/create-manual-ingestion.sql has run
+      if (error) {
+        console.warn("[RAG Pipeline] Citation sources not loaded:", error.message)
+      }
+      for (const row of data || []) {
+        sources.set(row.id, {
+          fileId: row.source_file_id,
+          fileName: row.metadata?.source_file_name || null,
+          pages: row.source_pages || [],
+          printedPages: row.metadata?.printed_pages || [],
+        })
+      }
+    }
+
+    const citations: Citation[] = cited
+      .sort((a, b) => a - b)
+      .map((index) => {
+        const doc = documents[index - 1]
+        return { index, documentId: doc.id, title: doc.title || "", source: sources.get(doc.id) || null }
+      })
+
+    return { response, metadata: { ...state.metadata, citations } }
+  }
+}
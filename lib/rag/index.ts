@@ -0,0 +1,77 @@
+export * from "./types"
+export {
+  EXTRACTED_CONTEXT_JSON_SCHEMA,
+  INDICATOR_LOCATIONS_JSON_SCHEMA,
+  PRIMARY_CATEGORIES,
+  URGENCY_LEVELS,
+  extractedContextSchema,
+  parseExtractedContext,
+  parseIndicatorLocations,
+  toIndicatorBoxes,
+  type ContextParseResult,
+  type IndicatorBox,
+  type IndicatorLocation,
+} from "./context"
+export {
+  chainStages,
+  createPipelineState,
+  createSessionId,
+  focusImage,
+  runRagPipeline,
+  toLLMHistory,
+  toRegionOfInterest,
+} from "./pipeline"
+export {
+  analyzeImage,
+  buildSearchText,
+  checkImageQuality,
+  extractStructuredContext,
+  fallbackContext,
+  identifiedProductType,
+  locateVisualIndicators,
+  resolveDevice,
+} from "./extract"
+export {
+  categorySearch,
+  errorCodeSearch,
+  hybridSearch,
+  indicatorStateSearch,
+  keywordSearch,
+  observedErrorCodes,
+  passageSearch,
+  retrieve,
+  vectorSearch,
+  type RetrievalStep,
+} from "./retrieve"
+export {
+  DEFAULT_RRF_K,
+  FUSION_STRATEGIES,
+  describeHybridScores,
+  fuseCandidates,
+  toFusionStrategy,
+  type FusionOptions,
+  type FusionStrategy,
+  type HybridCandidate,
+  type HybridScores,
+  type SourceScore,
+} from "./fusion"
+export {
+  RERANK_SCORERS,
+  applyAnswerFeedback,
+  markGuidedFlows,
+  rerankDocuments,
+  scopeToDevice,
+  selectPassages,
+  sortByRelevance,
+  toRerankScorer,
+  type RerankRecord,
+  type RerankScorer,
+} from "./rerank"
+export { citeDocuments, generateResponse, type PromptBuilder } from "./generate"
+export { analysisLogger, answerLogger, chatSessionLogger, combineLoggers, deviceHistoryLogger } from "./log"
+export {
+  genericRagPipeline,
+  intelligentRagPipeline,
+  multimodalRagPipeline,
+  multimodalTroubleshootPipeline,
+} from "./pipelines"
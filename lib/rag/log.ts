@@ -0,0 +1,189 @@
+// Loggers called by the pipeline runner; failures are reported but never fail the request
+
+import { recordAnswer } from "@/lib/answer-feedback"
+import { appendChatMessages } from "@/lib/chat-sessions"
+import type { Citation } from "@/lib/citations"
+import { recordDeviceIssue } from "@/lib/user-devices"
+import { observedErrorCodes } from "./retrieve"
+import type { PipelineEnv, PipelineLogger, PipelineState } from "./types"
+
+function summarize(state: PipelineState) {
+  return {
+    pipeline: state.pipeline,
+    category: state.input.category,
+    analysisType: state.input.analysisType,
+    documentsFound: state.documents.length,
+    documentIds: state.documents.map((doc) => doc.id),
+    // How each document was found and scored, to explain the ranking
+    documentScores: state.documents.map((doc) => ({
+      id: doc.id,
+      method: doc.retrieval_method,
+      score: doc.relevance_score,
+      hybrid: doc.hybrid_scores || null,
+    })),
+    embeddingModel: state.embedding?.model || null,
+    roi: state.input.roi?.region || null,
+    timings: state.timings,
+    ...state.metadata,
+  }
+}
+
+// One row per event in analysis_logs (analysis_started / analysis_completed / analysis_failed)
+export function analysisLogger(table = "analysis_logs"): PipelineLogger {
+  const insert = async (state: PipelineState, { db }: PipelineEnv, eventType: string, data: any, error?: string) => {
+    const logEntry = {
+      session_id: state.input.sessionId,
+      event_type: eventType,
+      timestamp: new Date().toISOString(),
+      analysis_data: JSON.stringify(data),
+      error_message: error,
+      processing_time_ms: state.metadata.processingTimeMs,
+    }
+
+    console.log(`[Analysis] ${eventType}:`, logEntry)
+    const { error: insertError } = await db.from(table).insert(logEntry)
+    if (insertError) {
+      console.error("Failed to log analysis event:", insertError.message)
+    }
+  }
+
+  return {
+    started: (state, env) =>
+      insert(state, env, "analysis_started", {
+        pipeline: state.pipeline,
+        category: state.input.category,
+        analysisType: state.input.analysisType,
+        imageSize: state.input.image.data.length,
+        mimeType: state.input.image.mimeType,
+        imageMetadata: state.input.imageMetadata || null,
+        roi: state.input.roi ? { region: state.input.roi.region, imageSize: state.input.roi.image.data.length } : null,
+      }),
+    completed: (state, env) => insert(state, env, "analysis_completed", summarize(state)),
+    failed: (state, env, error) =>
+      insert(state, env, "analysis_failed", { ...summarize(state), stage: error.stage }, error.message),
+  }
+}
+
+// Appends the exchange to the owner's conversation in chat_sessions so it can be resumed later.
+// Requests without an owner id are answered but not saved, since nobody could list them.
+export function chatSessionLogger(): PipelineLogger {
+  return {
+    completed: async (state, { db }) => {
+      const { input } = state
+      if (!input.ownerId) {
+        return
+      }
+
+      try {
+        await appendChatMessages(
+          input.sessionId,
+          [
+            {
+              role: "user",
+              content: input.userPrompt || "",
+              imageData: `data:${input.image.mimeType};base64,${input.image.data}`,
+            },
+            {
+              role: "model",
+              content: state.response,
+              metadata: {
+                extractedContext: state.context,
+                relevantDocuments: state.documents.map(({ id, title, category, relevance_score }) => ({
+                  id,
+                  title,
+                  category,
+                  relevance_score,
+                })),
+                citations: state.metadata.citations || [],
+                answerId: state.answerId,
+                processingTime: state.metadata.processingTimeMs,
+                searchMethod: state.metadata.searchMethods?.[0] || "none",
+                intelligentAnalysis: true,
+              },
+            },
+          ],
+          input.ownerId,
+          db,
+        )
+      } catch (error) {
+        console.error("Failed to save chat session:", error instanceof Error ? error.message : error)
+      }
+    },
+  }
+}
+
+// Adds what the analysis found to the registered device's issue history (device_issues), one row per
+// conversation. Analyses that found neither an issue nor an error code are not recorded.
+export function deviceHistoryLogger(): PipelineLogger {
+  return {
+    completed: async (state, { db }) => {
+      const { input } = state
+      const device = input.registeredDevice
+      if (!device) {
+        return
+      }
+
+      const errorCodes = observedErrorCodes(state)
+      const issues = state.context?.detectedIssues || []
+      if (issues.length === 0 && errorCodes.length === 0) {
+        return
+      }
+
+      const topDocument = state.documents[0]
+      try {
+        await recordDeviceIssue(
+          {
+            deviceId: device.id,
+            sessionId: input.sessionId,
+            issue: issues.join(", ") || input.userPrompt || `エラーコード ${errorCodes.join(", ")}`,
+            errorCodes,
+            documentId: topDocument?.id || null,
+            documentTitle: topDocument?.title || null,
+          },
+          db,
+        )
+      } catch (error) {
+        console.error("Failed to record device issue:", error instanceof Error ? error.message : error)
+      }
+    },
+  }
+}
+
+// Records the documents each answer was given (rag_answers), so feedback on the answer can be credited
+// to them (lib/answer-feedback.ts)
+export function answerLogger(): PipelineLogger {
+  return {
+    completed: async (state, { db }) => {
+      const citations: Citation[] = state.metadata.citations || []
+      try {
+        await recordAnswer(
+          {
+            answerId: state.answerId,
+            sessionId: state.input.sessionId,
+            ownerId: state.input.ownerId || null,
+            pipeline: state.pipeline,
+            documentIds: state.documents.map((doc) => doc.id),
+            citedDocumentIds: [...new Set(citations.map((citation) => citation.documentId))],
+          },
+          db,
+        )
+      } catch (error) {
+        console.error("Failed to record answer:", error instanceof Error ? error.message : error)
+      }
+    },
+  }
+}
+
+export function combineLoggers(...loggers: PipelineLogger[]): PipelineLogger {
+  return {
+    started: async (state, env) => {
+      for (const logger of loggers) await logger.started?.(state, env)
+    },
+    completed: async (state, env) => {
+      for (const logger of loggers) await logger.completed?.(state, env)
+    },
+    failed: async (state, env, error) => {
+      for (const logger of loggers) await logger.failed?.(state, env, error)
+    },
+  }
+}
@@ -0,0 +1,148 @@
+import { getLLMProvider, type LLMMessage } from "@/lib/llm"
+import { supabaseAdmin } from "@/lib/supabase"
+import {
+  PipelineError,
+  type PipelineEnv,
+  type PipelineImage,
+  type PipelineInput,
+  type PipelineStage,
+  type PipelineStageName,
+  type PipelineState,
+  type RagPipeline,
+} from "./types"
+
+const STAGES: Exclude<PipelineStageName, "log">[] = ["extract", "retrieve", "rerank", "generate"]
+
+export function createSessionId(prefix = "analysis"): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Pages send either { role, parts } or { role, content }
+export function toLLMHistory(chatHistory: any[] = []): LLMMessage[] {
+  return chatHistory.map((msg) => ({
+    role: msg.role === "user" ? "user" : "model",
+    parts: Array.isArray(msg.parts) && msg.parts.length > 0 ? msg.parts : [{ text: msg.content || "" }],
+  }))
+}
+
+// Pages send the crop as { imageBase64, mimeType, region } with region in fractions of the full image
+export function toRegionOfInterest(roi: any): PipelineInput["roi"] {
+  const region = roi?.region
+  const valid =
+    typeof roi?.imageBase64 === "string" &&
+    roi.imageBase64.length > 0 &&
+    ["x", "y", "width", "height"].every((key) => typeof region?.[key] === "number" && region[key] >= 0 && region[key] <= 1) &&
+    region.width > 0 &&
+    region.height > 0
+
+  if (!valid) {
+    return undefined
+  }
+
+  return {
+    image: { data: roi.imageBase64, mimeType: roi.mimeType || "image/jpeg" },
+    region: { x: region.x, y: region.y, width: region.width, height: region.height },
+  }
+}
+
+// The image extraction and embedding look at: the ROI crop when there is one
+export function focusImage(input: PipelineInput): PipelineImage {
+  return input.roi?.image || input.image
+}
+
+export function createPipelineState(pipeline: string, input: PipelineInput): PipelineState {
+  return {
+    pipeline,
+    answerId: createSessionId("answer"),
+    input,
+    context: null,
+    analysis: null,
+    searchText: "",
+    embedding: null,
+    queryEmbedding: null,
+    documents: [],
+    response: "",
+    timings: {},
+    metadata: {},
+  }
+}
+
+// Runs several stages in one slot, each seeing the changes of the previous one
+export function chainStages(...stages: PipelineStage[]): PipelineStage {
+  return async (state, env) => {
+    let changes: Partial<PipelineState> = {}
+    for (const stage of stages) {
+      changes = { ...changes, ...((await stage({ ...state, ...changes }, env)) || {}) }
+    }
+    return changes
+  }
+}
+
+export function throwIfAborted({ signal }: PipelineEnv, stage: PipelineStageName) {
+  if (signal?.aborted) {
+    throw new PipelineError("The client disconnected", stage, 499)
+  }
+}
+
+async function runLogger(step: () => Promise<void> | undefined) {
+  try {
+    await step()
+  } catch (error) {
+    console.error("[RAG Pipeline] Logging failed:", error)
+  }
+}
+
+// Runs extract -> retrieve -> rerank -> generate, then hands the state to the logger.
+// Any error is rethrown as a PipelineError carrying the stage that failed.
+export async function runRagPipeline(
+  pipeline: RagPipeline,
+  input: PipelineInput,
+  env: Partial<PipelineEnv> = {},
+): Promise<PipelineState> {
+  const resolvedEnv: PipelineEnv = {
+    llm: env.llm || getLLMProvider(),
+    db: env.db || supabaseAdmin,
+    events: env.events,
+    signal: env.signal,
+  }
+  let state = createPipelineState(pipeline.name, input)
+  const startTime = Date.now()
+
+  console.log(`[RAG Pipeline] ${pipeline.name}: starting session ${input.sessionId}`)
+  await runLogger(() => pipeline.logger.started?.(state, resolvedEnv))
+
+  for (const stage of STAGES) {
+    const stageStart = Date.now()
+    try {
+      throwIfAborted(resolvedEnv, stage)
+      const changes = await pipeline[stage](state, resolvedEnv)
+      state = { ...state, ...(changes || {}) }
+    } catch (error) {
+      const pipelineError =
+        error instanceof PipelineError
+          ? error
+          : new PipelineError(error instanceof Error ? error.message : "Unknown error", stage)
+
+      state.timings = { ...state.timings, [stage]: Date.now() - stageStart }
+      state.metadata = { ...state.metadata, ...pipelineError.details, processingTimeMs: Date.now() - startTime }
+      console.error(`[RAG Pipeline] ${pipeline.name}: ${stage} failed:`, pipelineError.message)
+      await runLogger(() => pipeline.logger.failed?.(state, resolvedEnv, pipelineError))
+      throw pipelineError
+    }
+    state.timings = { ...state.timings, [stage]: Date.now() - stageStart }
+    await resolvedEnv.events?.stage?.(stage, state)
+  }
+
+  state.metadata = { ...state.metadata, processingTimeMs: Date.now() - startTime }
+
+  const logStart = Date.now()
+  await runLogger(() => pipeline.logger.completed?.(state, resolvedEnv))
+  state.timings = { ...state.timings, log: Date.now() - logStart }
+
+  console.log(
+    `[RAG Pipeline] ${pipeline.name}: session ${input.sessionId} completed in ${state.metadata.processingTimeMs}ms`,
+    state.timings,
+  )
+
+  return state
+}
@@ -0,0 +1,461 @@
+// Pipeline definitions for each analyze endpoint. Routes only parse the request, run one of these
+// and shape the response; everything else happens in the shared stages.
+
+import { describeIndicatorStates, matchKnownIssues } from "@/lib/indicator-states"
+import { getGenerationConfig } from "@/lib/llm"
+import {
+  analyzeImage,
+  checkImageQuality,
+  extractStructuredContext,
+  identifiedProductType,
+  locateVisualIndicators,
+  resolveDevice,
+} from "./extract"
+import { citeDocuments, generateResponse } from "./generate"
+import { analysisLogger, answerLogger, chatSessionLogger, combineLoggers, deviceHistoryLogger } from "./log"
+import { loadAnalysisPrompt, loadMultimodalAnalysisPrompt, loadMultimodalPrompt } from "./prompts"
+import { chainStages } from "./pipeline"
+import {
+  applyAnswerFeedback,
+  markGuidedFlows,
+  rerankDocuments,
+  scopeToDevice,
+  selectPassages,
+  sortByRelevance,
+} from "./rerank"
+import {
+  categorySearch,
+  errorCodeSearch,
+  hybridSearch,
+  indicatorStateSearch,
+  keywordSearch,
+  observedErrorCodes,
+  passageSearch,
+  retrieve,
+  vectorSearch,
+} from "./retrieve"
+import { PipelineError, type PipelineState, type RagPipeline, type RetrievedDocument } from "./types"
+
+// Burst captures add the classified blink states and the manual entries with that exact light pattern
+function indicatorSection(state: PipelineState): string {
+  const indicators = state.input.indicators || []
+  if (indicators.length === 0) {
+    return ""
+  }
+
+  const knownIssues = matchKnownIssues(indicators)
+  return `
+連続撮影で判定したインジケーターの状態：
+${describeIndicatorStates(indicators)
+  .map((line) => `- ${line}`)
+  .join("\n")}
+${
+  knownIssues.length > 0
+    ? `
+取扱説明書で該当するランプ表示：
+${knownIssues.map((issue) => `- ${issue.description} → ${issue.solution}`).join("\n")}
+`
+    : ""
+}`
+}
+
+// The model the request was scoped to, as "\n- 機種: ..." for the analysis list
+function deviceLine(state: PipelineState): string {
+  const model = state.metadata.device?.model
+  return model ? `\n- 機種: ${model.display_name}（型番 ${model.model_number}）` : ""
+}
+
+// "Device: ..." line for the English prompts, when a model was identified
+function deviceSummary(state: PipelineState): string {
+  const model = state.metadata.device?.model
+  return model ? `Device: ${model.display_name} (model ${model.model_number})\n\n` : ""
+}
+
+// The user's registered device and what was found on it before, so answers can build on past fixes
+function registeredDeviceSection(state: PipelineState): string {
+  const device = state.input.registeredDevice
+  if (!device) {
+    return ""
+  }
+
+  const details = [
+    `- 名前: ${device.nickname}`,
+    device.product_model || device.model_number
+      ? `- 型番: ${device.product_model?.display_name || device.model_number}`
+      : "",
+    device.serial_number ? `- 製造番号: ${device.serial_number}` : "",
+    device.purchase_date ? `- 購入日: ${device.purchase_date}` : "",
+    device.location ? `- 設置場所: ${device.location}` : "",
+  ].filter(Boolean)
+
+  const history = device.recentIssues.map(
+    (issue) =>
+      `- ${issue.created_at.slice(0, 10)}: ${issue.issue}${issue.error_codes.length > 0 ? `（エラーコード ${issue.error_codes.join(", ")}）` : ""} → ${issue.resolution || "未解決"}`,
+  )
+
+  return `
+ユーザーの登録機器：
+${details.join("\n")}
+${
+  history.length > 0
+    ? `
+この機器の過去の問題と対処：
+${history.join("\n")}
+`
+    : ""
+}`
+}
+
+// The passages selectPassages chose for the prompt, or the whole content when it did not run
+function excerptOf(doc: RetrievedDocument): string {
+  return doc.excerpt ?? doc.content
+}
+
+// What the page's filter picked, unless it is "general"; then the identified model's product type
+function pageOrDeviceProductType(state: PipelineState): string | null {
+  return state.input.category && state.input.category !== "general" ? state.input.category : identifiedProductType(state)
+}
+
+function intelligentPrompt(state: PipelineState): string {
+  const { input, documents } = state
+  const context = state.context!
+
+  let responsePrompt = input.systemPrompt || `あなたは専門的なトラブルシューティングアシスタントです。`
+
+  responsePrompt += `
+
+画像分析結果：
+- デバイス: ${context.deviceType}${deviceLine(state)}
+- カテゴリ: ${context.primaryCategory}
+- 検出された問題: ${context.detectedIssues.join(", ") || "なし"}
+- 視覚的インジケーター: ${context.visualIndicators.join(", ") || "なし"}
+- 表示されたエラーコード: ${observedErrorCodes(state).join(", ") || "なし"}
+- 緊急度: ${context.urgencyLevel}
+- キーワード: ${context.keywords.join(", ") || "なし"}
+${indicatorSection(state)}${registeredDeviceSection(state)}
+${input.userPrompt ? `ユーザーの質問: ${input.userPrompt}` : ""}
+`
+
+  if (documents.length > 0) {
+    responsePrompt += `
+関連する知識ベース文書 (${documents.length}件):
+${documents
+  .map(
+    (doc, index) => `
+[${index + 1}] ${doc.title} (関連度: ${(doc.relevance_score * 100).toFixed(1)}%)
+カテゴリ: ${doc.category}${doc.matched_error_code ? `\nエラーコード ${doc.matched_error_code} の説明として登録された文書です` : ""}
+内容: ${excerptOf(doc)}
+${doc.icon_name ? `視覚的指標: ${doc.icon_name} - ${doc.icon_description}` : ""}
+`,
+  )
+  .join("\n")}
+
+上記の知識ベース文書を参考にして、`
+  } else {
+    responsePrompt += `
+関連する知識ベース文書が見つかりませんでした。一般的な知識に基づいて、`
+  }
+
+  responsePrompt += `
+画像の内容と検出された問題に基づいて、具体的で実用的な回答を提供してください。
+
+回答の際は以下の点を考慮してください：
+1. 安全性を最優先に考慮する
+2. 段階的で分かりやすい手順を提供する
+3. 必要に応じて専門家への相談を推奨する
+4. 緊急度が高い場合は、それを明確に伝える
+5. 視覚的インジケーターの意味を説明する（点灯と点滅で意味が異なる場合は区別する）
+6. 登録機器に過去の問題がある場合は、再発の可能性や以前の対処が有効かどうかに触れる${
+    documents.length > 0
+      ? `
+7. 知識ベース文書に基づく記述には、文末に根拠の文書番号を [1] のように付ける（複数の場合は [1][2]）。文書に書かれていない内容には付けない`
+      : ""
+  }
+
+日本語で自然で親しみやすい口調で回答してください。
+`
+
+  return responsePrompt
+}
+
+// Structured context extraction with hybrid search and keyword/category fallbacks (app/page.tsx)
+export const intelligentRagPipeline: RagPipeline = {
+  name: "intelligent-rag",
+  extract: chainStages(
+    checkImageQuality(),
+    extractStructuredContext({ config: () => getGenerationConfig("intelligent-rag", "extract") }),
+    resolveDevice(),
+  ),
+  retrieve: retrieve({
+    embedding: "optional",
+    textQuery: (state) => [state.input.userPrompt, state.searchText].filter(Boolean).join("\n"),
+    steps: [
+      errorCodeSearch({ productType: (state) => identifiedProductType(state) || state.context?.deviceType }),
+      indicatorStateSearch({ limit: 3 }),
+      hybridSearch({ threshold: 0.3, count: 5, strategy: "rrf", vectorWeight: 0.6, textWeight: 0.4 }),
+      passageSearch({ threshold: 0.4, count: 5 }),
+      vectorSearch({
+        rpc: "search_similar_documents",
+        when: (documents) => documents.length === 0,
+        params: (state) => ({
+          match_threshold: 0.3,
+          match_count: 5,
+          filter_category: state.context?.primaryCategory !== "general" ? state.context?.primaryCategory : null,
+        }),
+      }),
+      keywordSearch({ limit: 5, when: (documents) => documents.length === 0 }),
+      categorySearch({ limit: 3, when: (documents) => documents.length < 3 }),
+    ],
+  }),
+  rerank: chainStages(
+    scopeToDevice({ boost: 0.1 }),
+    // Off unless RAG_RERANKER is set; category-only fillers are what it mostly drops
+    rerankDocuments({
+      candidates: 10,
+      threshold: { llm: 0.3, lexical: 0.15 },
+      config: () => getGenerationConfig("intelligent-rag", "rerank"),
+    }),
+    applyAnswerFeedback({ weight: 0.1 }),
+    sortByRelevance({ limit: 5 }),
+    markGuidedFlows(),
+    selectPassages({ perDocument: 3, budget: 4000 }),
+  ),
+  generate: chainStages(
+    generateResponse({
+      prompt: intelligentPrompt,
+      config: () => getGenerationConfig("intelligent-rag", "respond"),
+      includeImage: true,
+    }),
+    citeDocuments({ limit: 5 }),
+  ),
+  logger: combineLoggers(
+    analysisLogger("intelligent_analysis_logs"),
+    chatSessionLogger(),
+    deviceHistoryLogger(),
+    answerLogger(),
+  ),
+}
+
+// analysis_prompts driven analysis with search_similar_issues (generic-rag page)
+export const genericRagPipeline: RagPipeline = {
+  name: "generic-rag",
+  extract: chainStages(
+    checkImageQuality(),
+    analyzeImage({ prompt: loadAnalysisPrompt, config: () => getGenerationConfig("generic-rag", "analyze") }),
+    locateVisualIndicators({ config: () => getGenerationConfig("generic-rag", "locate") }),
+    resolveDevice(),
+  ),
+  retrieve: retrieve({
+    embedding: "optional",
+    textQuery: (state) => state.analysis || "",
+    steps: [
+      // category is an issue category here, so it only stands in for the product type
+      errorCodeSearch({ productType: (state) => identifiedProductType(state) || pageOrDeviceProductType(state) }),
+      vectorSearch({
+        rpc: "search_similar_issues",
+        params: (state) => ({
+          category_filter: state.input.category === "general" ? null : state.input.category,
+          issue_type_filter: null,
+          severity_filter: null,
+          match_threshold: 0.5,
+          match_count: 5,
+        }),
+      }),
+    ],
+  }),
+  rerank: chainStages(
+    scopeToDevice({ boost: 0.1 }),
+    applyAnswerFeedback({ weight: 0.1 }),
+    sortByRelevance({ limit: 5 }),
+    // Only the first 3 documents are shown
+    selectPassages({ perDocument: 2, budget: 3000 }),
+  ),
+  generate: chainStages(
+    generateResponse({
+      config: () => getGenerationConfig("generic-rag", "respond"),
+      prompt: (state) => {
+        const { analysis, documents } = state
+        const contextualInfo = documents
+          .slice(0, 3)
+          .map(
+            (issue, index) =>
+              `Similar Issue [${index + 1}] (${(issue.relevance_score * 100).toFixed(1)}% match):
+Title: ${issue.title}${issue.matched_error_code ? `\nError Code: ${issue.matched_error_code} (registered for this code)` : ""}
+Category: ${issue.category}
+Solution: ${excerptOf(issue)}`,
+          )
+          .join("\n\n")
+
+        return `Based on the image analysis and any similar issues found, provide a helpful, structured response.
+
+${deviceSummary(state)}Image Analysis Results:
+${analysis}
+
+${
+  contextualInfo
+    ? `Relevant Similar Issues from Knowledge Base:
+${contextualInfo}`
+    : "No similar issues found in knowledge base."
+}
+
+Provide a clear, actionable response that prioritizes safety and gives specific guidance.${
+          contextualInfo
+            ? `
+End each statement based on a similar issue with its number in square brackets, e.g. [1] or [1][2]. Do not cite anything else.`
+            : ""
+        }`
+      },
+    }),
+    citeDocuments({ limit: 3 }),
+  ),
+  logger: combineLoggers(analysisLogger(), answerLogger()),
+}
+
+const loadDiagnosticPrompt = loadMultimodalAnalysisPrompt("diagnostic")
+
+// multimodal_analysis_prompts driven analysis with match_visual_issues (multimodal-rag page)
+export const multimodalRagPipeline: RagPipeline = {
+  name: "multimodal-rag",
+  extract: chainStages(
+    analyzeImage({
+      prompt: loadMultimodalAnalysisPrompt(),
+      config: () => getGenerationConfig("multimodal-rag", "analyze"),
+    }),
+    resolveDevice(),
+  ),
+  retrieve: retrieve({
+    embedding: "required",
+    embeddingError: "Failed to generate image embedding for similarity search.",
+    textQuery: (state) => state.analysis || "",
+    steps: [
+      vectorSearch({
+        rpc: "match_visual_issues",
+        failMessage: "Failed to search for similar issues in database.",
+        params: (state) => ({
+          product_type_filter: pageOrDeviceProductType(state),
+          match_threshold: 0.6,
+          match_count: 5,
+        }),
+      }),
+    ],
+  }),
+  rerank: chainStages(
+    scopeToDevice({ boost: 0.1 }),
+    applyAnswerFeedback({ weight: 0.1 }),
+    sortByRelevance({ limit: 5 }),
+    selectPassages({ perDocument: 2, budget: 4000 }),
+  ),
+  generate: generateResponse({
+    config: () => getGenerationConfig("multimodal-rag", "respond"),
+    prompt: async (state, env) => {
+      const contextualInfo = state.documents
+        .map(
+          (issue, index) =>
+            `Similar Issue ${index + 1} (${(issue.relevance_score * 100).toFixed(1)}% match):
+        Title: ${issue.title || "Untitled"}
+        Problem: ${issue.icon_name || "Unknown"} - ${issue.icon_description || "No description"}
+        Severity: ${issue.severity_level || "Unknown"}
+        Solution: ${excerptOf(issue)}
+        Visual Indicators: ${issue.visual_indicators?.join(", ") || "None"}
+        Tags: ${issue.tags?.join(", ") || "None"}`,
+        )
+        .join("\n\n")
+
+      const diagnosticPrompt = await loadDiagnosticPrompt(state.input, env)
+      const finalPrompt =
+        diagnosticPrompt?.prompt ||
+        `Based on the image analysis and similar issues found, provide a structured troubleshooting response with:
+    🔍 **Issue Identified**: Brief description
+    ⚠️ **Severity**: Critical/High/Medium/Low
+    🛠️ **Solution Steps**: Numbered, actionable steps
+    💡 **Prevention**: How to avoid this issue
+    📞 **Next Steps**: When to seek additional help`
+
+      return `You are an expert technical troubleshooting assistant.
+
+    ${deviceSummary(state)}Image Analysis Results:
+    ${state.analysis}
+
+    ${
+      contextualInfo
+        ? `Relevant Similar Issues from Database:
+    ${contextualInfo}`
+        : "No similar issues found in database."
+    }
+
+    ${finalPrompt}
+
+    Consider the chat history for context and provide a helpful, structured response.`
+    },
+  }),
+  logger: combineLoggers(analysisLogger(), answerLogger()),
+}
+
+const ANALYSIS_PROMPT_NAMES: Record<string, string> = {
+  detailed: "detailed_indicator_analysis",
+  damage: "damage_assessment",
+}
+
+const loadTroubleshootingPrompt = loadMultimodalPrompt(() => "troubleshooting_response")
+
+// multimodal_prompts driven analysis with match_product_issues (multimodal-troubleshoot page)
+export const multimodalTroubleshootPipeline: RagPipeline = {
+  name: "multimodal-troubleshoot",
+  extract: analyzeImage({
+    prompt: loadMultimodalPrompt((input) => ANALYSIS_PROMPT_NAMES[input.analysisType || ""] || "general_image_analysis"),
+    config: () => getGenerationConfig("multimodal-troubleshoot", "analyze"),
+  }),
+  retrieve: retrieve({
+    embedding: "required",
+    embeddingError: "Failed to vectorize image for similarity search.",
+    steps: [
+      vectorSearch({
+        rpc: "match_product_issues",
+        failMessage: "Database search failed.",
+        params: (state) => ({
+          product_category_filter: state.input.category || null,
+          match_threshold: 0.6,
+          match_count: 3,
+        }),
+      }),
+    ],
+  }),
+  rerank: sortByRelevance({ limit: 3 }),
+  generate: generateResponse({
+    config: () => getGenerationConfig("multimodal-troubleshoot", "respond"),
+    prompt: async (state, env) => {
+      const responsePrompt = await loadTroubleshootingPrompt(state.input, env)
+      if (!responsePrompt) {
+        throw new PipelineError("Could not retrieve response prompt from database.", "generate")
+      }
+
+      const contextualInfo = state.documents
+        .map(
+          (doc, index) =>
+            `Match ${index + 1} (${(doc.relevance_score * 100).toFixed(1)}% similarity):
+        Issue: ${doc.icon_name} - ${doc.icon_description}
+        Severity: ${doc.severity_level}
+        Solution: ${doc.content}
+        Tags: ${doc.tags?.join(", ") || "None"}`,
+        )
+        .join("\n\n")
+
+      return `You are a technical troubleshooting assistant.
+
+Image Analysis Results:
+${state.analysis}
+
+${
+  contextualInfo
+    ? `Relevant Troubleshooting Information from Database:
+${contextualInfo}`
+    : "No similar issues found in database."
+}
+
+${responsePrompt.prompt}
+
+Consider the chat history for context and provide a helpful, structured response.`
+    },
+  }),
+  logger: analysisLogger(),
+}
@@ -0,0 +1,204 @@
+// Prompts used by the pipeline stages and the loaders for prompts stored in the database
+
+import type { PipelineEnv, PipelineInput } from "./types"
+
+export interface LoadedPrompt {
+  prompt: string
+  source: "database" | "fallback" | "default"
+}
+
+export type PromptLoader = (input: PipelineInput, env: PipelineEnv) => Promise<LoadedPrompt | null>
+
+// indicatorStates: lines from describeIndicatorStates when the frame comes from a burst capture
+export function buildContextExtractionPrompt(userPrompt?: string, indicatorStates: string[] = []): string {
+  return `
+この画像を詳細に分析して、以下の情報をJSON形式で抽出してください：
+
+{
+  "primaryCategory": "主要カテゴリ（coffee_maker, maintenance, troubleshooting, safety, cleaning, parts, indicators, water_system, brewing, electrical, mechanical, general のいずれか）",
+  "detectedIssues": ["検出された問題のリスト"],
+  "visualIndicators": ["視覚的インジケーター（ランプ、表示、アイコンなど）"],
+  "indicatorLocations": [{ "label": "visualIndicators の項目", "box2d": [ymin, xmin, ymax, xmax] }],
+  "errorCodes": ["ディスプレイに表示されているエラーコード（例: E01, H3）"],
+  "urgencyLevel": "緊急度（low, medium, high, critical のいずれか）",
+  "keywords": ["関連キーワードのリスト"],
+  "deviceType": "デバイスの種類",
+  "brand": "銘板やロゴに書かれたメーカー名（読み取れる場合のみ）",
+  "modelNumber": "銘板や本体に書かれた型番（読み取れる場合のみ）",
+  "problemType": "問題の種類"
+}
+
+画像に表示されているアイコン、ランプ、表示、エラーメッセージなどを詳しく観察してください。
+特に以下の点に注目してください：
+- 点灯しているランプや表示
+- エラーアイコンや警告表示
+- デバイスの状態や設定
+- 異常な状況や問題の兆候
+
+indicatorLocations には visualIndicators の各項目が画像のどこにあるかを、左上を0、右下を1000とした
+整数座標の枠 [ymin, xmin, ymax, xmax] で記入してください。位置が分からない項目は省略してください。
+errorCodes にはディスプレイや画面に表示されている英字と数字のコードを、表示どおりに一文字ずつ読み取って
+記入してください。推測したコードや表示されていないコードは含めないでください。
+brand と modelNumber は画像に文字として写っている場合だけ記入し、読み取れない場合は省略してください。
+${
+  indicatorStates.length > 0
+    ? `
+連続撮影から判定したインジケーターの状態（1枚の画像では点滅が分からないため、こちらを優先してください）：
+${indicatorStates.map((line) => `- ${line}`).join("\n")}
+`
+    : ""
+}
+${userPrompt ? `ユーザーからの追加情報: ${userPrompt}` : ""}
+`
+}
+
+// Follow-up turn sent when the extracted context failed schema validation
+export function buildContextRepairPrompt(validationError: string): string {
+  return `
+先ほどの回答は指定したJSON形式として無効でした：${validationError}
+
+primaryCategory と urgencyLevel は指定された値のいずれかを使用し、
+detectedIssues・visualIndicators・errorCodes・keywords は文字列の配列、indicatorLocations は label と
+4つの数値の box2d を持つオブジェクトの配列にしてください。
+修正したJSONオブジェクトのみを返してください。
+`
+}
+
+// Asks where the indicators a free-text analysis mentions are, for pipelines without structured context
+export function buildIndicatorLocationPrompt(analysis: string): string {
+  return `The following analysis was written about this image:
+
+${analysis}
+
+Locate every indicator light, display, icon or error message in the image that the analysis refers to.
+Answer with JSON: { "indicatorLocations": [{ "label": "...", "box2d": [ymin, xmin, ymax, xmax] }] }
+- label: a short name for the indicator, in the language of the analysis
+- box2d: a tight box in integer coordinates from 0 (top/left) to 1000 (bottom/right)
+Leave out indicators you cannot see in the image.`
+}
+
+// Asks for a 0-10 relevance score per candidate document (rerankDocuments in lib/rag/rerank.ts)
+export function buildRerankPrompt(query: string, documents: { title?: string; content: string }[]): string {
+  return `以下は画像から読み取った状況です：
+
+${query}
+
+次の知識ベース文書それぞれについて、この状況の解決にどれだけ役立つかの関連度を0〜10で採点してください。
+10 は状況に直接当てはまる、5 は一般的には関係する、0 は無関係です。
+
+${documents.map((doc, index) => `[${index + 1}] ${doc.title || "無題"}\n${doc.content}`).join("\n\n")}
+
+JSONで回答してください: { "scores": [{ "index": 文書番号, "score": 0〜10の整数 }] }
+すべての文書を採点してください。`
+}
+
+const GENERIC_FALLBACK_PROMPTS = {
+  coffee_maker_expert: `あなたはコーヒーメーカーの専門技術者です。画像を詳細に分析し、以下の点に注目してください：
+
+1. インジケーターランプの状態（点灯、点滅、消灯）
+2. ランプの色（赤、緑、青、オレンジなど）
+3. 表示されているアイコンやシンボル
+4. 機器の全体的な状態
+
+特に以下の問題を特定してください：
+- カス受け関連の問題
+- 給水タンクの問題
+- 抽出ユニットの問題
+- メンテナンス要求
+- エラー状態
+
+具体的で実用的な解決策を提供してください。`,
+
+  general_assistant: `画像を詳細に分析し、以下の情報を提供してください：
+
+1. 画像に写っている主要な物体や要素
+2. 注目すべき特徴や状態
+3. 問題や異常が見られる場合はその詳細
+4. 推奨される対処法や次のステップ
+
+分析は正確で具体的に行い、ユーザーにとって有用な情報を提供してください。`,
+
+  technical_support: `技術サポートの専門家として画像を分析してください：
+
+1. 機器の状態と動作状況
+2. エラーインジケーターや警告表示
+3. 物理的な問題や異常
+4. メンテナンスの必要性
+
+技術的に正確で、段階的な解決手順を提供してください。`,
+}
+
+// analysis_prompts, falling back to built-in prompts (generic-rag)
+export const loadAnalysisPrompt: PromptLoader = async (input, env) => {
+  const analysisType = input.analysisType || "coffee_maker_expert"
+
+  try {
+    console.log(`[Analysis Config] Fetching configuration for type: ${analysisType}, category: ${input.category}`)
+
+    const { data: prompts, error } = await env.db
+      .from("analysis_prompts")
+      .select("*")
+      .eq("analysis_focus", analysisType)
+      .eq("is_active", true)
+      .order("priority", { ascending: false })
+
+    if (error) {
+      console.warn(`[Analysis Config] Database error: ${error.message}`)
+    } else if (prompts && prompts.length > 0) {
+      return { prompt: prompts[0].prompt_text, source: "database" }
+    }
+
+    const prompt =
+      GENERIC_FALLBACK_PROMPTS[analysisType as keyof typeof GENERIC_FALLBACK_PROMPTS] ||
+      GENERIC_FALLBACK_PROMPTS.general_assistant
+
+    return { prompt, source: "fallback" }
+  } catch (error) {
+    console.error(`[Analysis Config] Error: ${error}`)
+    return { prompt: "画像を分析し、詳細な説明を提供してください。", source: "default" }
+  }
+}
+
+// multimodal_analysis_prompts, preferring product-specific prompts (multimodal-rag)
+export function loadMultimodalAnalysisPrompt(analysisType?: string): PromptLoader {
+  return async (input, env) => {
+    const { data, error } = await env.db
+      .from("multimodal_analysis_prompts")
+      .select("prompt_text")
+      .eq("analysis_type", analysisType || input.analysisType || "general")
+      .eq("is_active", true)
+      .or(`product_type.is.null,product_type.eq.${input.category || "general"}`)
+      .order("product_type", { ascending: false })
+      .limit(1)
+      .single()
+
+    if (error || !data) {
+      console.error("Error fetching analysis prompt:", error)
+      return null
+    }
+
+    return { prompt: data.prompt_text, source: "database" }
+  }
+}
+
+// multimodal_prompts by name, preferring category-specific prompts (multimodal-troubleshoot)
+export function loadMultimodalPrompt(promptName: (input: PipelineInput) => string): PromptLoader {
+  return async (input, env) => {
+    const { data, error } = await env.db
+      .from("multimodal_prompts")
+      .select("prompt")
+      .eq("name", promptName(input))
+      .eq("is_active", true)
+      .or(`product_category.is.null,product_category.eq.${input.category || "general"}`)
+      .order("product_category", { ascending: false })
+      .limit(1)
+      .single()
+
+    if (error || !data) {
+      console.error("Error fetching prompt:", error)
+      return null
+    }
+
+    return { prompt: data.prompt, source: "database" }
+  }
+}
@@ -0,0 +1,400 @@
+// Rerank stage: order retrieved documents before they are shown to the model
+
+import { z } from "zod"
+import { feedbackAdjustment, getDocumentFeedback, type DocumentFeedbackStats } from "@/lib/answer-feedback"
+import { normalizeModelNumber, type DeviceIdentification } from "@/lib/device-identification"
+import { toSearchParams, type ImageEmbeddingResult } from "@/lib/embeddings"
+import { hasGuidedFlow } from "@/lib/guided-flows"
+import type { GenerationOptions, JSONSchema, LLMProvider } from "@/lib/llm"
+import { buildRerankPrompt } from "./prompts"
+import type { PipelineStage, PipelineState, RetrievedDocument, RetrievedPassage } from "./types"
+
+// Highest relevance first, keeping the retrieval order for ties
+export function sortByRelevance(options: { limit: number }): PipelineStage {
+  return async (state) => {
+    const documents = [...state.documents]
+      .sort((a, b) => b.relevance_score - a.relevance_score)
+      .slice(0, options.limit)
+
+    return { documents }
+  }
+}
+
+// Scopes the results to the identified model (metadata.device): documents written for other models
+// are dropped and the model's own documents gain boost. Documents without model_numbers apply to
+// every model and are kept as they are. Search RPCs do not return model_numbers, so they are looked up.
+// Both sides are compared normalized, so "CM-200" on a document matches the catalog's "CM200".
+export function scopeToDevice(options: { boost: number }): PipelineStage {
+  return async (state, { db }) => {
+    const model = (state.metadata.device as DeviceIdentification | undefined)?.model
+    if (!model || state.documents.length === 0) {
+      return
+    }
+
+    const { data, error } = await db
+      .from("rag_documents")
+      .select("id, model_numbers")
+      .in(
+        "id",
+        state.documents.map((doc) => doc.id),
+      )
+
+    if (error) {
+      console.warn("[Rerank] Could not look up document models, leaving results unscoped:", error.message)
+      return
+    }
+
+    const modelNumbers = new Map((data || []).map((row) => [row.id, (row.model_numbers || []) as string[]]))
+    const ownNumbers = [model.model_number, ...(model.aliases || [])].map(normalizeModelNumber)
+    const documents = state.documents.flatMap((doc) => {
+      const numbers = modelNumbers.get(doc.id) || []
+      if (numbers.length === 0) {
+        return [doc]
+      }
+      if (!numbers.some((number) => ownNumbers.includes(normalizeModelNumber(number)))) {
+        return []
+      }
+      return [
+        { ...doc, relevance_score: Math.min(1, doc.relevance_score + options.boost), matched_model: model.model_number },
+      ]
+    })
+
+    console.log(`[Rerank] Scoped to ${model.model_number}: dropped ${state.documents.length - documents.length} documents`)
+    return { documents }
+  }
+}
+
+// Moves documents up or down by how their past answers were received (lib/answer-feedback.ts): at most
+// weight either way, nothing for documents without feedback. The adjustment is kept on the document
+// (feedback_adjustment) and in metadata.feedback.
+export function applyAnswerFeedback(options: { weight: number }): PipelineStage {
+  return async (state, { db }) => {
+    if (state.documents.length === 0) {
+      return
+    }
+
+    let stats: Map<string, DocumentFeedbackStats>
+    try {
+      stats = await getDocumentFeedback(
+        state.documents.map((doc) => doc.id),
+        db,
+      )
+    } catch (error) {
+      console.warn("[Rerank] Could not look up answer feedback:", error instanceof Error ? error.message : error)
+      return
+    }
+    if (stats.size === 0) {
+      return
+    }
+
+    const documents = state.documents.map((doc) => {
+      const adjustment = feedbackAdjustment(stats.get(doc.id), options.weight)
+      return adjustment === 0
+        ? doc
+        : {
+            ...doc,
+            relevance_score: Math.min(1, Math.max(0, doc.relevance_score + adjustment)),
+            feedback_adjustment: adjustment,
+          }
+    })
+
+    const feedback = documents
+      .filter((doc) => doc.feedback_adjustment !== undefined)
+      .map((doc) => ({ id: doc.id, adjustment: doc.feedback_adjustment }))
+    console.log(`[Rerank] Answer feedback adjusted ${feedback.length} documents`)
+    return { documents, metadata: { ...state.metadata, feedback } }
+  }
+}
+
+// Flags documents the chat can walk through step by step (lib/guided-flows.ts). Search RPCs do not
+// return guided_flow, so it is looked up for the few documents that are left after sorting.
+export function markGuidedFlows(): PipelineStage {
+  return async (state, { db }) => {
+    if (state.documents.length === 0) {
+      return
+    }
+
+    const { data, error } = await db
+      .from("rag_documents")
+      .select("id, guided_flow")
+      .in(
+        "id",
+        state.documents.map((doc) => doc.id),
+      )
+
+    if (error) {
+      console.warn("[Rerank] Could not look up guided flows:", error.message)
+    }
+
+    const flows = new Map((data || []).map((row) => [row.id, row.guided_flow]))
+    const documents = state.documents.map((doc) => ({
+      ...doc,
+      has_guided_flow: hasGuidedFlow({ guided_flow: flows.get(doc.id), content: doc.content }),
+    }))
+
+    return { documents }
+  }
+}
+
+// "llm" asks the model to score each candidate; "lexical" is a local stand-in for a cross-encoder
+// that scores the overlap between the query and the document text
+export type RerankScorer = "llm" | "lexical"
+
+export const RERANK_SCORERS: RerankScorer[] = ["llm", "lexical"]
+
+// Ordering before and after reranking, kept in metadata.rerank for evaluation
+export interface RerankRecord {
+  scorer: RerankScorer
+  // The model's answer could not be used, so the lexical scorer stood in
+  fallback: boolean
+  threshold: number
+  before: { id: string; score: number }[]
+  after: { id: string; score: number }[]
+  // below_threshold: rescored too low; beyond_candidates: ranked past the candidate limit, never rescored
+  dropped: { id: string; score: number; reason: "below_threshold" | "beyond_candidates" }[]
+}
+
+// Candidate text sent to the model; long manuals are cut, the start says what they are about
+const RERANK_CONTENT_CHARS = 600
+
+const rerankAnswerSchema = z.object({
+  scores: z.array(z.object({ index: z.coerce.number(), score: z.coerce.number() })),
+})
+
+const RERANK_JSON_SCHEMA: JSONSchema = {
+  type: "object",
+  properties: {
+    scores: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: { index: { type: "integer" }, score: { type: "integer" } },
+        required: ["index", "score"],
+      },
+    },
+  },
+  required: ["scores"],
+}
+
+// Unknown or empty values turn reranking off
+export function toRerankScorer(value: string | null | undefined): RerankScorer | null {
+  return RERANK_SCORERS.includes(value as RerankScorer) ? (value as RerankScorer) : null
+}
+
+// What the image shows: the structured context or free-text analysis, plus the description the
+// image embedding was computed from
+function rerankQuery(state: PipelineState): string {
+  const { context } = state
+  const lines = context
+    ? [
+        `機器: ${context.deviceType}`,
+        `問題: ${context.detectedIssues.join(", ") || "なし"}`,
+        `インジケーター: ${context.visualIndicators.join(", ") || "なし"}`,
+        `エラーコード: ${context.errorCodes.join(", ") || "なし"}`,
+      ]
+    : [state.analysis || ""]
+
+  const description = (state.embedding as ImageEmbeddingResult | null)?.description
+  if (description) {
+    lines.push(`画像の説明: ${description}`)
+  }
+  if (state.input.userPrompt) {
+    lines.push(`ユーザーの質問: ${state.input.userPrompt}`)
+  }
+  return lines.filter(Boolean).join("\n")
+}
+
+// Words, plus character bigrams for Japanese text, which has no spaces
+function terms(text: string): Set<string> {
+  const result = new Set<string>()
+  for (const word of text.toLowerCase().split(/[\s、。,.!?:;()[\]{}"'「」・/]+/)) {
+    if (!word) continue
+    result.add(word)
+    if (/[^\x00-\x7f]/.test(word)) {
+      for (let i = 0; i < word.length - 1; i++) {
+        result.add(word.slice(i, i + 2))
+      }
+    }
+  }
+  return result
+}
+
+// Share of the query terms found in the document, 0..1
+function scoreLexically(query: string, documents: RetrievedDocument[]): number[] {
+  const queryTerms = terms(query)
+  return documents.map((doc) => {
+    if (queryTerms.size === 0) {
+      return 0
+    }
+    const docTerms = terms(`${doc.title || ""} ${doc.content}`)
+    let shared = 0
+    for (const term of queryTerms) {
+      if (docTerms.has(term)) shared++
+    }
+    return shared / queryTerms.size
+  })
+}
+
+// 0..1 per document, null where the model left a document unscored; throws when the answer is unusable
+async function scoreWithModel(
+  query: string,
+  documents: RetrievedDocument[],
+  llm: LLMProvider,
+  config: GenerationOptions,
+): Promise<(number | null)[]> {
+  const prompt = buildRerankPrompt(
+    query,
+    documents.map((doc) => ({
+      title: doc.title,
+      // The passage that matched says more about relevance than the start of a long manual
+      content: (doc.passages?.[0]?.content || doc.content).slice(0, RERANK_CONTENT_CHARS),
+    })),
+  )
+  const text = await llm.generate([{ text: prompt }], { ...config, responseSchema: RERANK_JSON_SCHEMA })
+  const answer = rerankAnswerSchema.parse(JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] || text))
+
+  const scores: (number | null)[] = documents.map(() => null)
+  for (const { index, score } of answer.scores) {
+    if (index >= 1 && index <= documents.length) {
+      scores[index - 1] = Math.min(10, Math.max(0, score)) / 10
+    }
+  }
+  return scores
+}
+
+// Rescores the top candidates against what the image shows and drops those below the scorer's
+// threshold. The new score replaces relevance_score (the retrieval score stays in retrieval_score).
+// Documents past the candidate limit are dropped too, and recorded as such in metadata.rerank.
+// Exact error code matches are authoritative and pass through unscored, whatever their rank. Documents the model leaves
+// unscored get the lexical score; an unusable answer falls back to the lexical scorer altogether.
+// RAG_RERANKER ("llm" or "lexical") overrides the scorer; without either, the stage does nothing.
+export function rerankDocuments(options: {
+  scorer?: RerankScorer
+  // Highest relevance_score first, not counting exact error code matches; the rest are dropped
+  candidates: number
+  threshold: Record<RerankScorer, number>
+  config: () => GenerationOptions
+}): PipelineStage {
+  return async (state, { llm }) => {
+    const scorer = toRerankScorer(process.env.RAG_RERANKER) || options.scorer
+    if (!scorer || state.documents.length === 0) {
+      return
+    }
+
+    const before = [...state.documents].sort((a, b) => b.relevance_score - a.relevance_score)
+    const pinned = before.filter((doc) => doc.matched_error_code)
+    const unpinned = before.filter((doc) => !doc.matched_error_code)
+    const candidates = unpinned.slice(0, options.candidates)
+    const beyondCandidates = unpinned.slice(options.candidates)
+
+    const query = rerankQuery(state)
+    const lexical = scoreLexically(query, candidates)
+    let scores: number[] = lexical
+    let fallback = false
+    if (scorer === "llm" && candidates.length > 0) {
+      try {
+        const modelScores = await scoreWithModel(query, candidates, llm, options.config())
+        scores = modelScores.map((score, index) => score ?? lexical[index])
+      } catch (error) {
+        console.warn("[Rerank] Model scoring failed, using lexical scores:", error)
+        fallback = true
+      }
+    }
+
+    const threshold = options.threshold[fallback ? "lexical" : scorer]
+    const rescored = candidates.map((doc, index) => ({
+      ...doc,
+      retrieval_score: doc.relevance_score,
+      relevance_score: scores[index],
+    }))
+    const kept = rescored.filter((doc) => doc.relevance_score >= threshold)
+    const dropped = rescored.filter((doc) => doc.relevance_score < threshold)
+    const documents = [...pinned, ...kept].sort((a, b) => b.relevance_score - a.relevance_score)
+
+    const rerank: RerankRecord = {
+      scorer: fallback ? "lexical" : scorer,
+      fallback,
+      threshold,
+      before: before.map((doc) => ({ id: doc.id, score: doc.relevance_score })),
+      after: documents.map((doc) => ({ id: doc.id, score: doc.relevance_score })),
+      dropped: [
+        ...dropped.map((doc) => ({ id: doc.id, score: doc.relevance_score, reason: "below_threshold" as const })),
+        ...beyondCandidates.map((doc) => ({ id: doc.id, score: doc.relevance_score, reason: "beyond_candidates" as const })),
+      ],
+    }
+    console.log(
+      `[Rerank] ${rerank.scorer}: kept ${documents.length} of ${before.length}, dropped ${dropped.length} below threshold and ${beyondCandidates.length} beyond ${options.candidates} candidates`,
+    )
+
+    return { documents, metadata: { ...state.metadata, rerank } }
+  }
+}
+
+// Decides what the prompt shows of each document (excerpt): the passages retrieval matched, else its
+// best stored passages for the query, in reading order and within a character budget shared by all
+// documents. Documents without passages (not indexed yet) show the start of their content instead.
+export function selectPassages(options: { perDocument: number; budget: number }): PipelineStage {
+  return async (state, { db }) => {
+    if (state.documents.length === 0) {
+      return
+    }
+
+    const stored = new Map<string, RetrievedPassage[]>()
+    const query = state.queryEmbedding || state.embedding
+    const missing = state.documents.filter((doc) => !doc.passages)
+    if (query && missing.length > 0) {
+      const { data, error } = await db.rpc("match_document_passages", {
+        ...toSearchParams(query),
+        document_ids: missing.map((doc) => doc.id),
+        per_document: options.perDocument,
+      })
+
+      if (error) {
+        console.warn("[Rerank] Could not look up passages, using document content:", error.message)
+      }
+      for (const row of data || []) {
+        const passages = stored.get(row.document_id) || []
+        passages.push({
+          id: row.passage_id,
+          index: row.passage_index,
+          content: row.passage_content,
+          similarity: row.similarity,
+        })
+        stored.set(row.document_id, passages)
+      }
+    }
+
+    let remaining = options.budget
+    let fromPassages = 0
+    const documents = state.documents.map((doc, position) => {
+      // An equal share of what is left, so budget a document does not use goes to the next ones
+      const share = Math.floor(remaining / (state.documents.length - position))
+      const passages = (doc.passages || stored.get(doc.id) || []).slice(0, options.perDocument)
+
+      let excerpt: string
+      if (passages.length > 0) {
+        const chosen: RetrievedPassage[] = []
+        let length = 0
+        for (const passage of passages) {
+          if (chosen.length > 0 && length + passage.content.length > share) break
+          chosen.push(passage)
+          length += passage.content.length
+        }
+        excerpt = chosen
+          .sort((a, b) => a.index - b.index)
+          .map((passage) => passage.content)
+          .join("\n…\n")
+        fromPassages++
+      } else {
+        excerpt = doc.content.length > share ? `${doc.content.slice(0, share)}…` : doc.content
+      }
+
+      remaining = Math.max(0, remaining - excerpt.length)
+      return { ...doc, excerpt }
+    })
+
+    const passages = { fromPassages, documents: documents.length, chars: options.budget - remaining }
+    console.log(`[Rerank] Excerpts: ${passages.chars} chars, ${fromPassages}/${documents.length} documents from passages`)
+    return { documents, metadata: { ...state.metadata, passages } }
+  }
+}
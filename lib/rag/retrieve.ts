@@ -0,0 +1,348 @@
+// Retrieve stage: embed the query image and run a list of search steps against the knowledge base
+
+import { embedImage, embedText, toSearchParams } from "@/lib/embeddings"
+import { extractErrorCodes, lookupErrorCodes, toErrorCodes } from "@/lib/error-codes"
+import { toIndicatorStateTags } from "@/lib/indicator-states"
+import {
+  describeHybridScores,
+  fuseCandidates,
+  toFusionStrategy,
+  type FusionStrategy,
+  type HybridCandidate,
+} from "./fusion"
+import { focusImage } from "./pipeline"
+import { PipelineError, type PipelineEnv, type PipelineStage, type PipelineState, type RetrievedDocument } from "./types"
+
+export interface RetrievalStep {
+  name: string
+  // Runs unconditionally when omitted
+  when?: (documents: RetrievedDocument[], state: PipelineState) => boolean
+  run: (state: PipelineState, env: PipelineEnv) => Promise<RetrievedDocument[]>
+  // When set, a failing step aborts the pipeline with this message instead of being skipped
+  failMessage?: string
+  // Skips the remaining steps when it returns true for what this step found
+  stop?: (found: RetrievedDocument[]) => boolean
+}
+
+export interface RetrieveOptions {
+  embedding: "required" | "optional"
+  embeddingError?: string
+  // Text to embed as state.queryEmbedding for passage search; passage search falls back to the image
+  // embedding without it
+  textQuery?: (state: PipelineState) => string
+  steps: RetrievalStep[]
+}
+
+function toDocuments(rows: any[] | null, method: string, score: (row: any) => number): RetrievedDocument[] {
+  return (rows || []).map((row) => ({ ...row, relevance_score: score(row), retrieval_method: method }))
+}
+
+// Results of later steps are appended, skipping documents an earlier step already returned. Passages a
+// later step matched are still attached to the earlier document, which keeps the higher score.
+export function retrieve(options: RetrieveOptions): PipelineStage {
+  return async (state, env) => {
+    let embedding = null
+    try {
+      const image = focusImage(state.input)
+      embedding = await embedImage(image.data, image.mimeType)
+      console.log(`[Embedding] Generated ${embedding.model} embedding with ${embedding.dimensions} dimensions`)
+    } catch (error) {
+      console.error("[Embedding] Error:", error)
+      if (options.embedding === "required") {
+        throw new PipelineError(options.embeddingError || "Failed to generate image embedding.", "retrieve")
+      }
+    }
+
+    let queryEmbedding = null
+    const textQuery = options.textQuery?.(state).trim()
+    if (textQuery) {
+      try {
+        queryEmbedding = await embedText(textQuery)
+      } catch (error) {
+        console.error("[Embedding] Query text embedding failed:", error)
+      }
+    }
+
+    const current: PipelineState = { ...state, embedding, queryEmbedding }
+    const documents: RetrievedDocument[] = []
+    const methods: string[] = []
+
+    for (const step of options.steps) {
+      if (step.when && !step.when(documents, current)) {
+        continue
+      }
+
+      try {
+        const found = await step.run(current, env)
+        const added: RetrievedDocument[] = []
+        for (const doc of found) {
+          const index = documents.findIndex((existing) => existing.id === doc.id)
+          if (index < 0) {
+            added.push(doc)
+          } else if (doc.passages && !documents[index].passages) {
+            const existing = documents[index]
+            documents[index] = {
+              ...existing,
+              passages: doc.passages,
+              relevance_score: Math.max(existing.relevance_score, doc.relevance_score),
+            }
+          }
+        }
+        documents.push(...added)
+        if (added.length > 0) {
+          methods.push(step.name)
+        }
+        console.log(`[Retrieve] ${step.name}: ${found.length} found, ${added.length} added`)
+        if (step.stop?.(found)) {
+          console.log(`[Retrieve] ${step.name}: skipping remaining steps`)
+          break
+        }
+      } catch (error) {
+        console.error(`[Retrieve] ${step.name} failed:`, error)
+        if (step.failMessage) {
+          throw new PipelineError(step.failMessage, "retrieve")
+        }
+      }
+    }
+
+    return {
+      embedding,
+      queryEmbedding,
+      documents,
+      metadata: { ...state.metadata, searchMethods: methods, embeddingModel: embedding?.model || null },
+    }
+  }
+}
+
+// Image vector plus full-text search on state.searchText, fused in lib/rag/fusion.ts. Each source
+// contributes its best candidates separately, so a document found by only one of them can still win.
+// RAG_HYBRID_FUSION ("rrf" or "minmax") overrides the pipeline's strategy, e.g. to compare the two;
+// input.tuning overrides both it and the threshold and weights.
+export function hybridSearch(options: {
+  threshold: number
+  count: number
+  strategy: FusionStrategy
+  vectorWeight: number
+  textWeight: number
+  // Candidates taken from each source before fusion
+  candidates?: number
+  rrfK?: number
+}): RetrievalStep {
+  return {
+    name: "hybrid",
+    when: (_documents, state) => state.embedding !== null,
+    run: async (state, { db }) => {
+      const tuning = state.input.tuning || {}
+      const { data, error } = await db.rpc("search_hybrid_candidates", {
+        ...toSearchParams(state.embedding!),
+        query_text: state.searchText,
+        match_threshold: tuning.matchThreshold ?? options.threshold,
+        candidate_count: options.candidates ?? options.count * 10,
+      })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      const override = process.env.RAG_HYBRID_FUSION
+      const strategy = tuning.strategy || (override ? toFusionStrategy(override) : options.strategy)
+      const candidates = (data || []) as HybridCandidate[]
+      const fused = fuseCandidates(candidates, {
+        ...options,
+        strategy,
+        vectorWeight: tuning.vectorWeight ?? options.vectorWeight,
+        textWeight: tuning.textWeight ?? options.textWeight,
+      }).slice(0, options.count)
+      for (const doc of fused) {
+        console.log(`[Retrieve] hybrid ${doc.id}: ${describeHybridScores(doc.hybrid_scores)}`)
+      }
+
+      return toDocuments(fused, "hybrid", (row) => row.hybrid_scores.fused)
+    },
+  }
+}
+
+// search_document_passages: the query text embedding (or the image embedding) against the passage
+// embeddings. Hits are grouped per document, which scores as its best passage and keeps the passages
+// that matched.
+export function passageSearch(options: {
+  threshold: number
+  count: number
+  when?: RetrievalStep["when"]
+}): RetrievalStep {
+  return {
+    name: "passages",
+    when: (documents, state) =>
+      (state.queryEmbedding || state.embedding) !== null && (!options.when || options.when(documents, state)),
+    run: async (state, { db }) => {
+      const { data, error } = await db.rpc("search_document_passages", {
+        ...toSearchParams((state.queryEmbedding || state.embedding)!),
+        match_threshold: options.threshold,
+        // Several passages of one document often match; fetch enough to fill count documents
+        match_count: options.count * 4,
+        filter_category: null,
+      })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      const byDocument = new Map<string, any>()
+      for (const { passage_id, document_id, passage_index, passage_content, similarity, ...row } of data || []) {
+        const passage = { id: passage_id, index: passage_index, content: passage_content, similarity }
+        const existing = byDocument.get(document_id)
+        if (existing) {
+          existing.passages.push(passage)
+        } else {
+          byDocument.set(document_id, { ...row, id: document_id, passages: [passage] })
+        }
+      }
+
+      const documents = Array.from(byDocument.values()).slice(0, options.count)
+      return toDocuments(documents, "passages", (row) => row.passages[0].similarity)
+    },
+  }
+}
+
+// Any vector-only search RPC taking query_embedding/query_embedding_model plus its own filters.
+// input.tuning.matchThreshold replaces the match_threshold param where the RPC takes one.
+export function vectorSearch(options: {
+  rpc: string
+  params: (state: PipelineState) => Record<string, unknown>
+  when?: RetrievalStep["when"]
+  failMessage?: string
+}): RetrievalStep {
+  return {
+    name: options.rpc,
+    when: (documents, state) => state.embedding !== null && (!options.when || options.when(documents, state)),
+    failMessage: options.failMessage,
+    run: async (state, { db }) => {
+      const params = options.params(state)
+      const matchThreshold = state.input.tuning?.matchThreshold
+      const { data, error } = await db.rpc(options.rpc, {
+        ...toSearchParams(state.embedding!),
+        ...params,
+        ...("match_threshold" in params && matchThreshold !== undefined ? { match_threshold: matchThreshold } : {}),
+      })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return toDocuments(data, "vector", (row) => row.similarity || 0)
+    },
+  }
+}
+
+// ILIKE match of the first search terms against title and content
+export function keywordSearch(options: { limit: number; when?: RetrievalStep["when"] }): RetrievalStep {
+  return {
+    name: "keyword",
+    when: (documents, state) => state.searchText.trim() !== "" && (!options.when || options.when(documents, state)),
+    run: async (state, { db }) => {
+      const searchTerms = state.searchText
+        .split(" ")
+        .filter((term) => term.length > 1)
+        .slice(0, 5)
+
+      const { data, error } = await db
+        .from("rag_documents")
+        .select("*")
+        .or(searchTerms.map((keyword) => `title.ilike.%${keyword}%,content.ilike.%${keyword}%`).join(","))
+        .eq("is_active", true)
+        .limit(options.limit)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return toDocuments(data, "keyword", () => 0.4)
+    },
+  }
+}
+
+// Documents of the extracted category, used to top up thin result sets
+export function categorySearch(options: { limit: number; when?: RetrievalStep["when"] }): RetrievalStep {
+  return {
+    name: "category",
+    when: (documents, state) =>
+      !!state.context &&
+      state.context.primaryCategory !== "general" &&
+      (!options.when || options.when(documents, state)),
+    run: async (state, { db }) => {
+      const { data, error } = await db
+        .from("rag_documents")
+        .select("*")
+        .eq("category", state.context!.primaryCategory)
+        .eq("is_active", true)
+        .limit(options.limit)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return toDocuments(data, "category", () => 0.3)
+    },
+  }
+}
+
+// Documents whose indicator_states contain an observed state from a burst capture. A named match
+// ("cup_tray_blinking") is what the document is about; a plain one ("blinking") only hints at it.
+export function indicatorStateSearch(options: { limit: number; when?: RetrievalStep["when"] }): RetrievalStep {
+  return {
+    name: "indicator_states",
+    when: (documents, state) =>
+      (state.input.indicators?.length || 0) > 0 && (!options.when || options.when(documents, state)),
+    run: async (state, { db }) => {
+      const tags = toIndicatorStateTags(state.input.indicators!)
+      const { data, error } = await db
+        .from("rag_documents")
+        .select("*")
+        .overlaps("indicator_states", tags)
+        .eq("is_active", true)
+        .limit(options.limit)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return toDocuments(data, "indicator_states", (row) =>
+        (row.indicator_states || []).some((value: string) => value.includes("_") && tags.includes(value)) ? 0.8 : 0.45,
+      )
+    },
+  }
+}
+
+// Codes read off the display: from the structured context, or found in a free-text analysis
+export function observedErrorCodes(state: PipelineState): string[] {
+  if (state.context) {
+    return toErrorCodes(state.context.errorCodes)
+  }
+  return state.analysis ? extractErrorCodes(state.analysis) : []
+}
+
+// Exact lookup of displayed error codes in the error_codes registry. A code registered for the
+// product (or for all products) is the answer, so its document gets full confidence and the
+// remaining steps are skipped; a code registered only for other products is kept as a strong hint.
+export function errorCodeSearch(options: {
+  productType: (state: PipelineState) => string | null | undefined
+  when?: RetrievalStep["when"]
+}): RetrievalStep {
+  return {
+    name: "error_code",
+    when: (documents, state) => observedErrorCodes(state).length > 0 && (!options.when || options.when(documents, state)),
+    stop: (found) => found.some((doc) => doc.relevance_score >= 1),
+    run: async (state, { db }) => {
+      const matches = await lookupErrorCodes(observedErrorCodes(state), options.productType(state) || null, db)
+
+      // similarity too, since pages show it as the match percentage
+      return matches.map((match) => ({
+        ...match.document,
+        matched_error_code: match.code,
+        similarity: match.exact ? 1 : 0.7,
+        relevance_score: match.exact ? 1 : 0.7,
+        retrieval_method: "error_code",
+      }))
+    },
+  }
+}
@@ -0,0 +1,150 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { EmbeddingResult } from "@/lib/embeddings"
+import type { ImageMetadata, RegionOfInterest } from "@/lib/image-preprocessing"
+import type { IndicatorReading } from "@/lib/indicator-states"
+import type { LLMMessage, LLMProvider } from "@/lib/llm"
+import type { RegisteredDevice } from "@/lib/user-devices"
+import type { ExtractedContext } from "./context"
+import type { FusionStrategy, HybridScores } from "./fusion"
+
+export type { ExtractedContext }
+
+export interface PipelineImage {
+  data: string
+  mimeType: string
+}
+
+export interface PipelineInput {
+  image: PipelineImage
+  // Region the user selected (e.g. the indicator panel), cropped from the full-resolution original.
+  // The quality gate, extraction and the image embedding use the crop; generation also sees the full image.
+  roi?: { image: PipelineImage; region: RegionOfInterest }
+  // Original dimensions and size reported by the client's preprocessing (lib/image-preprocessing.ts)
+  imageMetadata?: ImageMetadata
+  sessionId: string
+  chatHistory: LLMMessage[]
+  userPrompt?: string
+  systemPrompt?: string
+  // Knowledge base filter: category, product type or product category depending on the page
+  category?: string
+  // product_models entry the user confirmed or picked; otherwise the model is matched from the image
+  productModelId?: string
+  // The user's own device from the registry, loaded by the route after checking the owner.
+  // Takes precedence over productModelId and the label, and its past issues are shown to the model.
+  registeredDevice?: RegisteredDevice
+  // Caller's owner id (resolveOwnerId); the conversation is saved under it, and not saved without one.
+  // Answers are recorded under it too, so only the owner can give feedback on them.
+  ownerId?: string
+  analysisType?: string
+  // Analyze even when the image fails the quality gate (the user chose to continue)
+  skipQualityCheck?: boolean
+  // Indicator states classified from a burst of frames (lib/indicator-states.ts)
+  indicators?: IndicatorReading[]
+  // Replaces the pipeline's search parameters; set by the retrieval evaluation (lib/retrieval-eval.ts)
+  tuning?: RetrievalTuning
+}
+
+export interface RetrievalTuning {
+  // match_threshold of the hybrid search and of vector search RPCs that take one
+  matchThreshold?: number
+  vectorWeight?: number
+  textWeight?: number
+  strategy?: FusionStrategy
+}
+
+// A knowledge base row as returned by any of the search RPCs, plus how it was found
+export interface RetrievedDocument {
+  id: string
+  title?: string
+  content: string
+  category?: string
+  tags?: string[]
+  icon_name?: string
+  icon_description?: string
+  similarity?: number
+  relevance_score: number
+  retrieval_method: string
+  // Per-source scores and ranks behind relevance_score, for documents found by hybrid search
+  hybrid_scores?: HybridScores
+  // Passages of the content that matched the query (lib/passages.ts), best first
+  passages?: RetrievedPassage[]
+  // What the prompt shows of the document: its best passages, set by the selectPassages stage
+  excerpt?: string
+  [column: string]: any
+}
+
+export interface RetrievedPassage {
+  id: string
+  index: number
+  content: string
+  similarity: number
+}
+
+// Progress callbacks for streaming responses; the generate stage streams tokens when token is set
+export interface PipelineEvents {
+  stage?(stage: PipelineStageName, state: PipelineState): void | Promise<void>
+  token?(text: string): void | Promise<void>
+}
+
+export interface PipelineEnv {
+  llm: LLMProvider
+  db: SupabaseClient
+  events?: PipelineEvents
+  // Aborted when the client is gone (e.g. a closed stream); the run stops with a 499 PipelineError
+  signal?: AbortSignal
+}
+
+export type PipelineStageName = "extract" | "retrieve" | "rerank" | "generate" | "log"
+
+export interface PipelineState {
+  pipeline: string
+  // Identifies the answer this run produces, for feedback on it (lib/answer-feedback.ts)
+  answerId: string
+  input: PipelineInput
+  // Structured context, when the extract stage produces one
+  context: ExtractedContext | null
+  // Free-text image analysis, when the extract stage produces one
+  analysis: string | null
+  // Text used by keyword and hybrid search
+  searchText: string
+  embedding: EmbeddingResult | null
+  // Text embedding of the query built from the context, for passage search
+  queryEmbedding: EmbeddingResult | null
+  documents: RetrievedDocument[]
+  response: string
+  timings: Partial<Record<PipelineStageName, number>>
+  // Stage-specific details returned to the client and written to the logs
+  metadata: Record<string, any>
+}
+
+// Stages return the fields they changed; the runner merges them into the state
+export type PipelineStage = (state: PipelineState, env: PipelineEnv) => Promise<Partial<PipelineState> | void>
+
+export interface PipelineLogger {
+  started?(state: PipelineState, env: PipelineEnv): Promise<void>
+  completed?(state: PipelineState, env: PipelineEnv): Promise<void>
+  failed?(state: PipelineState, env: PipelineEnv, error: PipelineError): Promise<void>
+}
+
+export interface RagPipeline {
+  name: string
+  extract: PipelineStage
+  retrieve: PipelineStage
+  rerank: PipelineStage
+  generate: PipelineStage
+  logger: PipelineLogger
+}
+
+// Thrown by stages that cannot continue; status is the HTTP status the route should answer with.
+// details are merged into the logged metadata and returned to the client with the error.
+export class PipelineError extends Error {
+  constructor(
+    message: string,
+    public stage: PipelineStageName,
+    public status = 500,
+    public details?: Record<string, any>,
+  ) {
+    super(message)
+    this.name = "PipelineError"
+  }
+}
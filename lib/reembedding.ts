@@ -0,0 +1,462 @@
+// Re-embedding jobs: regenerate every rag_documents vector with a new embedding model.
+//
+// Vectors for the target model are written to image_embedding_next while search keeps using the
+// current column. Job state lives in embedding_migration_jobs, so a job can be resumed from any
+// server instance after a restart. Once every document has been processed the job is activated,
+// which swaps the columns in one transaction (scripts/create-reembedding-jobs.sql). Each document's
+// passages (lib/passages.ts) are embedded with the target model in the same pass.
+
+import {
+  embedImage,
+  embedText,
+  getActiveEmbeddingModel,
+  getEmbeddingModel,
+  type EmbeddingModelSpec,
+} from "@/lib/embeddings"
+import { indexDocumentPassages } from "@/lib/passages"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export type ReembeddingJobStatus = "pending" | "running" | "paused" | "completed" | "activated" | "cancelled"
+
+export interface ReembeddingJob {
+  id: string
+  source_model: string | null
+  target_model: string
+  target_dim: number
+  status: ReembeddingJobStatus
+  dry_run: boolean
+  text_fallback: boolean
+  batch_size: number
+  max_retries: number
+  total_documents: number
+  processed_documents: number
+  failed_documents: number
+  skipped_documents: number
+  plan: ReembeddingPlan
+  last_error: string | null
+  started_at: string | null
+  completed_at: string | null
+  activated_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface ReembeddingPlan {
+  total_documents: number
+  already_migrated: number
+  from_source_image: number
+  from_text: number
+  without_source: number
+}
+
+export interface ReembeddingFailure {
+  document_id: string
+  attempts: number
+  last_error: string | null
+  updated_at: string
+}
+
+export interface CreateReembeddingJobOptions {
+  targetModel?: string
+  dryRun?: boolean
+  textFallback?: boolean
+  batchSize?: number
+  maxRetries?: number
+}
+
+interface BatchDocument {
+  document_id: string
+  title: string | null
+  icon_description: string | null
+  content: string | null
+  image_data: string | null
+  mime_type: string | null
+  attempts: number
+}
+
+const ACTIVE_STATUSES: ReembeddingJobStatus[] = ["pending", "running", "paused"]
+
+// A pending or running job whose updated_at is older than this has lost its worker (e.g. the server
+// restarted) and may be taken over. Longer than any batch, since every batch bumps updated_at.
+const STALE_WORKER_MS = 10 * 60 * 1000
+
+export async function getReembeddingJob(jobId: string): Promise<ReembeddingJob> {
+  const { data, error } = await supabaseAdmin.from("embedding_migration_jobs").select("*").eq("id", jobId).single()
+
+  if (error || !data) {
+    throw new Error(`Re-embedding job ${jobId} not found${error ? `: ${error.message}` : ""}`)
+  }
+
+  return data as ReembeddingJob
+}
+
+export async function listReembeddingJobs(limit = 20): Promise<ReembeddingJob[]> {
+  const { data, error } = await supabaseAdmin
+    .from("embedding_migration_jobs")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load re-embedding jobs: ${error.message}`)
+  }
+
+  return (data || []) as ReembeddingJob[]
+}
+
+export async function getReembeddingFailures(jobId: string): Promise<ReembeddingFailure[]> {
+  const { data, error } = await supabaseAdmin
+    .from("embedding_migration_failures")
+    .select("document_id, attempts, last_error, updated_at")
+    .eq("job_id", jobId)
+    .order("updated_at", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load re-embedding failures: ${error.message}`)
+  }
+
+  return data || []
+}
+
+export async function planReembedding(targetModel: string, textFallback = false): Promise<ReembeddingPlan> {
+  const { data, error } = await supabaseAdmin
+    .rpc("plan_embedding_migration", { target_model: targetModel, text_fallback: textFallback })
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to plan re-embedding: ${error?.message || "no result"}`)
+  }
+
+  return data as ReembeddingPlan
+}
+
+// Dry runs only record the plan; nothing is embedded or written to rag_documents
+export async function createReembeddingJob(options: CreateReembeddingJobOptions = {}): Promise<ReembeddingJob> {
+  const spec = getEmbeddingModel(options.targetModel)
+  const sourceModel = await getActiveEmbeddingModel()
+  const dryRun = options.dryRun ?? false
+  const textFallback = options.textFallback ?? false
+
+  if (!dryRun) {
+    const { data: inProgress } = await supabaseAdmin
+      .from("embedding_migration_jobs")
+      .select("id, status")
+      .eq("dry_run", false)
+      .in("status", ACTIVE_STATUSES)
+      .limit(1)
+
+    if (inProgress && inProgress.length > 0) {
+      throw new Error(`Re-embedding job ${inProgress[0].id} is already ${inProgress[0].status}`)
+    }
+  }
+
+  const plan = await planReembedding(spec.id, textFallback)
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabaseAdmin
+    .from("embedding_migration_jobs")
+    .insert({
+      source_model: sourceModel.id,
+      target_model: spec.id,
+      target_dim: spec.dimensions,
+      status: dryRun ? "completed" : "pending",
+      dry_run: dryRun,
+      text_fallback: textFallback,
+      batch_size: Math.min(Math.max(options.batchSize || 10, 1), 100),
+      max_retries: Math.min(Math.max(options.maxRetries || 3, 1), 10),
+      total_documents: plan.from_source_image + plan.from_text,
+      skipped_documents: plan.without_source,
+      plan,
+      completed_at: dryRun ? now : null,
+    })
+    .select()
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Failed to create re-embedding job: ${error?.message || "no data returned"}`)
+  }
+
+  console.log(
+    `[Re-embedding] Created ${dryRun ? "dry-run " : ""}job ${data.id}: ${sourceModel.id} -> ${spec.id}`,
+    plan,
+  )
+
+  return data as ReembeddingJob
+}
+
+async function updateJob(jobId: string, changes: Partial<ReembeddingJob>) {
+  const { error } = await supabaseAdmin
+    .from("embedding_migration_jobs")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+
+  if (error) {
+    throw new Error(`Failed to update re-embedding job ${jobId}: ${error.message}`)
+  }
+}
+
+// Moves the job to running with changes and reports whether the caller should start a worker for it.
+// The update only applies while the job is still as it was read (same status and updated_at), so of
+// concurrent resume/retry requests exactly one starts a worker; a job whose worker is alive is
+// never claimed.
+async function claimJob(job: ReembeddingJob, changes: Partial<ReembeddingJob>): Promise<boolean> {
+  const workerAlive =
+    (job.status === "pending" || job.status === "running") && Date.now() - Date.parse(job.updated_at) < STALE_WORKER_MS
+  if (workerAlive) {
+    return false
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from("embedding_migration_jobs")
+    .update({
+      ...changes,
+      status: "running",
+      started_at: job.started_at || new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", job.id)
+    .eq("status", job.status)
+    .eq("updated_at", job.updated_at)
+    .select("id")
+
+  if (error) {
+    throw new Error(`Failed to update re-embedding job ${job.id}: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
+
+async function releaseLease(jobId: string, documentId: string) {
+  await supabaseAdmin.from("embedding_migration_leases").delete().eq("job_id", jobId).eq("document_id", documentId)
+}
+
+async function embedDocument(document: BatchDocument, spec: EmbeddingModelSpec) {
+  if (document.image_data) {
+    return embedImage(document.image_data, document.mime_type || "image/jpeg", spec)
+  }
+
+  const text = [document.title, document.icon_description, document.content].filter(Boolean).join("\n")
+  return embedText(text, spec)
+}
+
+// Processes one batch and returns the updated job. Failed documents are retried by later
+// batches until they reach max_retries. The batch's documents are leased to this worker
+// (next_embedding_migration_batch), so a second worker on the same job takes other documents.
+export async function runReembeddingBatch(jobId: string): Promise<ReembeddingJob> {
+  const job = await getReembeddingJob(jobId)
+
+  if (job.dry_run || (job.status !== "pending" && job.status !== "running")) {
+    return job
+  }
+
+  if (job.status === "pending") {
+    await updateJob(jobId, { status: "running", started_at: job.started_at || new Date().toISOString() })
+  }
+
+  const spec = getEmbeddingModel(job.target_model)
+  if (spec.dimensions !== job.target_dim) {
+    await updateJob(jobId, {
+      status: "paused",
+      last_error: `${job.target_model} is configured with ${spec.dimensions} dimensions, job expects ${job.target_dim}`,
+    })
+    return getReembeddingJob(jobId)
+  }
+
+  const { data: batch, error: batchError } = await supabaseAdmin.rpc("next_embedding_migration_batch", {
+    p_job_id: jobId,
+    p_batch_size: job.batch_size,
+  })
+
+  if (batchError) {
+    await updateJob(jobId, { status: "paused", last_error: batchError.message })
+    return getReembeddingJob(jobId)
+  }
+
+  const documents = (batch || []) as BatchDocument[]
+  if (documents.length === 0) {
+    // Documents still leased to another worker keep the job running until that worker is done
+    const { count, error: queueError } = await supabaseAdmin.rpc(
+      "embedding_migration_queue",
+      { p_job_id: jobId },
+      { count: "exact", head: true },
+    )
+    if (queueError) {
+      await updateJob(jobId, { status: "paused", last_error: queueError.message })
+    } else if (!count) {
+      await updateJob(jobId, { status: "completed", completed_at: new Date().toISOString() })
+      console.log(`[Re-embedding] Job ${jobId} completed`)
+    }
+    return getReembeddingJob(jobId)
+  }
+
+  let processed = 0
+  let failed = 0
+  let lastError: string | null = null
+
+  for (const document of documents) {
+    try {
+      const embedding = await embedDocument(document, spec)
+
+      const { error } = await supabaseAdmin
+        .from("rag_documents")
+        .update({
+          image_embedding_next: embedding.vector,
+          embedding_model_next: embedding.model,
+          embedding_dim_next: embedding.dimensions,
+        })
+        .eq("id", document.document_id)
+
+      if (error) {
+        throw new Error(`Database update failed: ${error.message}`)
+      }
+
+      // Passages are stored per model, so the target model's passages can be written alongside
+      await indexDocumentPassages(
+        { id: document.document_id, title: document.title, content: document.content },
+        spec,
+      )
+
+      if (document.attempts > 0) {
+        await supabaseAdmin
+          .from("embedding_migration_failures")
+          .delete()
+          .eq("job_id", jobId)
+          .eq("document_id", document.document_id)
+      }
+
+      processed++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown re-embedding error"
+      const attempts = document.attempts + 1
+      lastError = `${document.document_id}: ${message}`
+      console.error(`[Re-embedding] Document ${document.document_id} failed (attempt ${attempts}):`, message)
+
+      await supabaseAdmin.from("embedding_migration_failures").upsert({
+        job_id: jobId,
+        document_id: document.document_id,
+        attempts,
+        last_error: message,
+        updated_at: new Date().toISOString(),
+      })
+
+      if (attempts >= job.max_retries) {
+        failed++
+      }
+    } finally {
+      await releaseLease(jobId, document.document_id)
+    }
+  }
+
+  // Counters are added in SQL; the job may also have been paused or cancelled meanwhile
+  const { data: updated, error: recordError } = await supabaseAdmin
+    .rpc("record_embedding_migration_batch", {
+      p_job_id: jobId,
+      p_processed: processed,
+      p_failed: failed,
+      p_last_error: lastError,
+    })
+    .single()
+
+  if (recordError || !updated) {
+    throw new Error(`Failed to update re-embedding job ${jobId}: ${recordError?.message || "no result"}`)
+  }
+
+  const current = updated as ReembeddingJob
+  console.log(
+    `[Re-embedding] Job ${jobId}: ${current.processed_documents}/${current.total_documents} processed, ${current.failed_documents} failed`,
+  )
+
+  return current
+}
+
+// Runs batches until the job completes or is paused/cancelled from elsewhere
+export async function runReembeddingJob(jobId: string): Promise<ReembeddingJob> {
+  let job = await getReembeddingJob(jobId)
+  let idleBatches = 0
+
+  while (job.status === "pending" || job.status === "running") {
+    const processedBefore = job.processed_documents
+    job = await runReembeddingBatch(jobId)
+
+    // Back off while nothing succeeds (e.g. provider outage) so retries are not burned instantly
+    idleBatches = job.processed_documents === processedBefore ? idleBatches + 1 : 0
+    if (idleBatches > 0 && job.status === "running") {
+      const waitTime = Math.min(Math.pow(2, idleBatches) * 1000, 30000)
+      await new Promise((resolve) => setTimeout(resolve, waitTime))
+    }
+  }
+
+  return job
+}
+
+export async function pauseReembeddingJob(jobId: string): Promise<ReembeddingJob> {
+  const job = await getReembeddingJob(jobId)
+  if (job.status === "pending" || job.status === "running") {
+    await updateJob(jobId, { status: "paused" })
+  }
+  return getReembeddingJob(jobId)
+}
+
+// Resumes a paused job, or takes over a pending/running one whose worker died with the server.
+// started tells the caller to run the job; it is false when nothing changed, e.g. the worker is alive.
+export async function resumeReembeddingJob(jobId: string): Promise<{ job: ReembeddingJob; started: boolean }> {
+  const job = await getReembeddingJob(jobId)
+  const started = !job.dry_run && ACTIVE_STATUSES.includes(job.status) && (await claimJob(job, { last_error: null }))
+  return { job: await getReembeddingJob(jobId), started }
+}
+
+// The _next vectors already written are kept; a later job for the same model skips them
+export async function cancelReembeddingJob(jobId: string): Promise<ReembeddingJob> {
+  const job = await getReembeddingJob(jobId)
+  if (ACTIVE_STATUSES.includes(job.status)) {
+    await updateJob(jobId, { status: "cancelled" })
+  }
+  return getReembeddingJob(jobId)
+}
+
+// Puts documents that exhausted their retries back in the queue. A job that is still being worked
+// on picks them up itself; otherwise started tells the caller to run the job again.
+export async function retryFailedDocuments(jobId: string): Promise<{ job: ReembeddingJob; started: boolean }> {
+  const job = await getReembeddingJob(jobId)
+  if (job.dry_run || job.status === "activated" || job.status === "cancelled") {
+    throw new Error(`Cannot retry documents of a ${job.dry_run ? "dry-run" : job.status} job`)
+  }
+
+  const { error } = await supabaseAdmin.from("embedding_migration_failures").delete().eq("job_id", jobId)
+  if (error) {
+    throw new Error(`Failed to reset re-embedding failures: ${error.message}`)
+  }
+
+  const reset = { failed_documents: 0, completed_at: null, last_error: null }
+  const started = await claimJob(job, reset)
+  if (!started) {
+    await updateJob(jobId, reset)
+  }
+  return { job: await getReembeddingJob(jobId), started }
+}
+
+export async function activateReembeddingJob(
+  jobId: string,
+  allowPartial = false,
+): Promise<{ job: ReembeddingJob; activatedDocuments: number; leftBehindDocuments: number }> {
+  const { data, error } = await supabaseAdmin
+    .rpc("activate_embedding_migration", { p_job_id: jobId, p_allow_partial: allowPartial })
+    .single()
+
+  if (error || !data) {
+    throw new Error(`Activation failed: ${error?.message || "no result"}`)
+  }
+
+  const result = data as { activated_documents: number; left_behind_documents: number }
+  const job = await getReembeddingJob(jobId)
+
+  console.log(
+    `[Re-embedding] Job ${jobId} activated: search now uses ${job.target_model} (${result.activated_documents} documents, ${result.left_behind_documents} left behind)`,
+  )
+
+  return {
+    job,
+    activatedDocuments: result.activated_documents,
+    leftBehindDocuments: result.left_behind_documents,
+  }
+}
@@ -0,0 +1,197 @@
+// Offline retrieval evaluation against a golden set: images with the documents (or categories) a good
+// retrieval returns for them.
+//
+// Each case runs the analyze pipeline's own extract, retrieve and rerank stages, so the ranking is the
+// one the model would be shown; generation and logging are skipped. Extraction runs once per case and
+// every variant (RetrievalTuning) retrieves from that same extracted state, so variants differ only in
+// their search parameters. scripts/evaluate-retrieval.mjs sends the cases to
+// /api/debug/retrieval-eval one at a time and aggregates the results into the report.
+
+import { z } from "zod"
+import {
+  FUSION_STRATEGIES,
+  createPipelineState,
+  createSessionId,
+  genericRagPipeline,
+  intelligentRagPipeline,
+  multimodalRagPipeline,
+  type FusionStrategy,
+  type PipelineEnv,
+  type PipelineState,
+  type RagPipeline,
+  type RetrievalTuning,
+  type RetrievedDocument,
+} from "@/lib/rag"
+
+export const EVAL_PIPELINES: Record<string, RagPipeline> = {
+  "intelligent-rag": intelligentRagPipeline,
+  "generic-rag": genericRagPipeline,
+  "multimodal-rag": multimodalRagPipeline,
+}
+
+// Cutoffs recall is reported at
+export const DEFAULT_RECALL_KS = [1, 3, 5]
+
+// One golden case as the route receives it; the script has already read the image file
+export const evalCaseSchema = z
+  .object({
+    id: z.string().min(1),
+    imageBase64: z.string().min(1),
+    mimeType: z.string().min(1),
+    pipeline: z.enum(["intelligent-rag", "generic-rag", "multimodal-rag"]).default("intelligent-rag"),
+    userPrompt: z.string().optional(),
+    // Sent as the page would send it: category, product type or product category depending on the pipeline
+    category: z.string().optional(),
+    productModelId: z.string().optional(),
+    expected: z.object({
+      documentIds: z.array(z.string()).default([]),
+      categories: z.array(z.string()).default([]),
+    }),
+  })
+  .refine((testCase) => testCase.expected.documentIds.length > 0 || testCase.expected.categories.length > 0, {
+    message: "expected needs documentIds or categories",
+  })
+
+export const retrievalTuningSchema = z.object({
+  matchThreshold: z.number().min(0).max(1).optional(),
+  vectorWeight: z.number().min(0).optional(),
+  textWeight: z.number().min(0).optional(),
+  strategy: z.enum(FUSION_STRATEGIES as [FusionStrategy, ...FusionStrategy[]]).optional(),
+}) satisfies z.ZodType<RetrievalTuning>
+
+export const evalVariantSchema = z.object({
+  name: z.string().min(1),
+  // Empty: the pipeline's own parameters
+  tuning: retrievalTuningSchema.default({}),
+})
+
+export type EvalCase = z.infer<typeof evalCaseSchema>
+export type EvalVariant = z.infer<typeof evalVariantSchema>
+
+export interface RankedDocument {
+  id: string
+  title: string | null
+  category: string | null
+  score: number
+  method: string
+  relevant: boolean
+}
+
+export interface CaseScore {
+  // Share of the expected documents (or, without any, the expected categories) in the top k
+  recall: Record<number, number>
+  // 1 / rank of the first relevant document, 0 when none was returned
+  reciprocalRank: number
+  firstRelevantRank: number | null
+}
+
+export interface VariantResult extends CaseScore {
+  variant: string
+  documents: RankedDocument[]
+  searchMethods: string[]
+  timings: PipelineState["timings"]
+  // Set when retrieval failed; the variant then counts as returning nothing
+  error?: string
+}
+
+export interface CaseResult {
+  caseId: string
+  pipeline: string
+  // Where the case is counted in the per-category breakdown
+  category: string
+  results: VariantResult[]
+}
+
+type ScoredDocument = { id: string; category?: string | null }
+
+// Relevance is by document id when the case lists any, otherwise by category
+export function isRelevant(doc: ScoredDocument, expected: EvalCase["expected"]): boolean {
+  return expected.documentIds.length > 0
+    ? expected.documentIds.includes(doc.id)
+    : !!doc.category && expected.categories.includes(doc.category)
+}
+
+export function scoreRanking(
+  documents: ScoredDocument[],
+  expected: EvalCase["expected"],
+  ks: number[] = DEFAULT_RECALL_KS,
+): CaseScore {
+  const byId = expected.documentIds.length > 0
+  const wanted = byId ? expected.documentIds : expected.categories
+  const recall: Record<number, number> = {}
+  for (const k of ks) {
+    const top = documents.slice(0, k).map((doc) => (byId ? doc.id : doc.category))
+    recall[k] = wanted.filter((value) => top.includes(value)).length / wanted.length
+  }
+
+  const index = documents.findIndex((doc) => isRelevant(doc, expected))
+  return {
+    recall,
+    reciprocalRank: index < 0 ? 0 : 1 / (index + 1),
+    firstRelevantRank: index < 0 ? null : index + 1,
+  }
+}
+
+export function breakdownCategory(testCase: EvalCase): string {
+  return testCase.category || testCase.expected.categories[0] || "uncategorized"
+}
+
+// Runs one case through its pipeline once per variant. Errors of the extract stage fail the case;
+// a variant whose retrieval fails is reported with no documents.
+export async function evaluateCase(
+  testCase: EvalCase,
+  variants: EvalVariant[],
+  env: PipelineEnv,
+  ks: number[] = DEFAULT_RECALL_KS,
+): Promise<CaseResult> {
+  const pipeline = EVAL_PIPELINES[testCase.pipeline]
+  let extracted = createPipelineState(pipeline.name, {
+    image: { data: testCase.imageBase64, mimeType: testCase.mimeType },
+    sessionId: createSessionId("eval"),
+    chatHistory: [],
+    userPrompt: testCase.userPrompt,
+    category: testCase.category,
+    productModelId: testCase.productModelId,
+    // Golden images are chosen on purpose; the quality gate would only get in the way
+    skipQualityCheck: true,
+  })
+
+  const extractStart = Date.now()
+  extracted = { ...extracted, ...((await pipeline.extract(extracted, env)) || {}) }
+  extracted.timings = { extract: Date.now() - extractStart }
+
+  const results: VariantResult[] = []
+  for (const variant of variants) {
+    let state: PipelineState = { ...extracted, input: { ...extracted.input, tuning: variant.tuning } }
+    let error: string | undefined
+    try {
+      for (const stage of ["retrieve", "rerank"] as const) {
+        const stageStart = Date.now()
+        state = { ...state, ...((await pipeline[stage](state, env)) || {}) }
+        state.timings = { ...state.timings, [stage]: Date.now() - stageStart }
+      }
+    } catch (stageError) {
+      console.error(`[Eval] ${testCase.id} / ${variant.name} failed:`, stageError)
+      error = stageError instanceof Error ? stageError.message : String(stageError)
+      state = { ...state, documents: [] }
+    }
+
+    results.push({
+      variant: variant.name,
+      ...scoreRanking(state.documents, testCase.expected, ks),
+      documents: state.documents.map((doc: RetrievedDocument) => ({
+        id: doc.id,
+        title: doc.title || null,
+        category: doc.category || null,
+        score: doc.relevance_score,
+        method: doc.retrieval_method,
+        relevant: isRelevant(doc, testCase.expected),
+      })),
+      searchMethods: state.metadata.searchMethods || [],
+      timings: state.timings,
+      error,
+    })
+  }
+
+  return { caseId: testCase.id, pipeline: pipeline.name, category: breakdownCategory(testCase), results }
+}
@@ -0,0 +1,105 @@
+// Minimal Server-Sent Events helpers shared by streaming API routes and the pages reading them
+
+export type SSESend = (event: string, data: unknown) => void
+
+// Runs the producer and streams whatever it sends; the stream closes when the producer settles.
+// signal aborts when the client disconnects (the stream is cancelled) or the given request signal
+// aborts; from then on send does nothing, so the producer can finish or stop on its own.
+export function createSSEResponse(
+  producer: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  options: { signal?: AbortSignal } = {},
+): Response {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  let closed = false
+
+  const stop = () => {
+    closed = true
+    abort.abort()
+  }
+  if (options.signal?.aborted) {
+    stop()
+  } else {
+    options.signal?.addEventListener("abort", stop, { once: true })
+  }
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SSESend = (event, data) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        } catch {
+          stop()
+        }
+      }
+
+      try {
+        await producer(send, abort.signal)
+      } catch (error) {
+        console.error("[SSE] Producer failed:", error)
+      } finally {
+        options.signal?.removeEventListener("abort", stop)
+        if (!closed) {
+          closed = true
+          try {
+            controller.close()
+          } catch {
+            // Already closed by a cancel racing the end of the producer
+          }
+        }
+      }
+    },
+    cancel() {
+      stop()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
+
+// Calls onEvent for every event of a text/event-stream response body
+export async function readSSE(response: Response, onEvent: (event: string, data: any) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  const dispatch = (block: string) => {
+    let event = "message"
+    const dataLines: string[] = []
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith("data:")) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+    if (dataLines.length > 0) {
+      onEvent(event, JSON.parse(dataLines.join("\n")))
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split("\n\n")
+    buffer = blocks.pop() || ""
+    blocks.forEach(dispatch)
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer)
+  }
+}
@@ -0,0 +1,19 @@
+import type { SupportTicket, TicketAdapter, TicketHandoffResult } from "./types"
+
+// Keeps tickets in support_tickets only; agents work them from the database or the tickets API.
+// This is the default, so escalation works without any helpdesk tool configured.
+export class DatabaseTicketAdapter implements TicketAdapter {
+  readonly name = "database"
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  configurationError(): string | null {
+    return null
+  }
+
+  async submit(ticket: SupportTicket): Promise<TicketHandoffResult> {
+    return { externalId: ticket.id }
+  }
+}
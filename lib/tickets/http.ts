@@ -0,0 +1,74 @@
+import type { SupportTicket, TicketAdapter, TicketHandoffResult } from "./types"
+
+const PRIORITY_BY_URGENCY: Record<string, string> = {
+  low: "low",
+  medium: "normal",
+  high: "high",
+  critical: "urgent",
+}
+
+// Posts tickets as JSON to a helpdesk webhook or API (TICKET_HTTP_URL, optional TICKET_HTTP_TOKEN).
+// The endpoint answers with { id, url } or { ticket: { id, url } }. Pass fetchImpl to point the
+// adapter at a mock in tests and local development.
+export class HttpTicketAdapter implements TicketAdapter {
+  readonly name = "http"
+
+  constructor(
+    private url: string | undefined = process.env.TICKET_HTTP_URL,
+    private token: string | undefined = process.env.TICKET_HTTP_TOKEN,
+    private fetchImpl: typeof fetch = (...args) => fetch(...args),
+  ) {}
+
+  isConfigured(): boolean {
+    return !!this.url
+  }
+
+  configurationError(): string | null {
+    return this.url ? null : "TICKET_HTTP_URL is not configured"
+  }
+
+  async submit(ticket: SupportTicket): Promise<TicketHandoffResult> {
+    if (!this.url) {
+      throw new Error("TICKET_HTTP_URL is not configured")
+    }
+
+    const response = await this.fetchImpl(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(toPayload(ticket)),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "")
+      throw new Error(`Ticket system returned HTTP ${response.status}${errorText ? `: ${errorText.slice(0, 200)}` : ""}`)
+    }
+
+    const data = await response.json().catch(() => ({}))
+    const created = data.ticket || data
+    if (!created.id) {
+      throw new Error("Ticket system response has no ticket id")
+    }
+
+    return { externalId: String(created.id), externalUrl: created.url || undefined }
+  }
+}
+
+function toPayload(ticket: SupportTicket) {
+  const device = ticket.device_type && ticket.device_type !== "unknown" ? ticket.device_type : null
+
+  return {
+    subject: `[AI Vision Chat] ${device ? `${device}: ` : ""}${ticket.summary.split("\n")[0].slice(0, 80)}`,
+    description: ticket.summary,
+    priority: PRIORITY_BY_URGENCY[ticket.urgency_level || ""] || "normal",
+    tags: ["ai-escalation", ...ticket.reasons],
+    metadata: {
+      ticketId: ticket.id,
+      sessionId: ticket.session_id,
+      handoff: ticket.handoff,
+    },
+    attachments: ticket.frames.map((frame, index) => ({ filename: `frame-${index + 1}.jpg`, dataUrl: frame })),
+  }
+}
@@ -0,0 +1,21 @@
+import { DatabaseTicketAdapter } from "./database"
+import { HttpTicketAdapter } from "./http"
+import type { TicketAdapter } from "./types"
+
+export * from "./types"
+export { DatabaseTicketAdapter, HttpTicketAdapter }
+
+let adapter: TicketAdapter | null = null
+
+// Selected with TICKET_ADAPTER=database|http (defaults to database)
+export function getTicketAdapter(): TicketAdapter {
+  if (!adapter) {
+    adapter = (process.env.TICKET_ADAPTER || "").toLowerCase() === "http" ? new HttpTicketAdapter() : new DatabaseTicketAdapter()
+  }
+  return adapter
+}
+
+// Allows tests and scripts to swap the adapter
+export function setTicketAdapter(next: TicketAdapter | null) {
+  adapter = next
+}
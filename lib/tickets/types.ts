@@ -0,0 +1,57 @@
+// Adapter-neutral types for handing support tickets to a ticket system
+
+export type EscalationReason = "no_documents" | "critical_urgency" | "user_request" | "guided_flow_failed"
+
+export type TicketStatus = "open" | "handoff_failed" | "in_progress" | "resolved" | "closed"
+
+export interface HandoffDocument {
+  id: string
+  title?: string
+  category?: string
+  relevance_score?: number
+}
+
+// Everything a human agent needs to pick the conversation up without asking again
+export interface HandoffDetails {
+  deviceType: string | null
+  extractedContext: Record<string, any> | null
+  relevantDocuments: HandoffDocument[]
+  stepsTried: string[]
+  recommendedActions: string[]
+  userNote: string | null
+  transcript: Array<{ role: "user" | "model"; content: string; timestamp: string }>
+}
+
+export interface SupportTicket {
+  id: string
+  session_id: string | null
+  // Who escalated (resolveOwnerId); tickets are only visible to their owner
+  owner_id: string | null
+  status: TicketStatus
+  reasons: EscalationReason[]
+  urgency_level: string | null
+  device_type: string | null
+  summary: string
+  handoff: HandoffDetails
+  frames: string[]
+  adapter: string
+  external_id: string | null
+  external_url: string | null
+  last_error: string | null
+  created_at: string
+  updated_at: string
+}
+
+// Where the ticket ended up in the ticket system
+export interface TicketHandoffResult {
+  externalId: string
+  externalUrl?: string
+}
+
+export interface TicketAdapter {
+  readonly name: string
+  isConfigured(): boolean
+  // Human readable reason when isConfigured() is false
+  configurationError(): string | null
+  submit(ticket: SupportTicket): Promise<TicketHandoffResult>
+}
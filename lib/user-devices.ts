@@ -0,0 +1,267 @@
+// Device registry: the appliances a user owns (model, serial number, purchase date, location, photos)
+// and a history of the issues found on each one (scripts/create-user-devices.sql).
+//
+// Devices belong to an owner: the Supabase auth user when the request carries an access token, otherwise
+// the anonymous id the browser generated and sends in the x-owner-id header. Every read and write is
+// filtered by owner, so a device id alone never exposes someone else's device.
+
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { ProductModel } from "@/lib/device-identification"
+import { supabaseAdmin } from "@/lib/supabase"
+
+export interface UserDevice {
+  id: string
+  owner_id: string
+  nickname: string
+  product_model_id: string | null
+  model_number: string | null
+  serial_number: string | null
+  // YYYY-MM-DD
+  purchase_date: string | null
+  location: string | null
+  // Data URLs
+  photos: string[]
+  created_at?: string
+  updated_at?: string
+  product_model?: ProductModel | null
+}
+
+export interface DeviceIssue {
+  id: string
+  device_id: string
+  session_id: string
+  issue: string
+  error_codes: string[]
+  document_id: string | null
+  document_title: string | null
+  resolution: string | null
+  resolved_at: string | null
+  created_at: string
+  updated_at?: string
+}
+
+// A device with its catalog entry and latest issues, as passed to the pipeline
+export interface RegisteredDevice extends UserDevice {
+  product_model: ProductModel | null
+  recentIssues: DeviceIssue[]
+}
+
+export const OWNER_HEADER = "x-owner-id"
+
+// Generated by the browser: "anon_" and at least 16 random characters
+const ANONYMOUS_OWNER_ID = /^anon_[a-z0-9]{16,64}$/
+
+export const MAX_DEVICE_PHOTOS = 4
+
+// Issues given to the model as device history
+export const RECENT_ISSUE_COUNT = 5
+
+const DEVICE_COLUMNS = "*, product_model:product_models(*)"
+
+// Signed-in users first (Authorization: Bearer <Supabase access token>), then the anonymous id
+export async function resolveOwnerId(request: Request, db: SupabaseClient = supabaseAdmin): Promise<string | null> {
+  const token = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  if (token) {
+    const { data, error } = await db.auth.getUser(token)
+    if (!error && data.user) {
+      return data.user.id
+    }
+  }
+
+  const anonymousId = request.headers.get(OWNER_HEADER)
+  return anonymousId && ANONYMOUS_OWNER_ID.test(anonymousId) ? anonymousId : null
+}
+
+export async function listUserDevices(ownerId: string, db: SupabaseClient = supabaseAdmin): Promise<UserDevice[]> {
+  const { data, error } = await db
+    .from("user_devices")
+    .select(DEVICE_COLUMNS)
+    .eq("owner_id", ownerId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data || []
+}
+
+export async function getUserDevice(
+  id: string,
+  ownerId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<UserDevice | null> {
+  const { data, error } = await db
+    .from("user_devices")
+    .select(DEVICE_COLUMNS)
+    .eq("id", id)
+    .eq("owner_id", ownerId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
+
+export interface UserDeviceInput {
+  nickname: string
+  productModelId?: string | null
+  modelNumber?: string | null
+  serialNumber?: string | null
+  purchaseDate?: string | null
+  location?: string | null
+  photos?: string[]
+}
+
+function toDeviceRow(entry: UserDeviceInput) {
+  const photos = (entry.photos || []).filter((photo) => typeof photo === "string" && photo.startsWith("data:image/"))
+  if (photos.length > MAX_DEVICE_PHOTOS) {
+    throw new Error(`At most ${MAX_DEVICE_PHOTOS} photos per device`)
+  }
+  if (entry.purchaseDate && !/^\d{4}-\d{2}-\d{2}$/.test(entry.purchaseDate)) {
+    throw new Error(`Invalid purchase date: ${entry.purchaseDate}`)
+  }
+
+  return {
+    nickname: entry.nickname.trim(),
+    product_model_id: entry.productModelId || null,
+    model_number: entry.modelNumber?.trim() || null,
+    serial_number: entry.serialNumber?.trim() || null,
+    purchase_date: entry.purchaseDate || null,
+    location: entry.location?.trim() || null,
+    photos,
+  }
+}
+
+// Creates a device, or updates it when id is given and the device belongs to the owner. Throws
+// "Device not found" when there is no such device of the owner's.
+export async function saveUserDevice(
+  ownerId: string,
+  entry: UserDeviceInput,
+  id?: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<UserDevice> {
+  const row = toDeviceRow(entry)
+  const query = id
+    ? db.from("user_devices").update(row).eq("id", id).eq("owner_id", ownerId)
+    : db.from("user_devices").insert({ ...row, owner_id: ownerId })
+
+  const { data, error } = await query.select(DEVICE_COLUMNS).maybeSingle()
+  if (error) {
+    throw new Error(error.message)
+  }
+  if (!data) {
+    throw new Error("Device not found")
+  }
+  return data
+}
+
+export async function deleteUserDevice(id: string, ownerId: string, db: SupabaseClient = supabaseAdmin): Promise<void> {
+  const { error } = await db.from("user_devices").delete().eq("id", id).eq("owner_id", ownerId)
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+export async function listDeviceIssues(
+  deviceId: string,
+  limit = 20,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<DeviceIssue[]> {
+  const { data, error } = await db
+    .from("device_issues")
+    .select("*")
+    .eq("device_id", deviceId)
+    .order("created_at", { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data || []
+}
+
+// The owner's device with its catalog entry and recent issues, or null when it is not theirs
+export async function loadRegisteredDevice(
+  id: string,
+  ownerId: string,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<RegisteredDevice | null> {
+  const device = await getUserDevice(id, ownerId, db)
+  if (!device) {
+    return null
+  }
+
+  return {
+    ...device,
+    product_model: device.product_model || null,
+    recentIssues: await listDeviceIssues(id, RECENT_ISSUE_COUNT, db),
+  }
+}
+
+// Records what a conversation found on the device. Later analyses in the same conversation update
+// the row; a resolution already entered is kept.
+export async function recordDeviceIssue(
+  entry: {
+    deviceId: string
+    sessionId: string
+    issue: string
+    errorCodes: string[]
+    documentId: string | null
+    documentTitle: string | null
+  },
+  db: SupabaseClient = supabaseAdmin,
+): Promise<void> {
+  const { error } = await db.from("device_issues").upsert(
+    {
+      device_id: entry.deviceId,
+      session_id: entry.sessionId,
+      issue: entry.issue,
+      error_codes: entry.errorCodes,
+      document_id: entry.documentId,
+      document_title: entry.documentTitle,
+    },
+    { onConflict: "device_id,session_id" },
+  )
+
+  if (error) {
+    throw new Error(error.message)
+  }
+}
+
+// Marks an issue resolved, or reopens it when resolution is null. The device must be the owner's.
+export async function resolveDeviceIssue(
+  issueId: string,
+  ownerId: string,
+  resolution: string | null,
+  db: SupabaseClient = supabaseAdmin,
+): Promise<DeviceIssue> {
+  const { data: issue, error: lookupError } = await db
+    .from("device_issues")
+    .select("id, device:user_devices!inner(owner_id)")
+    .eq("id", issueId)
+    .eq("device.owner_id", ownerId)
+    .maybeSingle()
+
+  if (lookupError) {
+    throw new Error(lookupError.message)
+  }
+  if (!issue) {
+    throw new Error("Issue not found")
+  }
+
+  const { data, error } = await db
+    .from("device_issues")
+    .update({
+      resolution: resolution?.trim() || null,
+      resolved_at: resolution?.trim() ? new Date().toISOString() : null,
+    })
+    .eq("id", issueId)
+    .select()
+    .single()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data
+}
@@ -0,0 +1,83 @@
+-- Conversation lifecycle for the main vision chat page
+--
+-- Sessions get a title, a light summary view for the session list, and an append function so
+-- the server can add messages to a conversation without reading and rewriting the whole array.
+-- Every session belongs to the owner that started it (resolveOwnerId in lib/user-devices.ts: the
+-- signed-in user or the browser's anonymous id). Sessions created before owner_id existed have no
+-- owner and are no longer listed or returned to anyone.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'chat_sessions' AND column_name = 'title'
+    ) THEN
+        ALTER TABLE chat_sessions ADD COLUMN title TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'chat_sessions' AND column_name = 'owner_id'
+    ) THEN
+        ALTER TABLE chat_sessions ADD COLUMN owner_id TEXT;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_updated_at ON chat_sessions(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_owner_updated_at ON chat_sessions(owner_id, updated_at DESC);
+
+-- Session list without the messages themselves (they can hold base64 images).
+-- Messages are stored either as { role, content } or as { role, parts: [{ text }] }.
+CREATE OR REPLACE VIEW chat_session_summaries AS
+SELECT
+    session_id,
+    title,
+    jsonb_array_length(messages) AS message_count,
+    LEFT(
+        COALESCE(messages -> -1 ->> 'content', messages -> -1 -> 'parts' -> 0 ->> 'text', ''),
+        120
+    ) AS last_message,
+    created_at,
+    updated_at,
+    owner_id
+FROM chat_sessions;
+
+-- Appends messages to a session, creating it on first use. p_title only applies to new or
+-- untitled sessions so a rename is never overwritten. A new session belongs to p_owner_id; appending
+-- to another owner's session, or without an owner, fails.
+DROP FUNCTION IF EXISTS append_chat_messages(TEXT, JSONB, TEXT);
+CREATE OR REPLACE FUNCTION append_chat_messages(
+    p_session_id TEXT,
+    p_messages JSONB,
+    p_title TEXT DEFAULT NULL,
+    p_owner_id TEXT DEFAULT NULL
+)
+RETURNS chat_sessions
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    result chat_sessions;
+BEGIN
+    IF p_owner_id IS NULL THEN
+        RAISE EXCEPTION 'Chat session % needs an owner', p_session_id;
+    END IF;
+
+    INSERT INTO chat_sessions (session_id, messages, title, owner_id)
+    VALUES (p_session_id, p_messages, p_title, p_owner_id)
+    ON CONFLICT (session_id) DO UPDATE
+    SET messages = chat_sessions.messages || EXCLUDED.messages,
+        title = COALESCE(chat_sessions.title, EXCLUDED.title),
+        updated_at = NOW()
+    WHERE chat_sessions.owner_id = p_owner_id
+    RETURNING * INTO result;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Chat session % belongs to another owner', p_session_id;
+    END IF;
+
+    RETURN result;
+END;
+$$;
+
+GRANT SELECT ON chat_session_summaries TO service_role;
+GRANT EXECUTE ON FUNCTION append_chat_messages(TEXT, JSONB, TEXT, TEXT) TO service_role;
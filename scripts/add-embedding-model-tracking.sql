@@ -0,0 +1,412 @@
+-- Track which embedding model produced each vector
+--
+-- Vectors used to be padded or truncated to 1408 dimensions regardless of the model that produced
+-- them. After this migration every row records its embedding_model and embedding_dim, the column
+-- accepts vectors of any size, and the search functions only compare vectors from the same model.
+-- Existing rows are marked as 'legacy-padded-1408' and stop matching until they are re-embedded.
+
+-- HNSW/IVFFlat indexes require a fixed dimension, so they have to go before the column type changes
+DROP INDEX IF EXISTS idx_rag_documents_image_embedding_hnsw;
+DROP INDEX IF EXISTS idx_rag_documents_image_embedding;
+DROP INDEX IF EXISTS idx_rag_documents_embedding;
+DROP INDEX IF EXISTS idx_coffee_maker_image_embedding;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'image_embedding'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN image_embedding vector;
+    ELSE
+        ALTER TABLE rag_documents ALTER COLUMN image_embedding TYPE vector;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'embedding_model'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN embedding_model TEXT;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'embedding_dim'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN embedding_dim INTEGER;
+    END IF;
+END $$;
+
+UPDATE rag_documents
+SET embedding_model = 'legacy-padded-1408',
+    embedding_dim = vector_dims(image_embedding)
+WHERE image_embedding IS NOT NULL
+  AND embedding_model IS NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'rag_documents_embedding_dim_check') THEN
+        ALTER TABLE rag_documents ADD CONSTRAINT rag_documents_embedding_dim_check CHECK (
+            image_embedding IS NULL
+            OR (embedding_model IS NOT NULL AND embedding_dim = vector_dims(image_embedding))
+        );
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_rag_documents_embedding_model ON rag_documents(embedding_model);
+
+-- Same treatment for the standalone coffee maker table, when it exists
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'coffee_maker_rag_documents') THEN
+        ALTER TABLE coffee_maker_rag_documents ALTER COLUMN image_embedding TYPE vector;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'coffee_maker_rag_documents' AND column_name = 'embedding_model'
+        ) THEN
+            ALTER TABLE coffee_maker_rag_documents ADD COLUMN embedding_model TEXT;
+            ALTER TABLE coffee_maker_rag_documents ADD COLUMN embedding_dim INTEGER;
+        END IF;
+
+        UPDATE coffee_maker_rag_documents
+        SET embedding_model = 'legacy-padded-1408',
+            embedding_dim = vector_dims(image_embedding)
+        WHERE image_embedding IS NOT NULL
+          AND embedding_model IS NULL;
+    END IF;
+END $$;
+
+-- Cosine similarity that returns NULL instead of raising when the dimensions differ
+CREATE OR REPLACE FUNCTION embedding_similarity(a vector, b vector)
+RETURNS double precision
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE WHEN vector_dims(a) = vector_dims(b) THEN 1 - (a <=> b) END;
+$$;
+
+-- The search functions take the query model as an extra argument, so the old signatures are dropped
+DROP FUNCTION IF EXISTS search_hybrid_documents(vector, text, float, int, float, float);
+DROP FUNCTION IF EXISTS search_similar_documents(vector, float, int, text);
+DROP FUNCTION IF EXISTS search_similar_issues(vector, text, text, text, float, int);
+DROP FUNCTION IF EXISTS match_visual_issues(vector, text, float, int);
+DROP FUNCTION IF EXISTS match_product_issues(vector, text, float, int);
+DROP FUNCTION IF EXISTS match_coffee_maker_icons(vector, float, int);
+
+CREATE OR REPLACE FUNCTION search_hybrid_documents(
+    query_embedding vector,
+    query_embedding_model text,
+    query_text text,
+    match_threshold float,
+    match_count int,
+    vector_weight float DEFAULT 0.5,
+    text_weight float DEFAULT 0.5
+)
+RETURNS TABLE (
+    id uuid,
+    title text,
+    content text,
+    category text,
+    tags text[],
+    icon_name text,
+    icon_description text,
+    combined_score double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH vector_search AS (
+        SELECT
+            rd.id,
+            embedding_similarity(rd.image_embedding, query_embedding) * vector_weight AS score
+        FROM rag_documents rd
+        WHERE rd.image_embedding IS NOT NULL
+          AND rd.is_active = true
+          AND rd.embedding_model = query_embedding_model
+          AND embedding_similarity(rd.image_embedding, query_embedding) > match_threshold
+        ORDER BY score DESC
+        LIMIT match_count * 2
+    ),
+    full_text_search AS (
+        SELECT
+            rd.id,
+            ts_rank(
+                to_tsvector('japanese', rd.title || ' ' || rd.content || ' ' || array_to_string(rd.tags, ' ')),
+                websearch_to_tsquery('japanese', query_text)
+            ) * text_weight AS score
+        FROM rag_documents rd
+        WHERE rd.is_active = true
+          AND query_text != ''
+          AND websearch_to_tsquery('japanese', query_text) @@ to_tsvector('japanese', rd.title || ' ' || rd.content || ' ' || array_to_string(rd.tags, ' '))
+        ORDER BY score DESC
+        LIMIT match_count * 2
+    ),
+    combined_results AS (
+        SELECT all_searches.id, SUM(all_searches.score) AS total_score
+        FROM (
+            SELECT vs.id, vs.score FROM vector_search vs
+            UNION ALL
+            SELECT fts.id, fts.score FROM full_text_search fts
+        ) AS all_searches
+        GROUP BY all_searches.id
+    )
+    SELECT
+        rd.id,
+        rd.title,
+        rd.content,
+        rd.category,
+        rd.tags,
+        rd.icon_name,
+        rd.icon_description,
+        cr.total_score AS combined_score
+    FROM rag_documents rd
+    JOIN combined_results cr ON rd.id = cr.id
+    ORDER BY combined_score DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_similar_documents(
+    query_embedding vector,
+    query_embedding_model text,
+    match_threshold float,
+    match_count int,
+    filter_category text DEFAULT NULL
+)
+RETURNS TABLE (
+    id uuid,
+    title text,
+    content text,
+    category text,
+    tags text[],
+    icon_name text,
+    icon_description text,
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        rd.id,
+        rd.title,
+        rd.content,
+        rd.category,
+        rd.tags,
+        rd.icon_name,
+        rd.icon_description,
+        embedding_similarity(rd.image_embedding, query_embedding) AS similarity
+    FROM rag_documents rd
+    WHERE rd.image_embedding IS NOT NULL
+      AND rd.is_active = true
+      AND rd.embedding_model = query_embedding_model
+      AND embedding_similarity(rd.image_embedding, query_embedding) > match_threshold
+      AND (filter_category IS NULL OR rd.category = filter_category)
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION search_similar_issues(
+    query_embedding vector,
+    query_embedding_model text,
+    category_filter text DEFAULT NULL,
+    issue_type_filter text DEFAULT NULL,
+    severity_filter text DEFAULT NULL,
+    match_threshold float DEFAULT 0.6,
+    match_count int DEFAULT 10
+)
+RETURNS TABLE (
+    id uuid,
+    title text,
+    content text,
+    icon_name text,
+    icon_description text,
+    category text,
+    subcategory text,
+    issue_type text,
+    severity_level text,
+    urgency_level text,
+    visual_indicators text[],
+    indicator_states text[],
+    difficulty_level text,
+    estimated_time_minutes integer,
+    tools_required text[],
+    safety_warnings text[],
+    tags text[],
+    metadata jsonb,
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        rd.id,
+        rd.title,
+        rd.content,
+        rd.icon_name,
+        rd.icon_description,
+        rd.category,
+        rd.subcategory,
+        rd.issue_type,
+        rd.severity_level,
+        rd.urgency_level,
+        rd.visual_indicators,
+        rd.indicator_states,
+        rd.difficulty_level,
+        rd.estimated_time_minutes,
+        rd.tools_required,
+        rd.safety_warnings,
+        rd.tags,
+        rd.metadata,
+        embedding_similarity(rd.image_embedding, query_embedding) AS similarity
+    FROM rag_documents rd
+    WHERE rd.is_active = true
+      AND rd.image_embedding IS NOT NULL
+      AND rd.embedding_model = query_embedding_model
+      AND (category_filter IS NULL OR rd.category = category_filter)
+      AND (issue_type_filter IS NULL OR rd.issue_type = issue_type_filter)
+      AND (severity_filter IS NULL OR rd.severity_level = severity_filter)
+      AND embedding_similarity(rd.image_embedding, query_embedding) > match_threshold
+    ORDER BY
+        similarity DESC,
+        CASE rd.severity_level
+            WHEN 'critical' THEN 4
+            WHEN 'high' THEN 3
+            WHEN 'medium' THEN 2
+            WHEN 'low' THEN 1
+            ELSE 0
+        END DESC,
+        CASE rd.urgency_level
+            WHEN 'immediate' THEN 4
+            WHEN 'urgent' THEN 3
+            WHEN 'normal' THEN 2
+            WHEN 'low' THEN 1
+            ELSE 0
+        END DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- plpgsql so the function can be created even when the product_type column is missing
+CREATE OR REPLACE FUNCTION match_visual_issues(
+    query_embedding vector,
+    query_embedding_model text,
+    product_type_filter text DEFAULT NULL,
+    match_threshold float DEFAULT 0.7,
+    match_count int DEFAULT 5
+)
+RETURNS TABLE (
+    id uuid,
+    title text,
+    content text,
+    icon_name text,
+    icon_description text,
+    product_type text,
+    severity_level text,
+    visual_indicators text[],
+    tags text[],
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        rd.id,
+        rd.title,
+        rd.content,
+        rd.icon_name,
+        rd.icon_description,
+        rd.product_type,
+        rd.severity_level,
+        rd.visual_indicators,
+        rd.tags,
+        embedding_similarity(rd.image_embedding, query_embedding) AS similarity
+    FROM rag_documents rd
+    WHERE rd.is_active = true
+      AND rd.image_embedding IS NOT NULL
+      AND rd.embedding_model = query_embedding_model
+      AND (product_type_filter IS NULL OR rd.product_type = product_type_filter)
+      AND embedding_similarity(rd.image_embedding, query_embedding) > match_threshold
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- plpgsql so the function can be created even when the product_category column is missing
+CREATE OR REPLACE FUNCTION match_product_issues(
+    query_embedding vector,
+    query_embedding_model text,
+    product_category_filter text DEFAULT NULL,
+    match_threshold float DEFAULT 0.7,
+    match_count int DEFAULT 5
+)
+RETURNS TABLE (
+    id uuid,
+    product_category text,
+    icon_name text,
+    icon_description text,
+    content text,
+    tags text[],
+    severity_level text,
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        rd.id,
+        rd.product_category,
+        rd.icon_name,
+        rd.icon_description,
+        rd.content,
+        rd.tags,
+        rd.severity_level,
+        embedding_similarity(rd.image_embedding, query_embedding) AS similarity
+    FROM rag_documents rd
+    WHERE rd.is_active = true
+      AND rd.embedding_model = query_embedding_model
+      AND (product_category_filter IS NULL OR rd.product_category = product_category_filter)
+      AND embedding_similarity(rd.image_embedding, query_embedding) > match_threshold
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION match_coffee_maker_icons(
+    query_embedding vector,
+    query_embedding_model text,
+    match_threshold float,
+    match_count int
+)
+RETURNS TABLE (
+    id uuid,
+    icon_name text,
+    icon_description text,
+    content text,
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        cmrd.id,
+        cmrd.icon_name,
+        cmrd.icon_description,
+        cmrd.content,
+        embedding_similarity(cmrd.image_embedding, query_embedding) AS similarity
+    FROM coffee_maker_rag_documents cmrd
+    WHERE cmrd.embedding_model = query_embedding_model
+      AND embedding_similarity(cmrd.image_embedding, query_embedding) > match_threshold
+    ORDER BY similarity DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION embedding_similarity TO service_role;
+GRANT EXECUTE ON FUNCTION search_hybrid_documents TO service_role;
+GRANT EXECUTE ON FUNCTION search_similar_documents TO service_role;
+GRANT EXECUTE ON FUNCTION search_similar_issues TO service_role;
+GRANT EXECUTE ON FUNCTION match_visual_issues TO service_role;
+GRANT EXECUTE ON FUNCTION match_product_issues TO service_role;
+GRANT EXECUTE ON FUNCTION match_coffee_maker_icons TO service_role;
+
+-- Rows that still need re-embedding with the active model
+SELECT embedding_model, embedding_dim, COUNT(*) AS documents
+FROM rag_documents
+GROUP BY embedding_model, embedding_dim
+ORDER BY documents DESC;
@@ -0,0 +1,34 @@
+-- Guided step-by-step troubleshooting
+--
+-- rag_documents.guided_flow holds a document's solution as ordered steps with yes/no branches
+-- (format in lib/guided-flows.ts). Documents without one can still be guided when their content
+-- is a numbered list. chat_sessions.guided_flow_state remembers where the user is in a flow.
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'guided_flow'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN guided_flow JSONB;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'chat_sessions' AND column_name = 'guided_flow_state'
+    ) THEN
+        ALTER TABLE chat_sessions ADD COLUMN guided_flow_state JSONB;
+    END IF;
+END $$;
+
+-- Example: a flow that sends the user to escalation when the light keeps blinking
+--
+-- UPDATE rag_documents SET guided_flow = '{
+--   "steps": [
+--     { "id": "power", "instruction": "電源を切り、カス受けを取り外して空にしてください" },
+--     { "id": "reinsert", "instruction": "カス受けを奥までしっかり差し込み、電源を入れてください" },
+--     { "id": "check", "instruction": "ランプの状態を確認してください",
+--       "check": "ランプの点滅は止まりましたか？",
+--       "onYes": { "complete": true }, "onNo": { "escalate": true } }
+--   ]
+-- }'::jsonb WHERE id = '<document id>';
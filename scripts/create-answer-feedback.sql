@@ -0,0 +1,78 @@
+-- Answer feedback: whether an answer helped, and whether it fixed the problem
+--
+-- Every completed analysis records the documents it was given (rag_answers); the chat pages then send
+-- thumbs up/down and "fixed it / didn't fix it" for the answer (answer_feedback, one row per answer).
+-- document_feedback_stats credits the feedback to the documents behind each answer: the cited ones
+-- when the answer cited any, otherwise all of them. lib/answer-feedback.ts turns the counts into the
+-- score that boosts or demotes a document in retrieval and flags it for review.
+-- Answers belong to the caller who asked (resolveOwnerId in lib/user-devices.ts); only that owner can
+-- rate them or read their feedback, and answers given without an owner id take no feedback.
+
+CREATE TABLE IF NOT EXISTS rag_answers (
+    -- PipelineState.answerId
+    id TEXT PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    owner_id TEXT,
+    pipeline TEXT NOT NULL,
+    -- rag_documents ids in the order they were shown to the model
+    document_ids UUID[] NOT NULL DEFAULT '{}',
+    cited_document_ids UUID[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_answers' AND column_name = 'owner_id'
+    ) THEN
+        ALTER TABLE rag_answers ADD COLUMN owner_id TEXT;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_rag_answers_session_id ON rag_answers(session_id, owner_id);
+CREATE INDEX IF NOT EXISTS idx_rag_answers_created_at ON rag_answers(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS answer_feedback (
+    answer_id TEXT PRIMARY KEY REFERENCES rag_answers(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL,
+    -- 1 thumbs up, -1 thumbs down, NULL not rated
+    rating SMALLINT CHECK (rating IN (-1, 1)),
+    -- TRUE fixed it, FALSE didn't fix it, NULL not reported
+    resolved BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_feedback_session_id ON answer_feedback(session_id);
+
+DROP TRIGGER IF EXISTS update_answer_feedback_updated_at ON answer_feedback;
+CREATE TRIGGER update_answer_feedback_updated_at BEFORE UPDATE ON answer_feedback
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Feedback per document. helpful/unhelpful only count answers without a reported outcome, so an
+-- answer that fixed the problem and got a thumbs up is counted once.
+CREATE OR REPLACE VIEW document_feedback_stats AS
+WITH credited AS (
+    SELECT
+        UNNEST(CASE WHEN cardinality(a.cited_document_ids) > 0 THEN a.cited_document_ids ELSE a.document_ids END)
+            AS document_id,
+        f.rating,
+        f.resolved,
+        f.updated_at
+    FROM answer_feedback f
+    JOIN rag_answers a ON a.id = f.answer_id
+    WHERE f.rating IS NOT NULL OR f.resolved IS NOT NULL
+)
+SELECT
+    document_id,
+    COUNT(*) AS answers,
+    COUNT(*) FILTER (WHERE resolved IS TRUE) AS resolved,
+    COUNT(*) FILTER (WHERE resolved IS FALSE) AS unresolved,
+    COUNT(*) FILTER (WHERE resolved IS NULL AND rating = 1) AS helpful,
+    COUNT(*) FILTER (WHERE resolved IS NULL AND rating = -1) AS unhelpful,
+    COUNT(*) FILTER (WHERE resolved IS TRUE)::float
+        / NULLIF(COUNT(*) FILTER (WHERE resolved IS NOT NULL), 0) AS resolution_rate,
+    MAX(updated_at) AS last_feedback_at
+FROM credited
+GROUP BY document_id;
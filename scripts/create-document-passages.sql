@@ -0,0 +1,132 @@
+-- Passages: rag_documents.content split into chunks, each with its own text embedding
+--
+-- Long manuals were only reachable through full-text search and were pasted into the prompt whole.
+-- lib/passages.ts splits each document into passages of a few hundred characters and embeds them with
+-- the active text embedding model. Rows are kept per embedding_model, so a re-embedding job can write
+-- the passages for its target model while search keeps using the current ones.
+--
+-- Requires scripts/add-embedding-model-tracking.sql (embedding_similarity).
+
+CREATE TABLE IF NOT EXISTS rag_document_passages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    document_id UUID NOT NULL REFERENCES rag_documents(id) ON DELETE CASCADE,
+    passage_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    -- Position in rag_documents.content, for highlighting
+    char_start INTEGER NOT NULL,
+    char_end INTEGER NOT NULL,
+    embedding vector NOT NULL,
+    embedding_model TEXT NOT NULL,
+    embedding_dim INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (document_id, embedding_model, passage_index),
+    CHECK (embedding_dim = vector_dims(embedding))
+);
+
+CREATE INDEX IF NOT EXISTS idx_rag_document_passages_document_id ON rag_document_passages(document_id);
+CREATE INDEX IF NOT EXISTS idx_rag_document_passages_embedding_model ON rag_document_passages(embedding_model);
+
+-- Best passages for the query across the knowledge base
+CREATE OR REPLACE FUNCTION search_document_passages(
+    query_embedding vector,
+    query_embedding_model text,
+    match_threshold float,
+    match_count int,
+    filter_category text DEFAULT NULL
+)
+RETURNS TABLE (
+    passage_id uuid,
+    document_id uuid,
+    passage_index int,
+    passage_content text,
+    title text,
+    content text,
+    category text,
+    tags text[],
+    icon_name text,
+    icon_description text,
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        p.id AS passage_id,
+        p.document_id,
+        p.passage_index,
+        p.content AS passage_content,
+        rd.title,
+        rd.content,
+        rd.category,
+        rd.tags,
+        rd.icon_name,
+        rd.icon_description,
+        scored.similarity
+    FROM rag_document_passages p
+    JOIN rag_documents rd ON rd.id = p.document_id
+    CROSS JOIN LATERAL (SELECT embedding_similarity(p.embedding, query_embedding) AS similarity) AS scored
+    WHERE p.embedding_model = query_embedding_model
+      AND rd.is_active = true
+      AND (filter_category IS NULL OR rd.category = filter_category)
+      AND scored.similarity > match_threshold
+    ORDER BY scored.similarity DESC
+    LIMIT match_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Best passages within the given documents, for documents that were found some other way
+CREATE OR REPLACE FUNCTION match_document_passages(
+    query_embedding vector,
+    query_embedding_model text,
+    document_ids uuid[],
+    per_document int DEFAULT 3
+)
+RETURNS TABLE (
+    passage_id uuid,
+    document_id uuid,
+    passage_index int,
+    passage_content text,
+    similarity double precision
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT ranked.passage_id, ranked.document_id, ranked.passage_index, ranked.passage_content, ranked.similarity
+    FROM (
+        SELECT
+            p.id AS passage_id,
+            p.document_id,
+            p.passage_index,
+            p.content AS passage_content,
+            embedding_similarity(p.embedding, query_embedding) AS similarity,
+            ROW_NUMBER() OVER (
+                PARTITION BY p.document_id
+                ORDER BY embedding_similarity(p.embedding, query_embedding) DESC
+            ) AS rank
+        FROM rag_document_passages p
+        WHERE p.embedding_model = query_embedding_model
+          AND p.document_id = ANY(document_ids)
+    ) AS ranked
+    WHERE ranked.rank <= per_document
+    ORDER BY ranked.document_id, ranked.similarity DESC;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION search_document_passages TO service_role;
+GRANT EXECUTE ON FUNCTION match_document_passages TO service_role;
+
+-- Documents without passages for a model, for the backfill in lib/passages.ts
+CREATE OR REPLACE FUNCTION documents_without_passages(p_embedding_model text, p_limit int DEFAULT 20)
+RETURNS TABLE (id uuid, title text, content text) AS $$
+    SELECT rd.id, rd.title, rd.content
+    FROM rag_documents rd
+    WHERE rd.is_active = true
+      AND rd.content IS NOT NULL
+      AND rd.content != ''
+      AND NOT EXISTS (
+          SELECT 1 FROM rag_document_passages p
+          WHERE p.document_id = rd.id AND p.embedding_model = p_embedding_model
+      )
+    ORDER BY rd.created_at
+    LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION documents_without_passages TO service_role;
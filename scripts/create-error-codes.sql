@@ -0,0 +1,30 @@
+-- Error code registry for exact-match retrieval
+--
+-- Codes shown on device displays ("E01", "H3") point at the rag_documents entry that explains them.
+-- Codes are stored normalized (upper case, no spaces or hyphens) and are unique per product type;
+-- product_type 'general' is used when the code means the same on every product (lib/error-codes.ts).
+
+CREATE TABLE IF NOT EXISTS error_codes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    code TEXT NOT NULL,
+    product_type TEXT NOT NULL DEFAULT 'general',
+    document_id UUID NOT NULL REFERENCES rag_documents(id) ON DELETE CASCADE,
+    description TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (code, product_type),
+    CHECK (code ~ '^[A-Z]{1,2}[0-9]{1,3}$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_error_codes_code ON error_codes(code);
+CREATE INDEX IF NOT EXISTS idx_error_codes_document_id ON error_codes(document_id);
+
+DROP TRIGGER IF EXISTS update_error_codes_updated_at ON error_codes;
+CREATE TRIGGER update_error_codes_updated_at BEFORE UPDATE ON error_codes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Example: the descaling entry answers E01 on coffee makers
+--
+-- INSERT INTO error_codes (code, product_type, document_id, description)
+-- VALUES ('E01', 'coffee_maker', '<document id>', '石灰がたまっています（除石灰が必要）')
+-- ON CONFLICT (code, product_type) DO UPDATE SET document_id = EXCLUDED.document_id;
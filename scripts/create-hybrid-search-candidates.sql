@@ -0,0 +1,89 @@
+-- Candidates for fused hybrid search
+--
+-- search_hybrid_documents adds cosine similarity and ts_rank, whose scales are not comparable, and cuts
+-- each side to match_count * 2 before merging. This function only collects the candidates: the best
+-- candidate_count rows of each source, ranked independently, with the raw score and rank from each
+-- source (NULL where the source did not return the document). lib/rag/fusion.ts fuses them with
+-- reciprocal rank fusion or min-max normalization.
+--
+-- Requires scripts/add-embedding-model-tracking.sql (embedding_similarity) and the full-text index in
+-- scripts/create-hybrid-search-function.sql.
+
+CREATE OR REPLACE FUNCTION search_hybrid_candidates(
+    query_embedding vector,
+    query_embedding_model text,
+    query_text text,
+    match_threshold float,
+    candidate_count int DEFAULT 50
+)
+RETURNS TABLE (
+    id uuid,
+    title text,
+    content text,
+    category text,
+    tags text[],
+    icon_name text,
+    icon_description text,
+    vector_score double precision,
+    vector_rank int,
+    text_score double precision,
+    text_rank int
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH vector_search AS (
+        SELECT
+            scored.id,
+            scored.score,
+            (ROW_NUMBER() OVER (ORDER BY scored.score DESC))::int AS rank
+        FROM (
+            SELECT rd.id, embedding_similarity(rd.image_embedding, query_embedding) AS score
+            FROM rag_documents rd
+            WHERE rd.image_embedding IS NOT NULL
+              AND rd.is_active = true
+              AND rd.embedding_model = query_embedding_model
+        ) AS scored
+        WHERE scored.score > match_threshold
+        ORDER BY scored.score DESC
+        LIMIT candidate_count
+    ),
+    full_text_search AS (
+        SELECT
+            scored.id,
+            scored.score,
+            (ROW_NUMBER() OVER (ORDER BY scored.score DESC))::int AS rank
+        FROM (
+            SELECT
+                rd.id,
+                ts_rank(
+                    to_tsvector('japanese', rd.title || ' ' || rd.content || ' ' || array_to_string(rd.tags, ' ')),
+                    websearch_to_tsquery('japanese', query_text)
+                )::double precision AS score
+            FROM rag_documents rd
+            WHERE rd.is_active = true
+              AND query_text != ''
+              AND websearch_to_tsquery('japanese', query_text) @@ to_tsvector('japanese', rd.title || ' ' || rd.content || ' ' || array_to_string(rd.tags, ' '))
+        ) AS scored
+        ORDER BY scored.score DESC
+        LIMIT candidate_count
+    )
+    SELECT
+        rd.id,
+        rd.title,
+        rd.content,
+        rd.category,
+        rd.tags,
+        rd.icon_name,
+        rd.icon_description,
+        vs.score AS vector_score,
+        vs.rank AS vector_rank,
+        fts.score AS text_score,
+        fts.rank AS text_rank
+    FROM vector_search vs
+    FULL OUTER JOIN full_text_search fts ON vs.id = fts.id
+    JOIN rag_documents rd ON rd.id = COALESCE(vs.id, fts.id)
+    ORDER BY LEAST(COALESCE(vs.rank, candidate_count + 1), COALESCE(fts.rank, candidate_count + 1));
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION search_hybrid_candidates TO service_role;
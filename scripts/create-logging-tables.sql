@@ -15,6 +15,47 @@ CREATE INDEX IF NOT EXISTS idx_intelligent_analysis_logs_session_id ON intellige
 CREATE INDEX IF NOT EXISTS idx_intelligent_analysis_logs_timestamp ON intelligent_analysis_logs(timestamp);
 CREATE INDEX IF NOT EXISTS idx_intelligent_analysis_logs_event_type ON intelligent_analysis_logs(event_type);
 
+-- Shared analyze pipeline logs (generic-rag, multimodal-rag, multimodal-troubleshoot)
+CREATE TABLE IF NOT EXISTS analysis_logs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    timestamp TIMESTAMPTZ DEFAULT NOW(),
+    analysis_data JSONB,
+    error_message TEXT,
+    processing_time_ms INTEGER,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_logs_session_id ON analysis_logs(session_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_logs_timestamp ON analysis_logs(timestamp);
+CREATE INDEX IF NOT EXISTS idx_analysis_logs_event_type ON analysis_logs(event_type);
+
+-- Daily outcome of intelligent-rag context extraction (metadata.contextExtraction in the log rows).
+-- failure_rate is the share of analyses that fell back to the generic context.
+-- Older rows store analysis_data as a JSON string, so unwrap it before reading fields.
+CREATE OR REPLACE VIEW context_extraction_stats AS
+SELECT
+    date_trunc('day', logged_at) AS day,
+    COUNT(*) AS analyses,
+    COUNT(*) FILTER (WHERE status = 'repaired') AS repaired,
+    COUNT(*) FILTER (WHERE status = 'retried') AS retried,
+    COUNT(*) FILTER (WHERE status = 'fallback') AS failed,
+    ROUND(COUNT(*) FILTER (WHERE status = 'fallback')::numeric / COUNT(*), 4) AS failure_rate
+FROM (
+    SELECT
+        timestamp AS logged_at,
+        (CASE
+            WHEN jsonb_typeof(analysis_data) = 'string' THEN (analysis_data #>> '{}')::jsonb
+            ELSE analysis_data
+        END) -> 'contextExtraction' ->> 'status' AS status
+    FROM intelligent_analysis_logs
+    WHERE event_type IN ('analysis_completed', 'analysis_failed')
+) extraction
+WHERE status IS NOT NULL
+GROUP BY 1
+ORDER BY 1 DESC;
+
 -- Create function for similarity search (if not exists)
 CREATE OR REPLACE FUNCTION search_similar_documents(
     query_embedding vector(1408),
@@ -0,0 +1,83 @@
+-- Manual ingestion: product manual PDFs, their transcribed pages, and the knowledge base entries
+-- proposed from their troubleshooting tables
+--
+-- lib/manual-ingestion.ts processes an uploaded PDF a few pages at a time. Proposals stay in
+-- manual_entry_proposals until an admin approves them; approving inserts a rag_documents row that
+-- keeps the source file and the PDF pages it came from (source_file_id, source_pages). Files and page
+-- images are stored base64 encoded, like rag_document_sources.image_data.
+
+CREATE TABLE IF NOT EXISTS manual_sources (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    file_size INTEGER NOT NULL,
+    file_data TEXT NOT NULL,
+    -- NULL until known; the model reports it when the PDF structure does not give it away
+    page_count INTEGER,
+    processed_pages INTEGER NOT NULL DEFAULT 0,
+    -- Applied to every approved entry
+    category TEXT NOT NULL DEFAULT 'general',
+    model_numbers TEXT[] DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'ready', 'failed')),
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_sources_created_at ON manual_sources(created_at DESC);
+
+DROP TRIGGER IF EXISTS update_manual_sources_updated_at ON manual_sources;
+CREATE TRIGGER update_manual_sources_updated_at BEFORE UPDATE ON manual_sources
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS manual_pages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    source_id UUID NOT NULL REFERENCES manual_sources(id) ON DELETE CASCADE,
+    -- 1-based position in the PDF
+    page_number INTEGER NOT NULL,
+    -- The page number printed on the page ("23"), which is what readers of the paper manual look up
+    printed_page TEXT,
+    text TEXT NOT NULL DEFAULT '',
+    -- JPEG rendering of the page; NULL when sharp was built without PDF support
+    image_data TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (source_id, page_number)
+);
+
+CREATE TABLE IF NOT EXISTS manual_entry_proposals (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    source_id UUID NOT NULL REFERENCES manual_sources(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    icon_name TEXT NOT NULL,
+    icon_description TEXT NOT NULL DEFAULT '',
+    steps TEXT[] DEFAULT '{}',
+    severity_level TEXT NOT NULL DEFAULT 'medium' CHECK (severity_level IN ('critical', 'high', 'medium', 'low')),
+    tags TEXT[] DEFAULT '{}',
+    -- PDF pages (manual_pages.page_number) the table row appears on
+    pages INTEGER[] NOT NULL DEFAULT '{}',
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    -- Set when approved
+    document_id UUID REFERENCES rag_documents(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_manual_entry_proposals_source_id ON manual_entry_proposals(source_id, status);
+
+DROP TRIGGER IF EXISTS update_manual_entry_proposals_updated_at ON manual_entry_proposals;
+CREATE TRIGGER update_manual_entry_proposals_updated_at BEFORE UPDATE ON manual_entry_proposals
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Where an approved entry came from
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'source_file_id'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN source_file_id UUID REFERENCES manual_sources(id) ON DELETE SET NULL;
+        ALTER TABLE rag_documents ADD COLUMN source_pages INTEGER[] DEFAULT '{}';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_rag_documents_source_file_id ON rag_documents(source_file_id);
@@ -0,0 +1,44 @@
+-- Product model catalog for device identification
+--
+-- Model numbers read off the rating label or front panel are matched against this table to pick the
+-- product type automatically (lib/device-identification.ts). Model numbers and aliases are stored
+-- normalized (upper case, no spaces or hyphens); aliases cover regional or retailer variants.
+--
+-- rag_documents.model_numbers scopes a document to particular models. An empty list means the
+-- document applies to every model of its product type.
+
+CREATE TABLE IF NOT EXISTS product_models (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    brand TEXT NOT NULL,
+    model_number TEXT NOT NULL UNIQUE,
+    display_name TEXT NOT NULL,
+    product_type TEXT NOT NULL DEFAULT 'general',
+    aliases TEXT[] DEFAULT '{}',
+    is_active BOOLEAN DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_models_product_type ON product_models(product_type);
+CREATE INDEX IF NOT EXISTS idx_product_models_aliases ON product_models USING GIN(aliases);
+
+DROP TRIGGER IF EXISTS update_product_models_updated_at ON product_models;
+CREATE TRIGGER update_product_models_updated_at BEFORE UPDATE ON product_models
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'rag_documents' AND column_name = 'model_numbers') THEN
+        ALTER TABLE rag_documents ADD COLUMN model_numbers TEXT[] DEFAULT '{}';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_rag_documents_model_numbers ON rag_documents USING GIN(model_numbers);
+
+-- Example: a coffee maker sold under two model numbers
+--
+-- INSERT INTO product_models (brand, model_number, display_name, product_type, aliases)
+-- VALUES ('Acme', 'CM200', 'Acme CM-200 コーヒーメーカー', 'coffee_maker', ARRAY['CM200W'])
+-- ON CONFLICT (model_number) DO UPDATE SET aliases = EXCLUDED.aliases;
+--
+-- UPDATE rag_documents SET model_numbers = ARRAY['CM200'] WHERE id = '<document id>';
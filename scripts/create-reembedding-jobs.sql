@@ -0,0 +1,272 @@
+-- Re-embedding jobs for switching embedding models
+--
+-- Requires scripts/add-embedding-model-tracking.sql. A job writes vectors for the target model into
+-- the *_next columns while search keeps using the current ones, then activate_embedding_migration()
+-- swaps every migrated row over in a single transaction.
+
+-- Original images kept so vectors can be regenerated later (kept out of rag_documents so that
+-- SELECT * on the knowledge base stays light)
+CREATE TABLE IF NOT EXISTS rag_document_sources (
+    document_id UUID PRIMARY KEY REFERENCES rag_documents(id) ON DELETE CASCADE,
+    image_data TEXT NOT NULL, -- base64 without data URL prefix
+    mime_type TEXT NOT NULL DEFAULT 'image/jpeg',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'image_embedding_next'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN image_embedding_next vector;
+        ALTER TABLE rag_documents ADD COLUMN embedding_model_next TEXT;
+        ALTER TABLE rag_documents ADD COLUMN embedding_dim_next INTEGER;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'rag_documents' AND column_name = 'embedding_version'
+    ) THEN
+        ALTER TABLE rag_documents ADD COLUMN embedding_version INTEGER NOT NULL DEFAULT 1;
+    END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS embedding_migration_jobs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    source_model TEXT,
+    target_model TEXT NOT NULL,
+    target_dim INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending', -- pending, running, paused, completed, activated, cancelled
+    dry_run BOOLEAN NOT NULL DEFAULT false,
+    text_fallback BOOLEAN NOT NULL DEFAULT false, -- embed title/description when no source image is stored
+    batch_size INTEGER NOT NULL DEFAULT 10,
+    max_retries INTEGER NOT NULL DEFAULT 3,
+    total_documents INTEGER NOT NULL DEFAULT 0,
+    processed_documents INTEGER NOT NULL DEFAULT 0,
+    failed_documents INTEGER NOT NULL DEFAULT 0,
+    skipped_documents INTEGER NOT NULL DEFAULT 0,
+    plan JSONB DEFAULT '{}',
+    last_error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    activated_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS embedding_migration_failures (
+    job_id UUID REFERENCES embedding_migration_jobs(id) ON DELETE CASCADE,
+    document_id UUID REFERENCES rag_documents(id) ON DELETE CASCADE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (job_id, document_id)
+);
+
+-- Documents a worker has taken; other workers skip them until leased_until, so a job picked up by a
+-- second worker never embeds the same document twice
+CREATE TABLE IF NOT EXISTS embedding_migration_leases (
+    job_id UUID REFERENCES embedding_migration_jobs(id) ON DELETE CASCADE,
+    document_id UUID REFERENCES rag_documents(id) ON DELETE CASCADE,
+    leased_until TIMESTAMP WITH TIME ZONE NOT NULL,
+    PRIMARY KEY (job_id, document_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_migration_jobs_status ON embedding_migration_jobs(status);
+CREATE INDEX IF NOT EXISTS idx_rag_documents_embedding_model_next ON rag_documents(embedding_model_next);
+
+-- Counts what a job for target_model would do, without touching anything
+CREATE OR REPLACE FUNCTION plan_embedding_migration(target_model text, text_fallback boolean DEFAULT false)
+RETURNS TABLE (
+    total_documents bigint,
+    already_migrated bigint,
+    from_source_image bigint,
+    from_text bigint,
+    without_source bigint
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COUNT(*) AS total_documents,
+        COUNT(*) FILTER (WHERE rd.embedding_model_next = target_model) AS already_migrated,
+        COUNT(*) FILTER (WHERE rd.embedding_model_next IS DISTINCT FROM target_model AND src.document_id IS NOT NULL) AS from_source_image,
+        COUNT(*) FILTER (WHERE rd.embedding_model_next IS DISTINCT FROM target_model AND src.document_id IS NULL AND text_fallback) AS from_text,
+        COUNT(*) FILTER (WHERE rd.embedding_model_next IS DISTINCT FROM target_model AND src.document_id IS NULL AND NOT text_fallback) AS without_source
+    FROM rag_documents rd
+    LEFT JOIN rag_document_sources src ON src.document_id = rd.id
+    WHERE rd.is_active = true;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Documents a job still has to embed. Documents that already failed max_retries times and
+-- documents with nothing to embed from are left out; an empty queue means the job is done.
+CREATE OR REPLACE FUNCTION embedding_migration_queue(p_job_id uuid)
+RETURNS TABLE (
+    document_id uuid,
+    attempts integer
+) AS $$
+DECLARE
+    job embedding_migration_jobs%ROWTYPE;
+BEGIN
+    SELECT * INTO job FROM embedding_migration_jobs WHERE id = p_job_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Embedding migration job % not found', p_job_id;
+    END IF;
+
+    RETURN QUERY
+    SELECT rd.id AS document_id, COALESCE(f.attempts, 0) AS attempts
+    FROM rag_documents rd
+    LEFT JOIN rag_document_sources src ON src.document_id = rd.id
+    LEFT JOIN embedding_migration_failures f ON f.job_id = job.id AND f.document_id = rd.id
+    WHERE rd.is_active = true
+      AND rd.embedding_model_next IS DISTINCT FROM job.target_model
+      AND (src.document_id IS NOT NULL OR job.text_fallback)
+      AND COALESCE(f.attempts, 0) < job.max_retries;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Leases the next documents of the queue to the calling worker, so calling this repeatedly resumes
+-- the job. Documents leased by another worker are skipped, and SKIP LOCKED keeps two concurrent
+-- calls from leasing the same rows. The worker releases each lease once the document is processed;
+-- leases of a worker that died expire after p_lease.
+DROP FUNCTION IF EXISTS next_embedding_migration_batch(uuid, int);
+CREATE OR REPLACE FUNCTION next_embedding_migration_batch(
+    p_job_id uuid,
+    p_batch_size int DEFAULT 10,
+    p_lease interval DEFAULT interval '10 minutes'
+)
+RETURNS TABLE (
+    document_id uuid,
+    title text,
+    icon_description text,
+    content text,
+    image_data text,
+    mime_type text,
+    attempts integer
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH queued AS (
+        SELECT * FROM embedding_migration_queue(p_job_id)
+    ),
+    candidates AS (
+        SELECT rd.id, rd.created_at
+        FROM rag_documents rd
+        JOIN queued q ON q.document_id = rd.id
+        LEFT JOIN embedding_migration_leases l ON l.job_id = p_job_id AND l.document_id = rd.id
+        WHERE l.document_id IS NULL OR l.leased_until < NOW()
+        ORDER BY rd.created_at, rd.id
+        LIMIT p_batch_size
+        FOR UPDATE OF rd SKIP LOCKED
+    ),
+    leased AS (
+        INSERT INTO embedding_migration_leases (job_id, document_id, leased_until)
+        SELECT p_job_id, c.id, NOW() + p_lease FROM candidates c
+        ON CONFLICT ON CONSTRAINT embedding_migration_leases_pkey DO UPDATE SET leased_until = EXCLUDED.leased_until
+        RETURNING embedding_migration_leases.document_id
+    )
+    SELECT
+        rd.id AS document_id,
+        rd.title,
+        rd.icon_description,
+        rd.content,
+        src.image_data,
+        src.mime_type,
+        q.attempts
+    FROM leased
+    JOIN rag_documents rd ON rd.id = leased.document_id
+    JOIN queued q ON q.document_id = rd.id
+    LEFT JOIN rag_document_sources src ON src.document_id = rd.id
+    ORDER BY rd.created_at, rd.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Adds a batch's results to the job counters in one statement, so concurrent workers never
+-- overwrite each other's counts. Also bumps updated_at, which serves as the worker's heartbeat.
+CREATE OR REPLACE FUNCTION record_embedding_migration_batch(
+    p_job_id uuid,
+    p_processed int,
+    p_failed int,
+    p_last_error text
+)
+RETURNS SETOF embedding_migration_jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE embedding_migration_jobs
+    SET processed_documents = processed_documents + p_processed,
+        failed_documents = failed_documents + p_failed,
+        last_error = COALESCE(p_last_error, last_error),
+        updated_at = NOW()
+    WHERE id = p_job_id
+    RETURNING *;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Swaps every migrated row to the target model in one transaction and marks the job activated.
+-- Refuses while documents are still queued, and while any failed unless p_allow_partial is set.
+CREATE OR REPLACE FUNCTION activate_embedding_migration(p_job_id uuid, p_allow_partial boolean DEFAULT false)
+RETURNS TABLE (
+    activated_documents integer,
+    left_behind_documents integer
+) AS $$
+DECLARE
+    job embedding_migration_jobs%ROWTYPE;
+    pending_count integer;
+    failed_count integer;
+    swapped_count integer;
+    remaining_count integer;
+BEGIN
+    SELECT * INTO job FROM embedding_migration_jobs WHERE id = p_job_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Embedding migration job % not found', p_job_id;
+    END IF;
+
+    IF job.dry_run THEN
+        RAISE EXCEPTION 'Dry-run jobs cannot be activated';
+    END IF;
+
+    IF job.status <> 'completed' THEN
+        RAISE EXCEPTION 'Job % is %, only completed jobs can be activated', p_job_id, job.status;
+    END IF;
+
+    SELECT COUNT(*) INTO pending_count FROM embedding_migration_queue(p_job_id);
+    IF pending_count > 0 THEN
+        RAISE EXCEPTION '% documents are still waiting to be re-embedded', pending_count;
+    END IF;
+
+    SELECT COUNT(*) INTO failed_count
+    FROM embedding_migration_failures
+    WHERE job_id = p_job_id AND attempts >= job.max_retries;
+    IF failed_count > 0 AND NOT p_allow_partial THEN
+        RAISE EXCEPTION '% documents failed to re-embed; retry them or activate with allow_partial', failed_count;
+    END IF;
+
+    UPDATE rag_documents
+    SET image_embedding = image_embedding_next,
+        embedding_model = embedding_model_next,
+        embedding_dim = embedding_dim_next,
+        embedding_version = embedding_version + 1,
+        image_embedding_next = NULL,
+        embedding_model_next = NULL,
+        embedding_dim_next = NULL
+    WHERE embedding_model_next = job.target_model;
+    GET DIAGNOSTICS swapped_count = ROW_COUNT;
+
+    SELECT COUNT(*) INTO remaining_count
+    FROM rag_documents
+    WHERE is_active = true AND embedding_model IS DISTINCT FROM job.target_model;
+
+    UPDATE embedding_migration_jobs
+    SET status = 'activated', activated_at = NOW(), updated_at = NOW()
+    WHERE id = p_job_id;
+
+    RETURN QUERY SELECT swapped_count, remaining_count;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION plan_embedding_migration TO service_role;
+GRANT EXECUTE ON FUNCTION embedding_migration_queue TO service_role;
+GRANT EXECUTE ON FUNCTION next_embedding_migration_batch TO service_role;
+GRANT EXECUTE ON FUNCTION record_embedding_migration_batch TO service_role;
+GRANT EXECUTE ON FUNCTION activate_embedding_migration TO service_role;
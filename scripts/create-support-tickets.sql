@@ -0,0 +1,47 @@
+-- Human escalation: support tickets handed off from the vision chat
+--
+-- Every escalation is recorded here first. The configured ticket adapter then delivers it; with the
+-- default database adapter this table is the ticket system, with the HTTP adapter external_id and
+-- external_url point at the ticket in the helpdesk tool.
+-- Tickets belong to the owner who escalated (resolveOwnerId in lib/user-devices.ts), and only that
+-- owner can list, read or retry them through the API.
+
+CREATE TABLE IF NOT EXISTS support_tickets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    session_id TEXT,
+    status TEXT NOT NULL DEFAULT 'open', -- open, handoff_failed, in_progress, resolved, closed
+    reasons TEXT[] NOT NULL DEFAULT '{}', -- no_documents, critical_urgency, user_request, guided_flow_failed
+    urgency_level TEXT,
+    device_type TEXT,
+    summary TEXT NOT NULL,
+    -- Extracted context, retrieved documents, steps already tried and recommended actions
+    handoff JSONB NOT NULL DEFAULT '{}',
+    -- Captured frames as data URLs; kept apart from handoff so listings stay light
+    frames JSONB NOT NULL DEFAULT '[]',
+    adapter TEXT NOT NULL,
+    external_id TEXT,
+    external_url TEXT,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'support_tickets' AND column_name = 'owner_id'
+    ) THEN
+        ALTER TABLE support_tickets ADD COLUMN owner_id TEXT;
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_support_tickets_owner_id ON support_tickets(owner_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_support_tickets_session_id ON support_tickets(session_id);
+CREATE INDEX IF NOT EXISTS idx_support_tickets_status ON support_tickets(status);
+CREATE INDEX IF NOT EXISTS idx_support_tickets_created_at ON support_tickets(created_at DESC);
+
+DROP TRIGGER IF EXISTS update_support_tickets_updated_at ON support_tickets;
+CREATE TRIGGER update_support_tickets_updated_at BEFORE UPDATE ON support_tickets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
@@ -0,0 +1,50 @@
+-- Device registry: the appliances a user troubleshoots, and the issues found on each of them
+--
+-- owner_id is the Supabase auth user id for signed-in users, or the anonymous id the browser keeps in
+-- localStorage ("anon_..."); see lib/user-devices.ts. Photos are small data URLs, like chat images.
+-- Requires scripts/create-product-models.sql for the product_models reference.
+
+CREATE TABLE IF NOT EXISTS user_devices (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    nickname TEXT NOT NULL,
+    product_model_id UUID REFERENCES product_models(id) ON DELETE SET NULL,
+    -- As written on the label, for devices missing from the catalog
+    model_number TEXT,
+    serial_number TEXT,
+    purchase_date DATE,
+    location TEXT,
+    photos JSONB DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_owner_id ON user_devices(owner_id);
+
+DROP TRIGGER IF EXISTS update_user_devices_updated_at ON user_devices;
+CREATE TRIGGER update_user_devices_updated_at BEFORE UPDATE ON user_devices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per conversation about a device, updated as the conversation goes on
+CREATE TABLE IF NOT EXISTS device_issues (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    device_id UUID NOT NULL REFERENCES user_devices(id) ON DELETE CASCADE,
+    session_id TEXT NOT NULL,
+    issue TEXT NOT NULL,
+    error_codes TEXT[] DEFAULT '{}',
+    -- Top knowledge base document suggested for the issue
+    document_id UUID REFERENCES rag_documents(id) ON DELETE SET NULL,
+    document_title TEXT,
+    -- What fixed it, entered by the user when marking the issue resolved
+    resolution TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (device_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_device_issues_device_id ON device_issues(device_id, created_at DESC);
+
+DROP TRIGGER IF EXISTS update_device_issues_updated_at ON device_issues;
+CREATE TRIGGER update_device_issues_updated_at BEFORE UPDATE ON device_issues
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,141 @@
+// Retrieval evaluation runner: sends each golden case to a running dev server
+// (/api/debug/retrieval-eval, lib/retrieval-eval.ts) and reports recall@k and MRR per variant, overall
+// and per category.
+//
+//   node scripts/evaluate-retrieval.mjs evals/retrieval/golden-set.json \
+//     [--variants evals/retrieval/variants.json] [--k 1,3,5] [--url http://localhost:3000] [--out report.json]
+//
+// Image paths in the golden set are relative to the golden set file. Cases run one at a time; a case
+// the server could not run is listed as failed and left out of the averages.
+
+import { readFile, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { parseArgs } from "node:util"
+
+const MIME_TYPES = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".webp": "image/webp",
+}
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    variants: { type: "string" },
+    k: { type: "string", default: "1,3,5" },
+    url: { type: "string", default: process.env.EVAL_BASE_URL || "http://localhost:3000" },
+    out: { type: "string" },
+  },
+})
+
+if (positionals.length !== 1) {
+  console.error("Usage: node scripts/evaluate-retrieval.mjs <golden-set.json> [--variants file] [--k 1,3,5] [--url url] [--out file]")
+  process.exit(2)
+}
+
+const goldenPath = path.resolve(positionals[0])
+const golden = JSON.parse(await readFile(goldenPath, "utf8"))
+const variants = options.variants
+  ? JSON.parse(await readFile(path.resolve(options.variants), "utf8")).variants
+  : [{ name: "baseline", tuning: {} }]
+const ks = options.k.split(",").map(Number)
+
+async function loadCase(testCase) {
+  const imagePath = path.resolve(path.dirname(goldenPath), testCase.image)
+  const mimeType = MIME_TYPES[path.extname(imagePath).toLowerCase()]
+  if (!mimeType) {
+    throw new Error(`Unsupported image type: ${testCase.image}`)
+  }
+
+  const { image, ...rest } = testCase
+  return { ...rest, imageBase64: (await readFile(imagePath)).toString("base64"), mimeType }
+}
+
+async function runCase(testCase) {
+  const response = await fetch(new URL("/api/debug/retrieval-eval", options.url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ case: await loadCase(testCase), variants, ks }),
+  })
+  const body = await response.json()
+  if (!body.success) {
+    throw new Error(body.error || `HTTP ${response.status}`)
+  }
+  return body.result
+}
+
+function emptyTotals() {
+  return { cases: 0, recall: Object.fromEntries(ks.map((k) => [k, 0])), reciprocalRank: 0 }
+}
+
+function addTo(totals, variantResult) {
+  totals.cases++
+  ks.forEach((k) => (totals.recall[k] += variantResult.recall[k]))
+  totals.reciprocalRank += variantResult.reciprocalRank
+}
+
+function averages(totals) {
+  return {
+    cases: totals.cases,
+    recall: Object.fromEntries(ks.map((k) => [k, totals.cases ? totals.recall[k] / totals.cases : 0])),
+    mrr: totals.cases ? totals.reciprocalRank / totals.cases : 0,
+  }
+}
+
+function formatRow(label, summary) {
+  const metrics = [...ks.map((k) => summary.recall[k]), summary.mrr].map((value) => value.toFixed(3).padStart(9))
+  return `${label.padEnd(28)}${String(summary.cases).padStart(6)}${metrics.join("")}`
+}
+
+const results = []
+const failed = []
+for (const [index, testCase] of golden.cases.entries()) {
+  process.stdout.write(`[${index + 1}/${golden.cases.length}] ${testCase.id} ... `)
+  try {
+    const result = await runCase(testCase)
+    results.push(result)
+    console.log(result.results.map((r) => `${r.variant}: rank ${r.firstRelevantRank ?? "-"}`).join(", "))
+  } catch (error) {
+    failed.push({ caseId: testCase.id, error: error.message })
+    console.log(`failed: ${error.message}`)
+  }
+}
+
+const summary = variants.map(({ name }) => {
+  const overall = emptyTotals()
+  const byCategory = {}
+  for (const result of results) {
+    const variantResult = result.results.find((r) => r.variant === name)
+    addTo(overall, variantResult)
+    addTo((byCategory[result.category] ??= emptyTotals()), variantResult)
+  }
+  return {
+    variant: name,
+    ...averages(overall),
+    categories: Object.fromEntries(Object.entries(byCategory).map(([category, totals]) => [category, averages(totals)])),
+  }
+})
+
+const header = `${"".padEnd(28)}${"cases".padStart(6)}${ks.map((k) => `recall@${k}`.padStart(9)).join("")}${"MRR".padStart(9)}`
+console.log(`\n${header}`)
+for (const variant of summary) {
+  console.log(formatRow(variant.variant, variant))
+}
+for (const variant of summary) {
+  console.log(`\n${variant.variant} by category`)
+  for (const [category, categorySummary] of Object.entries(variant.categories)) {
+    console.log(formatRow(`  ${category}`, categorySummary))
+  }
+}
+if (failed.length > 0) {
+  console.log(`\n${failed.length} case(s) failed: ${failed.map((f) => f.caseId).join(", ")}`)
+}
+
+if (options.out) {
+  const report = { createdAt: new Date().toISOString(), goldenSet: positionals[0], ks, variants, summary, results, failed }
+  await writeFile(options.out, `${JSON.stringify(report, null, 2)}\n`)
+  console.log(`\nReport written to ${options.out}`)
+}
+
+process.exit(failed.length > 0 ? 1 : 0)